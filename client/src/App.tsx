@@ -13,6 +13,13 @@ import CourseContentPage from "@/pages/course-content";
 import NotFound from "@/pages/not-found";
 import ProfilePage from "@/pages/profile";
 import SubmitAssignmentPage from "@/pages/submit-assignment"; // Import the SubmitAssignmentPage component
+import SubmissionViewPage from "@/pages/submission-view";
+import GradeSubmissionsPage from "@/pages/grade-submissions";
+import GradebookPage from "@/pages/gradebook";
+import MyGradesPage from "@/pages/my-grades";
+import AnalyticsPage from "@/pages/analytics";
+import StudentsPage from "@/pages/students";
+import ProgressPage from "@/pages/progress";
 import { useAuth } from "@/hooks/use-auth";
 
 /**
@@ -48,7 +55,7 @@ function ProtectedRoute({ component: Component, allowedRoles }: { component: any
 /**
  * Defines the application's route structure and access control.
  *
- * Configures routes for authentication, dashboard, courses, assignments, profile, and dynamic course content and assignment submission pages. Most routes are protected by authentication and, where specified, role-based access using the {@link ProtectedRoute} component. Unmatched routes render the {@link NotFound} page.
+ * Configures routes for authentication, dashboard, courses, assignments, profile, gradebook, grades, progress, analytics and students, and dynamic course content, assignment submission, grading and submission history pages. Most routes are protected by authentication and, where specified, role-based access using the {@link ProtectedRoute} component. Unmatched routes render the {@link NotFound} page.
  */
 function Router() {
   return (
@@ -60,8 +67,15 @@ function Router() {
       <Route path="/content" component={() => <ProtectedRoute component={ContentManagement} allowedRoles={["teacher"]} />} />
       <Route path="/assignments" component={() => <ProtectedRoute component={Assignments} />} />
       <Route path="/profile" component={() => <ProtectedRoute component={ProfilePage} />} />
+      <Route path="/gradebook" component={() => <ProtectedRoute component={GradebookPage} allowedRoles={["teacher"]} />} />
+      <Route path="/grades" component={() => <ProtectedRoute component={MyGradesPage} allowedRoles={["student"]} />} />
+      <Route path="/progress" component={() => <ProtectedRoute component={ProgressPage} allowedRoles={["student"]} />} />
+      <Route path="/analytics" component={() => <ProtectedRoute component={AnalyticsPage} allowedRoles={["teacher"]} />} />
+      <Route path="/students" component={() => <ProtectedRoute component={StudentsPage} allowedRoles={["teacher"]} />} />
       <Route path="/courses/:courseId/content" component={() => <ProtectedRoute component={CourseContentPage} />} />
       <Route path="/courses/:courseId/assignments/:assignmentId/submit" component={() => <ProtectedRoute component={SubmitAssignmentPage} />} /> {/* Add assignment submission route */}
+      <Route path="/assignments/:assignmentId/grade" component={() => <ProtectedRoute component={GradeSubmissionsPage} allowedRoles={["teacher"]} />} />
+      <Route path="/submissions/:submissionId" component={() => <ProtectedRoute component={SubmissionViewPage} />} />
       <Route component={NotFound} />
     </Switch>
   );
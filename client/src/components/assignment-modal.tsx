@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
-import { X, Calendar } from "lucide-react";
+import { X, Calendar, ListChecks } from "lucide-react";
 import {
   Dialog,
   DialogContent,
@@ -19,7 +19,15 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { FileAttachments } from "@/components/file-attachments";
+import { RubricPicker } from "@/components/rubric-picker";
+import { QuizEditorModal } from "@/components/quiz-editor-modal";
+import { localTimeZone, toDeadline } from "@/lib/deadlines";
+import { gradebookUrl, gradeCategoriesUrl } from "@/lib/grades";
+import { rubricMaxPoints } from "@shared/rubrics";
+import { quizMaxPoints, quizQuestionCount } from "@shared/quizzes";
+import type { AssignmentType, GradeCategory, InsertQuiz, LatePolicy } from "@shared/schema";
 
 interface AssignmentModalProps {
   isOpen: boolean;
@@ -33,22 +41,40 @@ export function AssignmentModal({ isOpen, onClose }: AssignmentModalProps) {
     title: "",
     description: "",
     courseId: "",
-    dueDate: "",
+    type: "standard" as AssignmentType,
+    dueDate: "", // datetime-local values, in the teacher's timezone
+    lockDate: "",
+    latePolicy: "accept" as LatePolicy,
+    latePenaltyPercent: "",
     maxPoints: 100,
     instructions: "",
+    allowedFileTypes: "", // Comma-separated extensions; blank allows any supported type
+    maxFileSizeMb: "",
   });
+  const [attachmentIds, setAttachmentIds] = useState<number[]>([]);
+  const [rubricId, setRubricId] = useState<number | null>(null);
+  const [categoryId, setCategoryId] = useState<number | null>(null);
+  const [quiz, setQuiz] = useState<InsertQuiz | null>(null);
+  const [showQuizEditor, setShowQuizEditor] = useState(false);
+  const isQuiz = formData.type === "quiz";
 
   const { data: courses = [] } = useQuery({
     queryKey: ["/api/courses"],
   });
+  const { data: categories = [] } = useQuery<GradeCategory[]>({
+    queryKey: [gradeCategoriesUrl(formData.courseId)],
+    enabled: isOpen && !!formData.courseId,
+  });
 
   const createAssignmentMutation = useMutation({
     mutationFn: async (data: any) => {
       const res = await apiRequest("POST", "/api/assignments", data);
       return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (_assignment, data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/assignments"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/courses/${data.courseId}/uploads`] });
+      queryClient.invalidateQueries({ queryKey: [gradebookUrl(data.courseId)] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
       toast({
         title: "Assignment created successfully!",
@@ -57,10 +83,10 @@ export function AssignmentModal({ isOpen, onClose }: AssignmentModalProps) {
       resetForm();
       onClose();
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Failed to create assignment",
-        description: "Please check your input and try again.",
+        description: apiErrorMessage(error, "Please check your input and try again."),
         variant: "destructive",
       });
     },
@@ -71,10 +97,20 @@ export function AssignmentModal({ isOpen, onClose }: AssignmentModalProps) {
       title: "",
       description: "",
       courseId: "",
+      type: "standard",
       dueDate: "",
+      lockDate: "",
+      latePolicy: "accept",
+      latePenaltyPercent: "",
       maxPoints: 100,
       instructions: "",
+      allowedFileTypes: "",
+      maxFileSizeMb: "",
     });
+    setAttachmentIds([]);
+    setRubricId(null);
+    setCategoryId(null);
+    setQuiz(null);
   };
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -98,7 +134,16 @@ export function AssignmentModal({ isOpen, onClose }: AssignmentModalProps) {
       return;
     }
 
-    if (formData.maxPoints <= 0) {
+    if (isQuiz && !quiz) {
+      toast({
+        title: "Validation Error",
+        description: "Add the quiz's questions.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!isQuiz && formData.maxPoints <= 0) {
       toast({
         title: "Validation Error",
         description: "Max points must be greater than 0.",
@@ -107,9 +152,43 @@ export function AssignmentModal({ isOpen, onClose }: AssignmentModalProps) {
       return;
     }
 
+    if (formData.lockDate && !formData.dueDate) {
+      toast({
+        title: "Validation Error",
+        description: "Set a due date before setting a lock date.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (formData.latePolicy === "deduct" && !(parseInt(formData.latePenaltyPercent) > 0)) {
+      toast({
+        title: "Validation Error",
+        description: "Set the percentage to deduct per day late.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const { allowedFileTypes, maxFileSizeMb, dueDate, lockDate, latePenaltyPercent, ...assignment } = formData;
+    const fileTypes = allowedFileTypes
+      .split(",")
+      .map((type) => type.trim().toLowerCase())
+      .filter(Boolean)
+      .map((type) => (type.startsWith(".") ? type : `.${type}`));
+
     createAssignmentMutation.mutate({
-      ...formData,
+      ...assignment,
       courseId: parseInt(formData.courseId),
+      dueDate: toDeadline(dueDate),
+      lockDate: toDeadline(lockDate),
+      latePenaltyPercent: formData.latePolicy === "deduct" ? parseInt(latePenaltyPercent) : null,
+      allowedFileTypes: fileTypes.length > 0 ? fileTypes : null,
+      maxFileSize: maxFileSizeMb ? Math.round(parseFloat(maxFileSizeMb) * 1024 * 1024) : null,
+      attachmentIds,
+      rubricId: isQuiz ? null : rubricId,
+      categoryId,
+      quiz: isQuiz ? quiz : undefined,
     });
   };
 
@@ -118,16 +197,9 @@ export function AssignmentModal({ isOpen, onClose }: AssignmentModalProps) {
     onClose();
   };
 
-  // Format date for input (YYYY-MM-DD)
-  const formatDateForInput = (dateString: string) => {
-    if (!dateString) return "";
-    const date = new Date(dateString);
-    return date.toISOString().split('T')[0];
-  };
-
   return (
     <Dialog open={isOpen} onOpenChange={handleClose}>
-      <DialogContent className="sm:max-w-[600px]">
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <div className="flex items-center justify-between">
             <DialogTitle className="text-lg font-semibold text-gray-900 dark:text-white">
@@ -166,7 +238,12 @@ export function AssignmentModal({ isOpen, onClose }: AssignmentModalProps) {
             </Label>
             <Select
               value={formData.courseId}
-              onValueChange={(value) => setFormData({ ...formData, courseId: value })}
+              onValueChange={(value) => {
+                setFormData({ ...formData, courseId: value });
+                setAttachmentIds([]); // Files, rubrics and grade categories belong to a course
+                setRubricId(null);
+                setCategoryId(null);
+              }}
               disabled={createAssignmentMutation.isPending}
             >
               <SelectTrigger className="w-full">
@@ -190,8 +267,8 @@ export function AssignmentModal({ isOpen, onClose }: AssignmentModalProps) {
               <div className="relative">
                 <Input
                   id="dueDate"
-                  type="date"
-                  value={formatDateForInput(formData.dueDate)}
+                  type="datetime-local"
+                  value={formData.dueDate}
                   onChange={(e) => setFormData({ ...formData, dueDate: e.target.value })}
                   className="w-full"
                   disabled={createAssignmentMutation.isPending}
@@ -212,12 +289,144 @@ export function AssignmentModal({ isOpen, onClose }: AssignmentModalProps) {
                 placeholder="100"
                 min="1"
                 className="w-full"
-                disabled={createAssignmentMutation.isPending}
+                disabled={createAssignmentMutation.isPending || rubricId !== null || isQuiz} // Set by the rubric or quiz
                 required
               />
             </div>
           </div>
 
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="lockDate" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Lock Date
+              </Label>
+              <Input
+                id="lockDate"
+                type="datetime-local"
+                value={formData.lockDate}
+                onChange={(e) => setFormData({ ...formData, lockDate: e.target.value })}
+                className="w-full"
+                disabled={createAssignmentMutation.isPending}
+              />
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                No submissions after this, even late ones. Times are in {localTimeZone}.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="latePolicy" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Late Submissions
+              </Label>
+              <div className="flex gap-2">
+                <Select
+                  value={formData.latePolicy}
+                  onValueChange={(value) => setFormData({ ...formData, latePolicy: value as LatePolicy })}
+                  disabled={createAssignmentMutation.isPending}
+                >
+                  <SelectTrigger id="latePolicy" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="accept">Accept, marked late</SelectItem>
+                    <SelectItem value="deduct">Deduct per day late</SelectItem>
+                    <SelectItem value="reject">Don't accept</SelectItem>
+                  </SelectContent>
+                </Select>
+                {formData.latePolicy === "deduct" && (
+                  <Input
+                    type="number"
+                    value={formData.latePenaltyPercent}
+                    onChange={(e) => setFormData({ ...formData, latePenaltyPercent: e.target.value })}
+                    placeholder="%"
+                    min="1"
+                    max="100"
+                    className="w-20"
+                    aria-label="Percent deducted per day late"
+                    disabled={createAssignmentMutation.isPending}
+                  />
+                )}
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="assignmentType" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+              Type
+            </Label>
+            <div className="flex gap-2">
+              <Select
+                value={formData.type}
+                onValueChange={(value) => setFormData({
+                  ...formData,
+                  type: value as AssignmentType,
+                  maxPoints: value === "quiz" && quiz ? quizMaxPoints(quiz) : formData.maxPoints,
+                })}
+                disabled={createAssignmentMutation.isPending}
+              >
+                <SelectTrigger id="assignmentType" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="standard">Standard: students hand in work</SelectItem>
+                  <SelectItem value="quiz">Quiz: auto-graded questions</SelectItem>
+                </SelectContent>
+              </Select>
+              {isQuiz && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setShowQuizEditor(true)}
+                  disabled={createAssignmentMutation.isPending}
+                >
+                  <ListChecks className="mr-2 h-4 w-4" />
+                  {quiz ? `Edit Questions (${quizQuestionCount(quiz)})` : "Add Questions"}
+                </Button>
+              )}
+            </div>
+          </div>
+
+          {!isQuiz && (
+            <div className="space-y-2">
+              <Label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Rubric
+              </Label>
+              <RubricPicker
+                courseId={formData.courseId}
+                value={rubricId}
+                onChange={(rubric) => {
+                  setRubricId(rubric?.id ?? null);
+                  if (rubric) setFormData((current) => ({ ...current, maxPoints: rubricMaxPoints(rubric.criteria) }));
+                }}
+                disabled={createAssignmentMutation.isPending}
+              />
+            </div>
+          )}
+
+          {categories.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="gradeCategory" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Grade Category
+              </Label>
+              <Select
+                value={categoryId?.toString() ?? "none"}
+                onValueChange={(value) => setCategoryId(value === "none" ? null : parseInt(value, 10))}
+                disabled={createAssignmentMutation.isPending}
+              >
+                <SelectTrigger id="gradeCategory" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No category (doesn't count toward the grade)</SelectItem>
+                  {categories.map((category) => (
+                    <SelectItem key={category.id} value={category.id.toString()}>
+                      {category.title} ({category.weight}%)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label htmlFor="assignmentDescription" className="text-sm font-medium text-gray-700 dark:text-gray-300">
               Description
@@ -248,6 +457,51 @@ export function AssignmentModal({ isOpen, onClose }: AssignmentModalProps) {
             />
           </div>
 
+          {!isQuiz && <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="allowedFileTypes" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Allowed File Types
+              </Label>
+              <Input
+                id="allowedFileTypes"
+                value={formData.allowedFileTypes}
+                onChange={(e) => setFormData({ ...formData, allowedFileTypes: e.target.value })}
+                placeholder=".pdf, .zip, .py (blank = any)"
+                className="w-full"
+                disabled={createAssignmentMutation.isPending}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="maxFileSize" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Max File Size (MB)
+              </Label>
+              <Input
+                id="maxFileSize"
+                type="number"
+                value={formData.maxFileSizeMb}
+                onChange={(e) => setFormData({ ...formData, maxFileSizeMb: e.target.value })}
+                placeholder="Server default"
+                min="0.1"
+                step="0.1"
+                className="w-full"
+                disabled={createAssignmentMutation.isPending}
+              />
+            </div>
+          </div>}
+
+          <div className="space-y-2">
+            <Label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+              Attachments
+            </Label>
+            <FileAttachments
+              courseId={formData.courseId}
+              value={attachmentIds}
+              onChange={setAttachmentIds}
+              disabled={createAssignmentMutation.isPending}
+            />
+          </div>
+
           <div className="flex justify-end space-x-3">
             <Button
               type="button"
@@ -267,6 +521,17 @@ export function AssignmentModal({ isOpen, onClose }: AssignmentModalProps) {
           </div>
         </form>
       </DialogContent>
+
+      <QuizEditorModal
+        isOpen={showQuizEditor}
+        onClose={() => setShowQuizEditor(false)}
+        quiz={quiz ?? undefined}
+        courseId={formData.courseId}
+        onSaved={(saved) => {
+          setQuiz(saved);
+          setFormData((current) => ({ ...current, maxPoints: quizMaxPoints(saved) }));
+        }}
+      />
     </Dialog>
   );
 }
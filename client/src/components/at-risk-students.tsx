@@ -0,0 +1,246 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { AlertTriangle, History, RefreshCw, Settings } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { RiskThresholdsModal } from "@/components/risk-thresholds-modal";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { riskFlagsUrl, type RiskCheckResult, type RiskFlagWithHistory } from "@/lib/risk";
+import { RISK_RULE_LABELS, type RiskRule } from "@shared/risk";
+import type { Course } from "@shared/schema";
+
+type FlagAction = "acted" | "dismissed" | "reopened";
+
+const EVENT_LABELS: Record<string, string> = {
+  raised: "Flagged",
+  acted: "Followed up",
+  dismissed: "Dismissed",
+  reopened: "Reopened",
+  cleared: "Cleared by the check",
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  acted: "Followed up",
+  dismissed: "Dismissed",
+  cleared: "Cleared",
+};
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+/**
+ * The dashboard's early warnings: students the check flagged in the teacher's
+ * courses, with why. The teacher follows up on a flag with a note or
+ * dismisses it; either can be reopened while the flag still applies.
+ */
+export function AtRiskStudents({ courses }: { courses: Course[] }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [showAll, setShowAll] = useState(false);
+  const [showThresholds, setShowThresholds] = useState(false);
+  const [followingUp, setFollowingUp] = useState<RiskFlagWithHistory>();
+  const [note, setNote] = useState("");
+  const [historyOpen, setHistoryOpen] = useState<Set<number>>(new Set());
+
+  const { data: flags = [], isLoading } = useQuery<RiskFlagWithHistory[]>({
+    queryKey: [riskFlagsUrl(showAll)],
+  });
+
+  const refreshFlags = () => {
+    queryClient.invalidateQueries({ queryKey: [riskFlagsUrl()] });
+    queryClient.invalidateQueries({ queryKey: [riskFlagsUrl(true)] });
+  };
+
+  const checkMutation = useMutation({
+    mutationFn: async () => (await (await apiRequest("POST", "/api/risk-check", {})).json()) as RiskCheckResult,
+    onSuccess: (result) => {
+      refreshFlags();
+      toast({
+        title: "Check complete",
+        description: `${plural(result.raised, "new flag")}, ${plural(result.cleared, "flag")} cleared.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Check failed", description: apiErrorMessage(error, "Please try again."), variant: "destructive" });
+    },
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: ({ flagId, action, note }: { flagId: number; action: FlagAction; note?: string }) =>
+      apiRequest("POST", `/api/risk-flags/${flagId}/actions`, { action, note: note || null }),
+    onSuccess: (_, { action }) => {
+      refreshFlags();
+      setFollowingUp(undefined);
+      toast({ title: action === "acted" ? "Follow-up recorded" : action === "dismissed" ? "Flag dismissed" : "Flag reopened" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to update the flag", description: apiErrorMessage(error, "Please try again."), variant: "destructive" });
+    },
+  });
+
+  const toggleHistory = (flagId: number) => {
+    const open = new Set(historyOpen);
+    if (open.has(flagId)) open.delete(flagId);
+    else open.add(flagId);
+    setHistoryOpen(open);
+  };
+
+  const openFollowUp = (flag: RiskFlagWithHistory) => {
+    setNote("");
+    setFollowingUp(flag);
+  };
+
+  return (
+    <Card className="mb-8">
+      <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2 space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <AlertTriangle className="h-5 w-5 text-amber-500" />
+          At-Risk Students
+        </CardTitle>
+        <div className="flex flex-wrap items-center gap-2">
+          <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+            <Checkbox checked={showAll} onCheckedChange={(checked) => setShowAll(checked === true)} />
+            Show dismissed and cleared
+          </label>
+          <Button variant="outline" size="sm" onClick={() => setShowThresholds(true)} disabled={courses.length === 0}>
+            <Settings className="mr-1 h-4 w-4" /> Thresholds
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => checkMutation.mutate()} disabled={checkMutation.isPending}>
+            <RefreshCw className={`mr-1 h-4 w-4 ${checkMutation.isPending ? "animate-spin" : ""}`} /> Check now
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Loading...</p>
+        ) : flags.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">
+            No students are flagged. The check runs every night, or now with Check now.
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {flags.map((flag) => {
+              const settled = flag.status === "dismissed" || flag.status === "cleared";
+              return (
+                <li key={flag.id} className={`py-3 ${settled ? "opacity-70" : ""}`}>
+                  <div className="flex flex-col gap-2 sm:flex-row sm:items-start sm:justify-between">
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-sm font-medium text-gray-900 dark:text-white">{flag.student.name}</span>
+                        <span className="text-xs text-gray-500 dark:text-gray-400">{flag.course.title}</span>
+                        <Badge variant="outline" className="border-amber-300 text-amber-700 dark:border-amber-700 dark:text-amber-400">
+                          {RISK_RULE_LABELS[flag.rule as RiskRule] ?? flag.rule}
+                        </Badge>
+                        {STATUS_LABELS[flag.status] && <Badge variant="secondary">{STATUS_LABELS[flag.status]}</Badge>}
+                      </div>
+                      <p className="text-sm text-gray-600 dark:text-gray-300">{flag.explanation}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        Flagged {new Date(flag.raisedAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <div className="flex flex-shrink-0 gap-2">
+                      {flag.status === "open" && (
+                        <>
+                          <Button size="sm" onClick={() => openFollowUp(flag)} disabled={actionMutation.isPending}>
+                            Follow up
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => actionMutation.mutate({ flagId: flag.id, action: "dismissed" })}
+                            disabled={actionMutation.isPending}
+                          >
+                            Dismiss
+                          </Button>
+                        </>
+                      )}
+                      {flag.status === "acted" && (
+                        <Button size="sm" variant="outline" onClick={() => openFollowUp(flag)} disabled={actionMutation.isPending}>
+                          Add note
+                        </Button>
+                      )}
+                      {(flag.status === "acted" || flag.status === "dismissed") && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => actionMutation.mutate({ flagId: flag.id, action: "reopened" })}
+                          disabled={actionMutation.isPending}
+                        >
+                          Reopen
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-8 w-8 p-0"
+                        onClick={() => toggleHistory(flag.id)}
+                        aria-label="History"
+                        aria-expanded={historyOpen.has(flag.id)}
+                      >
+                        <History className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  {historyOpen.has(flag.id) && (
+                    <ol className="mt-2 space-y-1 border-l-2 border-gray-200 pl-3 dark:border-gray-700">
+                      {flag.events.map((event) => (
+                        <li key={event.id} className="text-xs text-gray-600 dark:text-gray-300">
+                          <span className="font-medium">{EVENT_LABELS[event.action] ?? event.action}</span>
+                          {event.actorName && ` by ${event.actorName}`}
+                          {" · "}
+                          {new Date(event.at).toLocaleString()}
+                          {event.note && <p className="whitespace-pre-wrap text-gray-500 dark:text-gray-400">{event.note}</p>}
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+
+      <Dialog open={!!followingUp} onOpenChange={(open) => !open && setFollowingUp(undefined)}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle className="text-lg font-semibold text-gray-900 dark:text-white">
+              Follow up with {followingUp?.student.name}
+            </DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-gray-500 dark:text-gray-400">{followingUp?.explanation}</p>
+          <Textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="What did you do? E.g. emailed the student, arranged a meeting"
+            rows={4}
+            maxLength={2000}
+            disabled={actionMutation.isPending}
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setFollowingUp(undefined)} disabled={actionMutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => followingUp && actionMutation.mutate({ flagId: followingUp.id, action: "acted", note: note.trim() })}
+              disabled={!note.trim() || actionMutation.isPending}
+            >
+              Save
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <RiskThresholdsModal isOpen={showThresholds} onClose={() => setShowThresholds(false)} courses={courses} />
+    </Card>
+  );
+}
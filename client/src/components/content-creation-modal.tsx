@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { X } from "lucide-react";
 import {
@@ -20,13 +20,26 @@ import {
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { LessonEditor } from "@/components/lesson-editor";
+import { FileAttachments } from "@/components/file-attachments";
+import type { Content, Module, Upload } from "@shared/schema";
+
+// Select items can't have an empty value
+const NO_MODULE = "none";
+
+// Types whose body is written in the lesson editor; the rest hold a URL
+const HTML_CONTENT_TYPES = ["lesson", "text"];
 
 interface ContentCreationModalProps {
   isOpen: boolean;
   onClose: () => void;
+  defaultCourseId?: number;
+  defaultModuleId?: number | null;
+  // Opens the modal on an existing item instead of a blank form
+  editingContent?: Content;
 }
 
-export function ContentCreationModal({ isOpen, onClose }: ContentCreationModalProps) {
+export function ContentCreationModal({ isOpen, onClose, defaultCourseId, defaultModuleId, editingContent }: ContentCreationModalProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [formData, setFormData] = useState({
@@ -34,31 +47,74 @@ export function ContentCreationModal({ isOpen, onClose }: ContentCreationModalPr
     description: "",
     type: "",
     courseId: "",
+    moduleId: NO_MODULE,
     content: "",
+    markdown: null as string | null,
     order: 0,
   });
+  // null until the teacher changes the attachments, so saving leaves them alone
+  const [attachmentIds, setAttachmentIds] = useState<number[] | null>(null);
+
+  useEffect(() => {
+    if (isOpen && editingContent) {
+      setFormData({
+        title: editingContent.title,
+        description: editingContent.description ?? "",
+        type: editingContent.type,
+        courseId: editingContent.courseId.toString(),
+        moduleId: editingContent.moduleId ? editingContent.moduleId.toString() : NO_MODULE,
+        content: editingContent.content ?? "",
+        markdown: editingContent.markdown,
+        order: editingContent.order,
+      });
+    } else if (isOpen) {
+      setFormData((current) => ({
+        ...current,
+        courseId: defaultCourseId ? defaultCourseId.toString() : current.courseId,
+        moduleId: defaultModuleId ? defaultModuleId.toString() : NO_MODULE,
+      }));
+    }
+  }, [isOpen, defaultCourseId, defaultModuleId, editingContent]);
 
   const { data: courses = [] } = useQuery({
     queryKey: ["/api/courses"],
   });
 
-  const createContentMutation = useMutation({
+  const { data: modules = [] } = useQuery<Module[]>({
+    queryKey: [`/api/courses/${formData.courseId}/modules`],
+    enabled: !!formData.courseId,
+  });
+
+  const { data: courseUploads = [] } = useQuery<Upload[]>({
+    queryKey: [`/api/courses/${formData.courseId}/uploads`],
+    enabled: !!formData.courseId,
+  });
+  const currentAttachmentIds = attachmentIds
+    ?? (editingContent ? courseUploads.filter((upload) => upload.contentId === editingContent.id).map((upload) => upload.id) : []);
+
+  const saveContentMutation = useMutation({
     mutationFn: async (data: any) => {
-      const res = await apiRequest("POST", "/api/content", data);
+      const res = editingContent
+        ? await apiRequest("PUT", `/api/content/${editingContent.id}`, data)
+        : await apiRequest("POST", "/api/content", data);
       return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (_content, data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/courses"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/courses/${data.courseId}/content`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/courses/${data.courseId}/uploads`] });
       toast({
-        title: "Content created successfully!",
-        description: "Your new content has been added to the course.",
+        title: editingContent ? "Content updated" : "Content created successfully!",
+        description: editingContent
+          ? "Your changes have been saved."
+          : "Your new content has been added to the course.",
       });
       resetForm();
       onClose();
     },
     onError: () => {
       toast({
-        title: "Failed to create content",
+        title: editingContent ? "Failed to update content" : "Failed to create content",
         description: "Please check your input and try again.",
         variant: "destructive",
       });
@@ -71,9 +127,12 @@ export function ContentCreationModal({ isOpen, onClose }: ContentCreationModalPr
       description: "",
       type: "",
       courseId: "",
+      moduleId: NO_MODULE,
       content: "",
+      markdown: null,
       order: 0,
     });
+    setAttachmentIds(null);
   };
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -106,12 +165,17 @@ export function ContentCreationModal({ isOpen, onClose }: ContentCreationModalPr
       return;
     }
 
-    createContentMutation.mutate({
+    saveContentMutation.mutate({
       ...formData,
+      markdown: isHtmlType ? formData.markdown : null,
       courseId: parseInt(formData.courseId),
+      moduleId: formData.moduleId === NO_MODULE ? null : parseInt(formData.moduleId),
+      attachmentIds: attachmentIds ?? undefined,
     });
   };
 
+  const isHtmlType = HTML_CONTENT_TYPES.includes(formData.type);
+
   const handleClose = () => {
     resetForm();
     onClose();
@@ -119,11 +183,11 @@ export function ContentCreationModal({ isOpen, onClose }: ContentCreationModalPr
 
   return (
     <Dialog open={isOpen} onOpenChange={handleClose}>
-      <DialogContent className="sm:max-w-[600px]">
+      <DialogContent className="sm:max-w-[800px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <div className="flex items-center justify-between">
             <DialogTitle className="text-lg font-semibold text-gray-900 dark:text-white">
-              Create New Content
+              {editingContent ? "Edit Content" : "Create New Content"}
             </DialogTitle>
             <Button
               variant="ghost"
@@ -147,7 +211,7 @@ export function ContentCreationModal({ isOpen, onClose }: ContentCreationModalPr
               onChange={(e) => setFormData({ ...formData, title: e.target.value })}
               placeholder="Enter content title"
               className="w-full"
-              disabled={createContentMutation.isPending}
+              disabled={saveContentMutation.isPending}
               required
             />
           </div>
@@ -158,8 +222,11 @@ export function ContentCreationModal({ isOpen, onClose }: ContentCreationModalPr
             </Label>
             <Select
               value={formData.courseId}
-              onValueChange={(value) => setFormData({ ...formData, courseId: value })}
-              disabled={createContentMutation.isPending}
+              onValueChange={(value) => {
+                setFormData({ ...formData, courseId: value, moduleId: NO_MODULE });
+                setAttachmentIds(null); // Files belong to a course
+              }}
+              disabled={saveContentMutation.isPending || !!editingContent}
             >
               <SelectTrigger className="w-full">
                 <SelectValue placeholder="Select a course" />
@@ -174,6 +241,31 @@ export function ContentCreationModal({ isOpen, onClose }: ContentCreationModalPr
             </Select>
           </div>
 
+          {modules.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="moduleSelect" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Module
+              </Label>
+              <Select
+                value={formData.moduleId}
+                onValueChange={(value) => setFormData({ ...formData, moduleId: value })}
+                disabled={saveContentMutation.isPending}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Select a module" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_MODULE}>No module (unassigned)</SelectItem>
+                  {modules.map((module) => (
+                    <SelectItem key={module.id} value={module.id.toString()}>
+                      {module.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label htmlFor="contentType" className="text-sm font-medium text-gray-700 dark:text-gray-300">
               Content Type
@@ -181,7 +273,7 @@ export function ContentCreationModal({ isOpen, onClose }: ContentCreationModalPr
             <Select
               value={formData.type}
               onValueChange={(value) => setFormData({ ...formData, type: value })}
-              disabled={createContentMutation.isPending}
+              disabled={saveContentMutation.isPending}
             >
               <SelectTrigger className="w-full">
                 <SelectValue placeholder="Select content type" />
@@ -206,22 +298,42 @@ export function ContentCreationModal({ isOpen, onClose }: ContentCreationModalPr
               placeholder="Describe your content..."
               rows={3}
               className="w-full"
-              disabled={createContentMutation.isPending}
+              disabled={saveContentMutation.isPending}
             />
           </div>
 
           <div className="space-y-2">
             <Label htmlFor="contentBody" className="text-sm font-medium text-gray-700 dark:text-gray-300">
-              Content
+              {isHtmlType ? "Content" : "Link"}
             </Label>
-            <Textarea
-              id="contentBody"
-              value={formData.content}
-              onChange={(e) => setFormData({ ...formData, content: e.target.value })}
-              placeholder="Enter your content here..."
-              rows={6}
-              className="w-full"
-              disabled={createContentMutation.isPending}
+            {isHtmlType ? (
+              <LessonEditor
+                value={{ html: formData.content, markdown: formData.markdown }}
+                onChange={({ html, markdown }) => setFormData((current) => ({ ...current, content: html, markdown }))}
+                disabled={saveContentMutation.isPending}
+              />
+            ) : (
+              <Input
+                id="contentBody"
+                type="url"
+                value={formData.content}
+                onChange={(e) => setFormData({ ...formData, content: e.target.value })}
+                placeholder="https://..."
+                className="w-full"
+                disabled={saveContentMutation.isPending}
+              />
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+              Attachments
+            </Label>
+            <FileAttachments
+              courseId={formData.courseId}
+              value={currentAttachmentIds}
+              onChange={setAttachmentIds}
+              disabled={saveContentMutation.isPending}
             />
           </div>
 
@@ -237,7 +349,7 @@ export function ContentCreationModal({ isOpen, onClose }: ContentCreationModalPr
               placeholder="Content order (0 for first)"
               min="0"
               className="w-full"
-              disabled={createContentMutation.isPending}
+              disabled={saveContentMutation.isPending}
             />
           </div>
 
@@ -246,16 +358,18 @@ export function ContentCreationModal({ isOpen, onClose }: ContentCreationModalPr
               type="button"
               variant="outline"
               onClick={handleClose}
-              disabled={createContentMutation.isPending}
+              disabled={saveContentMutation.isPending}
             >
               Cancel
             </Button>
             <Button
               type="submit"
-              disabled={createContentMutation.isPending}
+              disabled={saveContentMutation.isPending}
               className="bg-primary-600 hover:bg-primary-700 text-white"
             >
-              {createContentMutation.isPending ? "Creating..." : "Create Content"}
+              {saveContentMutation.isPending
+                ? (editingContent ? "Saving..." : "Creating...")
+                : (editingContent ? "Save Changes" : "Create Content")}
             </Button>
           </div>
         </form>
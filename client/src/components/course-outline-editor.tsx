@@ -0,0 +1,468 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { BookOpen, Edit, GripVertical, Lock, Plus, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, type CourseWithContent } from "@/lib/queryClient";
+import type { Content, CourseOutlineUpdate, Module } from "@shared/schema";
+
+type DragItem = { kind: "module" | "content"; id: number };
+
+// Where a dragged content item lands: a module (null = unassigned), before an item or at the end
+type ContentDropTarget = { moduleId: number | null; beforeId?: number };
+
+function toOutline(course: CourseWithContent): CourseOutlineUpdate {
+  const moduleIds = new Set(course.modules.map((m) => m.id));
+  return {
+    modules: course.modules.map((m) => ({
+      id: m.id,
+      contentIds: course.content.filter((c) => c.moduleId === m.id).map((c) => c.id),
+    })),
+    unassigned: course.content
+      .filter((c) => c.moduleId === null || !moduleIds.has(c.moduleId))
+      .map((c) => c.id),
+  };
+}
+
+function moveModule(outline: CourseOutlineUpdate, id: number, beforeId: number): CourseOutlineUpdate {
+  const moved = outline.modules.find((m) => m.id === id);
+  if (!moved || id === beforeId) return outline;
+  const rest = outline.modules.filter((m) => m.id !== id);
+  const index = rest.findIndex((m) => m.id === beforeId);
+  rest.splice(index === -1 ? rest.length : index, 0, moved);
+  return { ...outline, modules: rest };
+}
+
+function moveContent(outline: CourseOutlineUpdate, id: number, target: ContentDropTarget): CourseOutlineUpdate {
+  if (id === target.beforeId) return outline;
+  const insert = (ids: number[]) => {
+    const rest = ids.filter((contentId) => contentId !== id);
+    const index = target.beforeId === undefined ? -1 : rest.indexOf(target.beforeId);
+    rest.splice(index === -1 ? rest.length : index, 0, id);
+    return rest;
+  };
+  const remove = (ids: number[]) => ids.filter((contentId) => contentId !== id);
+
+  return {
+    modules: outline.modules.map((m) => ({
+      id: m.id,
+      contentIds: m.id === target.moduleId ? insert(m.contentIds) : remove(m.contentIds),
+    })),
+    unassigned: target.moduleId === null ? insert(outline.unassigned) : remove(outline.unassigned),
+  };
+}
+
+// Applies an outline locally so the editor reflects a drop before the server confirms it
+function applyOutline(course: CourseWithContent, outline: CourseOutlineUpdate): CourseWithContent {
+  const modulesById = new Map(course.modules.map((m) => [m.id, m]));
+  const contentById = new Map(course.content.map((c) => [c.id, c]));
+  const place = (ids: number[], moduleId: number | null) =>
+    ids.map((id, order) => ({ ...contentById.get(id)!, moduleId, order }));
+
+  return {
+    ...course,
+    modules: outline.modules.map(({ id }, order) => ({ ...modulesById.get(id)!, order })),
+    content: [
+      ...outline.modules.flatMap((m) => place(m.contentIds, m.id)),
+      ...place(outline.unassigned, null),
+    ],
+  };
+}
+
+function isLocked(module: Module): boolean {
+  return !!module.unlockAt && new Date(module.unlockAt) > new Date();
+}
+
+interface CourseOutlineEditorProps {
+  courseId: number;
+  onAddContent: (moduleId: number | null) => void;
+  onEditContent: (item: Content) => void;
+}
+
+/**
+ * Lists a course's modules and content. Modules can be reordered and content
+ * moved between modules by dragging; each drop is saved immediately.
+ */
+export function CourseOutlineEditor({ courseId, onAddContent, onEditContent }: CourseOutlineEditorProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = [`/api/courses/${courseId}/content`];
+  const [dragging, setDragging] = useState<DragItem | null>(null);
+  const [editingModule, setEditingModule] = useState<Module | "new" | null>(null);
+
+  const { data: course, isLoading } = useQuery<CourseWithContent>({ queryKey });
+
+  const outlineMutation = useMutation({
+    mutationFn: async (outline: CourseOutlineUpdate) => {
+      const res = await apiRequest("PUT", `/api/courses/${courseId}/outline`, outline);
+      return res.json() as Promise<Pick<CourseWithContent, "modules" | "content">>;
+    },
+    onMutate: (outline) => {
+      queryClient.setQueryData<CourseWithContent>(queryKey, (current) =>
+        current ? applyOutline(current, outline) : current,
+      );
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData<CourseWithContent>(queryKey, (current) =>
+        current ? { ...current, ...saved } : current,
+      );
+    },
+    onError: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({
+        title: "Failed to save the new order",
+        description: "The outline has been reloaded. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteModuleMutation = useMutation({
+    mutationFn: async (moduleId: number) => {
+      await apiRequest("DELETE", `/api/courses/${courseId}/modules/${moduleId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({
+        title: "Module deleted",
+        description: "Its content has been moved to Unassigned.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Failed to delete module",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !course) {
+    return <div className="h-24 bg-gray-100 dark:bg-gray-800 rounded-lg animate-pulse" />;
+  }
+
+  const outline = toOutline(course);
+  const contentById = new Map(course.content.map((c) => [c.id, c]));
+
+  const dropContent = (target: ContentDropTarget) => {
+    if (dragging?.kind !== "content") return;
+    outlineMutation.mutate(moveContent(outline, dragging.id, target));
+    setDragging(null);
+  };
+
+  const dropOnModule = (moduleId: number) => {
+    if (dragging?.kind === "module") {
+      outlineMutation.mutate(moveModule(outline, dragging.id, moduleId));
+      setDragging(null);
+    } else {
+      dropContent({ moduleId });
+    }
+  };
+
+  const renderItems = (ids: number[], moduleId: number | null) =>
+    ids.length > 0 ? (
+      <div className="space-y-2">
+        {ids.map((id) => {
+          const item = contentById.get(id)!;
+          return (
+            <ContentRow
+              key={id}
+              item={item}
+              isDragging={dragging?.kind === "content" && dragging.id === id}
+              onDragStart={() => setDragging({ kind: "content", id })}
+              onDragEnd={() => setDragging(null)}
+              onDrop={() => dropContent({ moduleId, beforeId: id })}
+              onEdit={() => onEditContent(item)}
+            />
+          );
+        })}
+      </div>
+    ) : (
+      <p className="text-xs text-gray-500 dark:text-gray-400 py-3 text-center border border-dashed border-gray-300 dark:border-gray-700 rounded-lg">
+        {dragging?.kind === "content" ? "Drop here" : "No content in this section yet"}
+      </p>
+    );
+
+  return (
+    <div className="space-y-4">
+      {course.modules.length === 0 && course.content.length === 0 && (
+        <div className="text-center py-8">
+          <BookOpen className="mx-auto h-8 w-8 text-gray-400" />
+          <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+            No content added yet
+          </p>
+          <Button size="sm" variant="outline" className="mt-2" onClick={() => onAddContent(null)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add First Content
+          </Button>
+        </div>
+      )}
+
+      {outline.modules.map(({ id, contentIds }, index) => {
+        const module = course.modules[index];
+        return (
+          <div
+            key={id}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => {
+              e.preventDefault();
+              dropOnModule(id);
+            }}
+            className={`rounded-lg border border-gray-200 dark:border-gray-700 p-4 ${
+              dragging?.kind === "module" && dragging.id === id ? "opacity-50" : ""
+            }`}
+          >
+            <div className="flex items-center justify-between mb-3">
+              <div
+                className="flex items-center space-x-2 cursor-move"
+                draggable
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = "move";
+                  setDragging({ kind: "module", id });
+                }}
+                onDragEnd={() => setDragging(null)}
+              >
+                <GripVertical className="h-4 w-4 text-gray-400" />
+                <div>
+                  <p className="text-sm font-semibold text-gray-900 dark:text-white">
+                    {index + 1}. {module.title}
+                  </p>
+                  {module.description && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{module.description}</p>
+                  )}
+                </div>
+                {isLocked(module) && (
+                  <Badge variant="secondary" className="ml-2">
+                    <Lock className="mr-1 h-3 w-3" />
+                    Unlocks {format(new Date(module.unlockAt!), "MMM d, h:mm a")}
+                  </Badge>
+                )}
+              </div>
+              <div className="flex items-center space-x-1">
+                <Button size="sm" variant="ghost" onClick={() => onAddContent(id)}>
+                  <Plus className="h-4 w-4" />
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => setEditingModule(module)}>
+                  <Edit className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="text-red-600 hover:text-red-700"
+                  disabled={deleteModuleMutation.isPending}
+                  onClick={() => {
+                    if (confirm(`Delete "${module.title}"? Its content will be kept as unassigned.`)) {
+                      deleteModuleMutation.mutate(id);
+                    }
+                  }}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+            {renderItems(contentIds, id)}
+          </div>
+        );
+      })}
+
+      {(outline.unassigned.length > 0 || course.modules.length > 0) && (
+        <div
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={(e) => {
+            e.preventDefault();
+            dropContent({ moduleId: null });
+          }}
+          className="rounded-lg border border-dashed border-gray-300 dark:border-gray-700 p-4"
+        >
+          <p className="text-sm font-semibold text-gray-500 dark:text-gray-400 mb-3">
+            Unassigned
+          </p>
+          {renderItems(outline.unassigned, null)}
+        </div>
+      )}
+
+      <Button size="sm" variant="outline" onClick={() => setEditingModule("new")}>
+        <Plus className="mr-2 h-4 w-4" />
+        Add Module
+      </Button>
+
+      {editingModule && (
+        <ModuleFormDialog
+          courseId={courseId}
+          module={editingModule === "new" ? undefined : editingModule}
+          onClose={() => setEditingModule(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+interface ContentRowProps {
+  item: Content;
+  isDragging: boolean;
+  onDragStart: () => void;
+  onDragEnd: () => void;
+  onDrop: () => void;
+  onEdit: () => void;
+}
+
+function ContentRow({ item, isDragging, onDragStart, onDragEnd, onDrop, onEdit }: ContentRowProps) {
+  return (
+    <div
+      draggable
+      onDragStart={(e) => {
+        e.stopPropagation();
+        e.dataTransfer.effectAllowed = "move";
+        onDragStart();
+      }}
+      onDragEnd={onDragEnd}
+      onDragOver={(e) => e.preventDefault()}
+      onDrop={(e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        onDrop();
+      }}
+      className={`flex items-center justify-between p-3 border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-900 cursor-move ${
+        isDragging ? "opacity-50" : ""
+      }`}
+    >
+      <div className="flex items-center space-x-3">
+        <GripVertical className="h-4 w-4 text-gray-400" />
+        <div className="flex-shrink-0">
+          <div className="w-8 h-8 bg-primary-100 dark:bg-primary-900/20 rounded-md flex items-center justify-center">
+            <BookOpen className="h-4 w-4 text-primary-600 dark:text-primary-400" />
+          </div>
+        </div>
+        <div>
+          <p className="text-sm font-medium text-gray-900 dark:text-white">{item.title}</p>
+          <p className="text-xs text-gray-500 dark:text-gray-400">{item.type}</p>
+        </div>
+      </div>
+      <Button size="sm" variant="ghost" onClick={onEdit}>
+        <Edit className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
+
+interface ModuleFormDialogProps {
+  courseId: number;
+  module?: Module;
+  onClose: () => void;
+}
+
+function ModuleFormDialog({ courseId, module, onClose }: ModuleFormDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [formData, setFormData] = useState({
+    title: module?.title ?? "",
+    description: module?.description ?? "",
+    // datetime-local wants local time without a zone
+    unlockAt: module?.unlockAt ? format(new Date(module.unlockAt), "yyyy-MM-dd'T'HH:mm") : "",
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const data = {
+        title: formData.title.trim(),
+        description: formData.description.trim() || null,
+        unlockAt: formData.unlockAt ? new Date(formData.unlockAt).toISOString() : null,
+      };
+      const res = module
+        ? await apiRequest("PUT", `/api/courses/${courseId}/modules/${module.id}`, data)
+        : await apiRequest("POST", `/api/courses/${courseId}/modules`, data);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/courses/${courseId}/content`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/courses/${courseId}/modules`] });
+      toast({ title: module ? "Module updated" : "Module created" });
+      onClose();
+    },
+    onError: () => {
+      toast({
+        title: module ? "Failed to update module" : "Failed to create module",
+        description: "Please check your input and try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.title.trim()) {
+      toast({
+        title: "Validation Error",
+        description: "Module title is required.",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveMutation.mutate();
+  };
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>{module ? "Edit Module" : "New Module"}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="moduleTitle">Title</Label>
+            <Input
+              id="moduleTitle"
+              value={formData.title}
+              onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+              placeholder="e.g. Week 1: Getting Started"
+              disabled={saveMutation.isPending}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="moduleDescription">Description</Label>
+            <Textarea
+              id="moduleDescription"
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              rows={2}
+              disabled={saveMutation.isPending}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="moduleUnlockAt">Unlock date (optional)</Label>
+            <Input
+              id="moduleUnlockAt"
+              type="datetime-local"
+              value={formData.unlockAt}
+              onChange={(e) => setFormData({ ...formData, unlockAt: e.target.value })}
+              disabled={saveMutation.isPending}
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Students can see the module's outline before this date, but not its content.
+            </p>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} disabled={saveMutation.isPending}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saveMutation.isPending}>
+              {saveMutation.isPending ? "Saving..." : module ? "Save Changes" : "Create Module"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
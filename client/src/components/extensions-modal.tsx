@@ -0,0 +1,133 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest, type StudentExtension } from "@/lib/queryClient";
+import { formatDeadline, localTimeZone, toDateTimeLocal, toDeadline } from "@/lib/deadlines";
+import type { Assignment } from "@shared/schema";
+
+interface ExtensionsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  assignment: Assignment;
+}
+
+/**
+ * Grants, changes and removes per-student extensions on an assignment. An
+ * extension replaces the assignment's due and lock dates for that student.
+ */
+export function ExtensionsModal({ isOpen, onClose, assignment }: ExtensionsModalProps) {
+  const extensionsKey = [`/api/assignments/${assignment.id}/extensions`];
+  const { data: rows = [], isLoading } = useQuery<StudentExtension[]>({
+    queryKey: extensionsKey,
+    enabled: isOpen,
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold text-gray-900 dark:text-white">Extensions</DialogTitle>
+        </DialogHeader>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {assignment.dueDate ? `Due ${formatDeadline(assignment.dueDate)}` : "No due date"}
+          {assignment.lockDate && `, closes ${formatDeadline(assignment.lockDate)}`}. Times are in {localTimeZone}.
+        </p>
+        {isLoading ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Loading students...</p>
+        ) : rows.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No students are enrolled in this course.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {rows.map((row) => (
+              <ExtensionRow key={row.student.id} assignment={assignment} row={row} />
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ExtensionRow({ assignment, row }: { assignment: Assignment; row: StudentExtension }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [dueDate, setDueDate] = useState("");
+  const [lockDate, setLockDate] = useState("");
+
+  useEffect(() => {
+    setDueDate(toDateTimeLocal(row.extension?.dueDate));
+    setLockDate(toDateTimeLocal(row.extension?.lockDate));
+  }, [row.extension]);
+
+  const url = `/api/assignments/${assignment.id}/extensions/${row.student.id}`;
+  const onSuccess = (title: string) => () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/assignments/${assignment.id}/extensions`] });
+    // Lateness, and any late penalty, is worked out again for the new deadline
+    queryClient.invalidateQueries({ queryKey: [`/api/assignments/${assignment.id}/submissions`] });
+    toast({ title });
+  };
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: apiErrorMessage(error, "Please try again."), variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => apiRequest("PUT", url, { dueDate: toDeadline(dueDate), lockDate: toDeadline(lockDate) }),
+    onSuccess: onSuccess(`Extension saved for ${row.student.name}`),
+    onError: onError("Failed to save extension"),
+  });
+  const removeMutation = useMutation({
+    mutationFn: () => apiRequest("DELETE", url),
+    onSuccess: onSuccess(`Extension removed for ${row.student.name}`),
+    onError: onError("Failed to remove extension"),
+  });
+  const isBusy = saveMutation.isPending || removeMutation.isPending;
+
+  return (
+    <li className="flex flex-wrap items-end gap-3 py-3">
+      <div className="min-w-[160px] flex-1">
+        <p className="text-sm font-medium">{row.student.name}</p>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {row.extension ? `Extended to ${formatDeadline(row.extension.dueDate)}` : "Assignment deadline"}
+        </p>
+      </div>
+      <label className="text-xs text-gray-500 dark:text-gray-400">
+        Due
+        <Input
+          type="datetime-local"
+          value={dueDate}
+          onChange={(e) => setDueDate(e.target.value)}
+          className="h-8 w-[200px]"
+          disabled={isBusy}
+        />
+      </label>
+      <label className="text-xs text-gray-500 dark:text-gray-400">
+        {assignment.lockDate ? "Lock (blank keeps the assignment's)" : "Lock (optional)"}
+        <Input
+          type="datetime-local"
+          value={lockDate}
+          onChange={(e) => setLockDate(e.target.value)}
+          className="h-8 w-[200px]"
+          disabled={isBusy}
+        />
+      </label>
+      <div className="flex gap-2">
+        <Button size="sm" onClick={() => saveMutation.mutate()} disabled={isBusy || !dueDate}>
+          {row.extension ? "Update" : "Grant"}
+        </Button>
+        {row.extension && (
+          <Button size="sm" variant="outline" onClick={() => removeMutation.mutate()} disabled={isBusy}>
+            Remove
+          </Button>
+        )}
+      </div>
+    </li>
+  );
+}
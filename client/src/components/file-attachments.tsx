@@ -0,0 +1,136 @@
+import { useRef } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { FileText, Loader2, Paperclip, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { formatFileSize, uploadDownloadUrl, uploadFile, type Upload } from "@/lib/uploads";
+
+interface FileAttachmentsProps {
+  courseId: string;
+  value: number[]; // Ids of the attached uploads
+  onChange: (value: number[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Attachment picker for the content and assignment modals. New files are
+ * uploaded to the course straight away; files already in the course that
+ * aren't attached to anything can be picked again.
+ */
+export function FileAttachments({ courseId, value, onChange, disabled }: FileAttachmentsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const uploadsKey = [`/api/courses/${courseId}/uploads`];
+
+  const { data: courseUploads = [] } = useQuery<Upload[]>({
+    queryKey: uploadsKey,
+    enabled: !!courseId,
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: (file: File) => uploadFile(courseId, file),
+    onSuccess: (upload) => {
+      queryClient.setQueryData<Upload[]>(uploadsKey, (current = []) => [...current, upload]);
+      onChange([...value, upload.id]);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Upload failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!courseId) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">Select a course to attach files.</p>;
+  }
+
+  const attached = value.flatMap((id) => courseUploads.find((upload) => upload.id === id) ?? []);
+  const available = courseUploads.filter((upload) =>
+    upload.contentId === null && upload.assignmentId === null && !value.includes(upload.id)
+  );
+  const isBusy = disabled || uploadMutation.isPending;
+
+  return (
+    <div className="space-y-2">
+      {attached.length > 0 && (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700 rounded-md border border-input">
+          {attached.map((upload) => (
+            <li key={upload.id} className="flex items-center gap-2 px-3 py-2 text-sm">
+              <FileText className="h-4 w-4 text-gray-400 shrink-0" />
+              <a
+                href={uploadDownloadUrl(upload)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="truncate text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                {upload.filename}
+              </a>
+              <span className="text-gray-500 dark:text-gray-400 shrink-0">{formatFileSize(upload.size)}</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="ml-auto h-7 w-7 p-0"
+                onClick={() => onChange(value.filter((id) => id !== upload.id))}
+                disabled={isBusy}
+                aria-label={`Remove ${upload.filename}`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          ref={fileInputRef}
+          type="file"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) uploadMutation.mutate(file);
+            e.target.value = ""; // Allow picking the same file again
+          }}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isBusy}
+        >
+          {uploadMutation.isPending
+            ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            : <Paperclip className="mr-2 h-4 w-4" />}
+          {uploadMutation.isPending ? "Uploading..." : "Upload file"}
+        </Button>
+
+        {available.length > 0 && (
+          <Select value="" onValueChange={(id) => onChange([...value, parseInt(id)])} disabled={isBusy}>
+            <SelectTrigger className="h-9 w-auto min-w-[200px]">
+              <SelectValue placeholder="Attach an existing file" />
+            </SelectTrigger>
+            <SelectContent>
+              {available.map((upload) => (
+                <SelectItem key={upload.id} value={upload.id.toString()}>
+                  {upload.filename}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+    </div>
+  );
+}
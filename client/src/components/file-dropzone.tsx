@@ -0,0 +1,121 @@
+import { useRef, useState } from "react";
+import { FileText, UploadCloud, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { formatFileSize } from "@/lib/uploads";
+
+interface FileDropzoneProps {
+  files: File[];
+  onChange: (files: File[]) => void;
+  accept?: string[] | null; // File extensions such as ".pdf"; any when empty
+  maxBytes?: number | null;
+  disabled?: boolean;
+}
+
+const extensionOf = (name: string) => {
+  const dot = name.lastIndexOf(".");
+  return dot === -1 ? "" : name.slice(dot).toLowerCase();
+};
+
+/**
+ * Picks files by drag and drop or the file dialog. Files of the wrong type or
+ * over the size cap are turned away here; the server checks them again.
+ */
+export function FileDropzone({ files, onChange, accept, maxBytes, disabled }: FileDropzoneProps) {
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const addFiles = (picked: File[]) => {
+    const rejected: string[] = [];
+    const accepted = picked.filter((file) => {
+      if (accept?.length && !accept.includes(extensionOf(file.name))) {
+        rejected.push(`${file.name} is not an allowed file type.`);
+        return false;
+      }
+      if (maxBytes && file.size > maxBytes) {
+        rejected.push(`${file.name} is larger than ${formatFileSize(maxBytes)}.`);
+        return false;
+      }
+      return true;
+    });
+    if (rejected.length > 0) {
+      toast({ title: "Some files were not added", description: rejected.join(" "), variant: "destructive" });
+    }
+    if (accepted.length > 0) onChange([...files, ...accepted]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div
+        role="button"
+        tabIndex={disabled ? -1 : 0}
+        onClick={() => !disabled && inputRef.current?.click()}
+        onKeyDown={(e) => {
+          if (!disabled && (e.key === "Enter" || e.key === " ")) {
+            e.preventDefault();
+            inputRef.current?.click();
+          }
+        }}
+        onDragOver={(e) => {
+          e.preventDefault();
+          if (!disabled) setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDragging(false);
+          if (!disabled) addFiles(Array.from(e.dataTransfer.files));
+        }}
+        className={`flex flex-col items-center justify-center rounded-md border-2 border-dashed px-4 py-8 text-center transition-colors ${
+          isDragging
+            ? "border-primary-500 bg-primary-50 dark:bg-primary-900/20"
+            : "border-gray-300 dark:border-gray-600 hover:border-gray-400"
+        } ${disabled ? "cursor-not-allowed opacity-60" : "cursor-pointer"}`}
+      >
+        <UploadCloud className="h-8 w-8 text-gray-400" />
+        <p className="mt-2 text-sm text-gray-700 dark:text-gray-300">
+          Drag files here, or <span className="text-primary-600 underline">browse</span>
+        </p>
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          {accept?.length ? accept.join(", ") : "Documents, images, archives and source code"}
+          {maxBytes ? ` · up to ${formatFileSize(maxBytes)} each` : ""}
+        </p>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          className="hidden"
+          accept={accept?.length ? accept.join(",") : undefined}
+          onChange={(e) => {
+            addFiles(Array.from(e.target.files ?? []));
+            e.target.value = ""; // Allow picking the same file again
+          }}
+        />
+      </div>
+
+      {files.length > 0 && (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700 rounded-md border border-input">
+          {files.map((file, index) => (
+            <li key={`${file.name}-${index}`} className="flex items-center gap-2 px-3 py-2 text-sm">
+              <FileText className="h-4 w-4 text-gray-400 shrink-0" />
+              <span className="truncate">{file.name}</span>
+              <span className="text-gray-500 dark:text-gray-400 shrink-0">{formatFileSize(file.size)}</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="ml-auto h-7 w-7 p-0"
+                onClick={() => onChange(files.filter((_, i) => i !== index))}
+                disabled={disabled}
+                aria-label={`Remove ${file.name}`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
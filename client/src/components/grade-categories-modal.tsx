@@ -0,0 +1,202 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { gradebookUrl, gradeCategoriesUrl } from "@/lib/grades";
+import type { GradeCategory } from "@shared/schema";
+
+interface GradeCategoriesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  courseId: number;
+  categories: GradeCategory[];
+}
+
+type CategoryDraft = { title: string; weight: string; dropLowest: string };
+
+const emptyDraft: CategoryDraft = { title: "", weight: "", dropLowest: "0" };
+
+const toDraft = (category: GradeCategory): CategoryDraft => ({
+  title: category.title,
+  weight: category.weight.toString(),
+  dropLowest: category.dropLowest.toString(),
+});
+
+const fromDraft = (draft: CategoryDraft) => ({
+  title: draft.title.trim(),
+  weight: parseInt(draft.weight, 10) || 0,
+  dropLowest: parseInt(draft.dropLowest, 10) || 0,
+});
+
+/**
+ * Adds, edits and removes a course's grade categories. Each category counts
+ * for its weight of the course grade and can leave out its lowest scores.
+ * Weights that don't add up to 100 are scaled to, so the total is only a
+ * warning.
+ */
+export function GradeCategoriesModal({ isOpen, onClose, courseId, categories }: GradeCategoriesModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<CategoryDraft>(emptyDraft);
+  const totalWeight = categories.reduce((total, category) => total + category.weight, 0);
+
+  const createMutation = useMutation({
+    mutationFn: () => apiRequest("POST", gradeCategoriesUrl(courseId), fromDraft(draft)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [gradebookUrl(courseId)] });
+      queryClient.invalidateQueries({ queryKey: [gradeCategoriesUrl(courseId)] });
+      toast({ title: `Added ${draft.title.trim()}` });
+      setDraft(emptyDraft);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to add category", description: apiErrorMessage(error, "Please try again."), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold text-gray-900 dark:text-white">Grade Categories</DialogTitle>
+        </DialogHeader>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {categories.length === 0
+            ? "Without categories every assignment counts by its points."
+            : "Each category counts for its weight of the grade. Assignments outside every category don't count."}
+        </p>
+        {categories.length > 0 && (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {categories.map((category) => (
+              <CategoryRow key={category.id} courseId={courseId} category={category} />
+            ))}
+          </ul>
+        )}
+        {categories.length > 0 && totalWeight !== 100 && (
+          <p className="text-sm text-amber-600 dark:text-amber-400">
+            Weights add up to {totalWeight}%, so each is scaled to its share of that.
+          </p>
+        )}
+        <form
+          className="flex flex-wrap items-end gap-3 border-t border-gray-200 pt-4 dark:border-gray-700"
+          onSubmit={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            createMutation.mutate();
+          }}
+        >
+          <CategoryFields draft={draft} onChange={setDraft} disabled={createMutation.isPending} />
+          <Button type="submit" size="sm" disabled={createMutation.isPending || !draft.title.trim() || !draft.weight}>
+            <Plus className="mr-1 h-4 w-4" /> Add
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function CategoryFields({ draft, onChange, disabled }: { draft: CategoryDraft; onChange: (draft: CategoryDraft) => void; disabled: boolean }) {
+  return (
+    <>
+      <label className="min-w-[160px] flex-1 text-xs text-gray-500 dark:text-gray-400">
+        Title
+        <Input
+          value={draft.title}
+          onChange={(e) => onChange({ ...draft, title: e.target.value })}
+          placeholder="e.g. Homework"
+          className="h-8"
+          disabled={disabled}
+        />
+      </label>
+      <label className="text-xs text-gray-500 dark:text-gray-400">
+        Weight (%)
+        <Input
+          type="number"
+          min={0}
+          max={100}
+          value={draft.weight}
+          onChange={(e) => onChange({ ...draft, weight: e.target.value })}
+          className="h-8 w-24"
+          disabled={disabled}
+        />
+      </label>
+      <label className="text-xs text-gray-500 dark:text-gray-400">
+        Drop lowest
+        <Input
+          type="number"
+          min={0}
+          value={draft.dropLowest}
+          onChange={(e) => onChange({ ...draft, dropLowest: e.target.value })}
+          className="h-8 w-24"
+          disabled={disabled}
+        />
+      </label>
+    </>
+  );
+}
+
+function CategoryRow({ courseId, category }: { courseId: number; category: GradeCategory }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<CategoryDraft>(toDraft(category));
+
+  useEffect(() => {
+    setDraft(toDraft(category));
+  }, [category]);
+
+  const url = `/api/grade-categories/${category.id}`;
+  const onSuccess = (title: string) => () => {
+    queryClient.invalidateQueries({ queryKey: [gradebookUrl(courseId)] });
+    queryClient.invalidateQueries({ queryKey: [gradeCategoriesUrl(courseId)] });
+    toast({ title });
+  };
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: apiErrorMessage(error, "Please try again."), variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => apiRequest("PUT", url, fromDraft(draft)),
+    onSuccess: onSuccess(`Saved ${draft.title.trim()}`),
+    onError: onError("Failed to save category"),
+  });
+  const deleteMutation = useMutation({
+    mutationFn: () => apiRequest("DELETE", url),
+    onSuccess: onSuccess(`Deleted ${category.title}`),
+    onError: onError("Failed to delete category"),
+  });
+  const isBusy = saveMutation.isPending || deleteMutation.isPending;
+  const edited = fromDraft(draft);
+  const isChanged = edited.title !== category.title || edited.weight !== category.weight || edited.dropLowest !== category.dropLowest;
+
+  return (
+    <li className="flex flex-wrap items-end gap-3 py-3">
+      <CategoryFields draft={draft} onChange={setDraft} disabled={isBusy} />
+      <div className="flex gap-2">
+        <Button size="sm" onClick={() => saveMutation.mutate()} disabled={isBusy || !isChanged || !draft.title.trim()}>
+          Save
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => {
+            if (confirm(`Delete "${category.title}"? Its assignments will no longer count toward the grade.`)) {
+              deleteMutation.mutate();
+            }
+          }}
+          disabled={isBusy}
+          aria-label={`Delete ${category.title}`}
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+    </li>
+  );
+}
@@ -0,0 +1,147 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { gradebookUrl } from "@/lib/grades";
+import { DEFAULT_GRADE_SCALE } from "@shared/gradebook";
+import { gradeScaleSchema, type GradeScale } from "@shared/schema";
+
+interface GradeScaleModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  courseId: number;
+  scale: GradeScale;
+  isCustom: boolean; // The course has its own scale rather than the default
+}
+
+type GradeDraft = { letter: string; minPercent: string };
+
+const toDrafts = (scale: GradeScale): GradeDraft[] =>
+  scale.map((grade) => ({ letter: grade.letter, minPercent: grade.minPercent.toString() }));
+
+/**
+ * Edits the letters a course's percentages turn into. A letter is earned from
+ * its minimum percentage up to the next letter's.
+ */
+export function GradeScaleModal({ isOpen, onClose, courseId, scale, isCustom }: GradeScaleModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [grades, setGrades] = useState<GradeDraft[]>(toDrafts(scale));
+
+  useEffect(() => {
+    if (isOpen) setGrades(toDrafts(scale));
+  }, [isOpen, scale]);
+
+  const saveMutation = useMutation({
+    mutationFn: (newScale: GradeScale | null) => apiRequest("PUT", `/api/courses/${courseId}/grade-scale`, { scale: newScale }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [gradebookUrl(courseId)] });
+      toast({ title: "Grading scale saved" });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save grading scale", description: apiErrorMessage(error, "Please try again."), variant: "destructive" });
+    },
+  });
+
+  const handleSave = () => {
+    const parsed = gradeScaleSchema.safeParse(grades.map((grade) => ({
+      letter: grade.letter,
+      minPercent: parseFloat(grade.minPercent),
+    })));
+    if (!parsed.success) {
+      toast({ title: "Check the grading scale", description: parsed.error.errors[0].message, variant: "destructive" });
+      return;
+    }
+    saveMutation.mutate(parsed.data);
+  };
+
+  const update = (index: number, updates: Partial<GradeDraft>) =>
+    setGrades(grades.map((grade, i) => (i === index ? { ...grade, ...updates } : grade)));
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[420px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold text-gray-900 dark:text-white">Grading Scale</DialogTitle>
+        </DialogHeader>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Each letter is earned from its minimum percentage up. The lowest must start at 0%.
+        </p>
+        <div className="space-y-2">
+          {grades.map((grade, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                value={grade.letter}
+                onChange={(e) => update(index, { letter: e.target.value })}
+                placeholder="Letter"
+                aria-label="Letter"
+                className="h-8 w-24"
+                disabled={saveMutation.isPending}
+              />
+              <span className="text-sm text-gray-500 dark:text-gray-400">from</span>
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                step="any"
+                value={grade.minPercent}
+                onChange={(e) => update(index, { minPercent: e.target.value })}
+                aria-label="Minimum percentage"
+                className="h-8 w-24"
+                disabled={saveMutation.isPending}
+              />
+              <span className="text-sm text-gray-500 dark:text-gray-400">%</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="ml-auto h-8 w-8 p-0"
+                onClick={() => setGrades(grades.filter((_, i) => i !== index))}
+                disabled={saveMutation.isPending || grades.length === 1}
+                aria-label="Remove letter"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setGrades([...grades, { letter: "", minPercent: "" }])}
+            disabled={saveMutation.isPending}
+          >
+            <Plus className="mr-1 h-4 w-4" /> Add letter
+          </Button>
+        </div>
+        <div className="flex justify-between gap-2 border-t border-gray-200 pt-4 dark:border-gray-700">
+          <Button
+            variant="ghost"
+            onClick={() => (isCustom ? saveMutation.mutate(null) : setGrades(toDrafts(DEFAULT_GRADE_SCALE)))}
+            disabled={saveMutation.isPending}
+          >
+            Use default scale
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onClose} disabled={saveMutation.isPending}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saveMutation.isPending}>
+              Save
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,159 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { gradebookUrl, type GradebookImport } from "@/lib/grades";
+
+interface GradebookImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  courseId: number;
+}
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+/**
+ * Grades from a spreadsheet, such as an edited gradebook export. The file is
+ * previewed first as a list of changes and the rows that can't be used; only
+ * applying it records anything.
+ */
+export function GradebookImportModal({ isOpen, onClose, courseId }: GradebookImportModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [csv, setCsv] = useState("");
+  const [preview, setPreview] = useState<GradebookImport>();
+
+  useEffect(() => {
+    if (isOpen) {
+      setCsv("");
+      setPreview(undefined);
+    }
+  }, [isOpen]);
+
+  const importMutation = useMutation({
+    mutationFn: async (apply: boolean) => {
+      const res = await apiRequest("POST", `${gradebookUrl(courseId)}/import`, { csv, apply });
+      return (await res.json()) as GradebookImport;
+    },
+    onSuccess: (result) => {
+      if (!result.applied) {
+        setPreview(result);
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: [gradebookUrl(courseId)] });
+      toast({
+        title: `Imported ${plural(result.changes.length, "grade")}`,
+        description: result.problems.length > 0 ? `${plural(result.problems.length, "problem")} left out.` : undefined,
+      });
+      if (result.problems.length > 0) setPreview(result); // Left open to show them
+      else onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Import failed", description: apiErrorMessage(error, "Please check the file and try again."), variant: "destructive" });
+    },
+  });
+
+  const changeCsv = (text: string) => {
+    setCsv(text);
+    setPreview(undefined);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold text-gray-900 dark:text-white">Import Grades</DialogTitle>
+        </DialogHeader>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Students are matched by the Username column and assignments by their column headings, as in the export.
+          Add a column named "&lt;assignment heading&gt; Feedback" for feedback. Blank cells are left as they are.
+        </p>
+        <Input
+          type="file"
+          accept=".csv,text/csv"
+          onChange={(e) => e.target.files?.[0]?.text().then(changeCsv)}
+          aria-label="Gradebook CSV file"
+          className="h-8 max-w-xs"
+        />
+        <Textarea
+          value={csv}
+          onChange={(e) => changeCsv(e.target.value)}
+          placeholder={"Student,Username,Essay (4)\nAlex Chen,student1,18"}
+          aria-label="Grades to import"
+          rows={6}
+          className="font-mono text-xs"
+        />
+
+        {preview && (
+          <div className="space-y-3">
+            {preview.changes.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Nothing in the file changes the gradebook.</p>
+            ) : (
+              <div className="overflow-x-auto rounded-md border border-gray-200 dark:border-gray-700">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-200 text-left text-gray-500 dark:border-gray-700 dark:text-gray-400">
+                      <th className="px-3 py-2 font-medium">Student</th>
+                      <th className="px-3 py-2 font-medium">Assignment</th>
+                      <th className="px-3 py-2 font-medium">Grade</th>
+                      <th className="px-3 py-2 font-medium">Feedback</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.changes.map((change) => (
+                      <tr key={`${change.student.id}-${change.assignment.id}`} className="border-b border-gray-100 last:border-0 dark:border-gray-700/50">
+                        <td className="px-3 py-2">{change.student.name}</td>
+                        <td className="px-3 py-2">{change.assignment.title}</td>
+                        <td className="px-3 py-2 whitespace-nowrap">
+                          {change.grade.from === change.grade.to ? (
+                            change.grade.to
+                          ) : (
+                            <>
+                              <span className="text-gray-400 line-through">{change.grade.from ?? "—"}</span> → <span className="font-medium">{change.grade.to}</span>
+                            </>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 text-gray-600 dark:text-gray-300">{change.feedback?.to ?? ""}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            {preview.problems.length > 0 && (
+              <ul className="space-y-1 text-sm text-amber-700 dark:text-amber-400">
+                {preview.problems.map((problem, index) => (
+                  <li key={index}>Line {problem.line}: {problem.message}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 border-t border-gray-200 pt-4 dark:border-gray-700">
+          <Button variant="outline" onClick={onClose} disabled={importMutation.isPending}>
+            {preview?.applied ? "Close" : "Cancel"}
+          </Button>
+          {preview && !preview.applied ? (
+            <Button onClick={() => importMutation.mutate(true)} disabled={importMutation.isPending || preview.changes.length === 0}>
+              {importMutation.isPending ? "Importing..." : `Apply ${plural(preview.changes.length, "change")}`}
+            </Button>
+          ) : (
+            <Button onClick={() => importMutation.mutate(false)} disabled={importMutation.isPending || !csv.trim()}>
+              {importMutation.isPending ? "Reading..." : "Preview"}
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,212 @@
+import { useEffect, useMemo, useState } from "react";
+import { EditorContent, useEditor, type Editor } from "@tiptap/react";
+import StarterKit from "@tiptap/starter-kit";
+import Link from "@tiptap/extension-link";
+import Image from "@tiptap/extension-image";
+import Table from "@tiptap/extension-table";
+import TableRow from "@tiptap/extension-table-row";
+import TableHeader from "@tiptap/extension-table-header";
+import TableCell from "@tiptap/extension-table-cell";
+import TurndownService from "turndown";
+import {
+  Bold,
+  Code2,
+  Heading2,
+  Heading3,
+  Image as ImageIcon,
+  Italic,
+  Link as LinkIcon,
+  List,
+  ListOrdered,
+  Quote,
+  Redo2,
+  Table as TableIcon,
+  Undo2,
+} from "lucide-react";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import { Toggle } from "@/components/ui/toggle";
+import { renderMarkdown } from "@shared/markdown";
+
+export interface LessonBody {
+  html: string;
+  markdown: string | null; // Set when the lesson is written in Markdown mode
+}
+
+interface LessonEditorProps {
+  value: LessonBody;
+  onChange: (value: LessonBody) => void;
+  disabled?: boolean;
+}
+
+type EditorMode = "rich" | "markdown";
+
+// Everything the editor schema knows about; used for the rich-text editor and the Markdown preview
+const extensions = [
+  StarterKit.configure({ heading: { levels: [1, 2, 3, 4] } }),
+  Link.configure({ openOnClick: false, autolink: true }),
+  Image,
+  Table.configure({ resizable: false }),
+  TableRow,
+  TableHeader,
+  TableCell,
+];
+
+const editorClassName =
+  "prose dark:prose-invert max-w-none min-h-[200px] px-3 py-2 focus:outline-none";
+
+const turndown = new TurndownService({ headingStyle: "atx", codeBlockStyle: "fenced", bulletListMarker: "-" });
+// Markdown has no table syntax turndown understands; keep them as inline HTML
+turndown.keep(["table"]);
+
+/**
+ * Lesson body editor. Teachers write either in a rich-text editor or in
+ * Markdown with a live preview; in Markdown mode the source is kept in
+ * `markdown` so it can be edited again exactly as written.
+ */
+export function LessonEditor({ value, onChange, disabled }: LessonEditorProps) {
+  const [mode, setMode] = useState<EditorMode>(value.markdown !== null ? "markdown" : "rich");
+
+  const editor = useEditor({
+    extensions,
+    content: value.markdown !== null ? renderMarkdown(value.markdown) : value.html,
+    editable: !disabled,
+    editorProps: { attributes: { class: editorClassName } },
+    onUpdate: ({ editor }) => onChange({ html: editor.getHTML(), markdown: null }),
+  });
+
+  useEffect(() => {
+    editor?.setEditable(!disabled);
+  }, [editor, disabled]);
+
+  // The parent resets the form after saving; mirror that into the editor
+  useEffect(() => {
+    if (editor && mode === "rich" && value.html !== editor.getHTML()) {
+      editor.commands.setContent(value.html, false);
+    }
+  }, [editor, mode, value.html]);
+
+  const switchMode = (next: EditorMode) => {
+    if (next === mode || !editor) return;
+
+    if (next === "markdown") {
+      onChange({ html: value.html, markdown: editor.isEmpty ? "" : turndown.turndown(editor.getHTML()) });
+    } else {
+      if (value.markdown && !confirm("Switch to the rich-text editor? Your Markdown will be converted and the source discarded.")) {
+        return;
+      }
+      const html = renderMarkdown(value.markdown ?? "");
+      editor.commands.setContent(html, false);
+      // Round-trip through the editor so stored HTML matches what it will show next time
+      onChange({ html: editor.getHTML(), markdown: null });
+    }
+    setMode(next);
+  };
+
+  return (
+    <div className="rounded-md border border-input">
+      <div className="flex flex-wrap items-center justify-between gap-2 border-b border-input px-2 py-1">
+        {mode === "rich" && editor ? <Toolbar editor={editor} disabled={disabled} /> : <span />}
+        <Tabs value={mode} onValueChange={(next) => switchMode(next as EditorMode)}>
+          <TabsList className="h-8">
+            <TabsTrigger value="rich" className="text-xs" disabled={disabled}>Rich text</TabsTrigger>
+            <TabsTrigger value="markdown" className="text-xs" disabled={disabled}>Markdown</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </div>
+
+      {mode === "rich" ? (
+        <EditorContent editor={editor} />
+      ) : (
+        <MarkdownPane
+          markdown={value.markdown ?? ""}
+          onChange={(markdown) => onChange({ html: renderMarkdown(markdown), markdown })}
+          disabled={disabled}
+        />
+      )}
+    </div>
+  );
+}
+
+function Toolbar({ editor, disabled }: { editor: Editor; disabled?: boolean }) {
+  const chain = () => editor.chain().focus();
+
+  const addLink = () => {
+    const previous = editor.getAttributes("link").href as string | undefined;
+    const href = prompt("Link URL", previous ?? "https://");
+    if (href === null) return;
+    if (href === "") {
+      chain().extendMarkRange("link").unsetLink().run();
+    } else {
+      chain().extendMarkRange("link").setLink({ href }).run();
+    }
+  };
+
+  const addImage = () => {
+    const src = prompt("Image URL", "https://");
+    if (src) chain().setImage({ src }).run();
+  };
+
+  const tools = [
+    { label: "Bold", icon: Bold, active: editor.isActive("bold"), run: () => chain().toggleBold().run() },
+    { label: "Italic", icon: Italic, active: editor.isActive("italic"), run: () => chain().toggleItalic().run() },
+    { label: "Heading", icon: Heading2, active: editor.isActive("heading", { level: 2 }), run: () => chain().toggleHeading({ level: 2 }).run() },
+    { label: "Subheading", icon: Heading3, active: editor.isActive("heading", { level: 3 }), run: () => chain().toggleHeading({ level: 3 }).run() },
+    { label: "Bulleted list", icon: List, active: editor.isActive("bulletList"), run: () => chain().toggleBulletList().run() },
+    { label: "Numbered list", icon: ListOrdered, active: editor.isActive("orderedList"), run: () => chain().toggleOrderedList().run() },
+    { label: "Quote", icon: Quote, active: editor.isActive("blockquote"), run: () => chain().toggleBlockquote().run() },
+    { label: "Code block", icon: Code2, active: editor.isActive("codeBlock"), run: () => chain().toggleCodeBlock().run() },
+    { label: "Link", icon: LinkIcon, active: editor.isActive("link"), run: addLink },
+    { label: "Image", icon: ImageIcon, active: false, run: addImage },
+    { label: "Table", icon: TableIcon, active: editor.isActive("table"), run: () => chain().insertTable({ rows: 3, cols: 3, withHeaderRow: true }).run() },
+    { label: "Undo", icon: Undo2, active: false, run: () => chain().undo().run() },
+    { label: "Redo", icon: Redo2, active: false, run: () => chain().redo().run() },
+  ];
+
+  return (
+    <div className="flex flex-wrap items-center gap-0.5">
+      {tools.map(({ label, icon: Icon, active, run }) => (
+        <Toggle
+          key={label}
+          size="sm"
+          pressed={active}
+          onPressedChange={run}
+          aria-label={label}
+          title={label}
+          disabled={disabled}
+          className="h-8 min-w-8 px-2"
+        >
+          <Icon className="h-4 w-4" />
+        </Toggle>
+      ))}
+    </div>
+  );
+}
+
+function MarkdownPane({ markdown, onChange, disabled }: { markdown: string; onChange: (markdown: string) => void; disabled?: boolean }) {
+  // The preview goes through the editor schema, which drops anything it doesn't
+  // know (scripts, event handlers); the server sanitizes the saved HTML separately.
+  const preview = useEditor({ extensions, content: "", editable: false, editorProps: { attributes: { class: editorClassName } } });
+  const html = useMemo(() => renderMarkdown(markdown), [markdown]);
+
+  useEffect(() => {
+    preview?.commands.setContent(html, false);
+  }, [preview, html]);
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 md:divide-x divide-input">
+      <Textarea
+        value={markdown}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={"## Heading\n\nWrite your lesson in **Markdown**..."}
+        rows={12}
+        className="border-0 rounded-none font-mono text-sm focus-visible:ring-0 focus-visible:ring-offset-0 resize-y"
+        disabled={disabled}
+      />
+      <div className="max-h-[420px] overflow-y-auto">
+        <p className="px-3 pt-2 text-xs uppercase tracking-wide text-gray-400">Preview</p>
+        <EditorContent editor={preview} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,638 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Download, Pencil, Plus, Trash2, Upload } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  QUIZ_QUESTION_TYPE_LABELS,
+  QuizQuestionFields,
+  cleanQuestion,
+  newQuestion,
+  questionProblem,
+} from "@/components/quiz-question-fields";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { bankQtiUrl, importQtiIntoBank, type QtiImportError, type QtiSkippedItem } from "@/lib/qti";
+import type { QuestionBankSummary } from "@shared/quizzes";
+import type { BankQuestion, Course, InsertBankQuestion, QuestionDifficulty, QuizQuestion } from "@shared/schema";
+
+// Text formats are pasted or read from a file; QTI packages are uploaded as they are
+type ImportFormat = "csv" | "aiken" | "gift" | "qti";
+
+const IMPORT_FORMATS: Record<ImportFormat, { label: string; example: string }> = {
+  csv: {
+    label: "CSV",
+    example: [
+      "type,prompt,points,options,answer,tags,difficulty",
+      "multiple-choice,Which keyword starts a loop?,1,for|if|def,for,loops,easy",
+      "numeric,How many times does range(5) loop?,1,,5,loops,easy",
+    ].join("\n"),
+  },
+  aiken: {
+    label: "Aiken",
+    example: ["Which keyword starts a loop?", "A. for", "B. if", "C. def", "ANSWER: A"].join("\n"),
+  },
+  gift: {
+    label: "GIFT",
+    example: [
+      "$CATEGORY: loops",
+      "",
+      "Which keyword starts a loop? {=for ~if ~def}",
+      "",
+      "A while loop can run forever. {T}",
+      "",
+      "How many times does range(5) loop? {#5}",
+    ].join("\n"),
+  },
+  qti: { label: "QTI 2.1", example: "" },
+};
+
+const DIFFICULTY_LABELS: Record<QuestionDifficulty, string> = { easy: "Easy", medium: "Medium", hard: "Hard" };
+
+const parseTags = (text: string) => text.split(",").map((tag) => tag.trim().toLowerCase()).filter(Boolean);
+
+// The questions that couldn't be read, from a failed import ("400: {"errors":[...]}")
+function importErrors(error: Error): { line: number; message: string }[] {
+  try {
+    const errors = JSON.parse(error.message.replace(/^\d+:\s*/, "")).errors;
+    return Array.isArray(errors) && errors.every((e) => typeof e.line === "number") ? errors : [];
+  } catch {
+    return [];
+  }
+}
+
+interface QuestionBankManagerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  course: Course;
+}
+
+/**
+ * A course's question banks: questions tagged by topic and rated by
+ * difficulty, for quizzes to draw from at random. Questions are written here
+ * or imported in bulk.
+ */
+export function QuestionBankManager({ isOpen, onClose, course }: QuestionBankManagerProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const banksKey = `/api/courses/${course.id}/question-banks`;
+  const [selectedBankId, setSelectedBankId] = useState<number | null>(null);
+  const [newBankTitle, setNewBankTitle] = useState("");
+
+  const { data: banks = [] } = useQuery<QuestionBankSummary[]>({
+    queryKey: [banksKey],
+    enabled: isOpen,
+  });
+  const selectedBank = banks.find((bank) => bank.id === selectedBankId) ?? banks[0];
+
+  useEffect(() => {
+    if (!isOpen) setSelectedBankId(null);
+  }, [isOpen]);
+
+  const createBankMutation = useMutation({
+    mutationFn: async (title: string) => {
+      const res = await apiRequest("POST", banksKey, { title });
+      return (await res.json()) as QuestionBankSummary;
+    },
+    onSuccess: (bank) => {
+      queryClient.invalidateQueries({ queryKey: [banksKey] });
+      setSelectedBankId(bank.id);
+      setNewBankTitle("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to create question bank", description: apiErrorMessage(error, "Please try again."), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[1000px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold text-gray-900 dark:text-white">
+            Question Banks: {course.title}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 gap-6 md:grid-cols-[220px_1fr]">
+          <div className="space-y-3">
+            <ul className="space-y-1">
+              {banks.map((bank) => (
+                <li key={bank.id}>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedBankId(bank.id)}
+                    className={`w-full rounded-md px-3 py-2 text-left text-sm ${
+                      bank.id === selectedBank?.id
+                        ? "bg-primary-50 text-primary-700 dark:bg-primary-900/20 dark:text-primary-300"
+                        : "hover:bg-gray-100 dark:hover:bg-gray-800"
+                    }`}
+                  >
+                    <span className="block font-medium">{bank.title}</span>
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      {bank.questionCount} question{bank.questionCount === 1 ? "" : "s"}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (newBankTitle.trim()) createBankMutation.mutate(newBankTitle.trim());
+              }}
+            >
+              <Input
+                value={newBankTitle}
+                onChange={(e) => setNewBankTitle(e.target.value)}
+                placeholder="New bank"
+                aria-label="New bank title"
+                className="h-8"
+                disabled={createBankMutation.isPending}
+              />
+              <Button type="submit" size="sm" disabled={!newBankTitle.trim() || createBankMutation.isPending} aria-label="Create bank">
+                <Plus className="h-4 w-4" />
+              </Button>
+            </form>
+          </div>
+
+          {selectedBank ? (
+            <BankPanel key={selectedBank.id} bank={selectedBank} banksKey={banksKey} />
+          ) : (
+            <p className="py-12 text-center text-sm text-gray-500 dark:text-gray-400">
+              Create a bank to start collecting questions for this course's quizzes.
+            </p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// A question being written or edited; id is null until it is saved
+type QuestionDraft = { id: number | null; question: QuizQuestion; tags: string; difficulty: QuestionDifficulty | null };
+
+interface BankPanelProps {
+  bank: QuestionBankSummary;
+  banksKey: string;
+}
+
+function BankPanel({ bank, banksKey }: BankPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const questionsKey = `/api/question-banks/${bank.id}/questions`;
+  const [title, setTitle] = useState(bank.title);
+  const [description, setDescription] = useState(bank.description ?? "");
+  const [tagFilter, setTagFilter] = useState("all");
+  const [difficultyFilter, setDifficultyFilter] = useState("all");
+  const [editing, setEditing] = useState<QuestionDraft | null>(null);
+  const [showImport, setShowImport] = useState(false);
+
+  const { data: questions = [], isLoading } = useQuery<BankQuestion[]>({
+    queryKey: [questionsKey],
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: [questionsKey] });
+    queryClient.invalidateQueries({ queryKey: [banksKey] }); // Question counts and tags
+  };
+
+  const updateBankMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PUT", `/api/question-banks/${bank.id}`, { title, description: description.trim() || null });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [banksKey] });
+      toast({ title: "Question bank saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save question bank", description: apiErrorMessage(error, "Please try again."), variant: "destructive" });
+    },
+  });
+
+  const deleteBankMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/question-banks/${bank.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [banksKey] });
+      toast({ title: "Question bank deleted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to delete question bank", description: apiErrorMessage(error, "Please try again."), variant: "destructive" });
+    },
+  });
+
+  const saveQuestionMutation = useMutation({
+    mutationFn: async ({ id, ...data }: InsertBankQuestion & { id: number | null }) => {
+      await (id === null
+        ? apiRequest("POST", questionsKey, data)
+        : apiRequest("PUT", `${questionsKey}/${id}`, data));
+    },
+    onSuccess: () => {
+      refresh();
+      setEditing(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save question", description: apiErrorMessage(error, "Please check the question and try again."), variant: "destructive" });
+    },
+  });
+
+  const deleteQuestionMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `${questionsKey}/${id}`);
+    },
+    onSuccess: refresh,
+    onError: (error: Error) => {
+      toast({ title: "Failed to delete question", description: apiErrorMessage(error, "Please try again."), variant: "destructive" });
+    },
+  });
+
+  const saveQuestion = () => {
+    if (!editing) return;
+    const problem = questionProblem(editing.question, "The question");
+    if (problem) {
+      toast({ title: "Validation Error", description: problem, variant: "destructive" });
+      return;
+    }
+    saveQuestionMutation.mutate({
+      id: editing.id,
+      question: cleanQuestion(editing.question),
+      tags: parseTags(editing.tags),
+      difficulty: editing.difficulty,
+    });
+  };
+
+  const filtered = questions.filter((q) =>
+    (tagFilter === "all" || q.tags.includes(tagFilter))
+    && (difficultyFilter === "all" || (difficultyFilter === "unrated" ? q.difficulty === null : q.difficulty === difficultyFilter))
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <div className="flex gap-2">
+          <Input value={title} onChange={(e) => setTitle(e.target.value)} aria-label="Bank title" />
+          <Button
+            variant="outline"
+            onClick={() => updateBankMutation.mutate()}
+            disabled={!title.trim() || updateBankMutation.isPending}
+          >
+            Save
+          </Button>
+          <Button
+            variant="ghost"
+            onClick={() => {
+              if (confirm(`Delete "${bank.title}" and its ${bank.questionCount} questions?`)) deleteBankMutation.mutate();
+            }}
+            disabled={deleteBankMutation.isPending}
+            aria-label="Delete bank"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+        <Textarea
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="Description (optional)"
+          aria-label="Bank description"
+          rows={2}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={tagFilter} onValueChange={setTagFilter}>
+          <SelectTrigger className="h-8 w-[160px]" aria-label="Filter by tag">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All tags</SelectItem>
+            {bank.tags.map((tag) => (
+              <SelectItem key={tag} value={tag}>{tag}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={difficultyFilter} onValueChange={setDifficultyFilter}>
+          <SelectTrigger className="h-8 w-[160px]" aria-label="Filter by difficulty">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Any difficulty</SelectItem>
+            {Object.entries(DIFFICULTY_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+            <SelectItem value="unrated">Unrated</SelectItem>
+          </SelectContent>
+        </Select>
+        <div className="ml-auto flex gap-2">
+          <Button size="sm" variant="outline" onClick={() => setShowImport(!showImport)}>
+            <Upload className="mr-2 h-4 w-4" /> Import
+          </Button>
+          <Button asChild size="sm" variant="outline">
+            <a href={bankQtiUrl(bank.id)} download>
+              <Download className="mr-2 h-4 w-4" /> Export QTI
+            </a>
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => setEditing({ id: null, question: newQuestion("multiple-choice"), tags: tagFilter === "all" ? "" : tagFilter, difficulty: null })}
+            disabled={editing !== null}
+          >
+            <Plus className="mr-2 h-4 w-4" /> Add Question
+          </Button>
+        </div>
+      </div>
+
+      {showImport && <ImportPanel bankId={bank.id} onImported={refresh} onClose={() => setShowImport(false)} />}
+
+      {editing?.id === null && (
+        <QuestionEditor
+          draft={editing}
+          onChange={setEditing}
+          onSave={saveQuestion}
+          onCancel={() => setEditing(null)}
+          isSaving={saveQuestionMutation.isPending}
+        />
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading questions...</p>
+      ) : filtered.length === 0 ? (
+        <p className="py-6 text-center text-sm text-gray-500 dark:text-gray-400">
+          {questions.length === 0 ? "No questions yet. Add some or import them." : "No questions match these filters."}
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {filtered.map((q) => editing?.id === q.id ? (
+            <li key={q.id}>
+              <QuestionEditor
+                draft={editing}
+                onChange={setEditing}
+                onSave={saveQuestion}
+                onCancel={() => setEditing(null)}
+                isSaving={saveQuestionMutation.isPending}
+              />
+            </li>
+          ) : (
+            <li key={q.id} className="flex items-start gap-3 rounded-md border border-gray-200 dark:border-gray-700 p-3">
+              <div className="min-w-0 flex-1 space-y-1">
+                <p className="text-sm font-medium whitespace-pre-wrap">{q.question.prompt}</p>
+                <div className="flex flex-wrap items-center gap-1">
+                  <Badge variant="secondary">{QUIZ_QUESTION_TYPE_LABELS[q.question.type]}</Badge>
+                  {q.difficulty && <Badge variant="outline">{DIFFICULTY_LABELS[q.difficulty as QuestionDifficulty]}</Badge>}
+                  {q.tags.map((tag) => (
+                    <Badge key={tag} variant="outline" className="font-normal">#{tag}</Badge>
+                  ))}
+                </div>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setEditing({
+                  id: q.id,
+                  question: q.question,
+                  tags: q.tags.join(", "),
+                  difficulty: q.difficulty as QuestionDifficulty | null,
+                })}
+                disabled={editing !== null}
+                aria-label="Edit question"
+              >
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => deleteQuestionMutation.mutate(q.id)}
+                disabled={deleteQuestionMutation.isPending}
+                aria-label="Delete question"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+interface QuestionEditorProps {
+  draft: QuestionDraft;
+  onChange: (draft: QuestionDraft) => void;
+  onSave: () => void;
+  onCancel: () => void;
+  isSaving: boolean;
+}
+
+function QuestionEditor({ draft, onChange, onSave, onCancel, isSaving }: QuestionEditorProps) {
+  return (
+    <div className="space-y-3 rounded-md border border-primary-200 dark:border-primary-800 p-4">
+      <QuizQuestionFields
+        question={draft.question}
+        onChange={(question) => onChange({ ...draft, question })}
+        showPoints={false}
+        disabled={isSaving}
+      />
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          value={draft.tags}
+          onChange={(e) => onChange({ ...draft, tags: e.target.value })}
+          placeholder="Tags, comma-separated"
+          aria-label="Tags"
+          className="h-8 max-w-xs"
+          disabled={isSaving}
+        />
+        <Select
+          value={draft.difficulty ?? "unrated"}
+          onValueChange={(value) => onChange({ ...draft, difficulty: value === "unrated" ? null : value as QuestionDifficulty })}
+          disabled={isSaving}
+        >
+          <SelectTrigger className="h-8 w-[150px]" aria-label="Difficulty">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="unrated">Unrated</SelectItem>
+            {Object.entries(DIFFICULTY_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="ml-auto flex gap-2">
+          <Button size="sm" variant="outline" onClick={onCancel} disabled={isSaving}>Cancel</Button>
+          <Button size="sm" onClick={onSave} disabled={isSaving}>{isSaving ? "Saving..." : "Save Question"}</Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface ImportPanelProps {
+  bankId: number;
+  onImported: () => void;
+  onClose: () => void;
+}
+
+// Pasted or uploaded questions in bulk. Nothing is added from text unless every
+// question reads; a QTI package adds what it can and lists the items it skipped.
+function ImportPanel({ bankId, onImported, onClose }: ImportPanelProps) {
+  const { toast } = useToast();
+  const [format, setFormat] = useState<ImportFormat>("csv");
+  const [text, setText] = useState("");
+  const [tags, setTags] = useState("");
+  const [difficulty, setDifficulty] = useState<QuestionDifficulty | null>(null);
+  const [errors, setErrors] = useState<{ line: number; message: string }[]>([]);
+  const [packageFile, setPackageFile] = useState<File>();
+  const [skippedItems, setSkippedItems] = useState<QtiSkippedItem[]>([]);
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/question-banks/${bankId}/import`, { format, text, tags: parseTags(tags), difficulty });
+      return (await res.json()) as BankQuestion[];
+    },
+    onSuccess: (imported) => {
+      toast({ title: `Imported ${imported.length} question${imported.length === 1 ? "" : "s"}` });
+      onImported();
+      onClose();
+    },
+    onError: (error: Error) => {
+      setErrors(importErrors(error));
+      toast({ title: "Import failed", description: apiErrorMessage(error, "Please check the questions and try again."), variant: "destructive" });
+    },
+  });
+
+  const qtiMutation = useMutation({
+    mutationFn: (file: File) => importQtiIntoBank(bankId, file),
+    onSuccess: ({ imported, skipped }) => {
+      toast({
+        title: `Imported ${imported.length} question${imported.length === 1 ? "" : "s"}`,
+        description: skipped.length > 0 ? `${skipped.length} item${skipped.length === 1 ? " was" : "s were"} skipped.` : undefined,
+      });
+      onImported();
+      if (skipped.length > 0) setSkippedItems(skipped); // Left open to show them
+      else onClose();
+    },
+    onError: (error: QtiImportError) => {
+      setSkippedItems(error.skipped ?? []);
+      toast({ title: "Import failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const readFile = (file: File | undefined) => {
+    if (!file) return;
+    if (format === "qti" || /\.zip$/i.test(file.name)) {
+      setFormat("qti");
+      setPackageFile(file);
+      return;
+    }
+    if (/\.csv$/i.test(file.name)) setFormat("csv");
+    else if (/\.gift$/i.test(file.name)) setFormat("gift");
+    file.text().then(setText);
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border border-gray-200 dark:border-gray-700 p-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Label className="text-sm">Format</Label>
+        <Select value={format} onValueChange={(value) => setFormat(value as ImportFormat)}>
+          <SelectTrigger className="h-8 w-[120px]" aria-label="Import format">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(IMPORT_FORMATS).map(([value, { label }]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          type="file"
+          accept={format === "qti" ? ".zip" : ".csv,.txt,.gift,.zip"}
+          onChange={(e) => readFile(e.target.files?.[0])}
+          aria-label="Question file"
+          className="h-8 max-w-xs"
+        />
+      </div>
+      {format === "qti" ? (
+        <div className="flex items-center gap-2">
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Items keep the tags and difficulty in the package's metadata. Item types the quiz can't ask are skipped.
+          </p>
+          <Button
+            size="sm"
+            className="ml-auto"
+            onClick={() => packageFile && qtiMutation.mutate(packageFile)}
+            disabled={!packageFile || qtiMutation.isPending}
+          >
+            {qtiMutation.isPending ? "Importing..." : "Import Package"}
+          </Button>
+        </div>
+      ) : (
+        <>
+          <Textarea
+            value={text}
+            onChange={(e) => {
+              setText(e.target.value);
+              setErrors([]);
+            }}
+            placeholder={IMPORT_FORMATS[format].example}
+            aria-label="Questions to import"
+            rows={8}
+            className="font-mono text-xs"
+          />
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="Tags for every question"
+              aria-label="Tags for every question"
+              className="h-8 max-w-xs"
+            />
+            <Select value={difficulty ?? "unrated"} onValueChange={(value) => setDifficulty(value === "unrated" ? null : value as QuestionDifficulty)}>
+              <SelectTrigger className="h-8 w-[150px]" aria-label="Difficulty for every question">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="unrated">Unrated</SelectItem>
+                {Object.entries(DIFFICULTY_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" className="ml-auto" onClick={() => importMutation.mutate()} disabled={!text.trim() || importMutation.isPending}>
+              {importMutation.isPending ? "Importing..." : "Import Questions"}
+            </Button>
+          </div>
+        </>
+      )}
+      {errors.length > 0 && (
+        <ul className="space-y-1 text-sm text-red-600 dark:text-red-400">
+          {errors.map((error) => (
+            <li key={`${error.line}-${error.message}`}>Line {error.line}: {error.message}</li>
+          ))}
+        </ul>
+      )}
+      {skippedItems.length > 0 && (
+        <ul className="space-y-1 text-sm text-amber-700 dark:text-amber-400">
+          {skippedItems.map((skipped) => (
+            <li key={skipped.item}>Skipped {skipped.item}: {skipped.message}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
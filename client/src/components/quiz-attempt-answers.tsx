@@ -0,0 +1,65 @@
+import { Badge } from "@/components/ui/badge";
+import type { QuizAttemptReview } from "@shared/quizzes";
+import type { QuizAnswer, QuizQuestion } from "@shared/schema";
+
+const optionText = (question: QuizQuestion, id: string) =>
+  ("options" in question ? question.options.find((option) => option.id === id)?.text : undefined) ?? id;
+
+// The correct answer, as the teacher set it
+function correctAnswer(question: QuizQuestion): string {
+  switch (question.type) {
+    case "multiple-choice":
+      return optionText(question, question.correctOptionId);
+    case "multiple-select":
+      return question.correctOptionIds.map((id) => optionText(question, id)).join(", ");
+    case "true-false":
+      return question.correct ? "True" : "False";
+    case "numeric":
+      return question.tolerance > 0 ? `${question.answer} ± ${question.tolerance}` : String(question.answer);
+    case "short-answer":
+      return question.acceptedAnswers.length > 0 ? question.acceptedAnswers.join(" / ") : "None set";
+  }
+}
+
+function givenAnswer(question: QuizQuestion, answer: QuizAnswer | undefined): string {
+  if (answer === undefined || answer === "") return "No answer";
+  if (Array.isArray(answer)) return answer.map((id) => optionText(question, id)).join(", ");
+  if (typeof answer === "boolean") return answer ? "True" : "False";
+  return typeof answer === "string" && question.type === "multiple-choice" ? optionText(question, answer) : String(answer);
+}
+
+/**
+ * A submitted quiz attempt, question by question in the order the student saw
+ * them: their answer, the correct one and the points it earned. Short answers
+ * still to be scored are flagged.
+ */
+export function QuizAttemptAnswers({ attempt }: { attempt: QuizAttemptReview }) {
+  return (
+    <ol className="space-y-4">
+      {attempt.questions.map((question, index) => {
+        const points = attempt.results?.[question.id];
+        return (
+          <li key={question.id} className="rounded-md border border-gray-200 dark:border-gray-700 p-4 space-y-1">
+            <div className="flex items-start justify-between gap-4">
+              <p className="font-medium">{index + 1}. {question.prompt}</p>
+              {points == null ? (
+                <Badge className="bg-amber-500 shrink-0">Needs review</Badge>
+              ) : (
+                <Badge variant={points === question.points ? "default" : "outline"} className="shrink-0">
+                  {points}/{question.points}
+                </Badge>
+              )}
+            </div>
+            <p className="text-sm whitespace-pre-wrap">
+              <span className="text-gray-500 dark:text-gray-400">Answer: </span>
+              {givenAnswer(question, attempt.answers[question.id])}
+            </p>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {question.type === "short-answer" ? "Accepted" : "Correct"}: {correctAnswer(question)}
+            </p>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
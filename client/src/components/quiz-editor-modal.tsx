@@ -0,0 +1,403 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Download, Plus, Shuffle, Trash2, Upload } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  QuizQuestionFields,
+  cleanQuestion,
+  newId,
+  newQuestion,
+  questionProblem,
+} from "@/components/quiz-question-fields";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { quizQtiUrl, readQtiQuiz, type QtiImportError, type QtiSkippedItem } from "@/lib/qti";
+import { quizMaxPoints, type QuestionBankSummary } from "@shared/quizzes";
+import type { InsertQuiz, Quiz, QuizDraw, QuizQuestion, QuestionDifficulty } from "@shared/schema";
+
+// A draw as edited: tags are typed comma-separated, and a new draw may have no bank yet
+type DrawDraft = Omit<QuizDraw, "bankId" | "tags"> & { key: string; bankId: number | null; tags: string };
+
+const toDraft = (draw: QuizDraw): DrawDraft => ({ ...draw, key: newId(), tags: draw.tags.join(", ") });
+
+const parseTags = (text: string) => text.split(",").map((tag) => tag.trim().toLowerCase()).filter(Boolean);
+
+// What stops the quiz from being saved, if anything
+function quizProblem(questions: QuizQuestion[], draws: DrawDraft[]): string | undefined {
+  if (questions.length === 0 && draws.length === 0) return "Add at least one question.";
+  for (let index = 0; index < questions.length; index++) {
+    const problem = questionProblem(questions[index], `Question ${index + 1}`);
+    if (problem) return problem;
+  }
+  for (let index = 0; index < draws.length; index++) {
+    if (draws[index].bankId === null) return `Pick a question bank for draw ${index + 1}.`;
+    if (draws[index].count < 1) return `Draw ${index + 1} needs to draw at least one question.`;
+  }
+}
+
+interface QuizEditorModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  quiz?: InsertQuiz;
+  courseId: string; // Whose question banks the quiz can draw from
+  // Saved straight to this assignment when given; otherwise handed back to be
+  // sent with a new assignment
+  assignmentId?: number;
+  onSaved?: (quiz: InsertQuiz) => void;
+}
+
+/**
+ * Builds a quiz: its questions, each scored automatically except short
+ * answers that match none of the accepted answers, questions drawn at random
+ * from the course's question banks, and its time limit, attempt limit and
+ * shuffling.
+ */
+export function QuizEditorModal({ isOpen, onClose, quiz, courseId, assignmentId, onSaved }: QuizEditorModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [questions, setQuestions] = useState<QuizQuestion[]>([]);
+  const [draws, setDraws] = useState<DrawDraft[]>([]);
+  const [timeLimitMinutes, setTimeLimitMinutes] = useState("");
+  const [maxAttempts, setMaxAttempts] = useState("");
+  const [shuffleQuestions, setShuffleQuestions] = useState(false);
+  const [shuffleOptions, setShuffleOptions] = useState(false);
+  const [skippedItems, setSkippedItems] = useState<QtiSkippedItem[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { data: banks = [] } = useQuery<QuestionBankSummary[]>({
+    queryKey: [`/api/courses/${courseId}/question-banks`],
+    enabled: isOpen && !!courseId,
+  });
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setQuestions(quiz?.questions ?? [newQuestion("multiple-choice")]);
+    setDraws(quiz?.draws.map(toDraft) ?? []);
+    setTimeLimitMinutes(quiz?.timeLimitMinutes?.toString() ?? "");
+    setMaxAttempts(quiz?.maxAttempts?.toString() ?? "");
+    setShuffleQuestions(quiz?.shuffleQuestions ?? false);
+    setShuffleOptions(quiz?.shuffleOptions ?? false);
+    setSkippedItems([]);
+  }, [isOpen, quiz]);
+
+  const draftDraws = (): QuizDraw[] =>
+    draws.map(({ key, bankId, tags, ...draw }) => ({ ...draw, bankId: bankId ?? 0, tags: parseTags(tags) }));
+
+  const draft = (): InsertQuiz => ({
+    questions: questions.map(cleanQuestion),
+    draws: draftDraws(),
+    timeLimitMinutes: parseInt(timeLimitMinutes) > 0 ? parseInt(timeLimitMinutes) : null,
+    maxAttempts: parseInt(maxAttempts) > 0 ? parseInt(maxAttempts) : null,
+    shuffleQuestions,
+    shuffleOptions,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: InsertQuiz) => {
+      const res = await apiRequest("PUT", `/api/assignments/${assignmentId}/quiz`, data);
+      return (await res.json()) as Quiz;
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/assignments/${assignmentId}/quiz`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/assignments/${assignmentId}`] }); // Its points follow the questions
+      toast({ title: "Quiz saved" });
+      onSaved?.(saved);
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save quiz",
+        description: apiErrorMessage(error, "Please check your questions and try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Adds a QTI package's questions after those already written, and takes its settings
+  const importMutation = useMutation({
+    mutationFn: readQtiQuiz,
+    onSuccess: ({ quiz: imported, skipped }) => {
+      const untouched = questions.length === 1 && !questions[0].prompt.trim(); // The blank question a new quiz starts with
+      const kept = untouched ? [] : questions;
+      const taken = new Set(kept.map((question) => question.id));
+      setQuestions([
+        ...kept,
+        ...imported.questions.map((question) => (taken.has(question.id) ? { ...question, id: newId() } : question)),
+      ]);
+      if (imported.timeLimitMinutes) setTimeLimitMinutes(imported.timeLimitMinutes.toString());
+      setShuffleQuestions(shuffleQuestions || imported.shuffleQuestions);
+      setShuffleOptions(shuffleOptions || imported.shuffleOptions);
+      setSkippedItems(skipped);
+      toast({ title: `Imported ${imported.questions.length} question${imported.questions.length === 1 ? "" : "s"}` });
+    },
+    onError: (error: QtiImportError) => {
+      setSkippedItems(error.skipped ?? []);
+      toast({ title: "Import failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateDraw = (key: string, updates: Partial<DrawDraft>) =>
+    setDraws(draws.map((draw) => (draw.key === key ? { ...draw, ...updates } : draw)));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    e.stopPropagation(); // Opened from the assignment form; React bubbles through the portal
+    const problem = quizProblem(questions, draws);
+    if (problem) {
+      toast({ title: "Validation Error", description: problem, variant: "destructive" });
+      return;
+    }
+    if (assignmentId !== undefined) {
+      saveMutation.mutate(draft());
+    } else {
+      onSaved?.(draft());
+      onClose();
+    }
+  };
+
+  const isBusy = saveMutation.isPending || importMutation.isPending;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[800px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader className="flex-row items-center justify-between space-y-0 pr-8">
+          <DialogTitle className="text-lg font-semibold text-gray-900 dark:text-white">Quiz Editor</DialogTitle>
+          <div className="flex gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".zip"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importMutation.mutate(file);
+                e.target.value = "";
+              }}
+            />
+            <Button type="button" size="sm" variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isBusy}>
+              <Upload className="mr-2 h-4 w-4" />
+              {importMutation.isPending ? "Importing..." : "Import QTI"}
+            </Button>
+            {assignmentId !== undefined && (
+              <Button asChild size="sm" variant="outline">
+                <a href={quizQtiUrl(assignmentId)} download>
+                  <Download className="mr-2 h-4 w-4" /> Export QTI
+                </a>
+              </Button>
+            )}
+          </div>
+        </DialogHeader>
+
+        {skippedItems.length > 0 && (
+          <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800 dark:border-amber-800 dark:bg-amber-900/20 dark:text-amber-300">
+            <p className="font-medium">Not imported:</p>
+            <ul className="mt-1 list-disc pl-5">
+              {skippedItems.map((skipped) => (
+                <li key={skipped.item}>{skipped.item}: {skipped.message}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="timeLimit">Time Limit (minutes)</Label>
+              <Input
+                id="timeLimit"
+                type="number"
+                min={1}
+                value={timeLimitMinutes}
+                onChange={(e) => setTimeLimitMinutes(e.target.value)}
+                placeholder="No limit"
+                disabled={isBusy}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="maxAttempts">Attempts Allowed</Label>
+              <Input
+                id="maxAttempts"
+                type="number"
+                min={1}
+                value={maxAttempts}
+                onChange={(e) => setMaxAttempts(e.target.value)}
+                placeholder="Unlimited"
+                disabled={isBusy}
+              />
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-6">
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox checked={shuffleQuestions} onCheckedChange={(checked) => setShuffleQuestions(checked === true)} disabled={isBusy} />
+              Shuffle questions
+            </label>
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox checked={shuffleOptions} onCheckedChange={(checked) => setShuffleOptions(checked === true)} disabled={isBusy} />
+              Shuffle answer options
+            </label>
+          </div>
+
+          <div className="space-y-4">
+            {questions.map((question, index) => (
+              <div key={question.id} className="rounded-md border border-gray-200 dark:border-gray-700 p-4">
+                <QuizQuestionFields
+                  question={question}
+                  number={index + 1}
+                  onChange={(updated) => setQuestions(questions.map((q) => (q.id === question.id ? updated : q)))}
+                  onRemove={() => setQuestions(questions.filter((q) => q.id !== question.id))}
+                  disabled={isBusy}
+                />
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setQuestions([...questions, newQuestion("multiple-choice")])}
+              disabled={isBusy}
+            >
+              <Plus className="mr-2 h-4 w-4" /> Add question
+            </Button>
+          </div>
+
+          <div className="space-y-3">
+            <div>
+              <h3 className="text-sm font-medium text-gray-900 dark:text-white">Random Questions</h3>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Each attempt draws its own questions from a question bank, from those with every tag listed.
+              </p>
+            </div>
+            {draws.map((draw) => {
+              const bank = banks.find((b) => b.id === draw.bankId);
+              return (
+                <div key={draw.key} className="space-y-2 rounded-md border border-gray-200 dark:border-gray-700 p-4">
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <span>Draw</span>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={draw.count}
+                      onChange={(e) => updateDraw(draw.key, { count: Math.max(0, parseInt(e.target.value) || 0) })}
+                      aria-label="Questions to draw"
+                      className="h-8 w-16"
+                      disabled={isBusy}
+                    />
+                    <span>from</span>
+                    <Select
+                      value={draw.bankId?.toString() ?? ""}
+                      onValueChange={(value) => updateDraw(draw.key, { bankId: parseInt(value) })}
+                      disabled={isBusy}
+                    >
+                      <SelectTrigger className="h-8 w-[200px]" aria-label="Question bank">
+                        <SelectValue placeholder="Question bank" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {banks.map((b) => (
+                          <SelectItem key={b.id} value={b.id.toString()}>
+                            {b.title} ({b.questionCount})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <span>worth</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={draw.points}
+                      onChange={(e) => updateDraw(draw.key, { points: Math.max(0, parseInt(e.target.value) || 0) })}
+                      aria-label="Points per question"
+                      className="h-8 w-16"
+                      disabled={isBusy}
+                    />
+                    <span>points each</span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="ml-auto"
+                      onClick={() => setDraws(draws.filter((d) => d.key !== draw.key))}
+                      disabled={isBusy}
+                      aria-label="Remove draw"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Input
+                      value={draw.tags}
+                      onChange={(e) => updateDraw(draw.key, { tags: e.target.value })}
+                      placeholder="Tags, comma-separated"
+                      aria-label="Tags"
+                      className="h-8 max-w-xs"
+                      disabled={isBusy}
+                    />
+                    <Select
+                      value={draw.difficulty ?? "any"}
+                      onValueChange={(value) => updateDraw(draw.key, { difficulty: value === "any" ? null : value as QuestionDifficulty })}
+                      disabled={isBusy}
+                    >
+                      <SelectTrigger className="h-8 w-[150px]" aria-label="Difficulty">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="any">Any difficulty</SelectItem>
+                        <SelectItem value="easy">Easy</SelectItem>
+                        <SelectItem value="medium">Medium</SelectItem>
+                        <SelectItem value="hard">Hard</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {bank && bank.tags.length > 0 && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">Tags in this bank: {bank.tags.join(", ")}</p>
+                  )}
+                </div>
+              );
+            })}
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setDraws([...draws, { key: newId(), bankId: banks[0]?.id ?? null, count: 1, tags: "", difficulty: null, points: 1 }])}
+              disabled={isBusy || banks.length === 0}
+            >
+              <Shuffle className="mr-2 h-4 w-4" /> Draw from a question bank
+            </Button>
+            {banks.length === 0 && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {courseId ? "This course has no question banks yet. Add them from Content Management." : "Pick a course to draw from its question banks."}
+              </p>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Worth {quizMaxPoints({ questions, draws: draftDraws() })} points
+            </p>
+            <div className="flex space-x-3">
+              <Button type="button" variant="outline" onClick={onClose} disabled={isBusy}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isBusy}>
+                {isBusy ? "Saving..." : assignmentId !== undefined ? "Save Quiz" : "Done"}
+              </Button>
+            </div>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
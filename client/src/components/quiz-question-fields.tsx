@@ -0,0 +1,276 @@
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { QuizQuestion, QuizQuestionType } from "@shared/schema";
+
+export const QUIZ_QUESTION_TYPE_LABELS: Record<QuizQuestionType, string> = {
+  "multiple-choice": "Multiple choice",
+  "multiple-select": "Multiple select",
+  "true-false": "True / false",
+  numeric: "Numeric",
+  "short-answer": "Short answer",
+};
+
+// Question and option ids only need to be unique within the quiz
+export const newId = () => Math.random().toString(36).slice(2, 10);
+
+const newOption = () => ({ id: newId(), text: "" });
+
+// A blank question of the given type, keeping what carries over from the one it replaces
+export function newQuestion(type: QuizQuestionType, from?: QuizQuestion): QuizQuestion {
+  const base = { id: from?.id ?? newId(), prompt: from?.prompt ?? "", points: from?.points ?? 1 };
+  const options = from && "options" in from ? from.options : [newOption(), newOption()];
+  switch (type) {
+    case "multiple-choice":
+      return { ...base, type, options, correctOptionId: "" };
+    case "multiple-select":
+      return { ...base, type, options, correctOptionIds: [] };
+    case "true-false":
+      return { ...base, type, correct: true };
+    case "numeric":
+      return { ...base, type, answer: 0, tolerance: 0 };
+    case "short-answer":
+      return { ...base, type, acceptedAnswers: [] };
+  }
+}
+
+// What stops the question from being saved, if anything; label names it in the message
+export function questionProblem(question: QuizQuestion, label: string): string | undefined {
+  if (!question.prompt.trim()) return `${label} needs a prompt.`;
+  if (question.type === "multiple-choice" || question.type === "multiple-select") {
+    if (question.options.length < 2) return `${label} needs at least two options.`;
+    if (question.options.some((option) => !option.text.trim())) return `Every option in ${label.toLowerCase()} needs text.`;
+  }
+  if (question.type === "multiple-choice" && !question.correctOptionId) return `Pick the correct option for ${label.toLowerCase()}.`;
+  if (question.type === "multiple-select" && question.correctOptionIds.length === 0) {
+    return `Pick at least one correct option for ${label.toLowerCase()}.`;
+  }
+}
+
+// Accepted answers are typed one per line; blank lines aren't answers
+export function cleanQuestion(question: QuizQuestion): QuizQuestion {
+  return question.type === "short-answer"
+    ? { ...question, acceptedAnswers: question.acceptedAnswers.map((answer) => answer.trim()).filter(Boolean) }
+    : question;
+}
+
+interface QuizQuestionFieldsProps {
+  question: QuizQuestion;
+  onChange: (question: QuizQuestion) => void;
+  onRemove?: () => void;
+  number?: number;
+  showPoints?: boolean; // Bank questions get their points from the quiz drawing them
+  disabled: boolean;
+}
+
+/**
+ * Edits one question: its type, points, prompt and correct answer. Changing the
+ * type keeps the prompt, points and any options.
+ */
+export function QuizQuestionFields({ question, onChange, onRemove, number, showPoints = true, disabled }: QuizQuestionFieldsProps) {
+  const update = (updates: Partial<QuizQuestion>) => onChange({ ...question, ...updates } as QuizQuestion);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        {number !== undefined && <span className="text-sm font-medium">{number}.</span>}
+        <Select
+          value={question.type}
+          onValueChange={(type) => onChange(newQuestion(type as QuizQuestionType, question))}
+          disabled={disabled}
+        >
+          <SelectTrigger className="h-8 w-[180px]" aria-label="Question type">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(QUIZ_QUESTION_TYPE_LABELS).map(([type, label]) => (
+              <SelectItem key={type} value={type}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {showPoints && (
+          <>
+            <Input
+              type="number"
+              min={0}
+              value={question.points}
+              onChange={(e) => update({ points: Math.max(0, parseInt(e.target.value) || 0) })}
+              aria-label="Question points"
+              className="h-8 w-20"
+              disabled={disabled}
+            />
+            <span className="text-sm text-gray-500 dark:text-gray-400">points</span>
+          </>
+        )}
+        {onRemove && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="ml-auto"
+            onClick={onRemove}
+            disabled={disabled}
+            aria-label="Remove question"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+      <Textarea
+        value={question.prompt}
+        onChange={(e) => update({ prompt: e.target.value })}
+        placeholder="Question"
+        aria-label="Question prompt"
+        rows={2}
+        disabled={disabled}
+      />
+      <AnswerEditor question={question} onChange={update} disabled={disabled} />
+    </div>
+  );
+}
+
+interface AnswerEditorProps {
+  question: QuizQuestion;
+  onChange: (updates: Partial<QuizQuestion>) => void;
+  disabled: boolean;
+}
+
+// The correct answer, in the form the question's type takes
+function AnswerEditor({ question, onChange, disabled }: AnswerEditorProps) {
+  switch (question.type) {
+    case "multiple-choice":
+    case "multiple-select": {
+      const isCorrect = (optionId: string) => question.type === "multiple-choice"
+        ? question.correctOptionId === optionId
+        : question.correctOptionIds.includes(optionId);
+      const toggleCorrect = (optionId: string) => {
+        if (question.type === "multiple-choice") {
+          onChange({ correctOptionId: optionId });
+        } else {
+          const ids = question.correctOptionIds;
+          onChange({ correctOptionIds: ids.includes(optionId) ? ids.filter((id) => id !== optionId) : [...ids, optionId] });
+        }
+      };
+      return (
+        <div className="space-y-2">
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {question.type === "multiple-choice"
+              ? "Tick the correct option."
+              : "Tick every correct option. Students must pick exactly these to score."}
+          </p>
+          {question.options.map((option) => (
+            <div key={option.id} className="flex items-center gap-2">
+              <Checkbox
+                checked={isCorrect(option.id)}
+                onCheckedChange={() => toggleCorrect(option.id)}
+                aria-label="Correct option"
+                disabled={disabled}
+              />
+              <Input
+                value={option.text}
+                onChange={(e) => onChange({
+                  options: question.options.map((o) => (o.id === option.id ? { ...o, text: e.target.value } : o)),
+                })}
+                placeholder="Option"
+                aria-label="Option text"
+                className="h-8"
+                disabled={disabled}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0"
+                onClick={() => onChange(question.type === "multiple-choice"
+                  ? {
+                    options: question.options.filter((o) => o.id !== option.id),
+                    correctOptionId: question.correctOptionId === option.id ? "" : question.correctOptionId,
+                  }
+                  : {
+                    options: question.options.filter((o) => o.id !== option.id),
+                    correctOptionIds: question.correctOptionIds.filter((id) => id !== option.id),
+                  })}
+                disabled={disabled}
+                aria-label="Remove option"
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange({ options: [...question.options, newOption()] })}
+            disabled={disabled}
+          >
+            <Plus className="mr-1 h-4 w-4" /> Add option
+          </Button>
+        </div>
+      );
+    }
+    case "true-false":
+      return (
+        <Select value={question.correct ? "true" : "false"} onValueChange={(value) => onChange({ correct: value === "true" })} disabled={disabled}>
+          <SelectTrigger className="h-8 w-[160px]" aria-label="Correct answer">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="true">True</SelectItem>
+            <SelectItem value="false">False</SelectItem>
+          </SelectContent>
+        </Select>
+      );
+    case "numeric":
+      return (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span>Answer</span>
+          <Input
+            type="number"
+            step="any"
+            value={question.answer}
+            onChange={(e) => onChange({ answer: parseFloat(e.target.value) || 0 })}
+            aria-label="Correct answer"
+            className="h-8 w-32"
+            disabled={disabled}
+          />
+          <span>±</span>
+          <Input
+            type="number"
+            step="any"
+            min={0}
+            value={question.tolerance}
+            onChange={(e) => onChange({ tolerance: Math.max(0, parseFloat(e.target.value) || 0) })}
+            aria-label="Tolerance"
+            className="h-8 w-24"
+            disabled={disabled}
+          />
+        </div>
+      );
+    case "short-answer":
+      return (
+        <div className="space-y-1">
+          <Textarea
+            value={question.acceptedAnswers.join("\n")}
+            onChange={(e) => onChange({ acceptedAnswers: e.target.value.split("\n") })}
+            placeholder="One accepted answer per line"
+            aria-label="Accepted answers"
+            rows={3}
+            disabled={disabled}
+          />
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Case and extra spaces are ignored, and * matches any text. Answers that match none of these are left for you to score.
+          </p>
+        </div>
+      );
+  }
+}
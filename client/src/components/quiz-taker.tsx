@@ -0,0 +1,364 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Clock } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest, type AssignmentWithSubmissionStatus } from "@/lib/queryClient";
+import { formatDeadline } from "@/lib/deadlines";
+import type { QuizAttemptView, StudentQuiz, StudentQuizQuestion } from "@shared/quizzes";
+import type { QuizAnswer, QuizAnswers } from "@shared/schema";
+
+// Answers are saved this long after the student stops changing them
+const AUTOSAVE_DELAY_MS = 1000;
+
+const formatRemaining = (ms: number) => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, "0")}`;
+};
+
+interface QuizTakerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  assignment: AssignmentWithSubmissionStatus;
+}
+
+/**
+ * Where a student takes a quiz: a summary of their attempts, then the
+ * questions of the attempt in progress. Answers are saved as they go, and the
+ * attempt is submitted by itself when its time runs out.
+ */
+export function QuizTaker({ isOpen, onClose, assignment }: QuizTakerProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [attempt, setAttempt] = useState<QuizAttemptView | null>(null);
+  const [answers, setAnswers] = useState<QuizAnswers>({});
+  const [now, setNow] = useState(() => Date.now());
+  const savedAnswers = useRef<QuizAnswers>({});
+
+  const quizKey = [`/api/assignments/${assignment.id}/quiz`];
+  const { data: quiz, isLoading } = useQuery<StudentQuiz>({
+    queryKey: quizKey,
+    enabled: isOpen,
+  });
+
+  useEffect(() => {
+    if (!isOpen) setAttempt(null);
+  }, [isOpen]);
+
+  const openAttempt = (view: QuizAttemptView) => {
+    setAttempt(view);
+    setAnswers(view.answers);
+    savedAnswers.current = view.answers;
+  };
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: quizKey });
+    queryClient.invalidateQueries({ queryKey: ["courseAssignments"] });
+  };
+
+  const startMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/assignments/${assignment.id}/quiz/attempts`);
+      return (await res.json()) as QuizAttemptView;
+    },
+    onSuccess: (view) => {
+      openAttempt(view);
+      refresh();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't start the quiz", description: apiErrorMessage(error, "Please try again."), variant: "destructive" });
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (toSave: QuizAnswers) => apiRequest("PUT", `/api/quiz-attempts/${attempt?.id}/answers`, { answers: toSave }),
+    onSuccess: (_res, toSave) => {
+      savedAnswers.current = toSave;
+    },
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/quiz-attempts/${attempt?.id}/submit`, { answers });
+      return (await res.json()) as QuizAttemptView;
+    },
+    onSuccess: (view) => {
+      setAttempt(view);
+      refresh();
+      toast({ title: "Quiz submitted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to submit quiz", description: apiErrorMessage(error, "Please try again."), variant: "destructive" });
+      refresh();
+      setAttempt(null);
+    },
+  });
+
+  const inProgress = attempt !== null && attempt.submittedAt === null;
+  const expiresAt = inProgress && attempt.expiresAt ? new Date(attempt.expiresAt).getTime() : null;
+  const remaining = expiresAt !== null ? expiresAt - now : null;
+
+  // Tick the countdown, and hand the attempt in when time runs out
+  useEffect(() => {
+    if (expiresAt === null) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [expiresAt]);
+  useEffect(() => {
+    if (remaining !== null && remaining <= 0 && !submitMutation.isPending && !submitMutation.isError) {
+      submitMutation.mutate();
+    }
+  }, [remaining]);
+
+  useEffect(() => {
+    if (!inProgress || answers === savedAnswers.current) return;
+    const timer = setTimeout(() => saveMutation.mutate(answers), AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [answers, inProgress]);
+
+  const setAnswer = (questionId: string, answer: QuizAnswer | undefined) => {
+    const { [questionId]: _previous, ...rest } = answers;
+    setAnswers(answer === undefined ? rest : { ...rest, [questionId]: answer });
+  };
+
+  // Leaving mid-attempt is fine: the answers are saved and the attempt can be resumed
+  const handleClose = () => {
+    if (inProgress && answers !== savedAnswers.current) saveMutation.mutate(answers);
+    onClose();
+  };
+
+  const attempts = quiz?.attempts ?? [];
+  const openAttemptView = attempts.find((a) => a.submittedAt === null);
+  const attemptsLeft = quiz?.maxAttempts != null ? quiz.maxAttempts - attempts.length : null;
+  const isClosed = assignment.deadlineStatus === "closed";
+  const answeredCount = attempt ? attempt.questions.filter((q) => answers[q.id] !== undefined).length : 0;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold text-gray-900 dark:text-white">{assignment.title}</DialogTitle>
+        </DialogHeader>
+
+        {isLoading || !quiz ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Loading quiz...</p>
+        ) : inProgress ? (
+          <div className="space-y-6">
+            <div className="sticky top-0 z-10 flex items-center justify-between rounded-md border bg-white dark:bg-gray-800 px-4 py-2 text-sm">
+              <span>
+                Attempt {attempt.attempt} · {answeredCount} of {attempt.questions.length} answered
+                {saveMutation.isPending && " · saving..."}
+              </span>
+              {remaining !== null && (
+                <span className={`inline-flex items-center font-mono ${remaining < 60 * 1000 ? "text-red-500" : ""}`}>
+                  <Clock className="mr-1 h-4 w-4" /> {formatRemaining(remaining)}
+                </span>
+              )}
+            </div>
+            {attempt.questions.map((question, index) => (
+              <div key={question.id} className="space-y-2">
+                <p className="font-medium">
+                  {index + 1}. {question.prompt}
+                  <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">
+                    {question.points} {question.points === 1 ? "point" : "points"}
+                  </span>
+                </p>
+                <AnswerInput
+                  question={question}
+                  answer={answers[question.id]}
+                  onChange={(answer) => setAnswer(question.id, answer)}
+                  disabled={submitMutation.isPending}
+                />
+              </div>
+            ))}
+            <div className="flex justify-end">
+              <Button onClick={() => submitMutation.mutate()} disabled={submitMutation.isPending}>
+                {submitMutation.isPending ? "Submitting..." : "Submit Quiz"}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge variant="outline">{quiz.questionCount} questions</Badge>
+              <Badge variant="outline">{quiz.maxPoints} points</Badge>
+              <Badge variant="outline">{quiz.timeLimitMinutes ? `${quiz.timeLimitMinutes} minutes` : "No time limit"}</Badge>
+              <Badge variant="outline">
+                {quiz.maxAttempts ? `${quiz.maxAttempts} ${quiz.maxAttempts === 1 ? "attempt" : "attempts"}` : "Unlimited attempts"}
+              </Badge>
+            </div>
+            {assignment.dueDate && (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Due {formatDeadline(assignment.dueDate)}</p>
+            )}
+            {quiz.timeLimitMinutes && (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                The timer starts when you begin, and the quiz is submitted by itself when it runs out. Your latest attempt counts.
+              </p>
+            )}
+
+            {attempt?.submittedAt && <AttemptResult attempt={attempt} />}
+
+            {attempts.filter((a) => a.submittedAt !== null).length > 0 && (
+              <ul className="divide-y divide-gray-200 dark:divide-gray-700 rounded-md border">
+                {attempts.filter((a) => a.submittedAt !== null).map((a) => (
+                  <li key={a.id} className="flex items-center justify-between px-4 py-2 text-sm">
+                    <span>Attempt {a.attempt} · {formatDeadline(a.submittedAt)}</span>
+                    <span>
+                      {a.score}/{quiz.maxPoints}
+                      {a.pendingReview && <span className="ml-2 text-gray-500 dark:text-gray-400">(awaiting review)</span>}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={handleClose}>Close</Button>
+              {openAttemptView ? (
+                <Button onClick={() => startMutation.mutate()} disabled={startMutation.isPending}>Resume Attempt</Button>
+              ) : (
+                <Button
+                  onClick={() => startMutation.mutate()}
+                  disabled={startMutation.isPending || isClosed || attemptsLeft === 0}
+                >
+                  {isClosed ? "Quiz Closed" : attemptsLeft === 0 ? "No Attempts Left" : attempts.length > 0 ? "Try Again" : "Start Quiz"}
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Points per question for an attempt just handed in
+function AttemptResult({ attempt }: { attempt: QuizAttemptView }) {
+  return (
+    <div className="space-y-2 rounded-md border border-green-200 bg-green-50 dark:border-green-900 dark:bg-green-950 p-4">
+      <p className="font-medium">
+        Attempt {attempt.attempt} scored {attempt.score} of {attempt.questions.reduce((total, q) => total + q.points, 0)} points
+      </p>
+      {attempt.pendingReview && (
+        <p className="text-sm text-gray-600 dark:text-gray-300">Some short answers will be scored by your teacher.</p>
+      )}
+      <ul className="text-sm space-y-1">
+        {attempt.questions.map((question, index) => {
+          const points = attempt.results?.[question.id];
+          return (
+            <li key={question.id} className="flex justify-between gap-4">
+              <span className="truncate">{index + 1}. {question.prompt}</span>
+              <span className="shrink-0">{points == null ? "To be reviewed" : `${points}/${question.points}`}</span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+interface AnswerInputProps {
+  question: StudentQuizQuestion;
+  answer: QuizAnswer | undefined;
+  onChange: (answer: QuizAnswer | undefined) => void;
+  disabled: boolean;
+}
+
+function AnswerInput({ question, answer, onChange, disabled }: AnswerInputProps) {
+  switch (question.type) {
+    case "multiple-choice":
+      return (
+        <RadioGroup value={typeof answer === "string" ? answer : ""} onValueChange={onChange} disabled={disabled}>
+          {question.options?.map((option) => (
+            <div key={option.id} className="flex items-center gap-2">
+              <RadioGroupItem value={option.id} id={`${question.id}-${option.id}`} />
+              <Label htmlFor={`${question.id}-${option.id}`} className="font-normal">{option.text}</Label>
+            </div>
+          ))}
+        </RadioGroup>
+      );
+    case "multiple-select": {
+      const picked = Array.isArray(answer) ? answer : [];
+      return (
+        <div className="space-y-2">
+          <p className="text-xs text-gray-500 dark:text-gray-400">Select all that apply.</p>
+          {question.options?.map((option) => (
+            <div key={option.id} className="flex items-center gap-2">
+              <Checkbox
+                id={`${question.id}-${option.id}`}
+                checked={picked.includes(option.id)}
+                onCheckedChange={(checked) => {
+                  const next = checked === true ? [...picked, option.id] : picked.filter((id) => id !== option.id);
+                  onChange(next.length > 0 ? next : undefined);
+                }}
+                disabled={disabled}
+              />
+              <Label htmlFor={`${question.id}-${option.id}`} className="font-normal">{option.text}</Label>
+            </div>
+          ))}
+        </div>
+      );
+    }
+    case "true-false":
+      return (
+        <RadioGroup
+          value={typeof answer === "boolean" ? String(answer) : ""}
+          onValueChange={(value) => onChange(value === "true")}
+          disabled={disabled}
+          className="flex gap-6"
+        >
+          {["true", "false"].map((value) => (
+            <div key={value} className="flex items-center gap-2">
+              <RadioGroupItem value={value} id={`${question.id}-${value}`} />
+              <Label htmlFor={`${question.id}-${value}`} className="font-normal">{value === "true" ? "True" : "False"}</Label>
+            </div>
+          ))}
+        </RadioGroup>
+      );
+    case "numeric":
+      return (
+        <NumericInput value={typeof answer === "number" ? answer : undefined} onChange={onChange} disabled={disabled} />
+      );
+    case "short-answer":
+      return (
+        <Input
+          value={typeof answer === "string" ? answer : ""}
+          onChange={(e) => onChange(e.target.value || undefined)}
+          placeholder="Your answer"
+          className="max-w-md"
+          disabled={disabled}
+        />
+      );
+  }
+}
+
+// Keeps what is typed, such as "-" or "1.", while only numbers count as answers
+function NumericInput({ value, onChange, disabled }: { value: number | undefined; onChange: (answer: number | undefined) => void; disabled: boolean }) {
+  const [text, setText] = useState(value?.toString() ?? "");
+  return (
+    <Input
+      type="text"
+      inputMode="decimal"
+      value={text}
+      onChange={(e) => {
+        setText(e.target.value);
+        const parsed = parseFloat(e.target.value);
+        onChange(isNaN(parsed) ? undefined : parsed);
+      }}
+      placeholder="Number"
+      className="w-40"
+      disabled={disabled}
+    />
+  );
+}
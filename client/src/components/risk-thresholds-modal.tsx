@@ -0,0 +1,166 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { riskFlagsUrl } from "@/lib/risk";
+import { courseRiskThresholds, DEFAULT_RISK_THRESHOLDS } from "@shared/risk";
+import { riskThresholdsSchema, type Course, type RiskThresholds } from "@shared/schema";
+
+interface RiskThresholdsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  courses: Course[];
+}
+
+type ThresholdKey = keyof RiskThresholds;
+
+const FIELDS: { key: ThresholdKey; label: string; unit: string }[] = [
+  { key: "missingWork", label: "Missing work", unit: "assignments past due" },
+  { key: "gradeDrop", label: "Falling grades", unit: "points below earlier grades" },
+  { key: "inactiveDays", label: "Inactive", unit: "days without activity" },
+  { key: "behindClass", label: "Behind the class", unit: "points of progress below the median" },
+];
+
+type ThresholdDraft = Record<ThresholdKey, { enabled: boolean; value: string }>;
+
+const toDraft = (thresholds: RiskThresholds): ThresholdDraft => {
+  const draft = {} as ThresholdDraft;
+  for (const { key } of FIELDS) {
+    const value = thresholds[key];
+    draft[key] = { enabled: value !== null, value: (value ?? DEFAULT_RISK_THRESHOLDS[key])?.toString() ?? "" };
+  }
+  return draft;
+};
+
+/**
+ * Sets when a course's students are flagged as at risk. A rule that's turned
+ * off never flags anyone; saving checks the course again straight away.
+ */
+export function RiskThresholdsModal({ isOpen, onClose, courses }: RiskThresholdsModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [courseId, setCourseId] = useState("");
+  const course = courses.find((c) => c.id.toString() === courseId);
+  const [draft, setDraft] = useState<ThresholdDraft>(toDraft(DEFAULT_RISK_THRESHOLDS));
+
+  useEffect(() => {
+    if (isOpen && !course && courses.length > 0) setCourseId(courses[0].id.toString());
+  }, [isOpen, course, courses]);
+
+  useEffect(() => {
+    if (isOpen && course) setDraft(toDraft(courseRiskThresholds(course)));
+  }, [isOpen, course]);
+
+  const saveMutation = useMutation({
+    mutationFn: (thresholds: RiskThresholds | null) =>
+      apiRequest("PUT", `/api/courses/${courseId}/risk-thresholds`, { thresholds }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/courses"] });
+      queryClient.invalidateQueries({ queryKey: [riskFlagsUrl()] });
+      queryClient.invalidateQueries({ queryKey: [riskFlagsUrl(true)] });
+      toast({ title: "Risk thresholds saved" });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save risk thresholds", description: apiErrorMessage(error, "Please try again."), variant: "destructive" });
+    },
+  });
+
+  const handleSave = () => {
+    const thresholds = Object.fromEntries(FIELDS.map(({ key }) => [
+      key,
+      draft[key].enabled ? Number(draft[key].value) : null,
+    ]));
+    const parsed = riskThresholdsSchema.safeParse(thresholds);
+    if (!parsed.success) {
+      const field = FIELDS.find(({ key }) => key === parsed.error.errors[0].path[0]);
+      toast({ title: "Check the thresholds", description: `${field?.label ?? "A threshold"}: ${parsed.error.errors[0].message}`, variant: "destructive" });
+      return;
+    }
+    saveMutation.mutate(parsed.data);
+  };
+
+  const update = (key: ThresholdKey, updates: Partial<ThresholdDraft[ThresholdKey]>) =>
+    setDraft({ ...draft, [key]: { ...draft[key], ...updates } });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[520px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold text-gray-900 dark:text-white">Risk Thresholds</DialogTitle>
+        </DialogHeader>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Students are flagged once they reach a threshold. Falling grades compare the last three grades with the
+          ones before; behind the class needs at least three students.
+        </p>
+        <Select value={courseId} onValueChange={setCourseId} disabled={saveMutation.isPending}>
+          <SelectTrigger aria-label="Course">
+            <SelectValue placeholder="Select a course" />
+          </SelectTrigger>
+          <SelectContent>
+            {courses.map((c) => (
+              <SelectItem key={c.id} value={c.id.toString()}>{c.title}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="space-y-3">
+          {FIELDS.map(({ key, label, unit }) => (
+            <div key={key} className="flex items-center gap-2">
+              <label className="flex w-40 items-center gap-2 text-sm">
+                <Checkbox
+                  checked={draft[key].enabled}
+                  onCheckedChange={(checked) => update(key, { enabled: checked === true })}
+                  disabled={!course || saveMutation.isPending}
+                />
+                {label}
+              </label>
+              <Input
+                type="number"
+                min={1}
+                value={draft[key].value}
+                onChange={(e) => update(key, { value: e.target.value })}
+                aria-label={`${label} threshold`}
+                className="h-8 w-20"
+                disabled={!course || !draft[key].enabled || saveMutation.isPending}
+              />
+              <span className="text-sm text-gray-500 dark:text-gray-400">{unit}</span>
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-between gap-2 border-t border-gray-200 pt-4 dark:border-gray-700">
+          <Button
+            variant="ghost"
+            onClick={() => (course?.riskThresholds ? saveMutation.mutate(null) : setDraft(toDraft(DEFAULT_RISK_THRESHOLDS)))}
+            disabled={!course || saveMutation.isPending}
+          >
+            Use defaults
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onClose} disabled={saveMutation.isPending}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!course || saveMutation.isPending}>
+              Save
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
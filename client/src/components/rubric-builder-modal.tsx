@@ -0,0 +1,255 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { rubricMaxPoints } from "@shared/rubrics";
+import type { Rubric, RubricCriterion, RubricLevel } from "@shared/schema";
+
+// Criterion and level ids only need to be unique within the rubric
+const newId = () => Math.random().toString(36).slice(2, 10);
+
+const newLevel = (title: string, points: number): RubricLevel => ({ id: newId(), title, description: "", points });
+
+const newCriterion = (): RubricCriterion => ({
+  id: newId(),
+  title: "",
+  description: "",
+  levels: [newLevel("Excellent", 10), newLevel("Satisfactory", 5), newLevel("Needs work", 0)],
+});
+
+interface RubricBuilderModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  courseId: string;
+  rubric?: Rubric; // Edited in place when given; otherwise a new rubric is created
+  onSaved: (rubric: Rubric) => void;
+}
+
+/**
+ * Creates or edits a rubric: criteria as rows, each with performance levels
+ * worth a number of points.
+ */
+export function RubricBuilderModal({ isOpen, onClose, courseId, rubric, onSaved }: RubricBuilderModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [criteria, setCriteria] = useState<RubricCriterion[]>([]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setTitle(rubric?.title ?? "");
+    setDescription(rubric?.description ?? "");
+    setCriteria(rubric?.criteria ?? [newCriterion()]);
+  }, [isOpen, rubric]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const data = { title, description: description || null, criteria };
+      const res = rubric
+        ? await apiRequest("PUT", `/api/rubrics/${rubric.id}`, data)
+        : await apiRequest("POST", "/api/rubrics", { ...data, courseId: parseInt(courseId) });
+      return (await res.json()) as Rubric;
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/rubrics"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/rubrics/${saved.id}`] });
+      toast({ title: rubric ? "Rubric updated" : "Rubric created" });
+      onSaved(saved);
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: rubric ? "Failed to update rubric" : "Failed to create rubric",
+        description: apiErrorMessage(error, "Please check your input and try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateCriterion = (criterionId: string, updates: Partial<RubricCriterion>) =>
+    setCriteria(criteria.map((criterion) => (criterion.id === criterionId ? { ...criterion, ...updates } : criterion)));
+
+  const updateLevel = (criterion: RubricCriterion, levelId: string, updates: Partial<RubricLevel>) =>
+    updateCriterion(criterion.id, {
+      levels: criterion.levels.map((level) => (level.id === levelId ? { ...level, ...updates } : level)),
+    });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    e.stopPropagation(); // Opened from the assignment form; React bubbles through the portal
+    const problem = !title.trim()
+      ? "The rubric needs a title."
+      : criteria.length === 0
+        ? "Add at least one criterion."
+        : criteria.some((criterion) => !criterion.title.trim() || criterion.levels.some((level) => !level.title.trim()))
+          ? "Every criterion and level needs a title."
+          : criteria.some((criterion) => criterion.levels.length === 0)
+            ? "Every criterion needs at least one level."
+            : undefined;
+    if (problem) {
+      toast({ title: "Validation Error", description: problem, variant: "destructive" });
+      return;
+    }
+    saveMutation.mutate();
+  };
+
+  const isBusy = saveMutation.isPending;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[800px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold text-gray-900 dark:text-white">
+            {rubric ? "Edit Rubric" : "New Rubric"}
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="rubricTitle">Title</Label>
+            <Input
+              id="rubricTitle"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="e.g. Essay rubric"
+              disabled={isBusy}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="rubricDescription">Description</Label>
+            <Textarea
+              id="rubricDescription"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+              disabled={isBusy}
+            />
+          </div>
+
+          <div className="space-y-4">
+            {criteria.map((criterion, index) => (
+              <div key={criterion.id} className="space-y-3 rounded-md border border-gray-200 dark:border-gray-700 p-4">
+                <div className="flex items-start gap-2">
+                  <div className="flex-1 space-y-2">
+                    <Input
+                      value={criterion.title}
+                      onChange={(e) => updateCriterion(criterion.id, { title: e.target.value })}
+                      placeholder={`Criterion ${index + 1}`}
+                      aria-label="Criterion title"
+                      disabled={isBusy}
+                    />
+                    <Input
+                      value={criterion.description ?? ""}
+                      onChange={(e) => updateCriterion(criterion.id, { description: e.target.value })}
+                      placeholder="What is being judged (optional)"
+                      aria-label="Criterion description"
+                      disabled={isBusy}
+                    />
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setCriteria(criteria.filter((c) => c.id !== criterion.id))}
+                    disabled={isBusy}
+                    aria-label="Remove criterion"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+
+                <div className="grid grid-cols-1 gap-2 md:grid-cols-3">
+                  {criterion.levels.map((level) => (
+                    <div key={level.id} className="space-y-1 rounded border border-gray-200 dark:border-gray-700 p-2">
+                      <div className="flex items-center gap-1">
+                        <Input
+                          value={level.title}
+                          onChange={(e) => updateLevel(criterion, level.id, { title: e.target.value })}
+                          placeholder="Level"
+                          aria-label="Level title"
+                          className="h-8"
+                          disabled={isBusy}
+                        />
+                        <Input
+                          type="number"
+                          min={0}
+                          value={level.points}
+                          onChange={(e) => updateLevel(criterion, level.id, { points: Math.max(0, parseInt(e.target.value) || 0) })}
+                          aria-label="Level points"
+                          className="h-8 w-20"
+                          disabled={isBusy}
+                        />
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          onClick={() => updateCriterion(criterion.id, { levels: criterion.levels.filter((l) => l.id !== level.id) })}
+                          disabled={isBusy}
+                          aria-label="Remove level"
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                      <Textarea
+                        value={level.description ?? ""}
+                        onChange={(e) => updateLevel(criterion, level.id, { description: e.target.value })}
+                        placeholder="Description (optional)"
+                        aria-label="Level description"
+                        rows={2}
+                        className="text-xs"
+                        disabled={isBusy}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => updateCriterion(criterion.id, { levels: [...criterion.levels, newLevel("", 0)] })}
+                  disabled={isBusy}
+                >
+                  <Plus className="mr-1 h-4 w-4" /> Add level
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setCriteria([...criteria, newCriterion()])}
+              disabled={isBusy}
+            >
+              <Plus className="mr-2 h-4 w-4" /> Add criterion
+            </Button>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-500 dark:text-gray-400">Worth {rubricMaxPoints(criteria)} points</p>
+            <div className="flex space-x-3">
+              <Button type="button" variant="outline" onClick={onClose} disabled={isBusy}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isBusy}>
+                {isBusy ? "Saving..." : "Save Rubric"}
+              </Button>
+            </div>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,82 @@
+import type { RubricCriterion, RubricScores } from "@shared/schema";
+import { rubricMaxPoints, rubricScore } from "@shared/rubrics";
+
+interface RubricGridProps {
+  criteria: RubricCriterion[];
+  scores?: RubricScores | null; // Picked level per criterion
+  onSelect?: (criterionId: string, levelId: string) => void; // Cells are clickable when set
+  disabled?: boolean;
+}
+
+/**
+ * A rubric as a table: one row per criterion, one cell per performance level.
+ * Read-only unless `onSelect` is given, in which case clicking a cell picks
+ * that level.
+ */
+export function RubricGrid({ criteria, scores, onSelect, disabled }: RubricGridProps) {
+  const total = scores ? rubricScore(criteria, scores) : undefined;
+
+  return (
+    <div className="space-y-2">
+      <div className="overflow-x-auto rounded-md border border-gray-200 dark:border-gray-700">
+        <table className="w-full text-sm">
+          <tbody>
+            {criteria.map((criterion) => {
+              const picked = criterion.levels.find((level) => level.id === scores?.[criterion.id]);
+              return (
+                <tr key={criterion.id} className="border-b border-gray-200 dark:border-gray-700 last:border-b-0">
+                  <th scope="row" className="w-48 bg-gray-50 dark:bg-gray-800 p-3 text-left align-top font-medium">
+                    {criterion.title}
+                    {criterion.description && (
+                      <p className="mt-1 text-xs font-normal text-gray-500 dark:text-gray-400">{criterion.description}</p>
+                    )}
+                    <p className="mt-1 text-xs font-normal text-gray-500 dark:text-gray-400">
+                      {picked ? picked.points : "–"} / {Math.max(0, ...criterion.levels.map((level) => level.points))} pts
+                    </p>
+                  </th>
+                  {criterion.levels.map((level) => {
+                    const isPicked = picked?.id === level.id;
+                    const cell = (
+                      <>
+                        <span className="flex items-baseline justify-between gap-2 font-medium">
+                          {level.title}
+                          <span className="shrink-0 text-xs text-gray-500 dark:text-gray-400">{level.points} pts</span>
+                        </span>
+                        {level.description && (
+                          <span className="mt-1 block text-xs text-gray-600 dark:text-gray-300">{level.description}</span>
+                        )}
+                      </>
+                    );
+                    const cellClass = `block h-full w-full p-3 text-left align-top ${
+                      isPicked ? "bg-primary-50 ring-2 ring-inset ring-primary-500 dark:bg-primary-900/30" : ""
+                    }`;
+                    return (
+                      <td key={level.id} className="border-l border-gray-200 dark:border-gray-700 align-top p-0">
+                        {onSelect ? (
+                          <button
+                            type="button"
+                            className={`${cellClass} hover:bg-gray-50 dark:hover:bg-gray-800 disabled:cursor-not-allowed`}
+                            onClick={() => onSelect(criterion.id, level.id)}
+                            disabled={disabled}
+                            aria-pressed={isPicked}
+                          >
+                            {cell}
+                          </button>
+                        ) : (
+                          <div className={cellClass}>{cell}</div>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-right text-sm font-medium">
+        Total: {total ?? "–"} / {rubricMaxPoints(criteria)}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Copy, Pencil, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { RubricBuilderModal } from "@/components/rubric-builder-modal";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { rubricMaxPoints } from "@shared/rubrics";
+import type { Course, Rubric } from "@shared/schema";
+
+const NO_RUBRIC = "none";
+
+interface RubricPickerProps {
+  courseId: string;
+  value: number | null; // Id of the picked rubric
+  onChange: (rubric: Rubric | null) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Rubric picker for the assignment modal. Lists the course's rubrics, and can
+ * create or edit one, or copy one in from another of the teacher's courses.
+ */
+export function RubricPicker({ courseId, value, onChange, disabled }: RubricPickerProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [builderRubric, setBuilderRubric] = useState<Rubric | undefined>();
+  const [showBuilder, setShowBuilder] = useState(false);
+
+  const { data: rubrics = [] } = useQuery<Rubric[]>({
+    queryKey: ["/api/rubrics"],
+    enabled: !!courseId,
+  });
+  const { data: courses = [] } = useQuery<Course[]>({
+    queryKey: ["/api/courses"],
+  });
+
+  const copyMutation = useMutation({
+    mutationFn: async (rubricId: number) => {
+      const res = await apiRequest("POST", `/api/rubrics/${rubricId}/copy`, { courseId: parseInt(courseId) });
+      return (await res.json()) as Rubric;
+    },
+    onSuccess: (copy) => {
+      queryClient.setQueryData<Rubric[]>(["/api/rubrics"], (current = []) => [...current, copy]);
+      onChange(copy);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to copy rubric",
+        description: apiErrorMessage(error, "Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!courseId) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">Select a course to use a rubric.</p>;
+  }
+
+  const courseRubrics = rubrics.filter((rubric) => rubric.courseId.toString() === courseId);
+  const otherRubrics = rubrics.filter((rubric) => rubric.courseId.toString() !== courseId);
+  const selected = courseRubrics.find((rubric) => rubric.id === value);
+  const courseTitle = (id: number) => courses.find((course) => course.id === id)?.title ?? `Course ${id}`;
+  const isBusy = disabled || copyMutation.isPending;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select
+          value={value?.toString() ?? NO_RUBRIC}
+          onValueChange={(id) => onChange(courseRubrics.find((rubric) => rubric.id.toString() === id) ?? null)}
+          disabled={isBusy}
+        >
+          <SelectTrigger className="h-9 w-auto min-w-[220px]">
+            <SelectValue placeholder="No rubric" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_RUBRIC}>No rubric</SelectItem>
+            {courseRubrics.map((rubric) => (
+              <SelectItem key={rubric.id} value={rubric.id.toString()}>
+                {rubric.title} ({rubricMaxPoints(rubric.criteria)} pts)
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => {
+            setBuilderRubric(undefined);
+            setShowBuilder(true);
+          }}
+          disabled={isBusy}
+        >
+          <Plus className="mr-1 h-4 w-4" /> New
+        </Button>
+        {selected && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              setBuilderRubric(selected);
+              setShowBuilder(true);
+            }}
+            disabled={isBusy}
+          >
+            <Pencil className="mr-1 h-4 w-4" /> Edit
+          </Button>
+        )}
+        {otherRubrics.length > 0 && (
+          <Select value="" onValueChange={(id) => copyMutation.mutate(parseInt(id))} disabled={isBusy}>
+            <SelectTrigger className="h-9 w-auto min-w-[220px]">
+              <Copy className="mr-2 h-4 w-4" />
+              <SelectValue placeholder="Copy from another course" />
+            </SelectTrigger>
+            <SelectContent>
+              {otherRubrics.map((rubric) => (
+                <SelectItem key={rubric.id} value={rubric.id.toString()}>
+                  {rubric.title} · {courseTitle(rubric.courseId)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+      {selected && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {selected.criteria.length} criteria. The assignment is worth the rubric's {rubricMaxPoints(selected.criteria)} points.
+        </p>
+      )}
+
+      <RubricBuilderModal
+        isOpen={showBuilder}
+        onClose={() => setShowBuilder(false)}
+        courseId={courseId}
+        rubric={builderRubric}
+        onSaved={onChange}
+      />
+    </div>
+  );
+}
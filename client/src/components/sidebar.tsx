@@ -1,4 +1,4 @@
-import { Home, Plus, BookOpen, ClipboardList, Users, BarChart3, GraduationCap } from "lucide-react";
+import { Home, Plus, BookOpen, ClipboardList, Users, BarChart3, GraduationCap, Table2, Award } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { useAuth } from "@/hooks/use-auth";
 import { useLocation } from "wouter";
@@ -14,6 +14,7 @@ export function Sidebar() {
     { icon: Plus, label: "Create Content", href: "/content" },
     { icon: BookOpen, label: "My Courses", href: "/courses" },
     { icon: ClipboardList, label: "Assignments", href: "/assignments" },
+    { icon: Table2, label: "Gradebook", href: "/gradebook" },
     { icon: Users, label: "Students", href: "/students" },
     { icon: BarChart3, label: "Analytics", href: "/analytics" },
   ];
@@ -22,6 +23,7 @@ export function Sidebar() {
     { icon: Home, label: "Dashboard", href: "/dashboard" },
     { icon: BookOpen, label: "My Courses", href: "/courses" },
     { icon: ClipboardList, label: "Assignments", href: "/assignments" },
+    { icon: Award, label: "My Grades", href: "/grades" },
     { icon: GraduationCap, label: "Progress", href: "/progress" },
   ];
 
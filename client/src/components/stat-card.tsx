@@ -0,0 +1,71 @@
+import { ArrowDownRight, ArrowUpRight, type LucideIcon } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { metricDelta } from "@shared/analytics";
+
+const TONES = {
+  primary: "bg-primary-100 dark:bg-primary-900/20 text-primary-600 dark:text-primary-400",
+  emerald: "bg-emerald-100 dark:bg-emerald-900/20 text-emerald-600 dark:text-emerald-400",
+  yellow: "bg-yellow-100 dark:bg-yellow-900/20 text-yellow-600 dark:text-yellow-400",
+  purple: "bg-purple-100 dark:bg-purple-900/20 text-purple-600 dark:text-purple-400",
+  sky: "bg-sky-100 dark:bg-sky-900/20 text-sky-600 dark:text-sky-400",
+  rose: "bg-rose-100 dark:bg-rose-900/20 text-rose-600 dark:text-rose-400",
+};
+
+interface StatCardProps {
+  icon: LucideIcon;
+  tone: keyof typeof TONES;
+  label: string;
+  value: string;
+  // The metric now and a week ago; shown as the change between them
+  trend?: {
+    current: number | null;
+    previous: number | null;
+    unit?: string; // e.g. "pts" for percentages
+    lowerIsBetter?: boolean;
+  };
+}
+
+// One figure on a dashboard, with how it has moved since last week
+export function StatCard({ icon: Icon, tone, label, value, trend }: StatCardProps) {
+  const delta = trend ? metricDelta(trend.current, trend.previous) : null;
+  const isBetter = delta !== null && (trend?.lowerIsBetter ? delta < 0 : delta > 0);
+
+  return (
+    <Card>
+      <CardContent className="p-5">
+        <div className="flex items-center">
+          <div className="flex-shrink-0">
+            <div className={`w-8 h-8 rounded-md flex items-center justify-center ${TONES[tone]}`}>
+              <Icon className="h-4 w-4" />
+            </div>
+          </div>
+          <div className="ml-5 w-0 flex-1">
+            <dt className="text-sm font-medium text-gray-500 dark:text-gray-400 truncate">
+              {label}
+            </dt>
+            <dd className="text-lg font-semibold text-gray-900 dark:text-white">
+              {value}
+            </dd>
+            {delta !== null && (
+              <dd
+                className={`mt-0.5 flex items-center text-xs ${
+                  delta === 0
+                    ? "text-gray-500 dark:text-gray-400"
+                    : isBetter
+                      ? "text-emerald-600 dark:text-emerald-400"
+                      : "text-red-600 dark:text-red-400"
+                }`}
+              >
+                {delta > 0 && <ArrowUpRight className="mr-0.5 h-3 w-3" />}
+                {delta < 0 && <ArrowDownRight className="mr-0.5 h-3 w-3" />}
+                {delta === 0
+                  ? "No change from last week"
+                  : `${Math.abs(delta)}${trend?.unit ? ` ${trend.unit}` : ""} from last week`}
+              </dd>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,85 @@
+import { useState } from "react";
+import { Download, Eye, EyeOff, FileText } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { formatFileSize, uploadDownloadUrl, type Upload } from "@/lib/uploads";
+
+const isPreviewable = (file: Upload) =>
+  file.mimeType === "application/pdf" || file.mimeType.startsWith("image/");
+
+function FilePreview({ file }: { file: Upload }) {
+  if (file.mimeType.startsWith("image/")) {
+    return (
+      <img
+        src={uploadDownloadUrl(file)}
+        alt={file.filename}
+        className="max-h-[600px] max-w-full rounded border border-gray-200 dark:border-gray-700"
+      />
+    );
+  }
+  return (
+    <iframe
+      src={uploadDownloadUrl(file)}
+      title={file.filename}
+      className="h-[600px] w-full rounded border border-gray-200 dark:border-gray-700"
+    />
+  );
+}
+
+interface SubmissionFilesProps {
+  files: Upload[];
+  // Show PDF and image previews expanded rather than behind a toggle
+  expandPreviews?: boolean;
+}
+
+/**
+ * Files handed in with a submission. PDFs and images can be previewed in
+ * place; everything else is a download.
+ */
+export function SubmissionFiles({ files, expandPreviews = false }: SubmissionFilesProps) {
+  const [toggled, setToggled] = useState<Set<number>>(new Set());
+
+  const toggle = (id: number) =>
+    setToggled((current) => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  if (files.length === 0) return null;
+
+  return (
+    <ul className="space-y-3">
+      {files.map((file) => {
+        const previewing = isPreviewable(file) && expandPreviews !== toggled.has(file.id);
+        return (
+          <li key={file.id} className="rounded-md border border-gray-200 dark:border-gray-700">
+            <div className="flex items-center gap-2 px-3 py-2 text-sm">
+              <FileText className="h-4 w-4 text-gray-400 shrink-0" />
+              <span className="truncate font-medium">{file.filename}</span>
+              <span className="text-gray-500 dark:text-gray-400 shrink-0">{formatFileSize(file.size)}</span>
+              <div className="ml-auto flex items-center gap-1">
+                {isPreviewable(file) && (
+                  <Button type="button" variant="ghost" size="sm" onClick={() => toggle(file.id)}>
+                    {previewing ? <EyeOff className="mr-1 h-4 w-4" /> : <Eye className="mr-1 h-4 w-4" />}
+                    {previewing ? "Hide" : "Preview"}
+                  </Button>
+                )}
+                <Button type="button" variant="ghost" size="sm" asChild>
+                  <a href={uploadDownloadUrl(file)} download={file.filename}>
+                    <Download className="mr-1 h-4 w-4" /> Download
+                  </a>
+                </Button>
+              </div>
+            </div>
+            {previewing && (
+              <div className="border-t border-gray-200 dark:border-gray-700 p-3">
+                <FilePreview file={file} />
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,152 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { diffWords } from "diff";
+import { FileMinus, FilePlus, History } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { uploadDownloadUrl, type Upload } from "@/lib/uploads";
+import type { SubmissionVersionWithFiles } from "@shared/schema";
+
+// Files are the same across versions when name and bytes match
+const fileKey = (file: Upload) => `${file.filename}:${file.checksum}`;
+
+function VersionDiff({ from, to }: { from: SubmissionVersionWithFiles; to: SubmissionVersionWithFiles }) {
+  const parts = diffWords(from.content ?? "", to.content ?? "");
+  const fromKeys = new Set(from.files.map(fileKey));
+  const toKeys = new Set(to.files.map(fileKey));
+  const addedFiles = to.files.filter((file) => !fromKeys.has(fileKey(file)));
+  const removedFiles = from.files.filter((file) => !toKeys.has(fileKey(file)));
+  const textChanged = parts.some((part) => part.added || part.removed);
+
+  return (
+    <div className="space-y-3">
+      {textChanged ? (
+        <div className="p-4 border rounded-md bg-gray-50 dark:bg-gray-700 whitespace-pre-wrap text-sm">
+          {parts.map((part, index) =>
+            part.added ? (
+              <ins key={index} className="bg-green-100 text-green-900 no-underline dark:bg-green-900/40 dark:text-green-100">
+                {part.value}
+              </ins>
+            ) : part.removed ? (
+              <del key={index} className="bg-red-100 text-red-900 dark:bg-red-900/40 dark:text-red-100">
+                {part.value}
+              </del>
+            ) : (
+              <span key={index}>{part.value}</span>
+            )
+          )}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 dark:text-gray-400">The text is the same in both versions.</p>
+      )}
+
+      {(addedFiles.length > 0 || removedFiles.length > 0) && (
+        <ul className="space-y-1 text-sm">
+          {addedFiles.map((file) => (
+            <li key={`added-${file.id}`} className="flex items-center gap-2 text-green-700 dark:text-green-400">
+              <FilePlus className="h-4 w-4 shrink-0" />
+              <a href={uploadDownloadUrl(file)} className="truncate hover:underline">{file.filename}</a>
+            </li>
+          ))}
+          {removedFiles.map((file) => (
+            <li key={`removed-${file.id}`} className="flex items-center gap-2 text-red-700 dark:text-red-400">
+              <FileMinus className="h-4 w-4 shrink-0" />
+              <a href={uploadDownloadUrl(file)} className="truncate line-through hover:underline">{file.filename}</a>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+interface SubmissionHistoryProps {
+  submissionId: number;
+  gradedVersionId?: number | null;
+}
+
+/**
+ * Timeline of every version of a submission, with a word-level diff between
+ * any two of them. Defaults to comparing the last two versions.
+ */
+export function SubmissionHistory({ submissionId, gradedVersionId }: SubmissionHistoryProps) {
+  const { data: versions = [], isLoading } = useQuery<SubmissionVersionWithFiles[]>({
+    queryKey: [`/api/submissions/${submissionId}/versions`],
+  });
+  const [fromId, setFromId] = useState<string>("");
+  const [toId, setToId] = useState<string>("");
+
+  useEffect(() => {
+    if (versions.length > 0) {
+      setFromId(versions[Math.max(versions.length - 2, 0)].id.toString());
+      setToId(versions[versions.length - 1].id.toString());
+    }
+  }, [versions]);
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">Loading history...</p>;
+  }
+  if (versions.length === 0) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">No versions recorded for this submission.</p>;
+  }
+
+  const from = versions.find((version) => version.id.toString() === fromId);
+  const to = versions.find((version) => version.id.toString() === toId);
+  const versionSelect = (value: string, onChange: (value: string) => void, label: string) => (
+    <div className="space-y-1">
+      <Label className="text-xs text-gray-500 dark:text-gray-400">{label}</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger className="h-9 w-[180px]">
+          <SelectValue placeholder="Pick a version" />
+        </SelectTrigger>
+        <SelectContent>
+          {versions.map((version) => (
+            <SelectItem key={version.id} value={version.id.toString()}>
+              Version {version.version}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <ol className="relative border-l border-gray-200 dark:border-gray-700 ml-2">
+        {versions.map((version) => (
+          <li key={version.id} className="mb-4 ml-4">
+            <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-gray-300 dark:border-gray-900 dark:bg-gray-600" />
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-medium">Version {version.version}</span>
+              {version.id === gradedVersionId && <Badge className="bg-green-500">Graded</Badge>}
+            </div>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {new Date(version.submittedAt).toLocaleString()}
+              {version.files.length > 0 && ` · ${version.files.length} file${version.files.length === 1 ? "" : "s"}`}
+            </p>
+          </li>
+        ))}
+      </ol>
+
+      {versions.length > 1 && (
+        <div className="space-y-3">
+          <h4 className="flex items-center gap-2 font-semibold">
+            <History className="h-4 w-4" /> Compare versions
+          </h4>
+          <div className="flex flex-wrap items-end gap-3">
+            {versionSelect(fromId, setFromId, "From")}
+            {versionSelect(toId, setToId, "To")}
+          </div>
+          {from && to && <VersionDiff from={from} to={to} />}
+        </div>
+      )}
+    </div>
+  );
+}
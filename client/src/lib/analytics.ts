@@ -0,0 +1,75 @@
+import { toCsv } from "@shared/csv";
+
+export type { CourseAnalytics } from "@shared/analytics";
+
+export function courseAnalyticsUrl(courseId: number | string, from: string, to: string): string {
+  return `/api/courses/${courseId}/analytics?${new URLSearchParams({ from, to })}`;
+}
+
+// Turns a file name into something every operating system accepts
+const safeFilename = (name: string) => name.replace(/[\\/:*?"<>|]+/g, "-").trim();
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = safeFilename(filename);
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function downloadCsv(filename: string, rows: (string | number | null)[][]) {
+  downloadBlob(new Blob([toCsv(rows)], { type: "text/csv;charset=utf-8" }), `${filename}.csv`);
+}
+
+// Chart colours come from CSS variables, which don't survive outside the page
+const INLINED_STYLES = ["fill", "stroke", "stroke-width", "stroke-dasharray", "opacity", "fill-opacity", "font-family", "font-size", "font-weight"];
+
+/**
+ * Saves the chart drawn inside `container` as a PNG, at twice its on-screen
+ * size, on a white background.
+ */
+export async function downloadChartPng(container: HTMLElement, filename: string): Promise<void> {
+  const svg = container.querySelector<SVGSVGElement>("svg.recharts-surface");
+  if (!svg) throw new Error("There's no chart to save yet.");
+  const { width, height } = svg.getBoundingClientRect();
+
+  const copy = svg.cloneNode(true) as SVGSVGElement;
+  const originals = [svg, ...Array.from(svg.querySelectorAll("*"))];
+  const copies = [copy, ...Array.from(copy.querySelectorAll("*"))];
+  originals.forEach((original, i) => {
+    const computed = getComputedStyle(original);
+    for (const property of INLINED_STYLES) {
+      (copies[i] as SVGElement).style.setProperty(property, computed.getPropertyValue(property));
+    }
+  });
+  copy.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+  copy.setAttribute("width", String(width));
+  copy.setAttribute("height", String(height));
+
+  const image = new Image();
+  const svgUrl = URL.createObjectURL(new Blob([new XMLSerializer().serializeToString(copy)], { type: "image/svg+xml" }));
+  try {
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error("The chart couldn't be drawn."));
+      image.src = svgUrl;
+    });
+  } finally {
+    URL.revokeObjectURL(svgUrl);
+  }
+
+  const scale = 2;
+  const canvas = document.createElement("canvas");
+  canvas.width = width * scale;
+  canvas.height = height * scale;
+  const context = canvas.getContext("2d")!;
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.scale(scale, scale);
+  context.drawImage(image, 0, 0, width, height);
+
+  const png = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"));
+  if (!png) throw new Error("The chart couldn't be saved.");
+  downloadBlob(png, `${filename}.png`);
+}
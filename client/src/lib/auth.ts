@@ -8,6 +8,15 @@ export interface User {
   avatar?: string;
 }
 
+export interface ActiveSession {
+  id: string;
+  current: boolean;
+  createdAt: number;
+  lastSeenAt: number;
+  userAgent?: string;
+  ip?: string;
+}
+
 export interface LoginCredentials {
   username: string;
   password: string;
@@ -39,6 +48,16 @@ export const authApi = {
     const res = await apiRequest("POST", "/api/users/register", data);
     return res.json();
   },
+
+  async getSessions(): Promise<ActiveSession[]> {
+    const res = await apiRequest("GET", "/api/auth/sessions", undefined);
+    return res.json();
+  },
+
+  async revokeOtherSessions(): Promise<{ revoked: number }> {
+    const res = await apiRequest("DELETE", "/api/auth/sessions", undefined);
+    return res.json();
+  },
 };
 
 export const isTeacher = (user?: User | null): boolean => {
@@ -0,0 +1,47 @@
+import type { Assignment } from "@shared/schema";
+import type { DeadlineStatus } from "@shared/deadlines";
+
+export type { DeadlineStatus } from "@shared/deadlines";
+
+// Dates come over the wire as ISO strings, though the shared types say Date
+type DateValue = Date | string | null | undefined;
+
+// The viewer's timezone, which deadline inputs and labels are in
+export const localTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+/**
+ * Turns a datetime-local input value, which is in the viewer's timezone, into
+ * the ISO timestamp the API expects. Blank inputs become null.
+ */
+export function toDeadline(localValue: string): string | null {
+  return localValue ? new Date(localValue).toISOString() : null;
+}
+
+// The reverse of toDeadline, for prefilling a datetime-local input
+export function toDateTimeLocal(value: DateValue): string {
+  if (!value) return "";
+  const date = new Date(value);
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000);
+  return local.toISOString().slice(0, 16);
+}
+
+export function formatDeadline(value: DateValue): string {
+  return value ? new Date(value).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" }) : "";
+}
+
+export const DEADLINE_STATUS_LABELS: Record<DeadlineStatus, string> = {
+  open: "Active",
+  late: "Overdue",
+  closed: "Closed",
+};
+
+export function describeLatePolicy(assignment: Pick<Assignment, "latePolicy" | "latePenaltyPercent">): string {
+  switch (assignment.latePolicy) {
+    case "reject":
+      return "Late work is not accepted.";
+    case "deduct":
+      return `Late work loses ${assignment.latePenaltyPercent}% per day late.`;
+    default:
+      return "Late work is accepted and marked late.";
+  }
+}
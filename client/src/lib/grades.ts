@@ -0,0 +1,27 @@
+import type { CourseGrade } from "@shared/gradebook";
+
+export type { CourseGrade, Gradebook, GradebookCell, GradebookImport, StudentCourseGrades } from "@shared/gradebook";
+
+export function gradebookUrl(courseId: number | string): string {
+  return `/api/courses/${courseId}/gradebook`;
+}
+
+export function gradebookCsvUrl(courseId: number | string): string {
+  return `/api/courses/${courseId}/gradebook.csv`;
+}
+
+export function gradeCategoriesUrl(courseId: number | string): string {
+  return `/api/courses/${courseId}/grade-categories`;
+}
+
+// "87.5%", or a dash while there's nothing to count
+export function formatPercent(percent: number | null): string {
+  return percent === null ? "—" : `${Math.round(percent * 10) / 10}%`;
+}
+
+// "B (84.2%)", or a dash while there's nothing to count
+export function formatGrade(grade: CourseGrade, which: "current" | "final"): string {
+  const percent = grade[which];
+  const letter = which === "current" ? grade.currentLetter : grade.finalLetter;
+  return percent === null ? "—" : `${letter} (${formatPercent(percent)})`;
+}
@@ -0,0 +1,40 @@
+import type { QtiSkippedItem } from "@shared/quizzes";
+import type { BankQuestion, InsertQuiz } from "@shared/schema";
+
+export type { QtiSkippedItem } from "@shared/quizzes";
+
+// An error from a package import; skipped lists the items that couldn't be read
+export type QtiImportError = Error & { skipped: QtiSkippedItem[] };
+
+// Posts a QTI package. Multipart bodies can't go through apiRequest, which always sends JSON.
+async function postPackage<T>(url: string, file: File): Promise<T> {
+  const body = new FormData();
+  body.append("file", file);
+
+  const res = await fetch(url, { method: "POST", body, credentials: "include" });
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({ message: res.statusText }));
+    throw Object.assign(new Error(error.message || `Import failed (status: ${res.status})`), { skipped: error.skipped ?? [] });
+  }
+  return await res.json();
+}
+
+/**
+ * Reads a QTI 2.1 package into a quiz without saving it, for the quiz editor
+ * to take its questions and settings from.
+ */
+export function readQtiQuiz(file: File): Promise<{ quiz: InsertQuiz; skipped: QtiSkippedItem[] }> {
+  return postPackage("/api/qti/quiz", file);
+}
+
+export function importQtiIntoBank(bankId: number, file: File): Promise<{ imported: BankQuestion[]; skipped: QtiSkippedItem[] }> {
+  return postPackage(`/api/question-banks/${bankId}/qti`, file);
+}
+
+export function quizQtiUrl(assignmentId: number): string {
+  return `/api/assignments/${assignmentId}/quiz/qti`;
+}
+
+export function bankQtiUrl(bankId: number): string {
+  return `/api/question-banks/${bankId}/qti`;
+}
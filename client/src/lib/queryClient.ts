@@ -1,4 +1,38 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import type { PublicUser, Assignment, AssignmentExtension, Course, Submission, Upload } from "@shared/schema";
+import type { AssignmentWithDeadline } from "@shared/deadlines";
+
+export type { CourseWithContent, Assignment, Submission } from "@shared/schema";
+
+export type UserProfile = PublicUser;
+
+export type { AssignmentWithDeadline } from "@shared/deadlines";
+
+// GET /api/courses/:courseId/assignments; the submission fields are only set for students
+export type AssignmentWithSubmissionStatus = AssignmentWithDeadline & {
+  submissionStatus?: string;
+  submissionId?: number;
+  grade?: number | null;
+};
+
+// GET /api/assignments/:assignmentId/submissions (teachers only)
+export type SubmissionWithStudent = Submission & {
+  student?: Pick<PublicUser, "id" | "name" | "username">;
+};
+
+// GET /api/assignments/:assignmentId/extensions: every student in the course
+export type StudentExtension = {
+  student: Pick<PublicUser, "id" | "name" | "username">;
+  extension: AssignmentExtension | null;
+};
+
+// GET /api/submissions/:submissionId; student is only sent to teachers
+export type SubmissionDetails = Submission & {
+  assignment: Assignment;
+  student?: PublicUser;
+  course?: Course;
+  files: Upload[];
+};
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -7,6 +41,15 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// The server's message from an apiRequest error ("409: {"message":"..."}"), or the fallback
+export function apiErrorMessage(error: Error, fallback: string): string {
+  try {
+    return JSON.parse(error.message.replace(/^\d+:\s*/, "")).message || fallback;
+  } catch {
+    return fallback; // Non-JSON error body
+  }
+}
+
 export async function apiRequest(
   method: string,
   url: string,
@@ -0,0 +1,6 @@
+export type { RiskCheckResult, RiskFlagWithHistory } from "@shared/risk";
+
+// Flags still open or followed up, or every flag with `all`, dismissed and cleared included
+export function riskFlagsUrl(all = false): string {
+  return all ? "/api/risk-flags?status=all" : "/api/risk-flags";
+}
@@ -0,0 +1,7 @@
+export type { RosterEntry, StudentDetail, StudentSubmissionRecord } from "@shared/roster";
+
+export const ROSTER_URL = "/api/students";
+
+export function studentDetailUrl(studentId: number | string): string {
+  return `${ROSTER_URL}/${studentId}`;
+}
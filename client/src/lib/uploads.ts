@@ -0,0 +1,33 @@
+import type { Upload } from "@shared/schema";
+
+export type { Upload } from "@shared/schema";
+
+/**
+ * Uploads a file to the course's files. Multipart bodies can't go through
+ * apiRequest, which always sends JSON.
+ */
+export async function uploadFile(courseId: number | string, file: File): Promise<Upload> {
+  const body = new FormData();
+  body.append("file", file);
+
+  const res = await fetch(`/api/courses/${courseId}/uploads`, {
+    method: "POST",
+    body,
+    credentials: "include",
+  });
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({ message: res.statusText }));
+    throw new Error(error.message || `Upload failed (status: ${res.status})`);
+  }
+  return await res.json();
+}
+
+export function uploadDownloadUrl(upload: Pick<Upload, "id">): string {
+  return `/api/uploads/${upload.id}/download`;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
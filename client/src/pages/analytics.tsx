@@ -0,0 +1,358 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { AlertTriangle, BarChart3, FileSpreadsheet, ImageDown } from 'lucide-react';
+import { Bar, BarChart, CartesianGrid, Cell, ComposedChart, Line, XAxis, YAxis } from 'recharts';
+import { apiErrorMessage } from '@/lib/queryClient';
+import { courseAnalyticsUrl, downloadChartPng, downloadCsv, type CourseAnalytics } from '@/lib/analytics';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { NavigationHeader } from '@/components/navigation-header';
+import { Sidebar } from '@/components/sidebar';
+import { useToast } from '@/hooks/use-toast';
+import {
+  ANALYTICS_DEFAULT_DAYS,
+  GRADE_BUCKET_LABELS,
+  SUBMISSION_TIMING_BUCKETS,
+  addDays,
+} from '@shared/analytics';
+import type { Course } from '@shared/schema';
+
+const ALL_ASSIGNMENTS = 'all';
+
+const RANGE_PRESETS = [7, 30, 90, 365];
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const enrollmentConfig = {
+  enrolled: { label: 'New enrollments', color: 'hsl(var(--chart-1))' },
+  total: { label: 'Total enrolled', color: 'hsl(var(--chart-4))' },
+} satisfies ChartConfig;
+
+const gradeConfig = {
+  count: { label: 'Submissions', color: 'hsl(var(--chart-2))' },
+} satisfies ChartConfig;
+
+const timingConfig = {
+  count: { label: 'Submissions', color: 'hsl(var(--chart-1))' },
+} satisfies ChartConfig;
+
+const engagementConfig = {
+  opened: { label: 'Opened', color: 'hsl(var(--chart-1))' },
+  completed: { label: 'Completed', color: 'hsl(var(--chart-2))' },
+} satisfies ChartConfig;
+
+/**
+ * Charts of how one of the teacher's courses is going over a range of days:
+ * enrollments, grade distributions and hand-in timing per assignment, and
+ * how much each module's content is opened and completed. Each chart can be
+ * saved as a PNG or its numbers as CSV.
+ */
+const AnalyticsPage: React.FC = () => {
+  const [courseId, setCourseId] = useState('');
+  const [to, setTo] = useState(today);
+  const [from, setFrom] = useState(() => addDays(today(), 1 - ANALYTICS_DEFAULT_DAYS));
+
+  const { data: courses = [], isLoading: isLoadingCourses } = useQuery<Course[]>({
+    queryKey: ['/api/courses'],
+  });
+  const isRangeValid = !!from && !!to && from <= to;
+  const { data: analytics, isLoading, error } = useQuery<CourseAnalytics, Error>({
+    queryKey: [courseAnalyticsUrl(courseId, from, to)],
+    enabled: !!courseId && isRangeValid,
+  });
+
+  useEffect(() => {
+    if (!courseId && courses.length > 0) setCourseId(courses[0].id.toString());
+  }, [courses, courseId]);
+
+  const course = courses.find((c) => c.id.toString() === courseId);
+  const preset = RANGE_PRESETS.find((days) => to === today() && from === addDays(to, 1 - days));
+  const filePrefix = `${course?.title ?? 'Course'} ${from} to ${to}`;
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <NavigationHeader />
+      <div className="flex">
+        <Sidebar />
+        <main className="flex-1 min-w-0 p-4 md:p-8">
+          <div className="mb-6 flex flex-wrap items-end justify-between gap-4">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Analytics</h1>
+              <p className="text-sm text-gray-500 dark:text-gray-400">How a course is going over the days you choose.</p>
+            </div>
+            <div className="flex flex-wrap items-end gap-2">
+              <Select value={courseId} onValueChange={setCourseId} disabled={isLoadingCourses}>
+                <SelectTrigger className="w-[240px]" aria-label="Course">
+                  <SelectValue placeholder="Select a course" />
+                </SelectTrigger>
+                <SelectContent>
+                  {courses.map((c) => (
+                    <SelectItem key={c.id} value={c.id.toString()}>{c.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={preset?.toString() ?? 'custom'}
+                onValueChange={(value) => {
+                  if (value === 'custom') return;
+                  setTo(today());
+                  setFrom(addDays(today(), 1 - Number(value)));
+                }}
+              >
+                <SelectTrigger className="w-[150px]" aria-label="Date range">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RANGE_PRESETS.map((days) => (
+                    <SelectItem key={days} value={days.toString()}>Last {days} days</SelectItem>
+                  ))}
+                  <SelectItem value="custom">Custom range</SelectItem>
+                </SelectContent>
+              </Select>
+              <label className="text-xs text-gray-500 dark:text-gray-400">
+                From
+                <Input type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} className="h-10 w-[150px]" />
+              </label>
+              <label className="text-xs text-gray-500 dark:text-gray-400">
+                To
+                <Input type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} className="h-10 w-[150px]" />
+              </label>
+            </div>
+          </div>
+
+          {!isLoadingCourses && courses.length === 0 ? (
+            <Message icon={BarChart3} message="Create a course to see its analytics." />
+          ) : !isRangeValid ? (
+            <Message icon={AlertTriangle} message="Choose a start date on or before the end date." />
+          ) : isLoading || !courseId ? (
+            <div className="p-8 text-center"><div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 mx-auto"></div></div>
+          ) : error || !analytics ? (
+            <Message icon={AlertTriangle} message={error ? apiErrorMessage(error, 'Failed to load analytics.') : 'Failed to load analytics.'} />
+          ) : (
+            <div className="grid grid-cols-1 gap-6 xl:grid-cols-2">
+              <EnrollmentChart analytics={analytics} filePrefix={filePrefix} />
+              <GradeDistributionChart analytics={analytics} filePrefix={filePrefix} />
+              <SubmissionTimingChart analytics={analytics} filePrefix={filePrefix} />
+              <EngagementChart analytics={analytics} filePrefix={filePrefix} />
+            </div>
+          )}
+        </main>
+      </div>
+    </div>
+  );
+};
+
+function Message({ icon: Icon, message }: { icon: React.ComponentType<{ className?: string }>; message: string }) {
+  return (
+    <div className="rounded-lg border border-dashed border-gray-300 p-12 text-center dark:border-gray-700">
+      <Icon className="mx-auto h-10 w-10 text-gray-400" />
+      <p className="mt-3 text-sm text-gray-500 dark:text-gray-400">{message}</p>
+    </div>
+  );
+}
+
+interface ChartCardProps {
+  title: string;
+  description: string;
+  filename: string;
+  csvRows: () => (string | number | null)[][]; // Header row first
+  controls?: React.ReactNode;
+  isEmpty: boolean;
+  children: React.ReactNode;
+}
+
+// A chart with its PNG and CSV downloads
+function ChartCard({ title, description, filename, csvRows, controls, isEmpty, children }: ChartCardProps) {
+  const { toast } = useToast();
+  const chartRef = useRef<HTMLDivElement>(null);
+
+  const savePng = async () => {
+    try {
+      await downloadChartPng(chartRef.current!, filename);
+    } catch (error) {
+      toast({ title: 'Failed to save chart', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-2 space-y-0">
+        <div>
+          <CardTitle className="text-base">{title}</CardTitle>
+          <CardDescription>{description}</CardDescription>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {controls}
+          <Button size="sm" variant="outline" onClick={savePng} disabled={isEmpty} aria-label={`Save ${title} as PNG`}>
+            <ImageDown className="mr-1 h-4 w-4" /> PNG
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => downloadCsv(filename, csvRows())} aria-label={`Save ${title} as CSV`}>
+            <FileSpreadsheet className="mr-1 h-4 w-4" /> CSV
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent ref={chartRef}>
+        {isEmpty ? (
+          <p className="py-16 text-center text-sm text-gray-500 dark:text-gray-400">Nothing to show for these dates.</p>
+        ) : children}
+      </CardContent>
+    </Card>
+  );
+}
+
+function AssignmentSelect({ value, onChange, assignments }: { value: string; onChange: (value: string) => void; assignments: { assignmentId: number; title: string }[] }) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="h-8 w-[200px]" aria-label="Assignment">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL_ASSIGNMENTS}>All assignments</SelectItem>
+        {assignments.map((assignment) => (
+          <SelectItem key={assignment.assignmentId} value={assignment.assignmentId.toString()}>{assignment.title}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+// Counts per bucket for one assignment, or added up over them all
+function bucketCounts(rows: { assignmentId: number; counts: number[] }[], assignmentId: string, buckets: number): number[] {
+  const picked = assignmentId === ALL_ASSIGNMENTS ? rows : rows.filter((row) => row.assignmentId.toString() === assignmentId);
+  return Array.from({ length: buckets }, (_, i) => picked.reduce((total, row) => total + row.counts[i], 0));
+}
+
+function EnrollmentChart({ analytics, filePrefix }: { analytics: CourseAnalytics; filePrefix: string }) {
+  const { enrollments } = analytics;
+  return (
+    <ChartCard
+      title="Enrollments"
+      description="New enrollments each day and the total enrolled."
+      filename={`${filePrefix} enrollments`}
+      csvRows={() => [['Date', 'New enrollments', 'Total enrolled'], ...enrollments.map((day) => [day.date, day.enrolled, day.total])]}
+      isEmpty={enrollments.every((day) => day.total === 0)}
+    >
+      <ChartContainer config={enrollmentConfig} className="aspect-auto h-[260px] w-full">
+        <ComposedChart data={enrollments}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="date" tickLine={false} axisLine={false} minTickGap={24} tickFormatter={(date: string) => date.slice(5)} />
+          <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <ChartLegend content={<ChartLegendContent />} />
+          <Bar dataKey="enrolled" fill="var(--color-enrolled)" radius={2} />
+          <Line dataKey="total" type="stepAfter" stroke="var(--color-total)" strokeWidth={2} dot={false} />
+        </ComposedChart>
+      </ChartContainer>
+    </ChartCard>
+  );
+}
+
+function GradeDistributionChart({ analytics, filePrefix }: { analytics: CourseAnalytics; filePrefix: string }) {
+  const [assignmentId, setAssignmentId] = useState(ALL_ASSIGNMENTS);
+  const counts = bucketCounts(analytics.grades, assignmentId, GRADE_BUCKET_LABELS.length);
+  const data = GRADE_BUCKET_LABELS.map((label, i) => ({ label, count: counts[i] }));
+
+  return (
+    <ChartCard
+      title="Grade distribution"
+      description="Scores of graded work handed in during these dates."
+      filename={`${filePrefix} grade distribution`}
+      csvRows={() => [
+        ['Assignment', ...GRADE_BUCKET_LABELS],
+        ...analytics.grades.map((row) => [row.title, ...row.counts]),
+      ]}
+      controls={<AssignmentSelect value={assignmentId} onChange={setAssignmentId} assignments={analytics.grades} />}
+      isEmpty={counts.every((count) => count === 0)}
+    >
+      <ChartContainer config={gradeConfig} className="aspect-auto h-[260px] w-full">
+        <BarChart data={data}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="label" tickLine={false} axisLine={false} interval={0} fontSize={10} />
+          <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+        </BarChart>
+      </ChartContainer>
+    </ChartCard>
+  );
+}
+
+function SubmissionTimingChart({ analytics, filePrefix }: { analytics: CourseAnalytics; filePrefix: string }) {
+  const [assignmentId, setAssignmentId] = useState(ALL_ASSIGNMENTS);
+  const counts = bucketCounts(analytics.timing, assignmentId, SUBMISSION_TIMING_BUCKETS.length);
+  const data = SUBMISSION_TIMING_BUCKETS.map(({ label, hours: [low] }, i) => ({ label, count: counts[i], late: low !== null && low >= 0 }));
+
+  return (
+    <ChartCard
+      title="Submission timing"
+      description="When work was handed in against each student's due date."
+      filename={`${filePrefix} submission timing`}
+      csvRows={() => [
+        ['Assignment', ...SUBMISSION_TIMING_BUCKETS.map((bucket) => bucket.label)],
+        ...analytics.timing.map((row) => [row.title, ...row.counts]),
+      ]}
+      controls={<AssignmentSelect value={assignmentId} onChange={setAssignmentId} assignments={analytics.timing} />}
+      isEmpty={counts.every((count) => count === 0)}
+    >
+      <ChartContainer config={timingConfig} className="aspect-auto h-[260px] w-full">
+        <BarChart data={data}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="label" tickLine={false} axisLine={false} interval={0} fontSize={10} />
+          <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <Bar dataKey="count" radius={4}>
+            {data.map((bucket) => (
+              <Cell key={bucket.label} fill={bucket.late ? 'hsl(var(--destructive))' : 'var(--color-count)'} />
+            ))}
+          </Bar>
+        </BarChart>
+      </ChartContainer>
+    </ChartCard>
+  );
+}
+
+function EngagementChart({ analytics, filePrefix }: { analytics: CourseAnalytics; filePrefix: string }) {
+  const { engagement } = analytics;
+  return (
+    <ChartCard
+      title="Content engagement"
+      description="Items students opened for the first time, and completed, in each module."
+      filename={`${filePrefix} content engagement`}
+      csvRows={() => [
+        ['Module', 'Items', 'Opened', 'Completed'],
+        ...engagement.map((module) => [module.title, module.items, module.opened, module.completed]),
+      ]}
+      isEmpty={engagement.every((module) => module.opened === 0 && module.completed === 0)}
+    >
+      <ChartContainer config={engagementConfig} className="aspect-auto h-[260px] w-full">
+        <BarChart data={engagement}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="title" tickLine={false} axisLine={false} interval={0} fontSize={10} />
+          <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <ChartLegend content={<ChartLegendContent />} />
+          <Bar dataKey="opened" fill="var(--color-opened)" radius={4} />
+          <Bar dataKey="completed" fill="var(--color-completed)" radius={4} />
+        </BarChart>
+      </ChartContainer>
+    </ChartCard>
+  );
+}
+
+export default AnalyticsPage;
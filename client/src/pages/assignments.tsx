@@ -1,5 +1,6 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { ClipboardList, Plus, Calendar, Users, Search } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -9,6 +10,7 @@ import { NavigationHeader } from "@/components/navigation-header";
 import { Sidebar } from "@/components/sidebar";
 import { AssignmentModal } from "@/components/assignment-modal";
 import { useAuth } from "@/hooks/use-auth";
+import { DEADLINE_STATUS_LABELS, formatDeadline, type DeadlineStatus } from "@/lib/deadlines";
 
 export default function Assignments() {
   const { user } = useAuth();
@@ -127,8 +129,8 @@ function AssignmentCard({ assignment, isTeacher }: { assignment: any; isTeacher:
     queryKey: [`/api/assignments/${assignment.id}/submissions`],
   });
 
-  const dueDate = assignment.dueDate ? new Date(assignment.dueDate) : null;
-  const isOverdue = dueDate && dueDate < new Date();
+  // The server works out the status, taking late policies and lock dates into account
+  const status: DeadlineStatus = assignment.deadlineStatus ?? "open";
   const submissionCount = submissions.length;
 
   return (
@@ -142,19 +144,19 @@ function AssignmentCard({ assignment, isTeacher }: { assignment: any; isTeacher:
             </p>
           </div>
           <Badge 
-            variant={isOverdue ? "destructive" : "default"}
-            className={!isOverdue ? "bg-emerald-100 text-emerald-800 dark:bg-emerald-900/20 dark:text-emerald-400" : ""}
+            variant={status === "late" ? "destructive" : status === "closed" ? "secondary" : "default"}
+            className={status === "open" ? "bg-emerald-100 text-emerald-800 dark:bg-emerald-900/20 dark:text-emerald-400" : ""}
           >
-            {isOverdue ? "Overdue" : "Active"}
+            {DEADLINE_STATUS_LABELS[status]}
           </Badge>
         </div>
       </CardHeader>
       <CardContent>
         <div className="space-y-3">
-          {dueDate && (
+          {assignment.dueDate && (
             <div className="flex items-center text-sm text-gray-500 dark:text-gray-400">
               <Calendar className="mr-2 h-4 w-4" />
-              <span>Due: {dueDate.toLocaleDateString()}</span>
+              <span>Due: {formatDeadline(assignment.dueDate)}</span>
             </div>
           )}
           
@@ -171,9 +173,15 @@ function AssignmentCard({ assignment, isTeacher }: { assignment: any; isTeacher:
           )}
 
           <div className="flex justify-between items-center mt-4">
-            <Button variant="outline" size="sm">
-              {isTeacher ? "View Submissions" : "View Details"}
-            </Button>
+            {isTeacher ? (
+              <Button variant="outline" size="sm" asChild>
+                <Link href={`/assignments/${assignment.id}/grade`}>View Submissions</Link>
+              </Button>
+            ) : (
+              <Button variant="outline" size="sm">
+                View Details
+              </Button>
+            )}
             
             {!isTeacher && (
               <Button size="sm">
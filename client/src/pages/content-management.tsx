@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { BookOpen, Plus, Edit, Trash2, Search } from "lucide-react";
+import { BookOpen, Library, Plus, Search } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -8,16 +8,34 @@ import { Badge } from "@/components/ui/badge";
 import { NavigationHeader } from "@/components/navigation-header";
 import { Sidebar } from "@/components/sidebar";
 import { ContentCreationModal } from "@/components/content-creation-modal";
+import { CourseOutlineEditor } from "@/components/course-outline-editor";
+import { QuestionBankManager } from "@/components/question-bank-manager";
+import type { Content, Course } from "@shared/schema";
 
 export default function ContentManagement() {
   const [searchTerm, setSearchTerm] = useState("");
   const [showCreateModal, setShowCreateModal] = useState(false);
+  // Pre-selects the course and module when content is added from a course's outline
+  const [createTarget, setCreateTarget] = useState<{ courseId: number; moduleId: number | null }>();
+  const [editingContent, setEditingContent] = useState<Content>();
+  const [bankCourse, setBankCourse] = useState<Course>();
 
-  const { data: courses = [] } = useQuery({
+  const { data: courses = [] } = useQuery<Course[]>({
     queryKey: ["/api/courses"],
   });
 
-  const filteredCourses = courses.filter((course: any) =>
+  const openCreateModal = (target?: { courseId: number; moduleId: number | null }) => {
+    setCreateTarget(target);
+    setEditingContent(undefined);
+    setShowCreateModal(true);
+  };
+
+  const openEditModal = (item: Content) => {
+    setEditingContent(item);
+    setShowCreateModal(true);
+  };
+
+  const filteredCourses = courses.filter((course) =>
     course.title.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
@@ -52,7 +70,7 @@ export default function ContentManagement() {
                     />
                   </div>
                   <Button 
-                    onClick={() => setShowCreateModal(true)}
+                    onClick={() => openCreateModal()}
                     className="inline-flex items-center"
                   >
                     <Plus className="mr-2 h-4 w-4" />
@@ -65,8 +83,14 @@ export default function ContentManagement() {
             {/* Course List */}
             {filteredCourses.length > 0 ? (
               <div className="space-y-6">
-                {filteredCourses.map((course: any) => (
-                  <CourseContentCard key={course.id} course={course} />
+                {filteredCourses.map((course) => (
+                  <CourseContentCard
+                    key={course.id}
+                    course={course}
+                    onAddContent={(moduleId) => openCreateModal({ courseId: course.id, moduleId })}
+                    onEditContent={openEditModal}
+                    onManageBanks={() => setBankCourse(course)}
+                  />
                 ))}
               </div>
             ) : (
@@ -100,16 +124,30 @@ export default function ContentManagement() {
       <ContentCreationModal 
         isOpen={showCreateModal} 
         onClose={() => setShowCreateModal(false)} 
+        defaultCourseId={createTarget?.courseId}
+        defaultModuleId={createTarget?.moduleId}
+        editingContent={editingContent}
       />
+
+      {bankCourse && (
+        <QuestionBankManager
+          isOpen={!!bankCourse}
+          onClose={() => setBankCourse(undefined)}
+          course={bankCourse}
+        />
+      )}
     </div>
   );
 }
 
-function CourseContentCard({ course }: { course: any }) {
-  const { data: content = [] } = useQuery({
-    queryKey: [`/api/courses/${course.id}/content`],
-  });
+interface CourseContentCardProps {
+  course: Course;
+  onAddContent: (moduleId: number | null) => void;
+  onEditContent: (item: Content) => void;
+  onManageBanks: () => void;
+}
 
+function CourseContentCard({ course, onAddContent, onEditContent, onManageBanks }: CourseContentCardProps) {
   return (
     <Card>
       <CardHeader>
@@ -127,7 +165,11 @@ function CourseContentCard({ course }: { course: any }) {
             >
               {course.status}
             </Badge>
-            <Button size="sm" variant="outline">
+            <Button size="sm" variant="outline" onClick={onManageBanks}>
+              <Library className="mr-2 h-4 w-4" />
+              Question Banks
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => onAddContent(null)}>
               <Plus className="mr-2 h-4 w-4" />
               Add Content
             </Button>
@@ -135,44 +177,7 @@ function CourseContentCard({ course }: { course: any }) {
         </div>
       </CardHeader>
       <CardContent>
-        {content.length > 0 ? (
-          <div className="space-y-3">
-            {content.map((item: any) => (
-              <div key={item.id} className="flex items-center justify-between p-3 border border-gray-200 dark:border-gray-700 rounded-lg">
-                <div className="flex items-center space-x-3">
-                  <div className="flex-shrink-0">
-                    <div className="w-8 h-8 bg-primary-100 dark:bg-primary-900/20 rounded-md flex items-center justify-center">
-                      <BookOpen className="h-4 w-4 text-primary-600 dark:text-primary-400" />
-                    </div>
-                  </div>
-                  <div>
-                    <p className="text-sm font-medium text-gray-900 dark:text-white">{item.title}</p>
-                    <p className="text-xs text-gray-500 dark:text-gray-400">{item.type}</p>
-                  </div>
-                </div>
-                <div className="flex items-center space-x-2">
-                  <Button size="sm" variant="ghost">
-                    <Edit className="h-4 w-4" />
-                  </Button>
-                  <Button size="sm" variant="ghost" className="text-red-600 hover:text-red-700">
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
-                </div>
-              </div>
-            ))}
-          </div>
-        ) : (
-          <div className="text-center py-8">
-            <BookOpen className="mx-auto h-8 w-8 text-gray-400" />
-            <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
-              No content added yet
-            </p>
-            <Button size="sm" variant="outline" className="mt-2">
-              <Plus className="mr-2 h-4 w-4" />
-              Add First Content
-            </Button>
-          </div>
-        )}
+        <CourseOutlineEditor courseId={course.id} onAddContent={onAddContent} onEditContent={onEditContent} />
       </CardContent>
     </Card>
   );
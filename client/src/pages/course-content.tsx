@@ -1,14 +1,21 @@
-import React, { useState } from 'react'; // Added useState
+import React, { useEffect, useRef, useState } from 'react'; // Added useState
 import { useRoute, Link } from 'wouter'; // Added Link
-import { useQuery } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { apiRequest, CourseWithContent, AssignmentWithSubmissionStatus } from '@/lib/queryClient'; // Added AssignmentWithSubmissionStatus
-import { AlertTriangle, BookOpen, Video, FileText, ExternalLink, Edit3, CheckCircle, Clock } from 'lucide-react'; // Added more icons
+import { format } from 'date-fns';
+import { AlertTriangle, BookOpen, Video, FileText, ExternalLink, Edit3, CheckCircle, Clock, ListChecks, Lock, Paperclip } from 'lucide-react'; // Added more icons
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button'; // Added Button
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { Progress } from '@/components/ui/progress';
 import { NavigationHeader } from '@/components/navigation-header';
 import { Sidebar } from '@/components/sidebar';
 import { useAuth } from '@/hooks/use-auth';
+import { formatFileSize, uploadDownloadUrl } from '@/lib/uploads';
+import { DEADLINE_STATUS_LABELS, formatDeadline } from '@/lib/deadlines';
+import { QuizTaker } from '@/components/quiz-taker';
+import type { Content, ContentProgress, Enrollment, Module, StudentCourse, Upload, UploadOwner } from '@shared/schema';
 
 // Helper to get icon based on content type
 const ContentIcon = ({ type }: { type: string }) => {
@@ -20,10 +27,128 @@ const ContentIcon = ({ type }: { type: string }) => {
   }
 };
 
+const isLocked = (module: Module) => !!module.unlockAt && new Date(module.unlockAt) > new Date();
+
+// Videos play in place; everything else is a download link
+const AttachmentList = ({ attachments }: { attachments: Upload[] }) => (
+  <div className="mt-4 space-y-3">
+    {attachments.filter((upload) => upload.mimeType.startsWith('video/')).map((upload) => (
+      <video key={upload.id} controls preload="metadata" className="w-full max-h-[480px] rounded-md bg-black">
+        <source src={uploadDownloadUrl(upload)} type={upload.mimeType} />
+      </video>
+    ))}
+    <ul className="space-y-1">
+      {attachments.map((upload) => (
+        <li key={upload.id}>
+          <a
+            href={uploadDownloadUrl(upload)}
+            download={upload.filename}
+            className="inline-flex items-center text-sm text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            <Paperclip className="mr-1 h-4 w-4" />
+            {upload.filename}
+            <span className="ml-2 text-gray-500 dark:text-gray-400">{formatFileSize(upload.size)}</span>
+          </a>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+interface ContentItemCardProps {
+  item: Content;
+  lockedUntil?: string | null;
+  attachments?: Upload[];
+  // Only passed for students
+  progress?: ContentProgress;
+  onOpen?: (contentId: number) => void;
+  onToggleComplete?: (contentId: number, completed: boolean) => void;
+}
+
+const ContentItemCard = ({ item, lockedUntil, attachments = [], progress, onOpen, onToggleComplete }: ContentItemCardProps) => {
+  const cardRef = useRef<HTMLDivElement>(null);
+  const isCompleted = !!progress?.completedAt;
+  const shouldRecordOpen = !!onOpen && !lockedUntil && !progress?.openedAt;
+
+  // An item counts as opened once half of it, or half the screen's worth of it, has been visible
+  useEffect(() => {
+    const element = cardRef.current;
+    if (!shouldRecordOpen || !element) return;
+    const observer = new IntersectionObserver((entries) => {
+      const seen = entries.some((entry) =>
+        entry.intersectionRatio >= 0.5 || entry.intersectionRect.height >= window.innerHeight / 2
+      );
+      if (seen) {
+        onOpen!(item.id);
+        observer.disconnect();
+      }
+    }, { threshold: [0, 0.1, 0.25, 0.5] });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [shouldRecordOpen, item.id]);
+
+  return (
+    <Card ref={cardRef} className="shadow-md hover:shadow-lg transition-shadow">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div className="flex items-center">
+          {isCompleted ? <CheckCircle className="mr-2 h-5 w-5 text-green-600" /> : <ContentIcon type={item.type || 'lesson'} />}
+          <CardTitle className="text-xl">{item.title}</CardTitle>
+        </div>
+        <Badge variant="outline" className="capitalize">{item.type || 'N/A'}</Badge>
+      </CardHeader>
+      <CardContent>
+        {item.description && <p className="text-gray-700 dark:text-gray-300 mb-3">{item.description}</p>}
+        {lockedUntil ? (
+          <p className="inline-flex items-center text-sm text-gray-500 dark:text-gray-400">
+            <Lock className="mr-1 h-4 w-4" /> Available from {format(new Date(lockedUntil), 'PPp')}
+          </p>
+        ) : (
+          <>
+            {item.content && (item.type === 'lesson' || item.type === 'text') && (
+               <div className="prose dark:prose-invert max-w-none" dangerouslySetInnerHTML={{ __html: item.content }} />
+            )}
+            {item.content && (item.type === 'video' || item.type === 'document' || item.type === 'link') && (
+              item.content.startsWith('http://') || item.content.startsWith('https://') ? (
+                <a
+                  href={item.content}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  View Resource <ExternalLink className="ml-1 h-4 w-4" />
+                </a>
+              ) : attachments.length === 0 && (
+                <p className="text-sm text-gray-500 dark:text-gray-400">Resource path: {item.content} (Not a valid link)</p>
+              )
+            )}
+            {attachments.length > 0 && <AttachmentList attachments={attachments} />}
+            {!item.content && attachments.length === 0 && <p className="text-sm text-gray-500 dark:text-gray-400">No content provided for this item.</p>}
+            {onToggleComplete && (
+              <div className="mt-4">
+                <Button
+                  size="sm"
+                  variant={isCompleted ? 'outline' : 'default'}
+                  onClick={() => onToggleComplete(item.id, !isCompleted)}
+                >
+                  <CheckCircle className="mr-2 h-4 w-4" />
+                  {isCompleted ? 'Completed (undo)' : 'Mark as complete'}
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
 const CourseContentPage: React.FC = () => {
   const [, params] = useRoute<{ courseId: string }>("/courses/:courseId/content");
   const courseId = params?.courseId;
   const { user } = useAuth(); // To ensure sidebar and nav header render correctly
+  const queryClient = useQueryClient();
+  const isStudent = user?.role === 'student';
+  const [quizAssignment, setQuizAssignment] = useState<AssignmentWithSubmissionStatus | null>(null);
 
   const { data: courseData, isLoading: isLoadingCourse, error: courseError } = useQuery<CourseWithContent, Error>({ // Renamed isLoading and error
     queryKey: ['courseContent', courseId],
@@ -39,6 +164,69 @@ const CourseContentPage: React.FC = () => {
     enabled: !!courseId, // Only run query if courseId is available
   });
 
+  // Fetch assignments for the course
+  const { 
+    data: assignmentsData, 
+    isLoading: isLoadingAssignments, 
+    error: assignmentsError 
+  } = useQuery<(AssignmentWithSubmissionStatus[]), Error>({
+    queryKey: ['courseAssignments', courseId],
+    queryFn: async () => {
+      if (!courseId) throw new Error("Course ID is missing for assignments");
+      const response = await apiRequest('GET', `/api/courses/${courseId}/assignments`);
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || `Failed to fetch assignments (status: ${response.status})`);
+      }
+      return response.json();
+    },
+    enabled: !!courseId && user?.role === 'student', // Only students see the assignments section
+  });
+
+  const contentProgressKey = [`/api/courses/${courseId}/content-progress`];
+  const { data: contentProgress = [] } = useQuery<ContentProgress[]>({
+    queryKey: contentProgressKey,
+    enabled: !!courseId && isStudent,
+  });
+
+  const openContentMutation = useMutation({
+    mutationFn: async (contentId: number) => {
+      const res = await apiRequest('POST', `/api/content/${contentId}/open`);
+      return res.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: contentProgressKey }),
+  });
+
+  const completeContentMutation = useMutation({
+    mutationFn: async ({ contentId, completed }: { contentId: number; completed: boolean }) => {
+      const res = await apiRequest('POST', `/api/content/${contentId}/complete`, { completed });
+      return res.json() as Promise<{ contentProgress: ContentProgress; enrollment: Enrollment }>;
+    },
+    onSuccess: ({ enrollment }) => {
+      queryClient.invalidateQueries({ queryKey: contentProgressKey });
+      // Enrollment progress feeds the course header and the dashboards
+      queryClient.setQueryData<StudentCourse & CourseWithContent>(['courseContent', courseId], (current) =>
+        current ? { ...current, progress: enrollment.progress } : current,
+      );
+      queryClient.invalidateQueries({ queryKey: ['/api/courses'] });
+    },
+  });
+
+  const { data: courseUploads = [] } = useQuery<Upload[]>({
+    queryKey: [`/api/courses/${courseId}/uploads`],
+    enabled: !!courseId,
+  });
+
+  const progressByContent = new Map(contentProgress.map((row) => [row.contentId, row]));
+  const attachmentsFor = (owner: UploadOwner) => courseUploads.filter((upload) =>
+    'contentId' in owner ? upload.contentId === owner.contentId : upload.assignmentId === owner.assignmentId
+  );
+  const studentProps = (item: Content) => isStudent ? {
+    progress: progressByContent.get(item.id),
+    onOpen: (contentId: number) => openContentMutation.mutate(contentId),
+    onToggleComplete: (contentId: number, completed: boolean) => completeContentMutation.mutate({ contentId, completed }),
+  } : {};
+
   if (!user) { // Should be handled by ProtectedRoute, but good for robustness
     return <div className="p-4">Please log in to view course content.</div>;
   }
@@ -83,7 +271,7 @@ const CourseContentPage: React.FC = () => {
           <main className="flex-1 p-8 text-center">
             <AlertTriangle className="mx-auto h-12 w-12 text-red-500" />
             <h1 className="mt-4 text-xl font-semibold text-destructive">Error Loading Course</h1>
-            <p className="text-gray-600 dark:text-gray-400">{error.message}</p>
+            <p className="text-gray-600 dark:text-gray-400">{courseError.message}</p>
             <p className="mt-2 text-sm text-gray-500">
               This could be because the course does not exist, or you are not enrolled.
             </p>
@@ -109,26 +297,9 @@ const CourseContentPage: React.FC = () => {
     );
   }
   
-  const { title, description, content: courseContentItems } = courseData; // Renamed content to courseContentItems
-
-  // Fetch assignments for the course
-  const { 
-    data: assignmentsData, 
-    isLoading: isLoadingAssignments, 
-    error: assignmentsError 
-  } = useQuery<(AssignmentWithSubmissionStatus[]), Error>({
-    queryKey: ['courseAssignments', courseId],
-    queryFn: async () => {
-      if (!courseId) throw new Error("Course ID is missing for assignments");
-      const response = await apiRequest('GET', `/api/courses/${courseId}/assignments`);
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || `Failed to fetch assignments (status: ${response.status})`);
-      }
-      return response.json();
-    },
-    enabled: !!courseId && !!user, // Only run if courseId and user are available
-  });
+  const { title, description, modules = [], content: courseContentItems } = courseData; // Renamed content to courseContentItems
+  const moduleIds = new Set(modules.map((module) => module.id));
+  const unassignedItems = courseContentItems.filter((item) => item.moduleId === null || !moduleIds.has(item.moduleId));
 
   const getSubmissionStatusBadge = (status?: string, grade?: number | null) => {
     if (grade !== null && grade !== undefined) {
@@ -159,50 +330,90 @@ const CourseContentPage: React.FC = () => {
               <CardDescription className="text-md text-gray-600 dark:text-gray-400 mt-1">
                 {description || "No description available for this course."}
               </CardDescription>
+              {'progress' in courseData && typeof courseData.progress === 'number' && (
+                <div className="mt-4 max-w-md">
+                  <div className="flex items-center justify-between text-sm text-gray-600 dark:text-gray-400 mb-1">
+                    <span>Your progress</span>
+                    <span>{courseData.progress}%</span>
+                  </div>
+                  <Progress value={courseData.progress} className="h-2" />
+                </div>
+              )}
             </CardHeader>
           </Card>
 
           {/* Course Content Section */}
           <section className="mb-12">
             <h2 className="text-2xl font-semibold text-gray-800 dark:text-white mb-4">Course Content</h2>
-            <div className="space-y-6">
-              {courseContentItems && courseContentItems.length > 0 ? (
-                courseContentItems.map((item, index) => (
-                  <Card key={item.id || index} className="shadow-md hover:shadow-lg transition-shadow">
-                    <CardHeader className="flex flex-row items-center justify-between">
-                      <div className="flex items-center">
-                        <ContentIcon type={item.type || 'lesson'} />
-                        <CardTitle className="text-xl">{item.title}</CardTitle>
-                      </div>
-                      <Badge variant="outline" className="capitalize">{item.type || 'N/A'}</Badge>
-                    </CardHeader>
-                    <CardContent>
-                      {item.description && <p className="text-gray-700 dark:text-gray-300 mb-3">{item.description}</p>}
-                      {item.content && (item.type === 'lesson' || item.type === 'text') && (
-                         <div className="prose dark:prose-invert max-w-none" dangerouslySetInnerHTML={{ __html: item.content }} />
-                      )}
-                      {item.content && (item.type === 'video' || item.type === 'document' || item.type === 'link') && (
-                        item.content.startsWith('http://') || item.content.startsWith('https://') ? (
-                          <a
-                            href={item.content}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="inline-flex items-center text-blue-600 dark:text-blue-400 hover:underline"
-                          >
-                            View Resource <ExternalLink className="ml-1 h-4 w-4" />
-                          </a>
-                        ) : (
-                          <p className="text-sm text-gray-500 dark:text-gray-400">Resource path: {item.content} (Not a valid link)</p>
-                        )
-                      )}
-                      {!item.content && <p className="text-sm text-gray-500 dark:text-gray-400">No content provided for this item.</p>}
-                    </CardContent>
-                  </Card>
-                ))
-              ) : (
-                <Card><CardContent className="text-center py-12"><BookOpen className="mx-auto h-12 w-12 text-gray-400" /><h3 className="mt-2 text-lg font-medium">No content available</h3><p className="mt-1 text-sm text-gray-500">This course does not have any content items yet.</p></CardContent></Card>
-              )}
-            </div>
+            {modules.length > 0 ? (
+              <div className="space-y-6">
+                <Accordion
+                  type="multiple"
+                  defaultValue={modules.filter((module) => !isLocked(module)).map((module) => module.id.toString())}
+                  className="space-y-4"
+                >
+                  {modules.map((module, index) => {
+                    const items = courseContentItems.filter((item) => item.moduleId === module.id);
+                    const locked = isLocked(module);
+                    return (
+                      <AccordionItem
+                        key={module.id}
+                        value={module.id.toString()}
+                        className="border rounded-lg bg-white dark:bg-gray-800 px-4"
+                      >
+                        <AccordionTrigger className="hover:no-underline">
+                          <div className="flex flex-col items-start text-left">
+                            <span className="text-lg font-semibold text-gray-900 dark:text-white">
+                              Module {index + 1}: {module.title}
+                            </span>
+                            <span className="text-sm font-normal text-gray-500 dark:text-gray-400">
+                              {isStudent
+                                ? `${items.filter((item) => progressByContent.get(item.id)?.completedAt).length} of ${items.length} completed`
+                                : `${items.length} ${items.length === 1 ? 'item' : 'items'}`}
+                            </span>
+                          </div>
+                          {locked && (
+                            <Badge variant="secondary" className="ml-auto mr-3">
+                              <Lock className="mr-1 h-3 w-3" />
+                              Unlocks {format(new Date(module.unlockAt!), 'MMM d')}
+                            </Badge>
+                          )}
+                        </AccordionTrigger>
+                        <AccordionContent className="space-y-4">
+                          {module.description && (
+                            <p className="text-gray-600 dark:text-gray-400">{module.description}</p>
+                          )}
+                          {items.length > 0 ? (
+                            items.map((item) => (
+                              <ContentItemCard key={item.id} item={item} lockedUntil={locked ? module.unlockAt : null} attachments={attachmentsFor({ contentId: item.id })} {...studentProps(item)} />
+                            ))
+                          ) : (
+                            <p className="text-sm text-gray-500 dark:text-gray-400">No content in this module yet.</p>
+                          )}
+                        </AccordionContent>
+                      </AccordionItem>
+                    );
+                  })}
+                </Accordion>
+
+                {unassignedItems.length > 0 && (
+                  <div className="space-y-6">
+                    <h3 className="text-lg font-semibold text-gray-800 dark:text-white">Other Materials</h3>
+                    {unassignedItems.map((item) => (
+                      <ContentItemCard key={item.id} item={item} attachments={attachmentsFor({ contentId: item.id })} {...studentProps(item)} />
+                    ))}
+                  </div>
+                )}
+              </div>
+            ) : (
+              <div className="space-y-6">
+                {courseContentItems && courseContentItems.length > 0 ? (
+                  courseContentItems.map((item) => <ContentItemCard key={item.id} item={item} attachments={attachmentsFor({ contentId: item.id })} {...studentProps(item)} />)
+                ) : (
+                  <Card><CardContent className="text-center py-12"><BookOpen className="mx-auto h-12 w-12 text-gray-400" /><h3 className="mt-2 text-lg font-medium">No content available</h3><p className="mt-1 text-sm text-gray-500">This course does not have any content items yet.</p></CardContent></Card>
+                )}
+              </div>
+            )}
           </section>
 
           {/* Assignments Section */}
@@ -222,19 +433,33 @@ const CourseContentPage: React.FC = () => {
                           {getSubmissionStatusBadge(assignment.submissionStatus, assignment.grade)}
                         </div>
                         {assignment.dueDate && (
-                          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
-                            Due: {new Date(assignment.dueDate).toLocaleDateString()}
+                          <p className={`text-sm mt-1 ${assignment.deadlineStatus === 'open' ? 'text-gray-500 dark:text-gray-400' : 'text-red-500'}`}>
+                            Due: {formatDeadline(assignment.dueDate)}
+                            {assignment.extended && ' (extended)'}
+                            {assignment.deadlineStatus !== 'open' && ` · ${DEADLINE_STATUS_LABELS[assignment.deadlineStatus]}`}
                           </p>
                         )}
                       </CardHeader>
                       <CardContent>
                         {assignment.description && <p className="text-gray-700 dark:text-gray-300 mb-4">{assignment.description}</p>}
-                        <Link href={`/courses/${courseId}/assignments/${assignment.id}/submit`}>
-                          <Button variant="default">
-                            {assignment.submissionStatus === 'not-submitted' ? <Edit3 className="mr-2 h-4 w-4" /> : <CheckCircle className="mr-2 h-4 w-4" />}
-                            {assignment.submissionStatus === 'not-submitted' ? 'Submit Assignment' : 'View/Edit Submission'}
+                        {attachmentsFor({ assignmentId: assignment.id }).length > 0 && (
+                          <div className="mb-4">
+                            <AttachmentList attachments={attachmentsFor({ assignmentId: assignment.id })} />
+                          </div>
+                        )}
+                        {assignment.type === 'quiz' ? (
+                          <Button variant="default" onClick={() => setQuizAssignment(assignment)}>
+                            <ListChecks className="mr-2 h-4 w-4" />
+                            {assignment.submissionStatus === 'not-submitted' ? 'Take Quiz' : 'View Quiz'}
                           </Button>
-                        </Link>
+                        ) : (
+                          <Link href={`/courses/${courseId}/assignments/${assignment.id}/submit`}>
+                            <Button variant="default">
+                              {assignment.submissionStatus === 'not-submitted' ? <Edit3 className="mr-2 h-4 w-4" /> : <CheckCircle className="mr-2 h-4 w-4" />}
+                              {assignment.submissionStatus === 'not-submitted' ? 'Submit Assignment' : 'View/Edit Submission'}
+                            </Button>
+                          </Link>
+                        )}
                       </CardContent>
                     </Card>
                   ))}
@@ -248,6 +473,9 @@ const CourseContentPage: React.FC = () => {
           )}
         </main>
       </div>
+      {quizAssignment && (
+        <QuizTaker isOpen={!!quizAssignment} onClose={() => setQuizAssignment(null)} assignment={quizAssignment} />
+      )}
     </div>
   );
 };
@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { useLocation } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { BookOpen, Users, Plus, Search } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -24,11 +25,12 @@ export default function Courses() {
   const { user } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
   const [searchTerm, setSearchTerm] = useState("");
   const [showCreateModal, setShowCreateModal] = useState(false);
 
-  const { data: userCourses = [] } = useQuery({
-    queryKey: ["/api/courses"], // Fetches courses user is enrolled in or teaches
+  const { data: userCourses = [] } = useQuery<any[]>({
+    queryKey: ["/api/courses"], // Fetches courses user is enrolled in or teaches (students also get their progress)
     enabled: !!user, // Only run if user is loaded
   });
 
@@ -165,6 +167,20 @@ export default function Courses() {
                         </div>
                       </CardHeader>
                       <CardContent>
+                        {!isTeacher && (
+                          <div className="mb-4">
+                            <div className="bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+                              <div
+                                className="bg-primary-600 h-2 rounded-full"
+                                style={{ width: `${course.progress ?? 0}%` }}
+                              ></div>
+                            </div>
+                            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                              {course.progress ?? 0}% complete
+                              {course.enrolledAt && ` · Enrolled ${new Date(course.enrolledAt).toLocaleDateString()}`}
+                            </p>
+                          </div>
+                        )}
                         <div className="flex items-center justify-between">
                           <div className="flex items-center text-sm text-gray-500 dark:text-gray-400">
                             <Users className="mr-1 h-4 w-4" />
@@ -0,0 +1,477 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useRoute, Link } from 'wouter';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { AlertTriangle, ArrowLeft, CalendarClock, ChevronLeft, ChevronRight, ClipboardCheck, ListChecks, Save } from 'lucide-react';
+import { apiErrorMessage, apiRequest, type Assignment, type SubmissionDetails, type SubmissionWithStudent } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from '@/components/ui/resizable';
+import { NavigationHeader } from '@/components/navigation-header';
+import { Sidebar } from '@/components/sidebar';
+import { SubmissionFiles } from '@/components/submission-files';
+import { SubmissionHistory } from '@/components/submission-history';
+import { RubricGrid } from '@/components/rubric-grid';
+import { ExtensionsModal } from '@/components/extensions-modal';
+import { QuizAttemptAnswers } from '@/components/quiz-attempt-answers';
+import { QuizEditorModal } from '@/components/quiz-editor-modal';
+import { useToast } from '@/hooks/use-toast';
+import { rubricScore } from '@shared/rubrics';
+import { latePenalty } from '@shared/deadlines';
+import type { QuizAttemptReview } from '@shared/quizzes';
+import type { Quiz, Rubric, RubricScores } from '@shared/schema';
+
+const isGraded = (submission: SubmissionWithStudent) => submission.status === 'graded';
+
+// Keys typed into a form field are not shortcuts
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/**
+ * Grading workspace for one assignment: the selected submission on the left,
+ * score and feedback on the right. Works through ungraded submissions in the
+ * order they were handed in. Assignments with a rubric are scored by picking
+ * a level per criterion, and quizzes by scoring the short answers the quiz
+ * couldn't. Scores are entered before any late penalty, which the server
+ * takes off.
+ *
+ * Shortcuts: J / K for the next / previous ungraded submission, G to jump to
+ * the score, Ctrl+Enter (Cmd+Enter on Mac) to save and move on.
+ */
+const GradeSubmissionsPage: React.FC = () => {
+  const [, params] = useRoute<{ assignmentId: string }>("/assignments/:assignmentId/grade");
+  const assignmentId = params?.assignmentId;
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const gradeInputRef = useRef<HTMLInputElement>(null);
+
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [grade, setGrade] = useState('');
+  const [feedback, setFeedback] = useState('');
+  const [rubricScores, setRubricScores] = useState<RubricScores>({});
+  const [quizScores, setQuizScores] = useState<Record<string, string>>({}); // Points per short-answer question
+  const [showExtensions, setShowExtensions] = useState(false);
+  const [showQuizEditor, setShowQuizEditor] = useState(false);
+
+  const submissionsKey = [`/api/assignments/${assignmentId}/submissions`];
+  const { data: assignment, isLoading: isLoadingAssignment, error: assignmentError } = useQuery<Assignment, Error>({
+    queryKey: [`/api/assignments/${assignmentId}`],
+    enabled: !!assignmentId,
+  });
+  const { data: submissions = [], isLoading: isLoadingSubmissions } = useQuery<SubmissionWithStudent[]>({
+    queryKey: submissionsKey,
+    enabled: !!assignmentId,
+  });
+  const { data: rubric } = useQuery<Rubric>({
+    queryKey: [`/api/rubrics/${assignment?.rubricId}`],
+    enabled: !!assignment?.rubricId,
+  });
+  const { data: details } = useQuery<SubmissionDetails>({
+    queryKey: [`/api/submissions/${selectedId}`],
+    enabled: selectedId !== null,
+  });
+  const isQuiz = assignment?.type === 'quiz';
+  const { data: quiz } = useQuery<Quiz>({
+    queryKey: [`/api/assignments/${assignmentId}/quiz`],
+    enabled: isQuiz,
+  });
+  const selectedStudentId = submissions.find((submission) => submission.id === selectedId)?.studentId;
+  const quizAttemptsKey = [`/api/assignments/${assignmentId}/quiz/attempts?studentId=${selectedStudentId}`];
+  const { data: quizAttempts } = useQuery<QuizAttemptReview[]>({
+    queryKey: quizAttemptsKey,
+    enabled: isQuiz && selectedStudentId !== undefined,
+  });
+  // The latest submitted attempt is the one that counts
+  const quizAttempt = quizAttempts?.filter((attempt) => attempt.submittedAt !== null).pop();
+  const reviewedQuestions = quizAttempt?.questions.filter((question) => question.type === 'short-answer') ?? [];
+
+  // Oldest first, so the queue is worked through in hand-in order
+  const queue = [...submissions].sort((a, b) =>
+    (a.submittedAt ?? '').localeCompare(b.submittedAt ?? '') || a.id - b.id
+  );
+  const ungradedCount = queue.filter((submission) => !isGraded(submission)).length;
+  const currentIndex = queue.findIndex((submission) => submission.id === selectedId);
+  const nextUngraded = queue.slice(currentIndex + 1).find((submission) => !isGraded(submission));
+  const previousUngraded = currentIndex > 0
+    ? queue.slice(0, currentIndex).reverse().find((submission) => !isGraded(submission))
+    : undefined;
+
+  // Start on the first ungraded submission, or the first one if all are graded
+  useEffect(() => {
+    if (selectedId === null && queue.length > 0) {
+      setSelectedId((queue.find((submission) => !isGraded(submission)) ?? queue[0]).id);
+    }
+  }, [queue, selectedId]);
+
+  useEffect(() => {
+    // The score as the teacher gave it, before the late penalty
+    setGrade(details?.grade != null ? (details.grade + (details.latePenalty ?? 0)).toString() : '');
+    setFeedback(details?.feedback ?? '');
+    setRubricScores(details?.rubricScores ?? {});
+  }, [details]);
+
+  useEffect(() => {
+    setQuizScores(Object.fromEntries(reviewedQuestions.map((question) =>
+      [question.id, quizAttempt?.results?.[question.id]?.toString() ?? '']
+    )));
+  }, [quizAttempt]);
+
+  const gradeMutation = useMutation({
+    mutationFn: async ({ submissionId }: { submissionId: number; advance: boolean }) => {
+      if (quizAttempt) {
+        // Answers left blank stay unscored
+        const scores = Object.fromEntries(Object.entries(quizScores)
+          .filter(([, points]) => points.trim() !== '')
+          .map(([questionId, points]) => [questionId, parseInt(points, 10)]));
+        return (await apiRequest('PUT', `/api/quiz-attempts/${quizAttempt.id}/review`, { scores, feedback })).json();
+      }
+      const response = await apiRequest('PUT', `/api/submissions/${submissionId}/grade`, rubric
+        ? { rubricScores, feedback }
+        : { grade: parseInt(grade, 10), feedback });
+      return response.json();
+    },
+    onSuccess: (_data, { submissionId, advance }) => {
+      toast({ title: "Grade saved" });
+      queryClient.invalidateQueries({ queryKey: submissionsKey });
+      queryClient.invalidateQueries({ queryKey: [`/api/submissions/${submissionId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/submissions/${submissionId}/versions`] });
+      if (isQuiz) queryClient.invalidateQueries({ queryKey: quizAttemptsKey });
+      if (advance && nextUngraded) setSelectedId(nextUngraded.id);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save grade",
+        description: apiErrorMessage(error, "Please check the score and try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const maxPoints = assignment?.maxPoints ?? 0;
+  const parsedGrade = parseInt(grade, 10);
+  const gradeIsValid = /^\d+$/.test(grade.trim()) && parsedGrade <= maxPoints;
+
+  const saveGrade = (advance: boolean) => {
+    if (selectedId === null || gradeMutation.isPending) return;
+    if (isQuiz) {
+      const invalid = reviewedQuestions.find((question) => {
+        const points = quizScores[question.id] ?? '';
+        return points !== '' && !(/^\d+$/.test(points.trim()) && parseInt(points, 10) <= question.points);
+      });
+      if (!quizAttempt || invalid) {
+        toast({
+          title: "Invalid score",
+          description: invalid ? `Enter a whole number from 0 to ${invalid.points} for each short answer.` : "There is no submitted attempt to review.",
+          variant: "destructive",
+        });
+        return;
+      }
+    } else if (rubric && rubricScore(rubric.criteria, rubricScores) === undefined) {
+      toast({ title: "Incomplete rubric", description: "Pick a level for every criterion.", variant: "destructive" });
+      return;
+    }
+    if (!isQuiz && !rubric && !gradeIsValid) {
+      toast({ title: "Invalid score", description: `Enter a whole number from 0 to ${maxPoints}.`, variant: "destructive" });
+      return;
+    }
+    gradeMutation.mutate({ submissionId: selectedId, advance });
+  };
+
+  // Re-registered every render so the handler sees current state
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+        e.preventDefault();
+        saveGrade(true);
+        return;
+      }
+      if (e.ctrlKey || e.metaKey || e.altKey || isTypingTarget(e.target)) return;
+      if (e.key === 'j' && nextUngraded) {
+        setSelectedId(nextUngraded.id);
+      } else if (e.key === 'k' && previousUngraded) {
+        setSelectedId(previousUngraded.id);
+      } else if (e.key === 'g') {
+        e.preventDefault();
+        gradeInputRef.current?.focus();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  if (isLoadingAssignment || isLoadingSubmissions) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+        <NavigationHeader />
+        <div className="flex"> <Sidebar /> <main className="flex-1 p-8 text-center"> <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 mx-auto"></div> <p className="mt-4">Loading submissions...</p> </main> </div>
+      </div>
+    );
+  }
+
+  if (assignmentError || !assignment) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+        <NavigationHeader />
+        <div className="flex"> <Sidebar /> <main className="flex-1 p-8 text-center"> <AlertTriangle className="mx-auto h-12 w-12 text-red-500" /> <h1 className="mt-4 text-xl font-semibold text-destructive">Error Loading Assignment</h1> <p>{assignmentError?.message}</p> </main> </div>
+      </div>
+    );
+  }
+
+  const selected = queue[currentIndex];
+  const enteredPoints = isQuiz
+    ? undefined // The server totals the quiz
+    : rubric ? rubricScore(rubric.criteria, rubricScores) : gradeIsValid ? parsedGrade : undefined;
+  const penalty = selected && enteredPoints !== undefined ? latePenalty(assignment, selected.daysLate, enteredPoints) : 0;
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <NavigationHeader />
+      <div className="flex">
+        <Sidebar />
+        <main className="flex-1 p-4 md:p-8 overflow-y-auto">
+          <Link href="/assignments" className="inline-flex items-center text-sm text-primary hover:underline mb-4">
+            <ArrowLeft className="mr-1 h-4 w-4" /> Back to Assignments
+          </Link>
+
+          <div className="mb-4 flex flex-col gap-3 lg:flex-row lg:items-center lg:justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Grading: {assignment.title}</h1>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {ungradedCount} of {queue.length} submissions left to grade
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              {isQuiz && (
+                <Button variant="outline" size="sm" onClick={() => setShowQuizEditor(true)} disabled={!quiz}>
+                  <ListChecks className="mr-2 h-4 w-4" /> Edit Quiz
+                </Button>
+              )}
+              <Button variant="outline" size="sm" onClick={() => setShowExtensions(true)}>
+                <CalendarClock className="mr-2 h-4 w-4" /> Extensions
+              </Button>
+              {queue.length > 0 && (
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => previousUngraded && setSelectedId(previousUngraded.id)}
+                    disabled={!previousUngraded}
+                    title="Previous ungraded (K)"
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <Select value={selectedId?.toString() ?? ''} onValueChange={(id) => setSelectedId(parseInt(id, 10))}>
+                    <SelectTrigger className="h-9 w-[240px]">
+                      <SelectValue placeholder="Pick a submission" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {queue.map((submission) => (
+                        <SelectItem key={submission.id} value={submission.id.toString()}>
+                          {submission.student?.name ?? `Student ${submission.studentId}`}
+                          {isGraded(submission) ? ` · ${submission.grade}/${maxPoints}` : ' · ungraded'}
+                          {submission.daysLate > 0 && ' · late'}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => nextUngraded && setSelectedId(nextUngraded.id)}
+                    disabled={!nextUngraded}
+                    title="Next ungraded (J)"
+                  >
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {queue.length === 0 ? (
+            <div className="rounded-lg border bg-white dark:bg-gray-800 p-12 text-center">
+              <ClipboardCheck className="mx-auto h-12 w-12 text-gray-400" />
+              <h3 className="mt-2 text-sm font-medium text-gray-900 dark:text-white">No submissions yet</h3>
+            </div>
+          ) : (
+            <ResizablePanelGroup direction="horizontal" className="min-h-[640px] rounded-lg border bg-white dark:bg-gray-800">
+              <ResizablePanel defaultSize={65} minSize={35}>
+                <div className="h-full overflow-y-auto p-6 space-y-4">
+                  {selected && (
+                    <div className="flex flex-wrap items-center gap-2">
+                      <h2 className="text-lg font-semibold">{selected.student?.name ?? `Student ${selected.studentId}`}</h2>
+                      <Badge className={isGraded(selected) ? 'bg-green-500' : 'bg-blue-500'}>{selected.status}</Badge>
+                      {selected.daysLate > 0 && (
+                        <Badge variant="destructive">
+                          {selected.daysLate} {selected.daysLate === 1 ? 'day' : 'days'} late
+                        </Badge>
+                      )}
+                      {selected.submittedAt && (
+                        <span className="text-sm text-gray-500 dark:text-gray-400">
+                          Submitted {new Date(selected.submittedAt).toLocaleString()}
+                        </span>
+                      )}
+                    </div>
+                  )}
+                  {isQuiz ? (
+                    quizAttempt ? (
+                      <>
+                        <p className="text-sm text-gray-500 dark:text-gray-400">
+                          Attempt {quizAttempt.attempt} of {quizAttempts?.length}: {quizAttempt.score}/{maxPoints} points so far
+                        </p>
+                        <QuizAttemptAnswers attempt={quizAttempt} />
+                      </>
+                    ) : (
+                      <p className="text-sm text-gray-500 dark:text-gray-400">Loading attempt...</p>
+                    )
+                  ) : details && details.id === selectedId ? (
+                    <>
+                      {details.content && (
+                        <div className="p-4 border rounded-md bg-gray-50 dark:bg-gray-700 whitespace-pre-wrap">
+                          {details.content}
+                        </div>
+                      )}
+                      <SubmissionFiles files={details.files} expandPreviews />
+                      <div>
+                        <h3 className="text-base font-semibold mb-2">Version History</h3>
+                        <SubmissionHistory submissionId={details.id} gradedVersionId={details.gradedVersionId} />
+                      </div>
+                    </>
+                  ) : (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">Loading submission...</p>
+                  )}
+                </div>
+              </ResizablePanel>
+              <ResizableHandle withHandle />
+              <ResizablePanel defaultSize={35} minSize={25}>
+                <form
+                  className="h-full overflow-y-auto p-6 space-y-4"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    saveGrade(false);
+                  }}
+                >
+                  {isQuiz ? (
+                    <div className="space-y-2">
+                      <Label>Short Answers</Label>
+                      {reviewedQuestions.length === 0 ? (
+                        <p className="text-sm text-gray-500 dark:text-gray-400">Every question in this quiz is scored automatically.</p>
+                      ) : (
+                        reviewedQuestions.map((question, index) => (
+                          <div key={question.id} className="flex items-center gap-2">
+                            <span className="flex-1 truncate text-sm" title={question.prompt}>{question.prompt}</span>
+                            <Input
+                              ref={index === 0 ? gradeInputRef : undefined}
+                              type="number"
+                              min={0}
+                              max={question.points}
+                              step={1}
+                              value={quizScores[question.id] ?? ''}
+                              onChange={(e) => setQuizScores({ ...quizScores, [question.id]: e.target.value })}
+                              placeholder="—"
+                              aria-label={`Points for ${question.prompt}`}
+                              className="w-20"
+                              disabled={gradeMutation.isPending}
+                            />
+                            <span className="text-sm text-gray-500 dark:text-gray-400">/ {question.points}</span>
+                          </div>
+                        ))
+                      )}
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        The rest of the quiz is scored automatically. Any late penalty comes off the total.
+                      </p>
+                    </div>
+                  ) : rubric ? (
+                    <div className="space-y-2">
+                      <Label>Rubric: {rubric.title}</Label>
+                      <RubricGrid
+                        criteria={rubric.criteria}
+                        scores={rubricScores}
+                        onSelect={(criterionId, levelId) => setRubricScores({ ...rubricScores, [criterionId]: levelId })}
+                        disabled={gradeMutation.isPending}
+                      />
+                    </div>
+                  ) : (
+                    <div className="space-y-2">
+                      <Label htmlFor="grade">Score</Label>
+                      <div className="flex items-center gap-2">
+                        <Input
+                          id="grade"
+                          ref={gradeInputRef}
+                          type="number"
+                          min={0}
+                          max={maxPoints}
+                          step={1}
+                          value={grade}
+                          onChange={(e) => setGrade(e.target.value)}
+                          className="w-28"
+                          disabled={gradeMutation.isPending}
+                        />
+                        <span className="text-sm text-gray-500 dark:text-gray-400">/ {maxPoints}</span>
+                      </div>
+                    </div>
+                  )}
+                  {selected && selected.daysLate > 0 && assignment.latePolicy === 'deduct' && (
+                    <p className="text-sm text-red-500">
+                      Late by {selected.daysLate} {selected.daysLate === 1 ? 'day' : 'days'}:{' '}
+                      {Math.min(100, (assignment.latePenaltyPercent ?? 0) * selected.daysLate)}% is taken off
+                      {enteredPoints !== undefined && `, recording ${enteredPoints - penalty} of ${enteredPoints} points`}.
+                    </p>
+                  )}
+                  <div className="space-y-2">
+                    <Label htmlFor="feedback">Feedback</Label>
+                    <Textarea
+                      id="feedback"
+                      value={feedback}
+                      onChange={(e) => setFeedback(e.target.value)}
+                      rows={12}
+                      placeholder="Comments for the student..."
+                      disabled={gradeMutation.isPending}
+                    />
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <Button type="submit" variant="outline" disabled={gradeMutation.isPending || selectedId === null}>
+                      <Save className="mr-2 h-4 w-4" /> Save
+                    </Button>
+                    <Button
+                      type="button"
+                      onClick={() => saveGrade(true)}
+                      disabled={gradeMutation.isPending || selectedId === null}
+                    >
+                      Save & Next <ChevronRight className="ml-1 h-4 w-4" />
+                    </Button>
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Shortcuts: <kbd>J</kbd> / <kbd>K</kbd> next / previous ungraded, <kbd>G</kbd> score,{' '}
+                    <kbd>Ctrl</kbd>+<kbd>Enter</kbd> save and go to the next ungraded.
+                  </p>
+                </form>
+              </ResizablePanel>
+            </ResizablePanelGroup>
+          )}
+        </main>
+      </div>
+      <ExtensionsModal isOpen={showExtensions} onClose={() => setShowExtensions(false)} assignment={assignment} />
+      {quiz && (
+        <QuizEditorModal
+          isOpen={showQuizEditor}
+          onClose={() => setShowQuizEditor(false)}
+          quiz={quiz}
+          courseId={String(assignment.courseId)}
+          assignmentId={assignment.id}
+        />
+      )}
+    </div>
+  );
+};
+
+export default GradeSubmissionsPage;
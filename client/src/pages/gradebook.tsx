@@ -0,0 +1,358 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'wouter';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { AlertTriangle, BookMarked, Download, Layers, Table2, Upload } from 'lucide-react';
+import { apiErrorMessage, apiRequest } from '@/lib/queryClient';
+import { formatGrade, formatPercent, gradebookCsvUrl, gradebookUrl, type Gradebook, type GradebookCell } from '@/lib/grades';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { NavigationHeader } from '@/components/navigation-header';
+import { Sidebar } from '@/components/sidebar';
+import { GradeCategoriesModal } from '@/components/grade-categories-modal';
+import { GradeScaleModal } from '@/components/grade-scale-modal';
+import { GradebookImportModal } from '@/components/gradebook-import-modal';
+import { useToast } from '@/hooks/use-toast';
+import { countsTowardGrade, hasGrade } from '@shared/gradebook';
+import type { Assignment, Course } from '@shared/schema';
+
+const UNCATEGORIZED = 'none';
+
+// Scores are typed in here only for assignments graded by points; quizzes and
+// rubric-graded work are scored on the grading page
+const isEditable = (assignment: Assignment) => assignment.type !== 'quiz' && assignment.rubricId === null;
+
+/**
+ * Spreadsheet view of a course: a row per student, a column per assignment,
+ * and each student's current and final grade. Scores for points-graded
+ * assignments are typed straight into the cells, before any late penalty, as
+ * on the grading page. Categories and the letter scale are set from here too,
+ * and the whole gradebook can go out to and come back from a spreadsheet.
+ */
+const GradebookPage: React.FC = () => {
+  const [courseId, setCourseId] = useState('');
+  const [showCategories, setShowCategories] = useState(false);
+  const [showScale, setShowScale] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+
+  const { data: courses = [], isLoading: isLoadingCourses } = useQuery<Course[]>({
+    queryKey: ['/api/courses'],
+  });
+  const { data: gradebook, isLoading, error } = useQuery<Gradebook, Error>({
+    queryKey: [gradebookUrl(courseId)],
+    enabled: !!courseId,
+  });
+
+  useEffect(() => {
+    if (!courseId && courses.length > 0) setCourseId(courses[0].id.toString());
+  }, [courses, courseId]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <NavigationHeader />
+      <div className="flex">
+        <Sidebar />
+        <main className="flex-1 min-w-0 p-4 md:p-8">
+          <div className="mb-6 flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Gradebook</h1>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Click a score to change it. Quizzes and rubric-graded assignments are scored on their grading pages.
+              </p>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <Select value={courseId} onValueChange={setCourseId} disabled={isLoadingCourses}>
+                <SelectTrigger className="w-[260px]" aria-label="Course">
+                  <SelectValue placeholder="Select a course" />
+                </SelectTrigger>
+                <SelectContent>
+                  {courses.map((course) => (
+                    <SelectItem key={course.id} value={course.id.toString()}>{course.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" onClick={() => setShowCategories(true)} disabled={!gradebook}>
+                <Layers className="mr-2 h-4 w-4" /> Categories
+              </Button>
+              <Button variant="outline" onClick={() => setShowScale(true)} disabled={!gradebook}>
+                <BookMarked className="mr-2 h-4 w-4" /> Grading Scale
+              </Button>
+              <Button variant="outline" onClick={() => setShowImport(true)} disabled={!gradebook}>
+                <Upload className="mr-2 h-4 w-4" /> Import CSV
+              </Button>
+              {gradebook ? (
+                <Button asChild variant="outline">
+                  <a href={gradebookCsvUrl(gradebook.course.id)} download>
+                    <Download className="mr-2 h-4 w-4" /> Export CSV
+                  </a>
+                </Button>
+              ) : (
+                <Button variant="outline" disabled>
+                  <Download className="mr-2 h-4 w-4" /> Export CSV
+                </Button>
+              )}
+            </div>
+          </div>
+
+          {!isLoadingCourses && courses.length === 0 ? (
+            <EmptyState message="Create a course to start a gradebook." />
+          ) : isLoading || !courseId ? (
+            <div className="p-8 text-center"><div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 mx-auto"></div></div>
+          ) : error || !gradebook ? (
+            <div className="p-8 text-center">
+              <AlertTriangle className="mx-auto h-12 w-12 text-red-500" />
+              <p className="mt-4">{error ? apiErrorMessage(error, 'Failed to load the gradebook.') : 'Failed to load the gradebook.'}</p>
+            </div>
+          ) : gradebook.assignments.length === 0 || gradebook.rows.length === 0 ? (
+            <EmptyState message={gradebook.assignments.length === 0
+              ? 'This course has no assignments yet.'
+              : 'No students are enrolled in this course yet.'} />
+          ) : (
+            <GradebookTable gradebook={gradebook} />
+          )}
+
+          {gradebook && (
+            <>
+              <GradeCategoriesModal
+                isOpen={showCategories}
+                onClose={() => setShowCategories(false)}
+                courseId={gradebook.course.id}
+                categories={gradebook.categories}
+              />
+              <GradeScaleModal
+                isOpen={showScale}
+                onClose={() => setShowScale(false)}
+                courseId={gradebook.course.id}
+                scale={gradebook.scale}
+                isCustom={gradebook.course.gradeScale !== null}
+              />
+              <GradebookImportModal
+                isOpen={showImport}
+                onClose={() => setShowImport(false)}
+                courseId={gradebook.course.id}
+              />
+            </>
+          )}
+        </main>
+      </div>
+    </div>
+  );
+};
+
+function EmptyState({ message }: { message: string }) {
+  return (
+    <div className="rounded-lg border border-dashed border-gray-300 p-12 text-center dark:border-gray-700">
+      <Table2 className="mx-auto h-10 w-10 text-gray-400" />
+      <p className="mt-3 text-sm text-gray-500 dark:text-gray-400">{message}</p>
+    </div>
+  );
+}
+
+function GradebookTable({ gradebook }: { gradebook: Gradebook }) {
+  const { assignments, categories, rows } = gradebook;
+
+  // The mean of the graded scores in each column
+  const columnAverage = (assignment: Assignment) => {
+    const scores = rows.flatMap(({ cells }) => {
+      const cell = cells[assignment.id];
+      return cell && hasGrade(cell) ? [cell.grade!] : [];
+    });
+    if (scores.length === 0 || assignment.maxPoints === 0) return null;
+    return (scores.reduce((total, score) => total + score, 0) / scores.length / assignment.maxPoints) * 100;
+  };
+
+  return (
+    <div className="overflow-x-auto rounded-lg border border-gray-200 bg-white dark:border-gray-700 dark:bg-gray-800">
+      <table className="min-w-full border-collapse text-sm">
+        <thead className="bg-gray-50 dark:bg-gray-900/50">
+          <tr>
+            <th className="sticky left-0 z-10 min-w-[180px] border-b border-r border-gray-200 bg-gray-50 px-3 py-2 text-left font-medium dark:border-gray-700 dark:bg-gray-900">
+              Student
+            </th>
+            {assignments.map((assignment) => (
+              <th key={assignment.id} className="min-w-[140px] border-b border-r border-gray-200 px-3 py-2 text-left align-top font-medium dark:border-gray-700">
+                <Link href={`/assignments/${assignment.id}/grade`} className="line-clamp-2 hover:underline">
+                  {assignment.title}
+                </Link>
+                <span className="block text-xs font-normal text-gray-500 dark:text-gray-400">out of {assignment.maxPoints}</span>
+                <CategorySelect gradebook={gradebook} assignment={assignment} />
+              </th>
+            ))}
+            <th className="min-w-[120px] border-b border-r border-gray-200 px-3 py-2 text-left font-medium dark:border-gray-700">Current</th>
+            <th className="min-w-[120px] border-b border-gray-200 px-3 py-2 text-left font-medium dark:border-gray-700">Final</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.student.id} className="hover:bg-gray-50 dark:hover:bg-gray-900/30">
+              <td className="sticky left-0 z-10 border-b border-r border-gray-200 bg-white px-3 py-2 dark:border-gray-700 dark:bg-gray-800">
+                <p className="font-medium">{row.student.name}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">{row.student.username}</p>
+              </td>
+              {assignments.map((assignment) => {
+                const dropped = row.grade.categories.some((category) => category.dropped.includes(assignment.id));
+                return (
+                  <td key={assignment.id} className="border-b border-r border-gray-200 px-3 py-1 dark:border-gray-700">
+                    <GradeCell
+                      courseId={gradebook.course.id}
+                      assignment={assignment}
+                      studentId={row.student.id}
+                      cell={row.cells[assignment.id]}
+                      dropped={dropped}
+                      counted={countsTowardGrade(assignment, categories)}
+                    />
+                  </td>
+                );
+              })}
+              <td className="border-b border-r border-gray-200 px-3 py-2 font-medium dark:border-gray-700">{formatGrade(row.grade, 'current')}</td>
+              <td className="border-b border-gray-200 px-3 py-2 text-gray-600 dark:border-gray-700 dark:text-gray-300">{formatGrade(row.grade, 'final')}</td>
+            </tr>
+          ))}
+          <tr className="bg-gray-50 text-gray-600 dark:bg-gray-900/50 dark:text-gray-300">
+            <td className="sticky left-0 z-10 border-r border-gray-200 bg-gray-50 px-3 py-2 font-medium dark:border-gray-700 dark:bg-gray-900">Class average</td>
+            {assignments.map((assignment) => (
+              <td key={assignment.id} className="border-r border-gray-200 px-3 py-2 dark:border-gray-700">{formatPercent(columnAverage(assignment))}</td>
+            ))}
+            <td className="border-r border-gray-200 px-3 py-2 dark:border-gray-700" colSpan={2}>
+              {categories.length > 0 && categories.map((category) => `${category.title} ${category.weight}%`).join(' · ')}
+            </td>
+          </tr>
+        </tbody>
+      </table>
+      {categories.length > 0 && assignments.some((assignment) => !countsTowardGrade(assignment, categories)) && (
+        <p className="border-t border-gray-200 px-3 py-2 text-xs text-amber-600 dark:border-gray-700 dark:text-amber-400">
+          Assignments without a category don't count toward grades. Pick one under each such assignment's title.
+        </p>
+      )}
+    </div>
+  );
+}
+
+// Moves the assignment between the course's categories
+function CategorySelect({ gradebook, assignment }: { gradebook: Gradebook; assignment: Assignment }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const moveMutation = useMutation({
+    mutationFn: (categoryId: number | null) => apiRequest('PUT', `/api/assignments/${assignment.id}/category`, { categoryId }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [gradebookUrl(gradebook.course.id)] }),
+    onError: (error: Error) => {
+      toast({ title: 'Failed to change category', description: apiErrorMessage(error, 'Please try again.'), variant: 'destructive' });
+    },
+  });
+
+  if (gradebook.categories.length === 0) return null;
+  return (
+    <Select
+      value={assignment.categoryId?.toString() ?? UNCATEGORIZED}
+      onValueChange={(value) => moveMutation.mutate(value === UNCATEGORIZED ? null : parseInt(value, 10))}
+      disabled={moveMutation.isPending}
+    >
+      <SelectTrigger className="mt-1 h-7 text-xs font-normal" aria-label={`Category of ${assignment.title}`}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={UNCATEGORIZED}>No category</SelectItem>
+        {gradebook.categories.map((category) => (
+          <SelectItem key={category.id} value={category.id.toString()}>{category.title}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+interface GradeCellProps {
+  courseId: number;
+  assignment: Assignment;
+  studentId: number;
+  cell?: GradebookCell;
+  dropped: boolean; // Left out of the current grade by the category's drop rule
+  counted: boolean; // In a category, or the course has none
+}
+
+function GradeCell({ courseId, assignment, studentId, cell, dropped, counted }: GradeCellProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const isGraded = !!cell && hasGrade(cell);
+  // The score as the teacher gave it, before the late penalty
+  const given = isGraded ? (cell!.grade! + (cell!.latePenalty ?? 0)).toString() : '';
+  const [value, setValue] = useState(given);
+
+  useEffect(() => setValue(given), [given]);
+
+  const gradeMutation = useMutation({
+    mutationFn: (grade: number) => apiRequest('PUT', `/api/assignments/${assignment.id}/grades/${studentId}`, { grade }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [gradebookUrl(courseId)] });
+      queryClient.invalidateQueries({ queryKey: [`/api/assignments/${assignment.id}/submissions`] });
+    },
+    onError: (error: Error) => {
+      setValue(given);
+      toast({ title: 'Failed to save score', description: apiErrorMessage(error, 'Please try again.'), variant: 'destructive' });
+    },
+  });
+
+  const commit = () => {
+    if (value.trim() === '' || value === given) {
+      setValue(given); // Scores can be changed but not cleared here
+      return;
+    }
+    const grade = parseInt(value, 10);
+    if (isNaN(grade) || grade < 0 || grade > assignment.maxPoints) {
+      toast({ title: 'Invalid score', description: `Enter a whole number from 0 to ${assignment.maxPoints}.`, variant: 'destructive' });
+      setValue(given);
+      return;
+    }
+    gradeMutation.mutate(grade);
+  };
+
+  const needsGrading = cell && !isGraded;
+  const note = dropped
+    ? 'Dropped'
+    : cell?.latePenalty
+      ? `−${cell.latePenalty} late`
+      : needsGrading
+        ? 'Needs grading'
+        : !counted
+          ? 'Not counted'
+          : null;
+
+  return (
+    <div className={dropped || !counted ? 'text-gray-400 dark:text-gray-500' : undefined}>
+      {isEditable(assignment) ? (
+        <Input
+          type="number"
+          min={0}
+          max={assignment.maxPoints}
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onBlur={commit}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') e.currentTarget.blur();
+            if (e.key === 'Escape') {
+              setValue(given);
+              e.currentTarget.blur();
+            }
+          }}
+          placeholder="—"
+          aria-label={`Score for ${assignment.title}`}
+          className={`h-8 w-20 ${dropped ? 'line-through' : ''}`}
+          disabled={gradeMutation.isPending}
+        />
+      ) : (
+        <Link href={`/assignments/${assignment.id}/grade`} className={`inline-block py-1 hover:underline ${dropped ? 'line-through' : ''}`}>
+          {isGraded ? cell!.grade : '—'}
+        </Link>
+      )}
+      {note && <span className="block text-xs text-gray-500 dark:text-gray-400">{note}</span>}
+    </div>
+  );
+}
+
+export default GradebookPage;
@@ -8,6 +8,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { passwordSchema } from "@shared/schema";
 
 export default function Login() {
   const [, setLocation] = useLocation();
@@ -68,9 +69,21 @@ export default function Login() {
   const handleRegister = (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     const formData = new FormData(e.currentTarget);
+    const password = formData.get("password") as string;
+
+    const passwordCheck = passwordSchema.safeParse(password);
+    if (!passwordCheck.success) {
+      toast({
+        title: "Weak password",
+        description: passwordCheck.error.errors[0]?.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
     registerMutation.mutate({
       username: formData.get("username") as string,
-      password: formData.get("password") as string,
+      password,
       name: formData.get("name") as string,
       role: formData.get("role") as string,
     });
@@ -163,6 +176,9 @@ export default function Login() {
                     required
                     disabled={registerMutation.isPending}
                   />
+                  <p className="text-xs text-muted-foreground">
+                    At least 8 characters, with an uppercase letter, a lowercase letter and a number.
+                  </p>
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="role">Role</Label>
@@ -0,0 +1,142 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { GraduationCap } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { NavigationHeader } from "@/components/navigation-header";
+import { Sidebar } from "@/components/sidebar";
+import { formatDeadline } from "@/lib/deadlines";
+import { formatGrade, formatPercent, type StudentCourseGrades } from "@/lib/grades";
+import { countsTowardGrade, hasGrade } from "@shared/gradebook";
+
+/**
+ * A student's grades in each of their courses: the current grade from graded
+ * work, the final grade if nothing else were handed in, how each category
+ * stands and the score for every assignment.
+ */
+export default function MyGradesPage() {
+  const { data: courses = [], isLoading } = useQuery<StudentCourseGrades[]>({
+    queryKey: ["/api/grades"],
+  });
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <NavigationHeader />
+      <div className="flex">
+        <Sidebar />
+        <main className="flex-1 p-4 md:p-8">
+          <div className="mb-6">
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">My Grades</h1>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Your current grade counts graded work only. The final grade counts anything not yet graded as zero.
+            </p>
+          </div>
+
+          {isLoading ? (
+            <div className="p-8 text-center"><div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 mx-auto"></div></div>
+          ) : courses.length === 0 ? (
+            <div className="rounded-lg border border-dashed border-gray-300 p-12 text-center dark:border-gray-700">
+              <GraduationCap className="mx-auto h-10 w-10 text-gray-400" />
+              <p className="mt-3 text-sm text-gray-500 dark:text-gray-400">Enroll in a course to see your grades here.</p>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {courses.map((grades) => (
+                <CourseGradesCard key={grades.course.id} grades={grades} />
+              ))}
+            </div>
+          )}
+        </main>
+      </div>
+    </div>
+  );
+}
+
+function CourseGradesCard({ grades }: { grades: StudentCourseGrades }) {
+  const { course, categories, assignments, cells, grade } = grades;
+  const categoryTitle = (categoryId: number | null) =>
+    categories.find((category) => category.id === categoryId)?.title ?? "No category";
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-4 space-y-0">
+        <CardTitle>{course.title}</CardTitle>
+        <div className="flex gap-6 text-right">
+          <div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">Current</p>
+            <p className="text-lg font-semibold text-gray-900 dark:text-white">{formatGrade(grade, "current")}</p>
+          </div>
+          <div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">Final</p>
+            <p className="text-lg font-semibold text-gray-600 dark:text-gray-300">{formatGrade(grade, "final")}</p>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {categories.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {categories.map((category) => {
+              const categoryGrade = grade.categories.find((entry) => entry.categoryId === category.id);
+              return (
+                <Badge key={category.id} variant="outline" className="font-normal">
+                  {category.title} ({category.weight}%): {formatPercent(categoryGrade?.current ?? null)}
+                  {category.dropLowest > 0 && `, lowest ${category.dropLowest} dropped`}
+                </Badge>
+              );
+            })}
+          </div>
+        )}
+
+        {assignments.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No assignments yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 text-left text-gray-500 dark:border-gray-700 dark:text-gray-400">
+                  <th className="py-2 pr-4 font-medium">Assignment</th>
+                  {categories.length > 0 && <th className="py-2 pr-4 font-medium">Category</th>}
+                  <th className="py-2 pr-4 font-medium">Due</th>
+                  <th className="py-2 font-medium">Score</th>
+                </tr>
+              </thead>
+              <tbody>
+                {assignments.map((assignment) => {
+                  const cell = cells[assignment.id];
+                  const isGraded = !!cell && hasGrade(cell);
+                  const dropped = grade.categories.some((category) => category.dropped.includes(assignment.id));
+                  const counted = countsTowardGrade(assignment, categories);
+                  return (
+                    <tr key={assignment.id} className="border-b border-gray-100 last:border-0 dark:border-gray-700/50">
+                      <td className="py-2 pr-4">
+                        {cell ? (
+                          <Link href={`/submissions/${cell.submissionId}`} className="hover:underline">{assignment.title}</Link>
+                        ) : (
+                          <Link href={`/courses/${course.id}/assignments/${assignment.id}/submit`} className="hover:underline">{assignment.title}</Link>
+                        )}
+                      </td>
+                      {categories.length > 0 && (
+                        <td className="py-2 pr-4 text-gray-600 dark:text-gray-300">{categoryTitle(assignment.categoryId)}</td>
+                      )}
+                      <td className="py-2 pr-4 text-gray-600 dark:text-gray-300">{assignment.dueDate ? formatDeadline(assignment.dueDate) : "—"}</td>
+                      <td className="py-2">
+                        <span className={dropped ? "text-gray-400 line-through" : "font-medium"}>
+                          {isGraded ? `${cell.grade} / ${assignment.maxPoints}` : cell ? "Awaiting grade" : "Not submitted"}
+                        </span>
+                        {isGraded && !!cell.latePenalty && (
+                          <span className="ml-2 text-xs text-red-600 dark:text-red-400">−{cell.latePenalty} late</span>
+                        )}
+                        {dropped && <Badge variant="secondary" className="ml-2">Dropped</Badge>}
+                        {!counted && <Badge variant="secondary" className="ml-2">Not counted</Badge>}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -6,6 +6,10 @@ import { Label } from '@/components/ui/label';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest, UserProfile } from '@/lib/queryClient'; // Assuming UserProfile type is defined here or in a shared types file
+import { authApi } from '@/lib/auth';
+import { changePasswordSchema, type ChangePassword } from '@shared/schema';
+import { formatDistanceToNow } from 'date-fns';
+import { Monitor } from 'lucide-react';
 
 const ProfilePage: React.FC = () => {
   const { toast } = useToast();
@@ -84,7 +88,7 @@ const ProfilePage: React.FC = () => {
       <h1 className="text-3xl font-bold mb-6 text-center">User Profile</h1>
       <div className="flex flex-col items-center space-y-6 mb-8">
         <Avatar className="h-32 w-32 border-4 border-primary">
-          <AvatarImage src={avatarUrl || user.avatar} alt={user.username} />
+          <AvatarImage src={avatarUrl || user.avatar || undefined} alt={user.username} />
           <AvatarFallback className="text-4xl">
             {user.username ? user.username.substring(0, 2).toUpperCase() : 'U'}
           </AvatarFallback>
@@ -132,6 +136,184 @@ const ProfilePage: React.FC = () => {
           {updateProfileMutation.isPending ? 'Updating...' : 'Update Profile'}
         </Button>
       </form>
+
+      <ChangePasswordForm />
+      <ActiveSessionsCard />
+    </div>
+  );
+};
+
+const ChangePasswordForm: React.FC = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const changePasswordMutation = useMutation({
+    mutationFn: async (data: ChangePassword) => {
+      const response = await apiRequest('PUT', '/api/users/password', data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/sessions'] }); // Other sessions are revoked server-side
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+      toast({
+        title: 'Password Changed',
+        description: 'Your password has been updated.',
+      });
+    },
+    onError: (error: Error) => {
+      // apiRequest errors look like "403: {"message":"..."}"
+      const body = error.message.replace(/^\d+:\s*/, '');
+      let message = 'An unexpected error occurred.';
+      try {
+        message = JSON.parse(body).message || message;
+      } catch {
+        // Non-JSON error body, keep the generic message
+      }
+      toast({
+        title: 'Password Change Failed',
+        description: message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleChangePassword = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+
+    if (newPassword !== confirmPassword) {
+      setFormError('New passwords do not match.');
+      return;
+    }
+
+    const parsed = changePasswordSchema.safeParse({ currentPassword, newPassword });
+    if (!parsed.success) {
+      setFormError(parsed.error.errors[0]?.message || 'Invalid password.');
+      return;
+    }
+
+    changePasswordMutation.mutate(parsed.data);
+  };
+
+  return (
+    <form onSubmit={handleChangePassword} className="space-y-6 bg-card p-6 rounded-lg shadow-md mt-8">
+      <h2 className="text-xl font-semibold">Change Password</h2>
+      <div>
+        <Label htmlFor="currentPassword" className="text-sm font-medium">Current Password</Label>
+        <Input
+          id="currentPassword"
+          type="password"
+          autoComplete="current-password"
+          value={currentPassword}
+          onChange={(e) => setCurrentPassword(e.target.value)}
+          className="mt-1 block w-full border-input"
+        />
+      </div>
+      <div>
+        <Label htmlFor="newPassword" className="text-sm font-medium">New Password</Label>
+        <Input
+          id="newPassword"
+          type="password"
+          autoComplete="new-password"
+          value={newPassword}
+          onChange={(e) => setNewPassword(e.target.value)}
+          className="mt-1 block w-full border-input"
+        />
+        <p className="mt-1 text-xs text-muted-foreground">
+          At least 8 characters, with an uppercase letter, a lowercase letter and a number.
+        </p>
+      </div>
+      <div>
+        <Label htmlFor="confirmPassword" className="text-sm font-medium">Confirm New Password</Label>
+        <Input
+          id="confirmPassword"
+          type="password"
+          autoComplete="new-password"
+          value={confirmPassword}
+          onChange={(e) => setConfirmPassword(e.target.value)}
+          className="mt-1 block w-full border-input"
+        />
+      </div>
+      {formError && <p className="text-sm text-red-500">{formError}</p>}
+      <Button type="submit" className="w-full" disabled={changePasswordMutation.isPending}>
+        {changePasswordMutation.isPending ? 'Changing...' : 'Change Password'}
+      </Button>
+    </form>
+  );
+};
+
+const ActiveSessionsCard: React.FC = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: sessions = [], isLoading } = useQuery({
+    queryKey: ['/api/auth/sessions'],
+    queryFn: authApi.getSessions,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: authApi.revokeOtherSessions,
+    onSuccess: ({ revoked }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/sessions'] });
+      toast({
+        title: 'Signed Out Other Devices',
+        description: `${revoked} other session${revoked === 1 ? '' : 's'} ended.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: 'Sign Out Failed',
+        description: 'Could not sign out other devices. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const otherSessionCount = sessions.filter((s) => !s.current).length;
+
+  return (
+    <div className="space-y-4 bg-card p-6 rounded-lg shadow-md mt-8">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold">Active Sessions</h2>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => revokeMutation.mutate()}
+          disabled={revokeMutation.isPending || otherSessionCount === 0}
+        >
+          {revokeMutation.isPending ? 'Signing out...' : 'Sign out all other devices'}
+        </Button>
+      </div>
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading sessions...</p>
+      ) : (
+        <ul className="divide-y divide-border">
+          {sessions.map((session) => (
+            <li key={session.id} className="flex items-start py-3">
+              <Monitor className="h-5 w-5 mr-3 mt-0.5 text-muted-foreground" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">
+                  {session.userAgent || 'Unknown device'}
+                  {session.current && <span className="ml-2 text-xs text-primary">(this device)</span>}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {session.ip ? `${session.ip} · ` : ''}
+                  Signed in {formatDistanceToNow(session.createdAt, { addSuffix: true })}
+                  {' · '}
+                  Last active {formatDistanceToNow(session.lastSeenAt, { addSuffix: true })}
+                </p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
     </div>
   );
 };
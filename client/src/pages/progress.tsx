@@ -0,0 +1,206 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { CheckCircle2, GraduationCap, Send } from "lucide-react";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { NavigationHeader } from "@/components/navigation-header";
+import { Sidebar } from "@/components/sidebar";
+import { formatDeadline } from "@/lib/deadlines";
+import { formatPercent } from "@/lib/grades";
+import { MIN_CLASS_AVERAGE_STUDENTS, type CourseProgress, type MyProgress, type ProgressTimelineEvent } from "@shared/progress";
+
+const completionConfig = {
+  percent: { label: "Progress", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig;
+
+const gradesConfig = {
+  percent: { label: "You", color: "hsl(var(--chart-1))" },
+  classAverage: { label: "Class average", color: "hsl(var(--chart-4))" },
+} satisfies ChartConfig;
+
+/**
+ * A student's progress in each course they're enrolled in: how far along
+ * they've been over time, their grades beside the class average, and what's
+ * due next. Below it, everything they handed in and every grade and piece of
+ * feedback they got, newest first.
+ */
+export default function ProgressPage() {
+  const { data, isLoading } = useQuery<MyProgress>({
+    queryKey: ["/api/me/progress"],
+  });
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <NavigationHeader />
+      <div className="flex">
+        <Sidebar />
+        <main className="flex-1 min-w-0 p-4 md:p-8">
+          <div className="mb-6">
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">My Progress</h1>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              How each of your courses is going. Class averages only show once {MIN_CLASS_AVERAGE_STUDENTS} or more
+              students have been graded, so they never give away anyone's score.
+            </p>
+          </div>
+
+          {isLoading || !data ? (
+            <div className="p-8 text-center"><div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 mx-auto"></div></div>
+          ) : data.courses.length === 0 ? (
+            <div className="rounded-lg border border-dashed border-gray-300 p-12 text-center dark:border-gray-700">
+              <GraduationCap className="mx-auto h-10 w-10 text-gray-400" />
+              <p className="mt-3 text-sm text-gray-500 dark:text-gray-400">Enroll in a course to see your progress here.</p>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {data.courses.map((progress) => (
+                <CourseProgressCard key={progress.course.id} progress={progress} />
+              ))}
+              <Timeline events={data.timeline} />
+            </div>
+          )}
+        </main>
+      </div>
+    </div>
+  );
+}
+
+function CourseProgressCard({ progress }: { progress: CourseProgress }) {
+  const { course, completion, grades, upcoming } = progress;
+  return (
+    <Card>
+      <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-4 space-y-0">
+        <CardTitle>
+          <Link href={`/courses/${course.id}/content`} className="hover:underline">{course.title}</Link>
+        </CardTitle>
+        <div className="flex gap-6 text-right">
+          <div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">Progress</p>
+            <p className="text-lg font-semibold text-gray-900 dark:text-white">{progress.progress}%</p>
+          </div>
+          <div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">Current grade</p>
+            <p className="text-lg font-semibold text-gray-900 dark:text-white">
+              {progress.grade === null ? "—" : `${progress.gradeLetter} (${formatPercent(progress.grade)})`}
+            </p>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+        <section>
+          <h3 className="mb-2 text-sm font-medium text-gray-900 dark:text-white">Completion over time</h3>
+          {completion.length < 2 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Your progress will be charted here from tomorrow on.</p>
+          ) : (
+            <ChartContainer config={completionConfig} className="aspect-auto h-[200px] w-full">
+              <LineChart data={completion}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="date" tickLine={false} axisLine={false} minTickGap={24} tickFormatter={(date: string) => date.slice(5)} />
+                <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} unit="%" />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Line dataKey="percent" type="stepAfter" stroke="var(--color-percent)" strokeWidth={2} dot={false} />
+              </LineChart>
+            </ChartContainer>
+          )}
+        </section>
+
+        <section>
+          <h3 className="mb-2 text-sm font-medium text-gray-900 dark:text-white">Grades and class average</h3>
+          {grades.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Nothing has been graded yet.</p>
+          ) : (
+            <ChartContainer config={gradesConfig} className="aspect-auto h-[200px] w-full">
+              <BarChart data={grades}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="title" tickLine={false} axisLine={false} interval={0} fontSize={10} tickFormatter={(title: string) => (title.length > 14 ? `${title.slice(0, 13)}…` : title)} />
+                <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} unit="%" />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="percent" fill="var(--color-percent)" radius={4} />
+                <Bar dataKey="classAverage" fill="var(--color-classAverage)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          )}
+        </section>
+
+        <section>
+          <h3 className="mb-2 text-sm font-medium text-gray-900 dark:text-white">Upcoming deadlines</h3>
+          {upcoming.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Nothing is due.</p>
+          ) : (
+            <ul className="space-y-2">
+              {upcoming.map((deadline) => (
+                <li key={deadline.assignmentId} className="flex items-start justify-between gap-2 text-sm">
+                  <div className="min-w-0">
+                    <Link href={`/courses/${course.id}/assignments/${deadline.assignmentId}/submit`} className="font-medium hover:underline">
+                      {deadline.title}
+                    </Link>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      Due {formatDeadline(deadline.dueDate)}{deadline.extended && " (extended)"}
+                    </p>
+                  </div>
+                  {deadline.handedIn
+                    ? <Badge variant="secondary">Handed in</Badge>
+                    : <Badge variant="outline">To do</Badge>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </CardContent>
+    </Card>
+  );
+}
+
+function Timeline({ events }: { events: ProgressTimelineEvent[] }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Timeline</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {events.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Work you hand in and the grades you get will show up here.</p>
+        ) : (
+          <ol className="space-y-4 border-l-2 border-gray-200 pl-4 dark:border-gray-700">
+            {events.map((event) => (
+              <li key={`${event.kind}-${event.assignment.id}-${event.kind === "submitted" ? event.version : event.at}`} className="relative">
+                <span className="absolute -left-[27px] top-0.5 flex h-5 w-5 items-center justify-center rounded-full bg-white dark:bg-gray-800">
+                  {event.kind === "submitted"
+                    ? <Send className="h-4 w-4 text-primary-600 dark:text-primary-400" />
+                    : <CheckCircle2 className="h-4 w-4 text-emerald-600 dark:text-emerald-400" />}
+                </span>
+                <p className="text-sm text-gray-900 dark:text-white">
+                  {event.kind === "submitted"
+                    ? <>Handed in {event.assignment.title}{event.version > 1 && ` (version ${event.version})`}</>
+                    : <>{event.assignment.title} graded: {event.grade}/{event.assignment.maxPoints}</>}
+                  {event.kind === "submitted" && event.daysLate > 0 && (
+                    <span className="ml-2 text-xs text-amber-600 dark:text-amber-400">
+                      {event.daysLate} {event.daysLate === 1 ? "day" : "days"} late
+                    </span>
+                  )}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {event.course.title} · {formatDeadline(event.at)}
+                </p>
+                {event.kind === "graded" && event.feedback && (
+                  <p className="mt-1 whitespace-pre-wrap rounded bg-gray-50 p-2 text-sm text-gray-700 dark:bg-gray-900/50 dark:text-gray-300">
+                    {event.feedback}
+                  </p>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,19 +1,23 @@
 import { useQuery } from "@tanstack/react-query";
-import { BookOpen, ClipboardList, Trophy, Clock } from "lucide-react";
+import { BookOpen, CheckCircle, ClipboardList, Trophy, Clock } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { NavigationHeader } from "@/components/navigation-header";
+import { StatCard } from "@/components/stat-card";
 import { Sidebar } from "@/components/sidebar";
 import { useAuth } from "@/hooks/use-auth";
+import { formatPercent } from "@/lib/grades";
+import type { StudentDashboardStats } from "@shared/analytics";
+import type { StudentCourse } from "@shared/schema";
 
 export default function StudentDashboard() {
   const { user } = useAuth();
 
-  const { data: stats } = useQuery({
+  const { data: stats } = useQuery<StudentDashboardStats>({
     queryKey: ["/api/dashboard/stats"],
   });
 
-  const { data: enrolledCourses = [] } = useQuery({
+  const { data: enrolledCourses = [] } = useQuery<StudentCourse[]>({
     queryKey: ["/api/courses"],
   });
 
@@ -21,7 +25,7 @@ export default function StudentDashboard() {
     queryKey: ["/api/assignments"],
   });
 
-  const recentCourses = courses.slice(0, 3);
+  const recentCourses = enrolledCourses.slice(0, 3);
   const upcomingAssignments = assignments.slice(0, 3);
 
   return (
@@ -48,86 +52,35 @@ export default function StudentDashboard() {
             </div>
 
             {/* Stats Overview */}
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
-              <Card>
-                <CardContent className="p-5">
-                  <div className="flex items-center">
-                    <div className="flex-shrink-0">
-                      <div className="w-8 h-8 bg-primary-100 dark:bg-primary-900/20 rounded-md flex items-center justify-center">
-                        <BookOpen className="h-4 w-4 text-primary-600 dark:text-primary-400" />
-                      </div>
-                    </div>
-                    <div className="ml-5 w-0 flex-1">
-                      <dt className="text-sm font-medium text-gray-500 dark:text-gray-400 truncate">
-                        Enrolled Courses
-                      </dt>
-                      <dd className="text-lg font-semibold text-gray-900 dark:text-white">
-                        {stats?.enrolledCourses || 0}
-                      </dd>
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
-
-              <Card>
-                <CardContent className="p-5">
-                  <div className="flex items-center">
-                    <div className="flex-shrink-0">
-                      <div className="w-8 h-8 bg-emerald-100 dark:bg-emerald-900/20 rounded-md flex items-center justify-center">
-                        <Trophy className="h-4 w-4 text-emerald-600 dark:text-emerald-400" />
-                      </div>
-                    </div>
-                    <div className="ml-5 w-0 flex-1">
-                      <dt className="text-sm font-medium text-gray-500 dark:text-gray-400 truncate">
-                        Completed Assignments
-                      </dt>
-                      <dd className="text-lg font-semibold text-gray-900 dark:text-white">
-                        {stats?.completedAssignments || 0}
-                      </dd>
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
-
-              <Card>
-                <CardContent className="p-5">
-                  <div className="flex items-center">
-                    <div className="flex-shrink-0">
-                      <div className="w-8 h-8 bg-yellow-100 dark:bg-yellow-900/20 rounded-md flex items-center justify-center">
-                        <Clock className="h-4 w-4 text-yellow-600 dark:text-yellow-400" />
-                      </div>
-                    </div>
-                    <div className="ml-5 w-0 flex-1">
-                      <dt className="text-sm font-medium text-gray-500 dark:text-gray-400 truncate">
-                        Pending Assignments
-                      </dt>
-                      <dd className="text-lg font-semibold text-gray-900 dark:text-white">
-                        {stats?.pendingAssignments || 0}
-                      </dd>
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
-
-              <Card>
-                <CardContent className="p-5">
-                  <div className="flex items-center">
-                    <div className="flex-shrink-0">
-                      <div className="w-8 h-8 bg-purple-100 dark:bg-purple-900/20 rounded-md flex items-center justify-center">
-                        <Trophy className="h-4 w-4 text-purple-600 dark:text-purple-400" />
-                      </div>
-                    </div>
-                    <div className="ml-5 w-0 flex-1">
-                      <dt className="text-sm font-medium text-gray-500 dark:text-gray-400 truncate">
-                        Average Grade
-                      </dt>
-                      <dd className="text-lg font-semibold text-gray-900 dark:text-white">
-                        {stats?.averageGrade || 0}%
-                      </dd>
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5 gap-6 mb-8">
+              <StatCard icon={BookOpen} tone="primary" label="Enrolled Courses" value={`${stats?.enrolledCourses ?? 0}`} />
+              <StatCard
+                icon={CheckCircle}
+                tone="emerald"
+                label="Completion Rate"
+                value={formatPercent(stats?.completionRate ?? null)}
+                trend={stats && { current: stats.completionRate, previous: stats.lastWeek.completionRate, unit: "pts" }}
+              />
+              <StatCard
+                icon={Clock}
+                tone="sky"
+                label="On-Time Submissions"
+                value={formatPercent(stats?.onTimeRate ?? null)}
+                trend={stats && { current: stats.onTimeRate, previous: stats.lastWeek.onTimeRate, unit: "pts" }}
+              />
+              <StatCard
+                icon={ClipboardList}
+                tone="yellow"
+                label="Awaiting Grading"
+                value={`${stats?.pendingReviews ?? 0}`}
+              />
+              <StatCard
+                icon={Trophy}
+                tone="purple"
+                label="Average Grade"
+                value={formatPercent(stats?.averageGrade ?? null)}
+                trend={stats && { current: stats.averageGrade, previous: stats.lastWeek.averageGrade, unit: "pts" }}
+              />
             </div>
 
             {/* Main Content Grid */}
@@ -156,16 +109,23 @@ export default function StudentDashboard() {
                           <div className="bg-gray-200 dark:bg-gray-700 rounded-full h-2">
                             <div 
                               className="bg-primary-600 h-2 rounded-full" 
-                              style={{ width: '75%' }}
+                              style={{ width: `${course.progress}%` }}
                             ></div>
                           </div>
-                          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">75% complete</p>
+                          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{course.progress}% complete</p>
                         </div>
                       </div>
                       <div className="flex-shrink-0">
-                        <Badge variant="secondary">
-                          Active
-                        </Badge>
+                        {course.progress >= 100 ? (
+                          <Badge className="bg-emerald-100 text-emerald-800 dark:bg-emerald-900/20 dark:text-emerald-400">
+                            <CheckCircle className="mr-1 h-3 w-3" />
+                            Completed
+                          </Badge>
+                        ) : (
+                          <Badge variant="secondary">
+                            {course.progress > 0 ? "In progress" : "Not started"}
+                          </Badge>
+                        )}
                       </div>
                     </div>
                   ))}
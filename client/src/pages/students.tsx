@@ -0,0 +1,332 @@
+import React, { useMemo, useState } from 'react';
+import { Link } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { AlertTriangle, ArrowDown, ArrowUp, Search, Users } from 'lucide-react';
+import { apiErrorMessage } from '@/lib/queryClient';
+import { formatPercent } from '@/lib/grades';
+import { ROSTER_URL, studentDetailUrl, type RosterEntry, type StudentDetail, type StudentSubmissionRecord } from '@/lib/roster';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { NavigationHeader } from '@/components/navigation-header';
+import { Sidebar } from '@/components/sidebar';
+
+const ALL_COURSES = 'all';
+
+type SortKey = 'name' | 'course' | 'progress' | 'lastActivity' | 'grade' | 'missing';
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'name', label: 'Student' },
+  { key: 'course', label: 'Course' },
+  { key: 'progress', label: 'Progress' },
+  { key: 'lastActivity', label: 'Last activity' },
+  { key: 'grade', label: 'Current grade' },
+  { key: 'missing', label: 'Missing' },
+];
+
+// Compares two rows by one column; students without a value sort last either way
+function compareBy(key: SortKey, a: RosterEntry, b: RosterEntry): number {
+  switch (key) {
+    case 'name': return a.student.name.localeCompare(b.student.name);
+    case 'course': return a.course.title.localeCompare(b.course.title);
+    case 'progress': return a.progress - b.progress;
+    case 'lastActivity': return (a.lastActivity ?? '').localeCompare(b.lastActivity ?? '');
+    case 'grade': return (a.grade ?? -1) - (b.grade ?? -1);
+    case 'missing': return a.missing - b.missing;
+  }
+}
+
+const timeAgo = (time: string | null) => (time ? formatDistanceToNow(new Date(time), { addSuffix: true }) : '—');
+
+/**
+ * Every student in the teacher's courses, a row per course they take, with
+ * how they're doing there. Rows can be searched, filtered and sorted; a
+ * student opens in a drawer with their whole submission history.
+ */
+const StudentsPage: React.FC = () => {
+  const [search, setSearch] = useState('');
+  const [courseId, setCourseId] = useState(ALL_COURSES);
+  const [missingOnly, setMissingOnly] = useState(false);
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: 'name', descending: false });
+  const [studentId, setStudentId] = useState<number>();
+
+  const { data: roster = [], isLoading, error } = useQuery<RosterEntry[], Error>({
+    queryKey: [ROSTER_URL],
+  });
+
+  const courses = useMemo(() => {
+    const titles = new Map(roster.map((entry) => [entry.course.id, entry.course.title]));
+    return Array.from(titles, ([id, title]) => ({ id, title })).sort((a, b) => a.title.localeCompare(b.title));
+  }, [roster]);
+
+  const rows = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const direction = sort.descending ? -1 : 1;
+    return roster
+      .filter((entry) => !query
+        || entry.student.name.toLowerCase().includes(query)
+        || entry.student.username.toLowerCase().includes(query))
+      .filter((entry) => courseId === ALL_COURSES || entry.course.id.toString() === courseId)
+      .filter((entry) => !missingOnly || entry.missing > 0)
+      .sort((a, b) => direction * compareBy(sort.key, a, b) || a.student.name.localeCompare(b.student.name));
+  }, [roster, search, courseId, missingOnly, sort]);
+
+  const studentCount = new Set(rows.map((entry) => entry.student.id)).size;
+
+  const sortBy = (key: SortKey) =>
+    setSort(sort.key === key ? { key, descending: !sort.descending } : { key, descending: false });
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <NavigationHeader />
+      <div className="flex">
+        <Sidebar />
+        <main className="flex-1 min-w-0 p-4 md:p-8">
+          <div className="mb-6 flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Students</h1>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Everyone enrolled in your courses. Click a student for their submission history.
+              </p>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <div className="relative">
+                <Search className="absolute left-2 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+                <Input
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search by name or username"
+                  aria-label="Search students"
+                  className="w-[240px] pl-8"
+                />
+              </div>
+              <Select value={courseId} onValueChange={setCourseId}>
+                <SelectTrigger className="w-[240px]" aria-label="Course">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_COURSES}>All courses</SelectItem>
+                  {courses.map((course) => (
+                    <SelectItem key={course.id} value={course.id.toString()}>{course.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+                <Checkbox checked={missingOnly} onCheckedChange={(checked) => setMissingOnly(checked === true)} />
+                Missing work only
+              </label>
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="p-8 text-center"><div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 mx-auto"></div></div>
+          ) : error ? (
+            <div className="p-8 text-center">
+              <AlertTriangle className="mx-auto h-12 w-12 text-red-500" />
+              <p className="mt-4">{apiErrorMessage(error, 'Failed to load students.')}</p>
+            </div>
+          ) : roster.length === 0 ? (
+            <EmptyState message="No students are enrolled in your courses yet." />
+          ) : rows.length === 0 ? (
+            <EmptyState message="No students match." />
+          ) : (
+            <div className="overflow-x-auto rounded-lg border border-gray-200 bg-white dark:border-gray-700 dark:bg-gray-800">
+              <table className="min-w-full border-collapse text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-900/50">
+                  <tr>
+                    {COLUMNS.map(({ key, label }) => (
+                      <th
+                        key={key}
+                        className="border-b border-gray-200 px-3 py-2 text-left font-medium dark:border-gray-700"
+                        aria-sort={sort.key === key ? (sort.descending ? 'descending' : 'ascending') : 'none'}
+                      >
+                        <button type="button" className="inline-flex items-center gap-1 hover:underline" onClick={() => sortBy(key)}>
+                          {label}
+                          {sort.key === key && (sort.descending ? <ArrowDown className="h-3 w-3" /> : <ArrowUp className="h-3 w-3" />)}
+                        </button>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((entry) => (
+                    <tr
+                      key={`${entry.student.id}-${entry.course.id}`}
+                      className="cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-900/30"
+                      onClick={() => setStudentId(entry.student.id)}
+                    >
+                      <td className="border-b border-gray-200 px-3 py-2 dark:border-gray-700">
+                        <p className="font-medium">{entry.student.name}</p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">{entry.student.username}</p>
+                      </td>
+                      <td className="border-b border-gray-200 px-3 py-2 dark:border-gray-700">{entry.course.title}</td>
+                      <td className="border-b border-gray-200 px-3 py-2 dark:border-gray-700">
+                        <div className="flex items-center gap-2">
+                          <Progress value={entry.progress} className="h-2 w-24" />
+                          <span className="text-xs text-gray-500 dark:text-gray-400">{entry.progress}%</span>
+                        </div>
+                      </td>
+                      <td className="border-b border-gray-200 px-3 py-2 text-gray-600 dark:border-gray-700 dark:text-gray-300">
+                        {timeAgo(entry.lastActivity)}
+                      </td>
+                      <td className="border-b border-gray-200 px-3 py-2 dark:border-gray-700">
+                        {entry.grade === null ? '—' : `${entry.gradeLetter} (${formatPercent(entry.grade)})`}
+                      </td>
+                      <td className="border-b border-gray-200 px-3 py-2 dark:border-gray-700">
+                        {entry.missing > 0
+                          ? <Badge variant="destructive">{entry.missing}</Badge>
+                          : <span className="text-gray-500 dark:text-gray-400">0</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="border-t border-gray-200 px-3 py-2 text-xs text-gray-500 dark:border-gray-700 dark:text-gray-400">
+                {studentCount} {studentCount === 1 ? 'student' : 'students'}, {rows.length} {rows.length === 1 ? 'enrollment' : 'enrollments'}
+              </p>
+            </div>
+          )}
+
+          <StudentDrawer studentId={studentId} onClose={() => setStudentId(undefined)} />
+        </main>
+      </div>
+    </div>
+  );
+};
+
+function EmptyState({ message }: { message: string }) {
+  return (
+    <div className="rounded-lg border border-dashed border-gray-300 p-12 text-center dark:border-gray-700">
+      <Users className="mx-auto h-10 w-10 text-gray-400" />
+      <p className="mt-3 text-sm text-gray-500 dark:text-gray-400">{message}</p>
+    </div>
+  );
+}
+
+// A student's standing in each course and everything they handed in, newest first
+function StudentDrawer({ studentId, onClose }: { studentId?: number; onClose: () => void }) {
+  const { data: detail, isLoading, error } = useQuery<StudentDetail, Error>({
+    queryKey: [studentDetailUrl(studentId ?? '')],
+    enabled: studentId !== undefined,
+  });
+
+  return (
+    <Sheet open={studentId !== undefined} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full overflow-y-auto sm:max-w-xl">
+        {isLoading || !detail ? (
+          <div className="p-8 text-center">
+            {error
+              ? <p className="text-sm">{apiErrorMessage(error, 'Failed to load the student.')}</p>
+              : <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 mx-auto"></div>}
+          </div>
+        ) : (
+          <>
+            <SheetHeader>
+              <SheetTitle>{detail.student.name}</SheetTitle>
+              <SheetDescription>{detail.student.username}</SheetDescription>
+            </SheetHeader>
+
+            <div className="mt-6 space-y-3">
+              {detail.courses.map((standing) => (
+                <div key={standing.course.id} className="rounded-lg border border-gray-200 p-3 dark:border-gray-700">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="font-medium text-gray-900 dark:text-white">{standing.course.title}</p>
+                    <span className="text-sm">
+                      {standing.grade === null ? 'No grade yet' : `${standing.gradeLetter} (${formatPercent(standing.grade)})`}
+                    </span>
+                  </div>
+                  <div className="mt-2 flex items-center gap-2">
+                    <Progress value={standing.progress} className="h-2 flex-1" />
+                    <span className="text-xs text-gray-500 dark:text-gray-400">{standing.progress}% complete</span>
+                  </div>
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    Last active {timeAgo(standing.lastActivity)}
+                    {standing.enrolledAt && ` · Enrolled ${new Date(standing.enrolledAt).toLocaleDateString()}`}
+                  </p>
+                  {standing.missingAssignments.length > 0 && (
+                    <p className="mt-2 text-xs text-red-600 dark:text-red-400">
+                      Missing: {standing.missingAssignments.map((assignment) => assignment.title).join(', ')}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <h3 className="mt-6 mb-2 text-sm font-semibold text-gray-900 dark:text-white">Submission history</h3>
+            {detail.submissions.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Nothing handed in yet.</p>
+            ) : (
+              <ol className="space-y-3">
+                {detail.submissions.map((submission) => (
+                  <SubmissionItem
+                    key={submission.id}
+                    submission={submission}
+                    courseTitle={detail.courses.find((c) => c.course.id === submission.assignment.courseId)?.course.title}
+                  />
+                ))}
+              </ol>
+            )}
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+function SubmissionItem({ submission, courseTitle }: { submission: StudentSubmissionRecord; courseTitle?: string }) {
+  const { assignment } = submission;
+  return (
+    <li className="rounded-lg border border-gray-200 p-3 text-sm dark:border-gray-700">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <Link href={`/submissions/${submission.id}`} className="font-medium hover:underline">{assignment.title}</Link>
+          <p className="text-xs text-gray-500 dark:text-gray-400">{courseTitle}</p>
+        </div>
+        {submission.status === 'graded' && submission.grade !== null ? (
+          <Badge variant="secondary">{submission.grade}/{assignment.maxPoints}</Badge>
+        ) : (
+          <Badge variant="outline">{submission.status === 'resubmitted' ? 'Resubmitted' : 'Awaiting grade'}</Badge>
+        )}
+      </div>
+      <ul className="mt-2 space-y-0.5 text-xs text-gray-600 dark:text-gray-300">
+        {submission.versions.map((version) => (
+          <li key={version.version}>
+            Version {version.version} handed in {new Date(version.submittedAt).toLocaleString()}
+            {version.files > 0 && ` · ${version.files} ${version.files === 1 ? 'file' : 'files'}`}
+          </li>
+        ))}
+        {submission.versions.length === 0 && <li>Graded without a hand-in</li>}
+        {submission.daysLate > 0 && (
+          <li className="text-amber-600 dark:text-amber-400">
+            {submission.daysLate} {submission.daysLate === 1 ? 'day' : 'days'} late
+            {submission.latePenalty ? `, ${submission.latePenalty} points off` : ''}
+          </li>
+        )}
+        {submission.gradedAt && <li>Graded {new Date(submission.gradedAt).toLocaleString()}</li>}
+      </ul>
+      {submission.feedback && (
+        <p className="mt-2 whitespace-pre-wrap rounded bg-gray-50 p-2 text-xs text-gray-700 dark:bg-gray-900/50 dark:text-gray-300">
+          {submission.feedback}
+        </p>
+      )}
+    </li>
+  );
+}
+
+export default StudentsPage;
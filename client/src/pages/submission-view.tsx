@@ -0,0 +1,119 @@
+import React from 'react';
+import { useRoute, Link } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import { AlertTriangle, ArrowLeft } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { NavigationHeader } from '@/components/navigation-header';
+import { Sidebar } from '@/components/sidebar';
+import { SubmissionFiles } from '@/components/submission-files';
+import { SubmissionHistory } from '@/components/submission-history';
+import { RubricGrid } from '@/components/rubric-grid';
+import { useAuth } from '@/hooks/use-auth';
+import type { SubmissionDetails } from '@/lib/queryClient';
+import type { Rubric } from '@shared/schema';
+
+/**
+ * A single submission as it stands now, with its version history below.
+ */
+const SubmissionViewPage: React.FC = () => {
+  const [, params] = useRoute<{ submissionId: string }>("/submissions/:submissionId");
+  const submissionId = params?.submissionId;
+  const { user } = useAuth();
+
+  const { data: submission, isLoading, error } = useQuery<SubmissionDetails, Error>({
+    queryKey: [`/api/submissions/${submissionId}`],
+    enabled: !!submissionId,
+  });
+  const { data: rubric } = useQuery<Rubric>({
+    queryKey: [`/api/rubrics/${submission?.assignment.rubricId}`],
+    enabled: !!submission?.assignment.rubricId,
+  });
+
+  const backHref = !submission
+    ? '/assignments'
+    : user?.role === 'teacher'
+      ? `/assignments/${submission.assignmentId}/grade`
+      : `/courses/${submission.assignment.courseId}/assignments/${submission.assignmentId}/submit`;
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <NavigationHeader />
+      <div className="flex">
+        <Sidebar />
+        <main className="flex-1 p-4 md:p-8 overflow-y-auto">
+          <Link href={backHref} className="inline-flex items-center text-sm text-primary hover:underline mb-4">
+            <ArrowLeft className="mr-1 h-4 w-4" /> Back
+          </Link>
+
+          {isLoading ? (
+            <div className="text-center">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 mx-auto"></div>
+              <p className="mt-4">Loading submission...</p>
+            </div>
+          ) : error || !submission ? (
+            <div className="text-center">
+              <AlertTriangle className="mx-auto h-12 w-12 text-red-500" />
+              <h1 className="mt-4 text-xl font-semibold text-destructive">Error Loading Submission</h1>
+              <p>{error?.message}</p>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <Card className="shadow-lg">
+                <CardHeader>
+                  <CardTitle className="text-2xl font-bold text-primary">{submission.assignment.title}</CardTitle>
+                  <CardDescription>
+                    {submission.student ? `${submission.student.name} · ` : ''}
+                    Submitted on {new Date(submission.submittedAt || '').toLocaleString()}
+                  </CardDescription>
+                  <div>
+                    <Badge className={submission.status === 'graded' ? 'bg-green-500' : 'bg-blue-500'}>
+                      Status: {submission.status}
+                      {submission.grade !== null ? ` (${submission.grade}/${submission.assignment.maxPoints})` : ''}
+                    </Badge>
+                    {submission.daysLate > 0 && (
+                      <Badge variant="destructive" className="ml-2">
+                        {submission.daysLate} {submission.daysLate === 1 ? 'day' : 'days'} late
+                        {submission.latePenalty ? `, ${submission.latePenalty} points deducted` : ''}
+                      </Badge>
+                    )}
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {submission.content && (
+                    <div className="p-4 border rounded-md bg-gray-50 dark:bg-gray-700 whitespace-pre-wrap">
+                      {submission.content}
+                    </div>
+                  )}
+                  <SubmissionFiles files={submission.files} expandPreviews={user?.role === 'teacher'} />
+                  {rubric && submission.rubricScores && (
+                    <RubricGrid criteria={rubric.criteria} scores={submission.rubricScores} />
+                  )}
+                  {submission.feedback && (
+                    <div>
+                      <h3 className="text-lg font-semibold mb-1">Feedback:</h3>
+                      <div className="p-4 border rounded-md bg-yellow-50 dark:bg-yellow-700/20 whitespace-pre-wrap">
+                        {submission.feedback}
+                      </div>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Version History</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <SubmissionHistory submissionId={submission.id} gradedVersionId={submission.gradedVersionId} />
+                </CardContent>
+              </Card>
+            </div>
+          )}
+        </main>
+      </div>
+    </div>
+  );
+};
+
+export default SubmissionViewPage;
@@ -1,10 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { useRoute, Link } from 'wouter';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
--import { apiRequest, Assignment, Submission } from '@/lib/queryClient';   
-+import { apiRequest, Assignment, Submission, AssignmentWithSubmissionStatus } from '@/lib/queryClient';
-+import { Label } from '@/components/ui/label';
-import { AlertTriangle, ArrowLeft, Send, CheckCircle, Edit3 } from 'lucide-react';
+import { apiRequest, Assignment, AssignmentWithDeadline, Submission, AssignmentWithSubmissionStatus } from '@/lib/queryClient';
+import { Label } from '@/components/ui/label';
+import { AlertTriangle, ArrowLeft, Send, CheckCircle, Edit3, History } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Textarea } from '@/components/ui/textarea';
 import { Button } from '@/components/ui/button';
@@ -13,9 +12,16 @@ import { NavigationHeader } from '@/components/navigation-header';
 import { Sidebar } from '@/components/sidebar';
 import { useAuth } from '@/hooks/use-auth';
 import { useToast } from '@/hooks/use-toast';
+import { FileDropzone } from '@/components/file-dropzone';
+import { SubmissionFiles } from '@/components/submission-files';
+import { RubricGrid } from '@/components/rubric-grid';
+import { formatFileSize, type Upload } from '@/lib/uploads';
+import { describeLatePolicy, formatDeadline } from '@/lib/deadlines';
+import type { Rubric } from '@shared/schema';
 // Define a more detailed Submission type if it includes assignment, student, course
 type SubmissionDetails = Submission & {
   assignment?: Assignment; 
+  files: Upload[];
   // student?: User; // User type needed if we want to display student details
   course?: { id: number; title: string }; // Simplified course type
 };
@@ -31,6 +37,8 @@ const SubmitAssignmentPage: React.FC = () => {
   const queryClient = useQueryClient();
 
   const [submissionContent, setSubmissionContent] = useState('');
+  const [newFiles, setNewFiles] = useState<File[]>([]);
+  const [keptFileIds, setKeptFileIds] = useState<number[]>([]); // Previously submitted files to hand in again
   const [isEditing, setIsEditing] = useState(false);
 
   // 1. Fetch Assignment Details (even if we get it from submission, good for standalone view)
@@ -38,7 +46,7 @@ const SubmitAssignmentPage: React.FC = () => {
     data: assignment, 
     isLoading: isLoadingAssignment, 
     error: assignmentError 
-  } = useQuery<Assignment, Error>({
+  } = useQuery<AssignmentWithDeadline, Error>({
     queryKey: ['assignmentDetails', assignmentId],
     queryFn: async () => {
       if (!assignmentId) throw new Error("Assignment ID is missing");
@@ -115,9 +123,16 @@ const SubmitAssignmentPage: React.FC = () => {
   });
 
 
+  const { data: rubric } = useQuery<Rubric>({
+    queryKey: [`/api/rubrics/${assignment?.rubricId}`],
+    enabled: !!assignment?.rubricId,
+  });
+
   useEffect(() => {
+    setNewFiles([]);
     if (submission) {
       setSubmissionContent(submission.content || '');
+      setKeptFileIds(submission.files.map((file) => file.id));
       setIsEditing(false); // Default to view mode if submission exists
     } else {
       setIsEditing(true); // Default to edit mode if no submission
@@ -127,13 +142,21 @@ const SubmitAssignmentPage: React.FC = () => {
   const submitMutation = useMutation({
     mutationFn: async (newContent: string) => {
       if (!assignmentId) throw new Error("Assignment ID is missing for submission");
-      const payload: { content: string; submissionId?: number } = { content: newContent };
+      // Multipart so files can go with the text; apiRequest only sends JSON
+      const body = new FormData();
+      body.append('content', newContent);
       if (submission && submission.id) {
-        payload.submissionId = submission.id; // Pass submissionId if updating
+        body.append('submissionId', submission.id.toString()); // Pass submissionId if updating
       }
-      const response = await apiRequest('POST', `/api/assignments/${assignmentId}/submit`, payload);
+      keptFileIds.forEach((id) => body.append('keepFileIds', id.toString()));
+      newFiles.forEach((file) => body.append('files', file));
+      const response = await fetch(`/api/assignments/${assignmentId}/submit`, {
+        method: 'POST',
+        body,
+        credentials: 'include',
+      });
       if (!response.ok) {
-        const errorData = await response.json();
+        const errorData = await response.json().catch(() => ({}));
         throw new Error(errorData.message || "Failed to submit assignment");
       }
       return response.json();
@@ -152,8 +175,8 @@ const SubmitAssignmentPage: React.FC = () => {
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!submissionContent.trim()) {
-      toast({ title: "Cannot Submit", description: "Submission content cannot be empty.", variant: "destructive" });
+    if (!submissionContent.trim() && newFiles.length === 0 && keptFileIds.length === 0) {
+      toast({ title: "Cannot Submit", description: "Add some text or at least one file.", variant: "destructive" });
       return;
     }
     submitMutation.mutate(submissionContent);
@@ -188,8 +211,19 @@ const SubmitAssignmentPage: React.FC = () => {
     );
   }
   
-  // Due date logic (simplified)
-  const isPastDue = assignment.dueDate && new Date(assignment.dueDate) < new Date();
+  if (assignment.type === 'quiz') {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+        <NavigationHeader />
+        <div className="flex"> <Sidebar /> <main className="flex-1 p-8 text-center"> <AlertTriangle className="mx-auto h-12 w-12 text-yellow-500" /> <h1 className="mt-4 text-xl font-semibold">This assignment is a quiz</h1> <p className="mt-2"><Link href={`/courses/${courseId}/content`} className="text-primary hover:underline">Take it from the course page.</Link></p> </main> </div>
+      </div>
+    );
+  }
+
+  // The server works out the status from the student's deadline, extension included
+  const isClosed = assignment.deadlineStatus === 'closed';
+  const isLate = assignment.deadlineStatus === 'late';
+  const keptFiles = submission?.files.filter((file) => keptFileIds.includes(file.id)) ?? [];
 
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
@@ -208,11 +242,19 @@ const SubmitAssignmentPage: React.FC = () => {
                 {assignment.description || "No description provided."}
               </CardDescription>
               {assignment.dueDate && (
-                <p className={`text-sm mt-2 ${isPastDue ? 'text-red-500' : 'text-gray-500'}`}>
-                  Due: {new Date(assignment.dueDate).toLocaleDateString()} {new Date(assignment.dueDate).toLocaleTimeString()}
-                  {isPastDue && <Badge variant="destructive" className="ml-2">Past Due</Badge>}
+                <p className={`text-sm mt-2 ${isLate || isClosed ? 'text-red-500' : 'text-gray-500'}`}>
+                  Due: {formatDeadline(assignment.dueDate)}
+                  {assignment.extended && <Badge variant="outline" className="ml-2">Extended</Badge>}
+                  {isLate && <Badge variant="destructive" className="ml-2">Past Due</Badge>}
+                  {isClosed && <Badge variant="secondary" className="ml-2">Closed</Badge>}
                 </p>
               )}
+              {assignment.lockDate && (
+                <p className="text-sm text-gray-500">Closes: {formatDeadline(assignment.lockDate)}</p>
+              )}
+              {assignment.dueDate && (
+                <p className="text-sm text-gray-500">{describeLatePolicy(assignment)}</p>
+              )}
             </CardHeader>
             <CardContent>
               {submissionError && !isLoadingSubmission && ( // Show submission-specific error if it occurs after initial load
@@ -229,13 +271,30 @@ const SubmitAssignmentPage: React.FC = () => {
                     <Badge className={submission.status === 'graded' ? 'bg-green-500' : 'bg-blue-500'}>
                       Status: {submission.status} {submission.status === 'graded' && submission.grade ? `(${submission.grade}%)` : ''}
                     </Badge>
+                    {submission.daysLate > 0 && (
+                      <Badge variant="destructive" className="ml-2">
+                        {submission.daysLate} {submission.daysLate === 1 ? 'day' : 'days'} late
+                      </Badge>
+                    )}
+                    {!!submission.latePenalty && (
+                      <p className="mt-1 text-sm text-red-500">{submission.latePenalty} points were deducted for lateness.</p>
+                    )}
                     <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
                       Submitted on: {new Date(submission.submittedAt || '').toLocaleString()}
                     </p>
                   </div>
-                  <div className="p-4 border rounded-md bg-gray-50 dark:bg-gray-700 whitespace-pre-wrap">
-                    {submission.content}
-                  </div>
+                  {submission.content && (
+                    <div className="p-4 border rounded-md bg-gray-50 dark:bg-gray-700 whitespace-pre-wrap">
+                      {submission.content}
+                    </div>
+                  )}
+                  <SubmissionFiles files={submission.files} />
+                  {rubric && submission.status === 'graded' && submission.rubricScores && (
+                    <div>
+                      <h3 className="text-lg font-semibold mb-1">Rubric:</h3>
+                      <RubricGrid criteria={rubric.criteria} scores={submission.rubricScores} />
+                    </div>
+                  )}
                   {submission.feedback && (
                     <div>
                       <h3 className="text-lg font-semibold mb-1">Feedback:</h3>
@@ -244,15 +303,30 @@ const SubmitAssignmentPage: React.FC = () => {
                       </div>
                     </div>
                   )}
-                  {!isPastDue && ( // Allow editing only if not past due (basic logic)
-                    <Button onClick={() => setIsEditing(true)} variant="outline">
-                      <Edit3 className="mr-2 h-4 w-4" /> Edit Submission
+                  <div className="flex flex-wrap gap-2">
+                    {!isClosed && ( // The server refuses work once the assignment has closed
+                      <Button onClick={() => setIsEditing(true)} variant="outline">
+                        <Edit3 className="mr-2 h-4 w-4" /> Edit Submission
+                      </Button>
+                    )}
+                    <Button variant="ghost" asChild>
+                      <Link href={`/submissions/${submission.id}`}>
+                        <History className="mr-2 h-4 w-4" /> Version History
+                      </Link>
                     </Button>
-                  )}
+                  </div>
                 </div>
               ) : (
                 // Submission form
                 <form onSubmit={handleSubmit} className="space-y-4">
+                  {rubric && (
+                    <div>
+                      <Label className="text-lg font-semibold">How this will be graded:</Label>
+                      <div className="mt-2">
+                        <RubricGrid criteria={rubric.criteria} />
+                      </div>
+                    </div>
+                  )}
                   <div>
                     <Label htmlFor="submissionContent" className="text-lg font-semibold">
                       {submission?.id ? "Edit Your Submission:" : "Your Submission:"}
@@ -264,16 +338,58 @@ const SubmitAssignmentPage: React.FC = () => {
                       rows={10}
                       className="mt-2"
                       placeholder="Type your submission here..."
-                      disabled={submitMutation.isPending || (isPastDue && !submission?.id)} // Disable if past due and no existing submission to edit
+                      disabled={submitMutation.isPending || isClosed}
+                    />
+                    {isClosed && <p className="text-sm text-red-500 mt-1">Cannot submit, this assignment has closed.</p>}
+                    {isLate && <p className="text-sm text-red-500 mt-1">This assignment is past due, so your work will be marked late.</p>}
+                  </div>
+                  <div className="space-y-2">
+                    <Label className="text-lg font-semibold">Files:</Label>
+                    {keptFiles.length > 0 && (
+                      <ul className="divide-y divide-gray-200 dark:divide-gray-700 rounded-md border">
+                        {keptFiles.map((file) => (
+                          <li key={file.id} className="flex items-center gap-2 px-3 py-2 text-sm">
+                            <span className="truncate">{file.filename}</span>
+                            <span className="text-gray-500 dark:text-gray-400">{formatFileSize(file.size)}</span>
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              className="ml-auto"
+                              onClick={() => setKeptFileIds(keptFileIds.filter((id) => id !== file.id))}
+                              disabled={submitMutation.isPending}
+                            >
+                              Remove
+                            </Button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    <FileDropzone
+                      files={newFiles}
+                      onChange={setNewFiles}
+                      accept={assignment.allowedFileTypes}
+                      maxBytes={assignment.maxFileSize}
+                      disabled={submitMutation.isPending || isClosed}
                     />
-                    {isPastDue && !submission?.id && <p className="text-sm text-red-500 mt-1">Cannot submit, assignment is past due.</p>}
                   </div>
-                  <Button type="submit" disabled={submitMutation.isPending || (isPastDue && !submission?.id)}>
+                  <Button type="submit" disabled={submitMutation.isPending || isClosed}>
                     {submitMutation.isPending ? <Send className="mr-2 h-4 w-4 animate-pulse" /> : <Send className="mr-2 h-4 w-4" />}
                     {submission?.id ? 'Update Submission' : 'Submit Assignment'}
                   </Button>
                   {submission?.id && isEditing && (
-                     <Button variant="ghost" onClick={() => setIsEditing(false)} disabled={submitMutation.isPending}>Cancel</Button>
+                     <Button
+                       type="button"
+                       variant="ghost"
+                       onClick={() => {
+                         setIsEditing(false);
+                         setNewFiles([]);
+                         setKeptFileIds(submission.files.map((file) => file.id));
+                       }}
+                       disabled={submitMutation.isPending}
+                     >
+                       Cancel
+                     </Button>
                   )}
                 </form>
               )}
@@ -1,25 +1,30 @@
 import { useQuery } from "@tanstack/react-query";
-import { Users, BookOpen, ClipboardList, TrendingUp, Plus, Download } from "lucide-react";
+import { Users, BookOpen, ClipboardList, TrendingUp, Plus, Download, Trophy, Clock } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { NavigationHeader } from "@/components/navigation-header";
 import { Sidebar } from "@/components/sidebar";
+import { StatCard } from "@/components/stat-card";
+import { AtRiskStudents } from "@/components/at-risk-students";
 import { ContentCreationModal } from "@/components/content-creation-modal";
 import { AssignmentModal } from "@/components/assignment-modal";
 import { useState } from "react";
 import { useAuth } from "@/hooks/use-auth";
+import { formatPercent } from "@/lib/grades";
+import type { TeacherDashboardStats } from "@shared/analytics";
+import type { Course } from "@shared/schema";
 
 export default function TeacherDashboard() {
   const { user } = useAuth();
   const [showContentModal, setShowContentModal] = useState(false);
   const [showAssignmentModal, setShowAssignmentModal] = useState(false);
 
-  const { data: stats } = useQuery({
+  const { data: stats } = useQuery<TeacherDashboardStats>({
     queryKey: ["/api/dashboard/stats"],
   });
 
-  const { data: courses = [] } = useQuery({
+  const { data: courses = [] } = useQuery<Course[]>({
     queryKey: ["/api/courses"],
   });
 
@@ -62,88 +67,41 @@ export default function TeacherDashboard() {
             </div>
 
             {/* Stats Overview */}
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
-              <Card>
-                <CardContent className="p-5">
-                  <div className="flex items-center">
-                    <div className="flex-shrink-0">
-                      <div className="w-8 h-8 bg-primary-100 dark:bg-primary-900/20 rounded-md flex items-center justify-center">
-                        <Users className="h-4 w-4 text-primary-600 dark:text-primary-400" />
-                      </div>
-                    </div>
-                    <div className="ml-5 w-0 flex-1">
-                      <dt className="text-sm font-medium text-gray-500 dark:text-gray-400 truncate">
-                        Total Students
-                      </dt>
-                      <dd className="text-lg font-semibold text-gray-900 dark:text-white">
-                        {stats?.totalStudents || 0}
-                      </dd>
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
-
-              <Card>
-                <CardContent className="p-5">
-                  <div className="flex items-center">
-                    <div className="flex-shrink-0">
-                      <div className="w-8 h-8 bg-emerald-100 dark:bg-emerald-900/20 rounded-md flex items-center justify-center">
-                        <BookOpen className="h-4 w-4 text-emerald-600 dark:text-emerald-400" />
-                      </div>
-                    </div>
-                    <div className="ml-5 w-0 flex-1">
-                      <dt className="text-sm font-medium text-gray-500 dark:text-gray-400 truncate">
-                        Active Courses
-                      </dt>
-                      <dd className="text-lg font-semibold text-gray-900 dark:text-white">
-                        {stats?.activeCourses || 0}
-                      </dd>
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
-
-              <Card>
-                <CardContent className="p-5">
-                  <div className="flex items-center">
-                    <div className="flex-shrink-0">
-                      <div className="w-8 h-8 bg-yellow-100 dark:bg-yellow-900/20 rounded-md flex items-center justify-center">
-                        <ClipboardList className="h-4 w-4 text-yellow-600 dark:text-yellow-400" />
-                      </div>
-                    </div>
-                    <div className="ml-5 w-0 flex-1">
-                      <dt className="text-sm font-medium text-gray-500 dark:text-gray-400 truncate">
-                        Pending Reviews
-                      </dt>
-                      <dd className="text-lg font-semibold text-gray-900 dark:text-white">
-                        {stats?.pendingReviews || 0}
-                      </dd>
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
-
-              <Card>
-                <CardContent className="p-5">
-                  <div className="flex items-center">
-                    <div className="flex-shrink-0">
-                      <div className="w-8 h-8 bg-purple-100 dark:bg-purple-900/20 rounded-md flex items-center justify-center">
-                        <TrendingUp className="h-4 w-4 text-purple-600 dark:text-purple-400" />
-                      </div>
-                    </div>
-                    <div className="ml-5 w-0 flex-1">
-                      <dt className="text-sm font-medium text-gray-500 dark:text-gray-400 truncate">
-                        Completion Rate
-                      </dt>
-                      <dd className="text-lg font-semibold text-gray-900 dark:text-white">
-                        {stats?.completionRate || 0}%
-                      </dd>
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-8">
+              <StatCard icon={Users} tone="primary" label="Total Students" value={`${stats?.totalStudents ?? 0}`} />
+              <StatCard icon={BookOpen} tone="emerald" label="Active Courses" value={`${stats?.activeCourses ?? 0}`} />
+              <StatCard
+                icon={ClipboardList}
+                tone="yellow"
+                label="Pending Reviews"
+                value={`${stats?.pendingReviews ?? 0}`}
+                trend={stats && { current: stats.pendingReviews, previous: stats.lastWeek.pendingReviews, lowerIsBetter: true }}
+              />
+              <StatCard
+                icon={TrendingUp}
+                tone="purple"
+                label="Completion Rate"
+                value={formatPercent(stats?.completionRate ?? null)}
+                trend={stats && { current: stats.completionRate, previous: stats.lastWeek.completionRate, unit: "pts" }}
+              />
+              <StatCard
+                icon={Trophy}
+                tone="sky"
+                label="Average Grade"
+                value={formatPercent(stats?.averageGrade ?? null)}
+                trend={stats && { current: stats.averageGrade, previous: stats.lastWeek.averageGrade, unit: "pts" }}
+              />
+              <StatCard
+                icon={Clock}
+                tone="rose"
+                label="On-Time Submissions"
+                value={formatPercent(stats?.onTimeRate ?? null)}
+                trend={stats && { current: stats.onTimeRate, previous: stats.lastWeek.onTimeRate, unit: "pts" }}
+              />
             </div>
 
+            <AtRiskStudents courses={courses} />
+
             {/* Main Content Grid */}
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
               {/* Recent Activity */}
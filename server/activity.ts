@@ -0,0 +1,62 @@
+/**
+ * What students have and haven't done in a course: the work they owe and
+ * when they were last active. Shared by the at-risk check and the roster.
+ */
+import { studentDeadline } from "@shared/deadlines";
+import type {
+  Assignment,
+  AssignmentExtension,
+  ContentProgress,
+  Enrollment,
+  Submission,
+} from "@shared/schema";
+import { storage } from "./storage";
+
+export type CourseActivityRows = {
+  assignments: Assignment[];
+  submissions: Submission[];
+  extensions: AssignmentExtension[];
+  enrollments: Enrollment[];
+  progress: ContentProgress[];
+};
+
+export async function loadCourseActivity(courseId: number): Promise<CourseActivityRows> {
+  const [assignments, submissions, enrollments, progress] = await Promise.all([
+    storage.getAssignmentsByCourse(courseId),
+    storage.getSubmissionsByCourse(courseId),
+    storage.getEnrollmentsByCourse(courseId),
+    storage.getContentProgressByCourse(courseId),
+  ]);
+  const extensions = (await Promise.all(assignments.map(a => storage.getExtensionsByAssignment(a.id)))).flat();
+  return { assignments, submissions, extensions, enrollments, progress };
+}
+
+/**
+ * Assignments past the student's own due date, extensions included, that
+ * they neither handed in nor were graded on.
+ */
+export function missingAssignments(rows: CourseActivityRows, studentId: number, now: Date): Assignment[] {
+  return rows.assignments.filter(assignment => {
+    const extension = rows.extensions.find(e => e.assignmentId === assignment.id && e.studentId === studentId);
+    const { dueDate } = studentDeadline(assignment, extension);
+    if (dueDate === null || dueDate >= now) return false;
+    const submission = rows.submissions.find(s => s.assignmentId === assignment.id && s.studentId === studentId);
+    return !submission || (submission.submittedAt === null && submission.status !== "graded");
+  });
+}
+
+/**
+ * When the student last opened or completed content or handed work in, as an
+ * ISO string. Students who have done nothing yet count from when they
+ * enrolled; null if even that isn't known.
+ */
+export function lastActivity(rows: CourseActivityRows, enrollment: Enrollment): string | null {
+  const { studentId } = enrollment;
+  const times = [
+    enrollment.enrolledAt,
+    ...rows.submissions.filter(s => s.studentId === studentId).map(s => s.submittedAt),
+    ...rows.progress.filter(p => p.studentId === studentId).flatMap(p => [p.openedAt, p.completedAt]),
+  ].filter((time): time is string => time !== null);
+  if (times.length === 0) return null;
+  return new Date(times.reduce((latest, time) => (time > latest ? time : latest))).toISOString();
+}
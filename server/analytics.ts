@@ -0,0 +1,105 @@
+/**
+ * A course's analytics for the teacher's charts, worked out from its rows.
+ * Every chart covers the same range of whole days, in UTC.
+ */
+import {
+  GRADE_BUCKET_LABELS,
+  SUBMISSION_TIMING_BUCKETS,
+  datesBetween,
+  type CourseAnalytics,
+} from "@shared/analytics";
+import { studentDeadline } from "@shared/deadlines";
+import { hasGrade } from "@shared/gradebook";
+import type {
+  Assignment,
+  AssignmentExtension,
+  Content,
+  ContentProgress,
+  Enrollment,
+  Module,
+  Submission,
+} from "@shared/schema";
+
+export type CourseAnalyticsRows = {
+  assignments: Assignment[]; // In the order the charts list them
+  submissions: Submission[];
+  extensions: AssignmentExtension[];
+  enrollments: Enrollment[];
+  modules: Module[];
+  content: Content[];
+  progress: ContentProgress[];
+};
+
+const HOUR = 60 * 60 * 1000;
+
+export function courseAnalytics(rows: CourseAnalyticsRows, from: string, to: string): CourseAnalytics {
+  const start = new Date(`${from}T00:00:00Z`);
+  const end = new Date(`${to}T00:00:00Z`);
+  end.setUTCDate(end.getUTCDate() + 1);
+  const inRange = (time: string | Date | null) => {
+    if (time === null) return false;
+    const date = new Date(time);
+    return date >= start && date < end;
+  };
+
+  // Enrollments without a date are from before dates were kept
+  let total = rows.enrollments.filter(e => !e.enrolledAt || new Date(e.enrolledAt) < start).length;
+  const enrolledOn = new Map<string, number>();
+  for (const enrollment of rows.enrollments) {
+    if (!inRange(enrollment.enrolledAt)) continue;
+    const date = enrollment.enrolledAt!.slice(0, 10);
+    enrolledOn.set(date, (enrolledOn.get(date) ?? 0) + 1);
+  }
+  const enrollments = datesBetween(from, to).map(date => {
+    const enrolled = enrolledOn.get(date) ?? 0;
+    total += enrolled;
+    return { date, enrolled, total };
+  });
+
+  // Work graded from the gradebook was never handed in, so it counts from when it was graded
+  const handedIn = rows.submissions.filter(s => inRange(s.submittedAt ?? s.gradedAt));
+  const grades = rows.assignments.filter(a => a.maxPoints > 0).map(assignment => {
+    const counts: number[] = GRADE_BUCKET_LABELS.map(() => 0);
+    for (const submission of handedIn) {
+      if (submission.assignmentId !== assignment.id || !hasGrade(submission)) continue;
+      counts[Math.max(0, Math.min(counts.length - 1, Math.floor((submission.grade! / assignment.maxPoints) * counts.length)))]++;
+    }
+    return { assignmentId: assignment.id, title: assignment.title, counts };
+  });
+
+  // Measured against each student's own due date, extensions included
+  const timing = rows.assignments.filter(a => a.dueDate || rows.extensions.some(e => e.assignmentId === a.id)).map(assignment => {
+    const counts: number[] = SUBMISSION_TIMING_BUCKETS.map(() => 0);
+    for (const submission of handedIn) {
+      if (submission.assignmentId !== assignment.id || !submission.submittedAt) continue;
+      const extension = rows.extensions.find(e => e.assignmentId === assignment.id && e.studentId === submission.studentId);
+      const { dueDate } = studentDeadline(assignment, extension);
+      if (!dueDate) continue;
+      const hours = (new Date(submission.submittedAt).getTime() - dueDate.getTime()) / HOUR;
+      const bucket = SUBMISSION_TIMING_BUCKETS.findIndex(({ hours: [low, high] }) =>
+        (low === null || hours >= low) && (high === null || hours < high));
+      counts[bucket]++;
+    }
+    return { assignmentId: assignment.id, title: assignment.title, counts };
+  });
+
+  const moduleOf = new Map(rows.content.map(item => [item.id, item.moduleId]));
+  const engagementOf = (moduleId: number | null, title: string) => {
+    const progress = rows.progress.filter(p => moduleOf.has(p.contentId) && moduleOf.get(p.contentId) === moduleId);
+    return {
+      moduleId,
+      title,
+      items: rows.content.filter(item => item.moduleId === moduleId).length,
+      opened: progress.filter(p => inRange(p.openedAt)).length,
+      completed: progress.filter(p => inRange(p.completedAt)).length,
+    };
+  };
+  const engagement = [...rows.modules]
+    .sort((a, b) => a.order - b.order || a.id - b.id)
+    .map(module => engagementOf(module.id, module.title));
+  if (rows.content.some(item => item.moduleId === null)) {
+    engagement.push(engagementOf(null, "Not in a module"));
+  }
+
+  return { from, to, enrollments, grades, timing, engagement };
+}
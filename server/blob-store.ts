@@ -0,0 +1,138 @@
+import { createReadStream } from "node:fs";
+import { copyFile, mkdir, stat, unlink } from "node:fs/promises";
+import path from "node:path";
+import type { Readable } from "node:stream";
+import { log } from "./vite";
+
+// Inclusive byte range, as in an HTTP Range header
+export type ByteRange = { start: number; end: number };
+
+/**
+ * Where uploaded file bytes live. Keys are opaque to the store; callers use
+ * the file's checksum so identical uploads share one blob.
+ */
+export interface BlobStore {
+  name: string;
+  put(key: string, filePath: string, mimeType: string): Promise<void>;
+  exists(key: string): Promise<boolean>;
+  get(key: string, range?: ByteRange): Promise<Readable>;
+  delete(key: string): Promise<void>;
+}
+
+function isNotFound(error: any): boolean {
+  return error?.code === "ENOENT";
+}
+
+function createLocalBlobStore(root: string): BlobStore {
+  // Spread blobs over subdirectories so no single directory gets huge
+  const blobPath = (key: string) => path.join(root, key.slice(0, 2), key);
+
+  return {
+    name: `local (${root})`,
+    put: async (key, filePath) => {
+      const target = blobPath(key);
+      await mkdir(path.dirname(target), { recursive: true });
+      await copyFile(filePath, target);
+    },
+    exists: async (key) => {
+      try {
+        await stat(blobPath(key));
+        return true;
+      } catch (error) {
+        if (isNotFound(error)) return false;
+        throw error;
+      }
+    },
+    get: async (key, range) => {
+      const target = blobPath(key);
+      await stat(target); // Fail here rather than mid-response if the blob is gone
+      return createReadStream(target, range);
+    },
+    delete: async (key) => {
+      try {
+        await unlink(blobPath(key));
+      } catch (error) {
+        if (!isNotFound(error)) throw error;
+      }
+    },
+  };
+}
+
+async function createS3BlobStore(): Promise<BlobStore> {
+  // Imported lazily so the SDK is only loaded when S3 is configured
+  const { S3Client, PutObjectCommand, HeadObjectCommand, GetObjectCommand, DeleteObjectCommand } =
+    await import("@aws-sdk/client-s3");
+
+  const bucket = process.env.S3_BUCKET;
+  if (!bucket) {
+    throw new Error("S3_BUCKET must be set when BLOB_STORE=s3.");
+  }
+
+  const client = new S3Client({
+    region: process.env.S3_REGION || "us-east-1",
+    endpoint: process.env.S3_ENDPOINT || undefined, // e.g. http://localhost:9000 for MinIO
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+    credentials: process.env.S3_ACCESS_KEY_ID
+      ? {
+          accessKeyId: process.env.S3_ACCESS_KEY_ID,
+          secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || "",
+        }
+      : undefined, // Fall back to the SDK's default credential chain
+  });
+
+  return {
+    name: `s3 (${bucket})`,
+    put: async (key, filePath, mimeType) => {
+      const { size } = await stat(filePath);
+      await client.send(new PutObjectCommand({
+        Bucket: bucket,
+        Key: key,
+        Body: createReadStream(filePath),
+        ContentLength: size,
+        ContentType: mimeType,
+      }));
+    },
+    exists: async (key) => {
+      try {
+        await client.send(new HeadObjectCommand({ Bucket: bucket, Key: key }));
+        return true;
+      } catch (error: any) {
+        if (error?.$metadata?.httpStatusCode === 404) return false;
+        throw error;
+      }
+    },
+    get: async (key, range) => {
+      const { Body } = await client.send(new GetObjectCommand({
+        Bucket: bucket,
+        Key: key,
+        Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+      }));
+      return Body as Readable;
+    },
+    delete: async (key) => {
+      await client.send(new DeleteObjectCommand({ Bucket: bucket, Key: key }));
+    },
+  };
+}
+
+let blobStore: BlobStore | undefined;
+
+/**
+ * Sets up the blob store chosen by BLOB_STORE ("local" or "s3", default
+ * "local"). The local store keeps files under UPLOAD_DIR (default ./uploads);
+ * the S3 store works with any S3-compatible service, including MinIO.
+ */
+export async function setupBlobStore(): Promise<BlobStore> {
+  blobStore = process.env.BLOB_STORE === "s3"
+    ? await createS3BlobStore()
+    : createLocalBlobStore(path.resolve(process.env.UPLOAD_DIR || "uploads"));
+  log(`using ${blobStore.name} blob store`, "uploads");
+  return blobStore;
+}
+
+export function getBlobStore(): BlobStore {
+  if (!blobStore) {
+    throw new Error("Blob store used before setupBlobStore() was called");
+  }
+  return blobStore;
+}
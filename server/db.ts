@@ -5,11 +5,15 @@ import * as schema from "@shared/schema";
 
 neonConfig.webSocketConstructor = ws;
 
-if (!process.env.DATABASE_URL) {
-  throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
-  );
-}
-
+// The pool only connects on first query, so importing this module is safe
+// without a database. Call requireDatabaseUrl() before relying on it.
 export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle({ client: pool, schema });
\ No newline at end of file
+export const db = drizzle({ client: pool, schema });
+
+export function requireDatabaseUrl(): void {
+  if (!process.env.DATABASE_URL) {
+    throw new Error(
+      "DATABASE_URL must be set. Did you forget to provision a database? (Set STORAGE=memory to run without one.)",
+    );
+  }
+}
@@ -0,0 +1,379 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import type { IStorage } from "./storage";
+import { hashPassword } from "./password";
+import { establishSession } from "./session";
+import { log } from "./vite";
+
+export const DEMO_PASSWORD = "password";
+
+const DEMO_USERS = [
+  { username: "teacher1", name: "Dr. Sarah Johnson", role: "teacher" },
+  { username: "student1", name: "Alex Chen", role: "student" },
+  { username: "student2", name: "Maria Garcia", role: "student" },
+] as const;
+
+export type DemoPersona = (typeof DEMO_USERS)[number]["username"];
+
+export interface DemoConfig {
+  enabled: boolean;
+  persona: DemoPersona;
+}
+
+/**
+ * Reads demo mode settings from the environment.
+ *
+ * APP_MODE=demo turns demo mode on; DEMO_PERSONA picks which seeded user
+ * visitors are signed in as (defaults to teacher1).
+ */
+export function getDemoConfig(): DemoConfig {
+  const enabled = process.env.APP_MODE === "demo";
+  const persona = (process.env.DEMO_PERSONA || "teacher1") as DemoPersona;
+
+  if (enabled && !DEMO_USERS.some((u) => u.username === persona)) {
+    throw new Error(
+      `DEMO_PERSONA must be one of: ${DEMO_USERS.map((u) => u.username).join(", ")}`,
+    );
+  }
+
+  return { enabled, persona };
+}
+
+/**
+ * Populates storage with demo users, courses, content, assignments and
+ * submissions. Does nothing if the demo teacher already exists, so it is safe
+ * to run on every start.
+ */
+export async function seedDemoData(storage: IStorage): Promise<void> {
+  if (await storage.getUserByUsername("teacher1")) {
+    return;
+  }
+
+  const password = await hashPassword(DEMO_PASSWORD);
+  const [teacher, student1, student2] = await Promise.all(
+    DEMO_USERS.map((u) => storage.createUser({ ...u, password })),
+  );
+
+  const webDev = await storage.createCourse({
+    title: "Introduction to Web Development",
+    description: "Learn the fundamentals of HTML, CSS and JavaScript.",
+    teacherId: teacher.id,
+    status: "active",
+  });
+  const algorithms = await storage.createCourse({
+    title: "Data Structures & Algorithms",
+    description: "Arrays, linked lists, trees, graphs and the algorithms that use them.",
+    teacherId: teacher.id,
+    status: "active",
+  });
+  await storage.createCourse({
+    title: "Advanced React Patterns",
+    description: "Hooks, context and composition patterns for large React apps.",
+    teacherId: teacher.id,
+    status: "draft",
+  });
+
+  const inDays = (days: number) => new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+
+  const gettingStarted = await storage.createModule({
+    courseId: webDev.id,
+    title: "Getting Started",
+    description: "Set up your tools and write your first page.",
+    order: 0,
+  });
+  const styling = await storage.createModule({
+    courseId: webDev.id,
+    title: "Styling with CSS",
+    description: "Selectors, the box model and layout.",
+    order: 1,
+    unlockAt: inDays(7).toISOString(),
+  });
+
+  const welcome = await storage.createContent({
+    title: "Welcome to Web Development",
+    description: "Course overview and how to get set up.",
+    type: "lesson",
+    courseId: webDev.id,
+    teacherId: teacher.id,
+    content: "<h2>Welcome!</h2><p>In this course you will build your first web pages.</p>",
+    moduleId: gettingStarted.id,
+    order: 0,
+  });
+  await storage.createContent({
+    title: "HTML Basics",
+    description: "Elements, attributes and document structure.",
+    type: "lesson",
+    courseId: webDev.id,
+    teacherId: teacher.id,
+    content: "<h2>HTML Basics</h2><p>Every page starts with <code>&lt;html&gt;</code>.</p>",
+    moduleId: gettingStarted.id,
+    order: 1,
+  });
+  await storage.createContent({
+    title: "CSS Selectors",
+    description: "Targeting elements by type, class and id.",
+    type: "lesson",
+    courseId: webDev.id,
+    teacherId: teacher.id,
+    content: "<h2>CSS Selectors</h2><p>Selectors decide which elements a rule applies to.</p>",
+    moduleId: styling.id,
+    order: 0,
+  });
+  await storage.createContent({
+    title: "MDN Web Docs",
+    description: "Reference documentation for web technologies.",
+    type: "document",
+    courseId: webDev.id,
+    teacherId: teacher.id,
+    content: "https://developer.mozilla.org/",
+    order: 0,
+  });
+  await storage.createContent({
+    title: "Big-O Notation",
+    description: "Reasoning about the cost of algorithms.",
+    type: "lesson",
+    courseId: algorithms.id,
+    teacherId: teacher.id,
+    content: "<h2>Big-O Notation</h2><p>We describe growth rates, not exact timings.</p>",
+    order: 0,
+  });
+
+  const projects = await storage.createGradeCategory({ courseId: webDev.id, title: "Projects", weight: 60, dropLowest: 0 });
+  const quizzes = await storage.createGradeCategory({ courseId: webDev.id, title: "Quizzes", weight: 40, dropLowest: 0 });
+
+  const portfolio = await storage.createAssignment({
+    title: "Build a Personal Portfolio Page",
+    description: "Create a single-page portfolio using semantic HTML and CSS.",
+    courseId: webDev.id,
+    teacherId: teacher.id,
+    dueDate: inDays(7),
+    latePolicy: "reject",
+    maxPoints: 100,
+    instructions: "Submit a link to your hosted page and a short write-up.",
+    categoryId: projects.id,
+  });
+  const algorithmRubric = await storage.createRubric({
+    courseId: algorithms.id,
+    teacherId: teacher.id,
+    title: "Algorithm implementation",
+    description: "For assignments that pair working code with a complexity analysis.",
+    criteria: [
+      {
+        id: "correctness",
+        title: "Correctness",
+        levels: [
+          { id: "correct", title: "Correct", description: "Handles every case, including empty input.", points: 30 },
+          { id: "mostly-correct", title: "Mostly correct", description: "Fails some edge cases.", points: 20 },
+          { id: "incorrect", title: "Incorrect", points: 0 },
+        ],
+      },
+      {
+        id: "analysis",
+        title: "Complexity analysis",
+        levels: [
+          { id: "complete", title: "Complete", description: "Time and space, with reasoning.", points: 20 },
+          { id: "partial", title: "Partial", description: "Time or space only.", points: 15 },
+          { id: "missing", title: "Missing", points: 0 },
+        ],
+      },
+    ],
+  });
+  const sorting = await storage.createAssignment({
+    title: "Implement Merge Sort",
+    description: "Implement merge sort and analyse its complexity.",
+    courseId: algorithms.id,
+    teacherId: teacher.id,
+    dueDate: inDays(-2),
+    lockDate: inDays(5),
+    latePolicy: "deduct",
+    latePenaltyPercent: 10,
+    maxPoints: 50, // The rubric's total
+    instructions: "Include your code and a paragraph on its time complexity.",
+    allowedFileTypes: [".py", ".java", ".js", ".cpp", ".pdf"],
+    maxFileSize: 5 * 1024 * 1024,
+    rubricId: algorithmRubric.id,
+  });
+  const cssBank = await storage.createQuestionBank({
+    courseId: webDev.id,
+    teacherId: teacher.id,
+    title: "CSS Fundamentals",
+    description: "Selectors, the box model and layout.",
+  });
+  await storage.addBankQuestions(cssBank.id, [
+    {
+      question: { id: "q1", type: "true-false", prompt: "Margins of adjacent block elements can collapse into one.", points: 1, correct: true },
+      tags: ["css", "box-model"],
+      difficulty: "medium",
+    },
+    {
+      question: {
+        id: "q2",
+        type: "multiple-choice",
+        prompt: "Which selector matches an element with the class \"card\"?",
+        points: 1,
+        options: [{ id: "a", text: ".card" }, { id: "b", text: "#card" }, { id: "c", text: "card" }],
+        correctOptionId: "a",
+      },
+      tags: ["css", "selectors"],
+      difficulty: "easy",
+    },
+    {
+      question: {
+        id: "q3",
+        type: "multiple-choice",
+        prompt: "Which display value lays out children in a single row or column?",
+        points: 1,
+        options: [{ id: "a", text: "grid" }, { id: "b", text: "flex" }, { id: "c", text: "inline" }],
+        correctOptionId: "b",
+      },
+      tags: ["css", "layout"],
+      difficulty: "easy",
+    },
+    {
+      question: { id: "q4", type: "short-answer", prompt: "Which property sets the space between grid tracks?", points: 1, acceptedAnswers: ["gap", "grid-gap"] },
+      tags: ["css", "layout"],
+      difficulty: "hard",
+    },
+  ]);
+
+  const htmlQuiz = await storage.createAssignment({
+    title: "HTML & CSS Basics Quiz",
+    description: "A short check on the first weeks of the course.",
+    courseId: webDev.id,
+    teacherId: teacher.id,
+    type: "quiz",
+    dueDate: inDays(10),
+    maxPoints: 10, // Replaced by the questions' total
+    categoryId: quizzes.id,
+  });
+  await storage.saveQuiz(htmlQuiz.id, {
+    timeLimitMinutes: 10,
+    maxAttempts: 2,
+    shuffleQuestions: true,
+    shuffleOptions: true,
+    questions: [
+      {
+        id: "semantic",
+        type: "multiple-choice",
+        prompt: "Which element marks up the main navigation of a page?",
+        points: 2,
+        options: [
+          { id: "nav", text: "<nav>" },
+          { id: "menu", text: "<menu>" },
+          { id: "div", text: "<div>" },
+        ],
+        correctOptionId: "nav",
+      },
+      {
+        id: "inline",
+        type: "multiple-select",
+        prompt: "Which of these elements are inline by default?",
+        points: 2,
+        options: [
+          { id: "span", text: "<span>" },
+          { id: "a", text: "<a>" },
+          { id: "p", text: "<p>" },
+          { id: "section", text: "<section>" },
+        ],
+        correctOptionIds: ["span", "a"],
+      },
+      {
+        id: "cascade",
+        type: "true-false",
+        prompt: "An ID selector is more specific than a class selector.",
+        points: 1,
+        correct: true,
+      },
+      {
+        id: "rem",
+        type: "numeric",
+        prompt: "With a 16px root font size, how many pixels is 1.5rem?",
+        points: 2,
+        answer: 24,
+        tolerance: 0,
+      },
+      {
+        id: "box-model",
+        type: "short-answer",
+        prompt: "Which CSS property makes width include padding and border?",
+        points: 3,
+        acceptedAnswers: ["box-sizing", "box-sizing: border-box*"],
+      },
+    ],
+    draws: [{ bankId: cssBank.id, count: 2, tags: ["css"], difficulty: null, points: 1 }],
+  });
+
+  for (const student of [student1, student2]) {
+    await storage.enrollStudentInCourse(student.id, webDev.id);
+  }
+  await storage.enrollStudentInCourse(student1.id, algorithms.id);
+  await storage.setExtension({
+    assignmentId: sorting.id,
+    studentId: student1.id,
+    dueDate: inDays(1),
+    grantedBy: teacher.id,
+  });
+
+  // A finished attempt whose short answer waits for the teacher
+  const quizAttempt = await storage.startQuizAttempt(htmlQuiz.id, student1.id);
+  if (!("error" in quizAttempt)) {
+    await storage.submitQuizAttempt(quizAttempt.id, {
+      semantic: "nav",
+      inline: ["span", "a"],
+      cascade: true,
+      rem: 24,
+      "box-model": "border-box on the width",
+    });
+  }
+
+  await storage.createOrUpdateSubmission(
+    portfolio.id,
+    student1.id,
+    { content: "My portfolio is live at https://example.com/alex", files: [], keepFileIds: [] },
+  );
+  await storage.createOrUpdateSubmission(
+    sorting.id,
+    student1.id,
+    { content: "Merge sort splits the array in half, so it runs in O(n log n).", files: [], keepFileIds: [] },
+  );
+  // A resubmission, so the demo has a version history to compare
+  const graded = await storage.createOrUpdateSubmission(
+    sorting.id,
+    student1.id,
+    { content: "Merge sort splits the array in half recursively, so it runs in O(n log n).", files: [], keepFileIds: [] },
+  );
+  if (!("error" in graded)) {
+    await storage.gradeSubmission(graded.id, teacher.id, {
+      rubricScores: { correctness: "correct", analysis: "partial" },
+      feedback: "Clear explanation. Add a note on the extra memory it uses.",
+    });
+  }
+
+  await storage.setContentCompleted(student1.id, welcome.id, true);
+  await storage.recomputeEnrollmentProgress(algorithms.id);
+
+  log("seeded demo data", "demo");
+}
+
+/**
+ * Signs anonymous visitors in as the configured persona so demos land on a
+ * populated dashboard. Runs ahead of the API routes.
+ */
+export function setupDemoMode(app: Express, storage: IStorage, config: DemoConfig) {
+  log(`demo mode enabled, auto-login as ${config.persona}`, "demo");
+
+  app.use("/api", async (req: Request, _res: Response, next: NextFunction) => {
+    if (req.session.userId || req.path === "/auth/login") {
+      return next();
+    }
+
+    try {
+      const user = await storage.getUserByUsername(config.persona);
+      if (user) {
+        await establishSession(req, user.id);
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  });
+}
@@ -0,0 +1,152 @@
+/**
+ * Gradebooks as spreadsheets. The export has a row per student and a column
+ * per assignment, headed "Title (id)" and holding recorded grades (after any
+ * late penalty), then the computed grades.
+ *
+ * The import reads the same layout back. Students are matched by the
+ * Username column and assignments by the id in their heading, or failing
+ * that their exact title; other columns are ignored. A column headed
+ * "<assignment heading> Feedback" sets feedback. Blank cells change nothing,
+ * and a row or cell that can't be used is reported without stopping the rest.
+ */
+import { hasGrade, type Gradebook, type GradeImportChange, type GradebookImport } from "@shared/gradebook";
+import { scoreBeforePenalty } from "@shared/deadlines";
+import type { Assignment } from "@shared/schema";
+import { csvRows, toCsv } from "@shared/csv";
+
+// A change with the score to record, before the late penalty
+export type PlannedGradeChange = GradeImportChange & { score: number };
+
+const assignmentHeading = (assignment: Pick<Assignment, "id" | "title">) => `${assignment.title} (${assignment.id})`;
+
+export function gradebookCsv(gradebook: Gradebook): string {
+  const header = [
+    "Student",
+    "Username",
+    ...gradebook.assignments.map(assignmentHeading),
+    "Current %",
+    "Current Grade",
+    "Final %",
+    "Final Grade",
+  ];
+  const rows = gradebook.rows.map((row) => [
+    row.student.name,
+    row.student.username,
+    ...gradebook.assignments.map((assignment) => {
+      const cell = row.cells[assignment.id];
+      return cell && hasGrade(cell) ? cell.grade : null;
+    }),
+    row.grade.current,
+    row.grade.currentLetter,
+    row.grade.final,
+    row.grade.finalLetter,
+  ]);
+  return toCsv([header, ...rows]);
+}
+
+// The assignment a heading names: by the id in "Title (id)", else by a title only one assignment has
+function findAssignment(assignments: Assignment[], heading: string): Assignment | undefined {
+  const id = heading.match(/\((\d+)\)$/);
+  const byId = id && assignments.find((assignment) => assignment.id === Number(id[1]));
+  if (byId) return byId;
+  const byTitle = assignments.filter((assignment) => assignment.title.trim().toLowerCase() === heading.toLowerCase());
+  return byTitle.length === 1 ? byTitle[0] : undefined;
+}
+
+/**
+ * What importing `text` would change in the gradebook. Nothing is saved;
+ * the changes carry the score to record for each.
+ */
+export function planGradebookImport(text: string, gradebook: Gradebook): { changes: PlannedGradeChange[]; problems: GradebookImport["problems"] } {
+  const changes: PlannedGradeChange[] = [];
+  const problems: GradebookImport["problems"] = [];
+
+  const [header, ...rows] = csvRows(text);
+  if (!header) {
+    return { changes, problems: [{ line: 1, message: "The file is empty." }] };
+  }
+  const headings = header.cells.map((cell) => cell.trim());
+  const usernameColumn = headings.findIndex((heading) => heading.toLowerCase() === "username");
+  if (usernameColumn < 0) {
+    return { changes, problems: [{ line: header.line, message: 'The header row needs a "Username" column.' }] };
+  }
+
+  const columns = new Map<number, { assignment: Assignment; grade?: number; feedback?: number }>();
+  headings.forEach((heading, index) => {
+    const feedbackOf = heading.match(/^(.*\S)\s+feedback$/i);
+    const assignment = findAssignment(gradebook.assignments, feedbackOf ? feedbackOf[1] : heading);
+    if (!assignment) return;
+    const column = columns.get(assignment.id) ?? { assignment };
+    if (feedbackOf) column.feedback = index;
+    else column.grade = index;
+    columns.set(assignment.id, column);
+  });
+  if (columns.size === 0) {
+    return { changes, problems: [{ line: header.line, message: "No column matches an assignment in this course." }] };
+  }
+
+  const seen = new Set<string>();
+  for (const { line, cells } of rows) {
+    if (cells.every((cell) => !cell.trim())) continue;
+    const username = (cells[usernameColumn] ?? "").trim();
+    if (!username) {
+      problems.push({ line, message: "The row has no username." });
+      continue;
+    }
+    const row = gradebook.rows.find((entry) => entry.student.username === username);
+    if (!row) {
+      problems.push({ line, message: `No student "${username}" is enrolled in this course.` });
+      continue;
+    }
+    if (seen.has(username)) {
+      problems.push({ line, message: `"${username}" is on more than one row; only the first was used.` });
+      continue;
+    }
+    seen.add(username);
+
+    for (const { assignment, grade: gradeColumn, feedback: feedbackColumn } of Array.from(columns.values())) {
+      const gradeText = gradeColumn === undefined ? "" : (cells[gradeColumn] ?? "").trim();
+      const feedbackText = feedbackColumn === undefined ? "" : (cells[feedbackColumn] ?? "").trim();
+      if (!gradeText && !feedbackText) continue;
+
+      const cell = row.cells[assignment.id];
+      const from = cell && hasGrade(cell) ? cell.grade : null;
+      if (gradeText && !/^\d+$/.test(gradeText)) {
+        problems.push({ line, message: `${assignment.title}: "${gradeText}" isn't a whole number of points.` });
+        continue;
+      }
+      const to = gradeText ? parseInt(gradeText, 10) : from;
+      const feedbackChanged = !!feedbackText && feedbackText !== (cell?.feedback ?? null);
+      if (to === from && !feedbackChanged) continue;
+
+      if (assignment.type === "quiz" || assignment.rubricId !== null) {
+        problems.push({ line, message: `${assignment.title} is graded from its ${assignment.type === "quiz" ? "answers" : "rubric"}, so it can't be imported.` });
+        continue;
+      }
+      if (to === null) {
+        problems.push({ line, message: `${assignment.title}: feedback needs a grade to go with it.` });
+        continue;
+      }
+      const score = scoreBeforePenalty(assignment, cell?.daysLate ?? 0, to, assignment.maxPoints);
+      if (score === undefined) {
+        problems.push({
+          line,
+          message: to > assignment.maxPoints
+            ? `${assignment.title}: ${to} is more than its ${assignment.maxPoints} points.`
+            : `${assignment.title}: no score comes to ${to} after the late penalty.`,
+        });
+        continue;
+      }
+
+      changes.push({
+        line,
+        student: row.student,
+        assignment: { id: assignment.id, title: assignment.title },
+        grade: { from, to },
+        ...(feedbackChanged && { feedback: { from: cell?.feedback ?? null, to: feedbackText } }),
+        score,
+      });
+    }
+  }
+  return { changes, problems };
+}
@@ -1,5 +1,10 @@
 import express, { type Request, Response, NextFunction } from "express";
-import { registerRoutes } from "./simple-routes";
+import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+import { setupSession } from "./session";
+import { setupBlobStore } from "./blob-store";
+import { getDemoConfig, seedDemoData, setupDemoMode } from "./demo";
+import { scheduleRiskChecks } from "./risk";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
@@ -39,7 +44,19 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  await setupSession(app);
+  await setupBlobStore();
+
+  // Demo mode runs the regular routes against seeded data, with visitors
+  // signed in automatically as the configured persona.
+  const demo = getDemoConfig();
+  if (demo.enabled) {
+    await seedDemoData(storage);
+    setupDemoMode(app, storage, demo);
+  }
+
   const server = await registerRoutes(app);
+  scheduleRiskChecks();
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
@@ -0,0 +1,52 @@
+/**
+ * One-off migration: gives submissions made before submission versions existed
+ * a version 1 holding their current content and files. Safe to run more than
+ * once; submissions that already have versions are left alone.
+ *
+ *   npm run db:backfill-submission-versions              # write the versions
+ *   npm run db:backfill-submission-versions -- --dry-run # only report them
+ */
+import { and, eq, isNull, notExists } from "drizzle-orm";
+import { submissions, submissionVersions, uploads } from "@shared/schema";
+import { db, pool, requireDatabaseUrl } from "../db";
+
+async function main() {
+  requireDatabaseUrl();
+  const dryRun = process.argv.includes("--dry-run");
+
+  const rows = await db
+    .select()
+    .from(submissions)
+    .where(notExists(
+      db.select().from(submissionVersions).where(eq(submissionVersions.submissionId, submissions.id)),
+    ));
+
+  for (const submission of rows) {
+    console.log(`${dryRun ? "would add" : "adding"} version 1 to submission ${submission.id}`);
+    if (dryRun) continue;
+
+    await db.transaction(async (tx) => {
+      const [version] = await tx.insert(submissionVersions).values({
+        submissionId: submission.id,
+        version: 1,
+        content: submission.content,
+        submittedAt: submission.submittedAt ?? new Date().toISOString(),
+      }).returning();
+      await tx.update(uploads)
+        .set({ submissionVersionId: version.id })
+        .where(and(eq(uploads.submissionId, submission.id), isNull(uploads.submissionVersionId)));
+      if (submission.status === "graded") {
+        await tx.update(submissions).set({ gradedVersionId: version.id }).where(eq(submissions.id, submission.id));
+      }
+    });
+  }
+
+  console.log(`${rows.length} submissions ${dryRun ? "need" : "needed"} a first version`);
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,43 @@
+/**
+ * One-off migration: sanitizes the bodies of HTML content items written before
+ * the API started sanitizing on write. Safe to run more than once.
+ *
+ *   npm run db:sanitize-content              # rewrite rows that change
+ *   npm run db:sanitize-content -- --dry-run # only report them
+ */
+import { eq, inArray } from "drizzle-orm";
+import { content } from "@shared/schema";
+import { db, pool, requireDatabaseUrl } from "../db";
+import { HTML_CONTENT_TYPES, sanitizeLessonHtml } from "../sanitize";
+
+async function main() {
+  requireDatabaseUrl();
+  const dryRun = process.argv.includes("--dry-run");
+
+  const rows = await db
+    .select({ id: content.id, title: content.title, body: content.content })
+    .from(content)
+    .where(inArray(content.type, HTML_CONTENT_TYPES));
+
+  let changed = 0;
+  for (const row of rows) {
+    if (row.body === null) continue;
+    const sanitized = sanitizeLessonHtml(row.body);
+    if (sanitized === row.body) continue;
+
+    changed++;
+    console.log(`${dryRun ? "would sanitize" : "sanitizing"} content ${row.id} (${row.title})`);
+    if (!dryRun) {
+      await db.update(content).set({ content: sanitized }).where(eq(content.id, row.id));
+    }
+  }
+
+  console.log(`${changed} of ${rows.length} HTML content items ${dryRun ? "need" : "needed"} sanitizing`);
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,97 @@
+/**
+ * One-off migration: turns assignments.due_date from free text into a
+ * timestamptz column. Run it before `npm run db:push`, which can't convert
+ * the column itself.
+ *
+ * Values with a timezone offset keep their instant. Values without one were
+ * typed in some local time; they are read in the --timezone given (UTC by
+ * default), and a bare date means the end of that day. Values that can't be
+ * read as dates are cleared, and listed so they can be set again by hand.
+ *
+ *   npm run db:typed-assignment-deadlines -- --timezone=Europe/Berlin           # convert
+ *   npm run db:typed-assignment-deadlines -- --timezone=Europe/Berlin --dry-run # only report
+ */
+import { pool, requireDatabaseUrl } from "../db";
+
+const HAS_OFFSET = /(?:[zZ]|[+-]\d{2}:?\d{2})$/;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+// How far the zone is ahead of UTC at the given instant, in milliseconds
+function zoneOffset(at: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(at);
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const asUtc = Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"), part("second"));
+  return asUtc - Math.floor(at.getTime() / 1000) * 1000;
+}
+
+/**
+ * The instant a stored due date stands for, or undefined if it isn't a date.
+ */
+function parseDueDate(value: string, timeZone: string): Date | undefined {
+  const text = value.trim();
+  if (HAS_OFFSET.test(text)) {
+    const date = new Date(text);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+
+  const local = new Date(`${DATE_ONLY.test(text) ? `${text}T23:59:59` : text.replace(" ", "T")}Z`);
+  if (isNaN(local.getTime())) return undefined;
+  return new Date(local.getTime() - zoneOffset(local, timeZone));
+}
+
+async function main() {
+  requireDatabaseUrl();
+  const dryRun = process.argv.includes("--dry-run");
+  const timeZone = process.argv.find((arg) => arg.startsWith("--timezone="))?.slice("--timezone=".length) || "UTC";
+  new Intl.DateTimeFormat("en-US", { timeZone }); // Throws on unknown zones
+
+  const { rows: [column] } = await pool.query(
+    "SELECT data_type FROM information_schema.columns WHERE table_name = 'assignments' AND column_name = 'due_date'",
+  );
+  if (column?.data_type !== "text") {
+    console.log(`assignments.due_date is ${column?.data_type ?? "missing"}; nothing to convert`);
+    return;
+  }
+
+  const { rows } = await pool.query<{ id: number; due_date: string }>(
+    "SELECT id, due_date FROM assignments WHERE due_date IS NOT NULL ORDER BY id",
+  );
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    for (const row of rows) {
+      const dueDate = parseDueDate(row.due_date, timeZone);
+      if (!dueDate) {
+        console.log(`assignment ${row.id}: can't read "${row.due_date}" as a date; it will have no due date`);
+      } else if (dryRun) {
+        console.log(`assignment ${row.id}: "${row.due_date}" -> ${dueDate.toISOString()}`);
+      }
+      await client.query("UPDATE assignments SET due_date = $1 WHERE id = $2", [dueDate?.toISOString() ?? null, row.id]);
+    }
+    await client.query("ALTER TABLE assignments ALTER COLUMN due_date TYPE timestamptz USING due_date::timestamptz");
+    await client.query(dryRun ? "ROLLBACK" : "COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  console.log(`${rows.length} due dates ${dryRun ? "would be" : "were"} converted`);
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
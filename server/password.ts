@@ -0,0 +1,83 @@
+import { randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from "node:crypto";
+
+// Stored format: scrypt$<N>$<r>$<p>$<salt hex>$<hash hex>
+const SCHEME = "scrypt";
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+const SALT_BYTES = 16;
+
+/**
+ * A well-formed hash no password matches. Checking against it when a username
+ * doesn't exist costs the same as a real check, so response times don't reveal
+ * which usernames are taken.
+ */
+export const DUMMY_PASSWORD_HASH = [
+  SCHEME, SCRYPT_PARAMS.N, SCRYPT_PARAMS.r, SCRYPT_PARAMS.p, "00".repeat(SALT_BYTES), "00".repeat(KEY_LENGTH),
+].join("$");
+
+function deriveKey(password: string, salt: Buffer, params: ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, params, (err, derivedKey) => {
+      if (err) return reject(err);
+      resolve(derivedKey);
+    });
+  });
+}
+
+/**
+ * Returns true if the stored value was produced by {@link hashPassword}.
+ * Anything else is treated as a legacy plain-text password.
+ */
+export function isPasswordHash(stored: string): boolean {
+  return stored.startsWith(`${SCHEME}$`) && stored.split("$").length === 6;
+}
+
+/**
+ * Hashes a password with scrypt and a random per-password salt.
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES);
+  const key = await deriveKey(password, salt, SCRYPT_PARAMS);
+  const { N, r, p } = SCRYPT_PARAMS;
+  return [SCHEME, N, r, p, salt.toString("hex"), key.toString("hex")].join("$");
+}
+
+/**
+ * Checks a candidate password against a stored value.
+ *
+ * Legacy plain-text rows are compared in constant time as well, after the
+ * same scrypt work a hash costs; callers should use {@link needsRehash} after
+ * a successful check to upgrade them.
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  if (!isPasswordHash(stored)) {
+    // Pays for a hashed check too, so timing doesn't show which accounts are still plain text
+    await verifyPassword(password, DUMMY_PASSWORD_HASH);
+    const a = Buffer.from(password);
+    const b = Buffer.from(stored);
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+
+  const [, n, r, p, saltHex, hashHex] = stored.split("$");
+  const expected = Buffer.from(hashHex, "hex");
+  const key = await deriveKey(password, Buffer.from(saltHex, "hex"), {
+    N: Number(n),
+    r: Number(r),
+    p: Number(p),
+  });
+  return key.length === expected.length && timingSafeEqual(key, expected);
+}
+
+/**
+ * Returns true if the stored value is plain text or was hashed with weaker
+ * parameters than the current ones.
+ */
+export function needsRehash(stored: string): boolean {
+  if (!isPasswordHash(stored)) return true;
+  const [, n, r, p] = stored.split("$");
+  return (
+    Number(n) !== SCRYPT_PARAMS.N ||
+    Number(r) !== SCRYPT_PARAMS.r ||
+    Number(p) !== SCRYPT_PARAMS.p
+  );
+}
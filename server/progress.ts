@@ -0,0 +1,126 @@
+/**
+ * A student's own progress page, worked out from a course's rows: how far
+ * along they've been each day, their grades beside the class's, what's due
+ * next, and what happened to their work. Days are whole UTC days.
+ */
+import { ANALYTICS_MAX_DAYS, addDays, datesBetween, progressPercentage } from "@shared/analytics";
+import { daysLate, studentDeadline } from "@shared/deadlines";
+import { hasGrade, type CourseGrade } from "@shared/gradebook";
+import { MIN_CLASS_AVERAGE_STUDENTS, type CourseProgress, type ProgressTimelineEvent } from "@shared/progress";
+import type { Course, Enrollment, SubmissionVersion } from "@shared/schema";
+import type { CourseActivityRows } from "./activity";
+
+const average = (values: number[]) =>
+  Math.round((values.reduce((total, value) => total + value, 0) / values.length) * 10) / 10;
+
+/**
+ * The course as `enrollment`'s student sees it. `contentCount` is every
+ * content item in the course, as enrollment progress counts them.
+ */
+export function courseProgress(
+  course: Course,
+  rows: CourseActivityRows, // Assignments in the order the gradebook lists them
+  contentCount: number,
+  enrollment: Enrollment,
+  grade: CourseGrade,
+  now: Date,
+): CourseProgress {
+  const { studentId } = enrollment;
+  const today = now.toISOString().slice(0, 10);
+  const ownSubmissions = rows.submissions.filter(s => s.studentId === studentId);
+
+  // Progress as it stood each day, counted as the enrollment's is; grades from before dates were kept count from the start
+  const doneDates = [
+    ...rows.progress.filter(p => p.studentId === studentId && p.completedAt !== null).map(p => p.completedAt!),
+    ...ownSubmissions.filter(hasGrade).map(s => s.gradedAt?.toISOString() ?? ""),
+  ].map(time => time.slice(0, 10)).sort();
+  const firstDay = enrollment.enrolledAt?.slice(0, 10) ?? doneDates.find(date => date !== "") ?? today;
+  const earliest = addDays(today, 1 - ANALYTICS_MAX_DAYS);
+  const from = firstDay < earliest ? earliest : firstDay;
+  const total = contentCount + rows.assignments.length;
+  let done = 0;
+  const completion = from > today ? [] : datesBetween(from, today).map(date => {
+    while (done < doneDates.length && doneDates[done] <= date) done++;
+    return { date, percent: progressPercentage(done, total) };
+  });
+
+  const percentOf = (points: number, maxPoints: number) => Math.round((points / maxPoints) * 1000) / 10;
+  const grades = rows.assignments.filter(a => a.maxPoints > 0).flatMap(assignment => {
+    const graded = rows.submissions.filter(s =>
+      s.assignmentId === assignment.id && hasGrade(s) && rows.enrollments.some(e => e.studentId === s.studentId));
+    const own = graded.find(s => s.studentId === studentId);
+    const classAverage = graded.length >= MIN_CLASS_AVERAGE_STUDENTS
+      ? average(graded.map(s => percentOf(s.grade!, assignment.maxPoints)))
+      : null;
+    if (!own && classAverage === null) return [];
+    return [{
+      assignmentId: assignment.id,
+      title: assignment.title,
+      percent: own ? percentOf(own.grade!, assignment.maxPoints) : null,
+      classAverage,
+    }];
+  });
+
+  const upcoming = rows.assignments.flatMap(assignment => {
+    const extension = rows.extensions.find(e => e.assignmentId === assignment.id && e.studentId === studentId);
+    const { dueDate, extended } = studentDeadline(assignment, extension);
+    if (!dueDate || dueDate <= now) return [];
+    const submission = ownSubmissions.find(s => s.assignmentId === assignment.id);
+    return [{
+      assignmentId: assignment.id,
+      title: assignment.title,
+      dueDate: dueDate.toISOString(),
+      extended,
+      handedIn: !!submission && (submission.submittedAt !== null || submission.status === "graded"),
+    }];
+  }).sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+
+  return {
+    course: { id: course.id, title: course.title },
+    progress: completion.length ? completion[completion.length - 1].percent : enrollment.progress,
+    grade: grade.current,
+    gradeLetter: grade.currentLetter,
+    completion,
+    grades,
+    upcoming,
+  };
+}
+
+/**
+ * Each version the student handed in and each grade they got in the course,
+ * in no particular order. `versions` are those of the student's submissions.
+ */
+export function progressTimeline(
+  course: Course,
+  rows: CourseActivityRows,
+  studentId: number,
+  versions: SubmissionVersion[],
+): ProgressTimelineEvent[] {
+  const events: ProgressTimelineEvent[] = [];
+  for (const submission of rows.submissions.filter(s => s.studentId === studentId)) {
+    const assignment = rows.assignments.find(a => a.id === submission.assignmentId);
+    if (!assignment) continue;
+    const subject = {
+      course: { id: course.id, title: course.title },
+      assignment: { id: assignment.id, title: assignment.title, maxPoints: assignment.maxPoints },
+    };
+
+    const extension = rows.extensions.find(e => e.assignmentId === assignment.id && e.studentId === studentId);
+    const deadline = studentDeadline(assignment, extension);
+    for (const version of versions.filter(v => v.submissionId === submission.id)) {
+      events.push({
+        ...subject,
+        kind: "submitted",
+        at: version.submittedAt,
+        version: version.version,
+        daysLate: daysLate(deadline, new Date(version.submittedAt)),
+      });
+    }
+
+    const gradedAt = submission.gradedAt?.toISOString() ?? (submission.status === "graded" ? submission.submittedAt : null);
+    if (hasGrade(submission) && gradedAt) {
+      events.push({ ...subject, kind: "graded", at: gradedAt, grade: submission.grade!, feedback: submission.feedback });
+    }
+  }
+  return events;
+}
@@ -0,0 +1,145 @@
+/**
+ * QTI packages: what we export imports back unchanged, and a package from
+ * elsewhere (server/fixtures/qti-sample) imports with its unsupported items
+ * reported one by one.
+ */
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { readdirSync, readFileSync, statSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { zipSync } from "fflate";
+import { exportQtiQuestions, exportQtiQuiz, importQtiQuestions, importQtiQuiz } from "./qti";
+import type { Quiz, QuizQuestion } from "@shared/schema";
+
+const SAMPLE_PACKAGE = path.join(path.dirname(fileURLToPath(import.meta.url)), "fixtures", "qti-sample");
+
+// The sample package's files, zipped as a teacher would upload them
+function samplePackage(): Uint8Array {
+  const files: Record<string, Uint8Array> = {};
+  const add = (dir: string) => {
+    for (const name of readdirSync(dir)) {
+      const file = path.join(dir, name);
+      if (statSync(file).isDirectory()) add(file);
+      else files[path.relative(SAMPLE_PACKAGE, file).split(path.sep).join("/")] = readFileSync(file);
+    }
+  };
+  add(SAMPLE_PACKAGE);
+  return zipSync(files);
+}
+
+const QUESTIONS: QuizQuestion[] = [
+  {
+    id: "q1",
+    type: "multiple-choice",
+    prompt: "Which sort is stable?",
+    points: 2,
+    options: [{ id: "a", text: "Merge sort" }, { id: "b", text: "Quicksort" }, { id: "c", text: "Heapsort" }],
+    correctOptionId: "a",
+  },
+  {
+    id: "q2",
+    type: "multiple-select",
+    prompt: "Which run in O(n log n) in the worst case?",
+    points: 3,
+    options: [{ id: "a", text: "Merge sort" }, { id: "b", text: "Quicksort" }, { id: "c", text: "Heapsort" }],
+    correctOptionIds: ["a", "c"],
+  },
+  { id: "q3", type: "true-false", prompt: "Binary search needs sorted input.", points: 1, correct: true },
+  { id: "q4", type: "numeric", prompt: "log2(1024) = ?", points: 1, answer: 10, tolerance: 0.5 },
+  {
+    id: "q5",
+    type: "short-answer",
+    prompt: "Name a divide-and-conquer algorithm.\nOne is enough.",
+    points: 2,
+    acceptedAnswers: ["merge sort", "quick*"],
+  },
+];
+
+const QUIZ: Quiz = {
+  id: 1,
+  assignmentId: 1,
+  timeLimitMinutes: 20,
+  maxAttempts: null, // Not carried by QTI
+  shuffleQuestions: true,
+  shuffleOptions: true,
+  questions: QUESTIONS,
+  draws: [],
+};
+
+describe("QTI round trip", () => {
+  it("brings a quiz back with its questions and settings", () => {
+    const imported = importQtiQuiz(exportQtiQuiz("Sorting", QUIZ, []));
+    assert.ok(!("error" in imported));
+    assert.deepEqual(imported.skipped, []);
+    assert.deepEqual(imported.quiz, {
+      timeLimitMinutes: 20,
+      maxAttempts: null,
+      shuffleQuestions: true,
+      shuffleOptions: true,
+      // Items are named after the questions they came from
+      questions: QUESTIONS.map(question => ({ ...question, id: `ITEM_${question.id}` })),
+      draws: [],
+    });
+  });
+
+  it("brings a question bank back with tags and difficulty", () => {
+    const bank = QUESTIONS.map((question, index) => ({
+      id: index + 1,
+      question,
+      tags: index % 2 ? ["sorting"] : [],
+      difficulty: (["easy", "medium", "hard", null, "easy"] as const)[index],
+    }));
+    const imported = importQtiQuestions(exportQtiQuestions(bank));
+    assert.ok(!("error" in imported));
+    assert.deepEqual(imported.skipped, []);
+    assert.deepEqual(imported.questions, bank.map(({ question, tags, difficulty }) => ({
+      question: { ...question, id: "q" }, // The bank gives each question its id when it's added
+      tags,
+      difficulty,
+    })));
+  });
+
+  it("reports draws from question banks rather than fixing their questions", () => {
+    const draw = { title: "Sorting bank", questions: [{ id: 9, question: QUESTIONS[0], tags: [], difficulty: null }], count: 1, points: 4 };
+    const imported = importQtiQuiz(exportQtiQuiz("Sorting", { ...QUIZ, questions: [QUESTIONS[2]] }, [draw]));
+    assert.ok(!("error" in imported));
+    assert.deepEqual(imported.quiz.questions.map(question => question.id), ["ITEM_q3"]);
+    assert.deepEqual(imported.skipped.map(skipped => skipped.item), ["DRAW_1"]);
+  });
+});
+
+describe("sample package", () => {
+  it("imports as a quiz in the test's order, skipping what isn't supported", () => {
+    const imported = importQtiQuiz(samplePackage());
+    assert.ok(!("error" in imported));
+    assert.equal(imported.quiz.timeLimitMinutes, 10);
+    assert.equal(imported.quiz.shuffleOptions, true);
+    assert.deepEqual(imported.quiz.questions, [
+      { id: "boiling", type: "numeric", prompt: "At sea level, water boils at how many degrees Celsius?", points: 1, answer: 100, tolerance: 0.5 },
+      {
+        id: "capital",
+        type: "multiple-choice",
+        prompt: "Which city is not the capital of France?",
+        points: 2,
+        options: [{ id: "paris", text: "Paris" }, { id: "lyon_no", text: "Lyon" }],
+        correctOptionId: "lyon_no",
+      },
+    ]);
+    assert.deepEqual(imported.skipped, [{ item: "rivers", message: "orderInteraction items aren't supported." }]);
+  });
+
+  it("imports into a question bank with the manifest's metadata", () => {
+    const imported = importQtiQuestions(samplePackage());
+    assert.ok(!("error" in imported));
+    assert.deepEqual(imported.questions.map(({ question, tags, difficulty }) => [question.type, tags, difficulty]), [
+      ["multiple-choice", ["geography"], "easy"],
+      ["numeric", [], null],
+    ]);
+    assert.deepEqual(imported.skipped, [{ item: "rivers", message: "orderInteraction items aren't supported." }]);
+  });
+
+  it("refuses a file that isn't a zip", () => {
+    assert.deepEqual(importQtiQuiz(new TextEncoder().encode("<assessmentItem/>")), { error: "The file isn't a zip archive." });
+  });
+});
@@ -0,0 +1,551 @@
+/**
+ * IMS QTI 2.1 content packages: zips of assessmentItem XML files, listed in an
+ * imsmanifest.xml, with an optional assessmentTest setting their order, time
+ * limit and shuffling.
+ *
+ * Items map onto quiz questions by their interaction: a choiceInteraction is a
+ * multiple-choice or (with multiple cardinality) multiple-select question, or
+ * true/false when its only choices are True and False; a textEntryInteraction
+ * or extendedTextInteraction is numeric when its response is a number and a
+ * short answer otherwise. Other interactions, and items with more than one,
+ * are skipped with the reason. Prompts are read as plain text; images and
+ * other media are left out.
+ *
+ * Tags and difficulty travel as LOM keywords and difficulty in the manifest.
+ * QTI has no limit on attempts at a whole test, so a quiz's isn't carried.
+ */
+import { strFromU8, strToU8, unzipSync, zipSync } from "fflate";
+import { DomUtils, parseDocument } from "htmlparser2";
+import path from "node:path/posix";
+import type { QtiSkippedItem } from "@shared/quizzes";
+import {
+  insertBankQuestionSchema,
+  type InsertBankQuestion,
+  type InsertQuiz,
+  type QuestionDifficulty,
+  type Quiz,
+  type QuizQuestion,
+} from "@shared/schema";
+
+type Element = ReturnType<typeof DomUtils.findAll>[number];
+
+// Unpacked XML beyond this is refused, so a small zip can't fill the memory
+const MAX_UNPACKED_BYTES = 50 * 1024 * 1024;
+
+const ITEM_RESOURCE = /^imsqti_item_xmlv2p[0-9]$/;
+const TEST_RESOURCE = /^imsqti_test_xmlv2p[0-9]$/;
+
+const QTI_NAMESPACE = "http://www.imsglobal.org/xsd/imsqti_v2p1";
+const QTI_SCHEMA = `${QTI_NAMESPACE} http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd`;
+
+// LOM difficulty has five steps; ours has three
+const LOM_DIFFICULTY: Record<string, QuestionDifficulty> = {
+  "very easy": "easy",
+  easy: "easy",
+  medium: "medium",
+  difficult: "hard",
+  "very difficult": "hard",
+};
+
+// ---- Reading ----
+
+const localName = (element: Element) => element.name.replace(/^.*:/, "");
+
+function children(element: Element, name?: string): Element[] {
+  return element.children.filter((child): child is Element =>
+    DomUtils.isTag(child) && (name === undefined || localName(child) === name));
+}
+
+function descendants(element: Element | ReturnType<typeof parseDocument>, name: string): Element[] {
+  return DomUtils.findAll((child) => localName(child) === name, element.children);
+}
+
+const childText = (element: Element | undefined) => (element ? DomUtils.textContent(element).trim() : "");
+
+const BLOCK_ELEMENTS = new Set(["p", "div", "li", "blockquote", "pre", "h1", "h2", "h3", "h4", "h5", "h6", "tr", "prompt"]);
+
+/**
+ * The text of an element as a student would read it: paragraphs and line
+ * breaks become new lines. Interactions are skipped, apart from their prompt.
+ */
+function readableText(element: Element): string {
+  let text = "";
+  const walk = (node: Element["children"][number]) => {
+    if (DomUtils.isText(node)) {
+      text += node.data.replace(/\s+/g, " ");
+    } else if (DomUtils.isTag(node)) {
+      const name = localName(node);
+      if (name === "br") {
+        text += "\n";
+      } else if (name.endsWith("Interaction")) {
+        children(node, "prompt").forEach(walk);
+      } else {
+        if (BLOCK_ELEMENTS.has(name)) text += "\n";
+        node.children.forEach(walk);
+        if (BLOCK_ELEMENTS.has(name)) text += "\n";
+      }
+    }
+  };
+  element.children.forEach(walk);
+  return text.split("\n").map((line) => line.trim()).filter(Boolean).join("\n");
+}
+
+function declarationValues(declaration: Element | undefined): string[] {
+  const correct = declaration && children(declaration, "correctResponse")[0];
+  return correct ? children(correct, "value").map(childText) : [];
+}
+
+// Mapped responses worth points, for items scored by a mapping instead of a correct response
+function mappedKeys(declaration: Element | undefined): string[] {
+  const mapping = declaration && children(declaration, "mapping")[0];
+  return mapping
+    ? children(mapping, "mapEntry").filter((entry) => Number(entry.attribs.mappedValue) > 0).map((entry) => entry.attribs.mapKey)
+    : [];
+}
+
+// MAXSCORE if the item declares it, else the score's normal maximum, else the mapping's cap
+function itemPoints(item: Element, declaration: Element | undefined): number {
+  const outcome = (identifier: string) => children(item, "outcomeDeclaration").find((o) => o.attribs.identifier === identifier);
+  const maxScore = outcome("MAXSCORE");
+  const defaultValue = maxScore && descendants(maxScore, "value")[0];
+  const mapping = declaration && children(declaration, "mapping")[0];
+  const points = Number(
+    childText(defaultValue)
+    || outcome("SCORE")?.attribs.normalMaximum
+    || mapping?.attribs.upperBound
+    || 1,
+  );
+  return Number.isFinite(points) && points >= 0 ? Math.round(points) : 1;
+}
+
+/**
+ * Reads an assessmentItem as a quiz question, or says why it can't be. The
+ * question's options keep the item's identifiers.
+ */
+function readItem(xml: string, id: string): { question: QuizQuestion; shuffle: boolean } | { error: string } {
+  const document = parseDocument(xml, { xmlMode: true });
+  const item = descendants(document, "assessmentItem")[0];
+  if (!item) return { error: "Not a QTI assessment item." };
+  const body = children(item, "itemBody")[0];
+  if (!body) return { error: "The item has no body." };
+
+  const interactions = DomUtils.findAll((element) => localName(element).endsWith("Interaction"), body.children);
+  if (interactions.length === 0) return { error: "The item has no interaction." };
+  if (interactions.length > 1) return { error: "Items with more than one interaction aren't supported." };
+
+  const [interaction] = interactions;
+  const declaration = children(item, "responseDeclaration")
+    .find((d) => d.attribs.identifier === interaction.attribs.responseIdentifier);
+  const base = { id, prompt: readableText(body), points: itemPoints(item, declaration) };
+  const correct = declarationValues(declaration);
+  const shuffle = interaction.attribs.shuffle === "true";
+
+  let question: unknown;
+  switch (localName(interaction)) {
+    case "choiceInteraction": {
+      const options = children(interaction, "simpleChoice").map((choice) => ({ id: choice.attribs.identifier, text: readableText(choice) }));
+      const correctIds = correct.length > 0 ? correct : mappedKeys(declaration);
+      if (declaration?.attribs.cardinality === "multiple") {
+        question = { ...base, type: "multiple-select", options, correctOptionIds: correctIds };
+      } else if (options.length === 2 && options.every((option) => /^(true|false)$/i.test(option.text))) {
+        const picked = options.find((option) => option.id === correctIds[0]);
+        question = { ...base, type: "true-false", correct: /^true$/i.test(picked?.text ?? "") };
+      } else {
+        question = { ...base, type: "multiple-choice", options, correctOptionId: correctIds[0] ?? "" };
+      }
+      break;
+    }
+    case "textEntryInteraction":
+    case "extendedTextInteraction": {
+      const baseType = declaration?.attribs.baseType;
+      if (baseType === "float" || baseType === "integer") {
+        if (correct.length === 0) return { error: "The numeric item has no correct response." };
+        const equal = descendants(item, "equal").find((e) => e.attribs.toleranceMode === "absolute");
+        const tolerance = Number(equal?.attribs.tolerance?.trim().split(/\s+/)[0] ?? 0);
+        question = { ...base, type: "numeric", answer: Number(correct[0]), tolerance: Number.isFinite(tolerance) ? Math.abs(tolerance) : 0 };
+      } else {
+        // With no accepted answers, every response goes to the teacher
+        const accepted = Array.from(new Set([...correct, ...mappedKeys(declaration)])).filter(Boolean);
+        question = { ...base, type: "short-answer", acceptedAnswers: accepted };
+      }
+      break;
+    }
+    default:
+      return { error: `${localName(interaction)} items aren't supported.` };
+  }
+
+  // Checked as if the question were added by hand
+  const result = insertBankQuestionSchema.safeParse({ question });
+  return result.success
+    ? { question: result.data.question, shuffle }
+    : { error: result.error.errors[0]?.message ?? "Invalid question." };
+}
+
+type PackageItem = {
+  href: string;
+  identifier: string;
+  tags: string[];
+  difficulty: QuestionDifficulty | null;
+};
+
+type ReadPackage = {
+  files: Record<string, string>;
+  items: PackageItem[];
+  testHref: string | null;
+};
+
+// Keywords and difficulty from a resource's LOM metadata
+function resourceMetadata(resource: Element): Pick<PackageItem, "tags" | "difficulty"> {
+  const tags = descendants(resource, "keyword")
+    .map((keyword) => childText(descendants(keyword, "string")[0] ?? keyword).toLowerCase())
+    .filter(Boolean);
+  const difficulty = descendants(resource, "difficulty")[0];
+  const value = childText(difficulty && (descendants(difficulty, "value")[0] ?? difficulty)).toLowerCase();
+  return { tags: Array.from(new Set(tags)), difficulty: LOM_DIFFICULTY[value] ?? null };
+}
+
+function readPackage(data: Uint8Array): ReadPackage | { error: string } {
+  let unpacked = 0;
+  let tooBig = false;
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = unzipSync(data, {
+      filter: (file) => {
+        if (!file.name.toLowerCase().endsWith(".xml")) return false; // Media isn't imported
+        unpacked += file.originalSize;
+        tooBig ||= unpacked > MAX_UNPACKED_BYTES;
+        return !tooBig;
+      },
+    });
+  } catch {
+    return { error: "The file isn't a zip archive." };
+  }
+  if (tooBig) return { error: "The package is too large to import." };
+
+  const files = Object.fromEntries(Object.entries(entries).map(([name, content]) => [name, strFromU8(content)]));
+  const manifestName = Object.keys(files).find((name) => name.toLowerCase() === "imsmanifest.xml");
+
+  if (!manifestName) {
+    // Not a content package: take any assessment items and test it holds
+    const items: PackageItem[] = [];
+    for (const href of Object.keys(files).sort()) {
+      const item = descendants(parseDocument(files[href], { xmlMode: true }), "assessmentItem")[0];
+      if (item) items.push({ href, identifier: item.attribs.identifier ?? href, tags: [], difficulty: null });
+    }
+    const testHref = Object.keys(files).find((name) => /<(\w+:)?assessmentTest[\s>]/.test(files[name])) ?? null;
+    return items.length > 0 ? { files, items, testHref } : { error: "The package has no imsmanifest.xml or assessment items." };
+  }
+
+  const manifest = parseDocument(files[manifestName], { xmlMode: true });
+  const items: PackageItem[] = [];
+  let testHref: string | null = null;
+  for (const resource of descendants(manifest, "resource")) {
+    const href = resource.attribs.href ? path.normalize(resource.attribs.href) : undefined;
+    if (!href) continue;
+    if (ITEM_RESOURCE.test(resource.attribs.type ?? "")) {
+      items.push({ href, identifier: resource.attribs.identifier ?? href, ...resourceMetadata(resource) });
+    } else if (TEST_RESOURCE.test(resource.attribs.type ?? "")) {
+      testHref ??= href;
+    }
+  }
+  return { files, items, testHref };
+}
+
+// An id that is unique among those already taken, for questions from different items
+function uniqueId(identifier: string, taken: Set<string>): string {
+  let id = identifier;
+  for (let n = 2; taken.has(id); n++) id = `${identifier}-${n}`;
+  taken.add(id);
+  return id;
+}
+
+/**
+ * Reads every assessment item in a package into question bank questions, with
+ * the tags and difficulty of the package's metadata.
+ */
+export function importQtiQuestions(data: Uint8Array): { questions: InsertBankQuestion[]; skipped: QtiSkippedItem[] } | { error: string } {
+  const read = readPackage(data);
+  if ("error" in read) return read;
+
+  const questions: InsertBankQuestion[] = [];
+  const skipped: QtiSkippedItem[] = [];
+  for (const item of read.items) {
+    const xml = read.files[item.href];
+    const result = xml === undefined ? { error: "The item's file is missing from the package." } : readItem(xml, "q");
+    if ("error" in result) {
+      skipped.push({ item: item.identifier, message: result.error });
+    } else {
+      questions.push({ question: result.question, tags: item.tags, difficulty: item.difficulty });
+    }
+  }
+  return { questions, skipped };
+}
+
+/**
+ * Reads a package as a quiz. An assessmentTest sets the question order, time
+ * limit and shuffling; without one the items are taken in manifest
+ * order. Sections that select some of their items at random are skipped, as
+ * quizzes draw at random from question banks instead.
+ */
+export function importQtiQuiz(data: Uint8Array): { quiz: InsertQuiz; skipped: QtiSkippedItem[] } | { error: string } {
+  const read = readPackage(data);
+  if ("error" in read) return read;
+
+  const quiz: InsertQuiz = {
+    timeLimitMinutes: null,
+    maxAttempts: null,
+    shuffleQuestions: false,
+    shuffleOptions: false,
+    questions: [],
+    draws: [],
+  };
+  const skipped: QtiSkippedItem[] = [];
+  let hrefs = read.items.map((item) => item.href);
+
+  const testXml = read.testHref ? read.files[read.testHref] : undefined;
+  if (read.testHref && testXml) {
+    const test = parseDocument(testXml, { xmlMode: true });
+    const testDir = path.dirname(read.testHref);
+    const maxTime = Number(descendants(test, "timeLimits")[0]?.attribs.maxTime);
+    if (maxTime > 0) quiz.timeLimitMinutes = Math.ceil(maxTime / 60);
+    quiz.shuffleQuestions = descendants(test, "ordering").some((ordering) => ordering.attribs.shuffle === "true");
+
+    hrefs = [];
+    for (const section of descendants(test, "assessmentSection")) {
+      const refs = children(section, "assessmentItemRef");
+      if (children(section, "selection").length > 0) {
+        if (refs.length > 0) {
+          skipped.push({
+            item: section.attribs.identifier ?? section.attribs.title ?? "section",
+            message: `This section picks from its ${refs.length} items at random. Import the package into a question bank and draw from it instead.`,
+          });
+        }
+        continue;
+      }
+      hrefs.push(...refs.map((ref) => path.normalize(path.join(testDir, ref.attribs.href ?? ""))));
+    }
+  }
+
+  const taken = new Set<string>();
+  for (const href of hrefs) {
+    const item = read.items.find((i) => i.href === href);
+    const xml = read.files[href];
+    const result = xml === undefined
+      ? { error: "The item's file is missing from the package." }
+      : readItem(xml, uniqueId(item?.identifier ?? path.basename(href, ".xml"), taken));
+    if ("error" in result) {
+      skipped.push({ item: item?.identifier ?? href, message: result.error });
+    } else {
+      quiz.questions.push(result.question);
+      quiz.shuffleOptions ||= result.shuffle;
+    }
+  }
+  return { quiz, skipped };
+}
+
+// ---- Writing ----
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// Identifiers must be XML names
+function qtiIdentifier(id: string): string {
+  const cleaned = id.replace(/[^\w.-]/g, "_");
+  return /^[A-Za-z_]/.test(cleaned) ? cleaned : `_${cleaned}`;
+}
+
+const promptMarkup = (prompt: string) => prompt.split("\n").map(escapeXml).join("<br/>");
+
+// Scores the item's points when the condition holds
+const scoreIf = (condition: string) => `  <responseProcessing>
+    <responseCondition>
+      <responseIf>
+        ${condition}
+        <setOutcomeValue identifier="SCORE"><variable identifier="MAXSCORE"/></setOutcomeValue>
+      </responseIf>
+    </responseCondition>
+  </responseProcessing>`;
+
+const MATCH_CORRECT = `<match><variable identifier="RESPONSE"/><correct identifier="RESPONSE"/></match>`;
+
+function itemXml(identifier: string, question: QuizQuestion, shuffle: boolean): string {
+  const title = question.prompt.split("\n")[0].slice(0, 80);
+  let declaration: string;
+  let body: string;
+  let processing: string;
+
+  switch (question.type) {
+    case "multiple-choice":
+    case "multiple-select":
+    case "true-false": {
+      const options = question.type === "true-false"
+        ? [{ id: "true", text: "True" }, { id: "false", text: "False" }]
+        : question.options;
+      const correct = question.type === "multiple-choice" ? [question.correctOptionId]
+        : question.type === "multiple-select" ? question.correctOptionIds
+        : [question.correct ? "true" : "false"];
+      const cardinality = question.type === "multiple-select" ? "multiple" : "single";
+      declaration = `  <responseDeclaration identifier="RESPONSE" cardinality="${cardinality}" baseType="identifier">
+    <correctResponse>${correct.map((id) => `<value>${qtiIdentifier(id)}</value>`).join("")}</correctResponse>
+  </responseDeclaration>`;
+      body = `    <choiceInteraction responseIdentifier="RESPONSE" shuffle="${shuffle && question.type !== "true-false"}" maxChoices="${cardinality === "multiple" ? 0 : 1}">
+      <prompt>${promptMarkup(question.prompt)}</prompt>
+${options.map((option) => `      <simpleChoice identifier="${qtiIdentifier(option.id)}">${escapeXml(option.text)}</simpleChoice>`).join("\n")}
+    </choiceInteraction>`;
+      processing = scoreIf(MATCH_CORRECT);
+      break;
+    }
+    case "numeric":
+      declaration = `  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="float">
+    <correctResponse><value>${question.answer}</value></correctResponse>
+  </responseDeclaration>`;
+      body = `    <p>${promptMarkup(question.prompt)}</p>
+    <p><textEntryInteraction responseIdentifier="RESPONSE" expectedLength="10"/></p>`;
+      processing = scoreIf(
+        `<equal toleranceMode="absolute" tolerance="${question.tolerance} ${question.tolerance}"><variable identifier="RESPONSE"/><correct identifier="RESPONSE"/></equal>`,
+      );
+      break;
+    case "short-answer":
+      declaration = `  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string">
+${question.acceptedAnswers.length > 0 ? `    <correctResponse><value>${escapeXml(question.acceptedAnswers[0])}</value></correctResponse>
+    <mapping defaultValue="0">
+${question.acceptedAnswers.map((answer) => `      <mapEntry mapKey="${escapeXml(answer)}" mappedValue="1" caseSensitive="false"/>`).join("\n")}
+    </mapping>
+` : ""}  </responseDeclaration>`;
+      body = `    <p>${promptMarkup(question.prompt)}</p>
+    <p><textEntryInteraction responseIdentifier="RESPONSE" expectedLength="30"/></p>`;
+      processing = question.acceptedAnswers.length > 0
+        ? scoreIf(`<gt><mapResponse identifier="RESPONSE"/><baseValue baseType="float">0</baseValue></gt>`)
+        : "  <responseProcessing/>"; // Scored by the teacher
+      break;
+  }
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentItem xmlns="${QTI_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="${QTI_SCHEMA}"
+  identifier="${identifier}" title="${escapeXml(title)}" adaptive="false" timeDependent="false">
+${declaration}
+  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"><defaultValue><value>0</value></defaultValue></outcomeDeclaration>
+  <outcomeDeclaration identifier="MAXSCORE" cardinality="single" baseType="float"><defaultValue><value>${question.points}</value></defaultValue></outcomeDeclaration>
+  <itemBody>
+${body}
+  </itemBody>
+${processing}
+</assessmentItem>
+`;
+}
+
+type ExportItem = {
+  identifier: string;
+  question: QuizQuestion;
+  tags: string[];
+  difficulty: string | null;
+};
+
+function lomMetadata(item: ExportItem): string {
+  if (item.tags.length === 0 && !item.difficulty) return "";
+  const difficulty = item.difficulty === "hard" ? "difficult" : item.difficulty;
+  return `
+      <metadata>
+        <imsmd:lom>${item.tags.length > 0 ? `
+          <imsmd:general>
+${item.tags.map((tag) => `            <imsmd:keyword><imsmd:string>${escapeXml(tag)}</imsmd:string></imsmd:keyword>`).join("\n")}
+          </imsmd:general>` : ""}${difficulty ? `
+          <imsmd:educational>
+            <imsmd:difficulty><imsmd:source>LOMv1.0</imsmd:source><imsmd:value>${difficulty}</imsmd:value></imsmd:difficulty>
+          </imsmd:educational>` : ""}
+        </imsmd:lom>
+      </metadata>`;
+}
+
+function writePackage(items: ExportItem[], testXml: string | null, shuffle: boolean): Uint8Array {
+  const files: Record<string, Uint8Array> = {};
+  const resources: string[] = [];
+  if (testXml) {
+    files["assessment.xml"] = strToU8(testXml);
+    resources.push(`    <resource identifier="TEST" type="imsqti_test_xmlv2p1" href="assessment.xml">
+      <file href="assessment.xml"/>
+${items.map((item) => `      <dependency identifierref="${item.identifier}"/>`).join("\n")}
+    </resource>`);
+  }
+  for (const item of items) {
+    const href = `items/${item.identifier}.xml`;
+    files[href] = strToU8(itemXml(item.identifier, item.question, shuffle));
+    resources.push(`    <resource identifier="${item.identifier}" type="imsqti_item_xmlv2p1" href="${href}">${lomMetadata(item)}
+      <file href="${href}"/>
+    </resource>`);
+  }
+  files["imsmanifest.xml"] = strToU8(`<?xml version="1.0" encoding="UTF-8"?>
+<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" xmlns:imsmd="http://ltsc.ieee.org/xsd/LOM" identifier="MANIFEST">
+  <metadata>
+    <schema>QTIv2.1 Package</schema>
+    <schemaversion>1.0.0</schemaversion>
+  </metadata>
+  <organizations/>
+  <resources>
+${resources.join("\n")}
+  </resources>
+</manifest>
+`);
+  return zipSync(files);
+}
+
+/**
+ * A package of a question bank's questions, with their tags and difficulty.
+ * Each question keeps the points it has in the bank.
+ */
+export function exportQtiQuestions(questions: { id: number; question: QuizQuestion; tags: string[]; difficulty: string | null }[]): Uint8Array {
+  return writePackage(
+    questions.map((q) => ({ identifier: `BANK_${q.id}`, question: q.question, tags: q.tags, difficulty: q.difficulty })),
+    null,
+    false,
+  );
+}
+
+/**
+ * A package of a quiz: its questions and an assessmentTest with its settings.
+ * Each draw from a question bank becomes a section that selects as many of
+ * the bank's matching questions at random, each worth the draw's points.
+ */
+export function exportQtiQuiz(
+  title: string,
+  quiz: Quiz,
+  draws: { title: string; questions: { id: number; question: QuizQuestion; tags: string[]; difficulty: string | null }[]; count: number; points: number }[],
+): Uint8Array {
+  const taken = new Set<string>();
+  const fixed = quiz.questions.map((question) => ({
+    identifier: uniqueId(qtiIdentifier(`ITEM_${question.id}`), taken),
+    question,
+    tags: [],
+    difficulty: null,
+  }));
+  const drawn = draws.map((draw) => draw.questions.map((q) => ({
+    identifier: uniqueId(`BANK_${q.id}`, taken),
+    question: { ...q.question, points: draw.points },
+    tags: q.tags,
+    difficulty: q.difficulty,
+  })));
+
+  const itemRefs = (items: ExportItem[]) =>
+    items.map((item) => `        <assessmentItemRef identifier="REF_${item.identifier}" href="items/${item.identifier}.xml"/>`).join("\n");
+  const sections = [
+    fixed.length > 0 ? `      <assessmentSection identifier="QUESTIONS" title="Questions" visible="true">
+        <ordering shuffle="${quiz.shuffleQuestions}"/>
+${itemRefs(fixed)}
+      </assessmentSection>` : "",
+    ...draws.map((draw, index) => `      <assessmentSection identifier="DRAW_${index + 1}" title="${escapeXml(draw.title)}" visible="true">
+        <selection select="${Math.min(draw.count, drawn[index].length)}"/>
+        <ordering shuffle="true"/>
+${itemRefs(drawn[index])}
+      </assessmentSection>`),
+  ].filter(Boolean);
+
+  const testXml = `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentTest xmlns="${QTI_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="${QTI_SCHEMA}"
+  identifier="QUIZ" title="${escapeXml(title)}">
+${quiz.timeLimitMinutes ? `  <timeLimits maxTime="${quiz.timeLimitMinutes * 60}"/>\n` : ""}  <testPart identifier="PART" navigationMode="nonlinear" submissionMode="simultaneous">
+${sections.join("\n")}
+  </testPart>
+</assessmentTest>
+`;
+  return writePackage([...fixed, ...drawn.flat()], testXml, quiz.shuffleOptions);
+}
@@ -0,0 +1,256 @@
+/**
+ * Reads questions for a question bank from text, in one of three formats:
+ *
+ * csv   A header row naming the columns type, prompt, points, options,
+ *       answer, tags and difficulty, in any order; a row per question. Lists
+ *       within a cell are separated by "|". The answer is the correct option
+ *       (its text, or its letter: A for the first), the correct options for
+ *       multiple-select, true or false, a number optionally followed by
+ *       "|tolerance", or the accepted answers for short-answer.
+ *
+ * aiken Multiple-choice questions: the prompt, options lettered "A." or "A)",
+ *       then "ANSWER: B". "ANSWER: A, C" makes a multiple-select question.
+ *
+ * gift  The common parts of Moodle's GIFT: "prompt {=right ~wrong}",
+ *       "{~%50%a ~%50%b ~c}" for multiple-select, "{T}" / "{F}",
+ *       "{#answer:tolerance}" or "{#min..max}", and "{=one =another}" for
+ *       short answers. "// comments", "::titles::" and "#feedback" are skipped;
+ *       "$CATEGORY: loops" tags the questions after it.
+ *
+ * Every question is worth 1 point unless the CSV says otherwise.
+ */
+import { insertBankQuestionSchema, type InsertBankQuestion } from "@shared/schema";
+import { csvRows } from "@shared/csv";
+import { z } from "zod";
+
+export const importFormatSchema = z.enum(["csv", "aiken", "gift"]);
+export type ImportFormat = z.infer<typeof importFormatSchema>;
+
+// A question that couldn't be read, by the line it starts on
+export type ImportError = { line: number; message: string };
+
+// A question as read, before it is checked against the schema
+type Parsed = { line: number; question?: unknown; tags?: string[]; difficulty?: string | null; error?: string };
+
+const optionId = (index: number) => String.fromCharCode(97 + index); // a, b, c...
+
+function splitList(value: string | undefined): string[] {
+  return (value ?? "").split("|").map((item) => item.trim()).filter(Boolean);
+}
+
+// The option an answer names: by its text, or else by its letter
+function findOption(options: string[], answer: string): number {
+  const byText = options.findIndex((option) => option.toLowerCase() === answer.toLowerCase());
+  if (byText >= 0) return byText;
+  return /^[a-z]$/i.test(answer) ? answer.toUpperCase().charCodeAt(0) - 65 : -1;
+}
+
+function parseCsv(text: string): Parsed[] {
+  const [header, ...rows] = csvRows(text);
+  if (!header) return [];
+  const columns = header.cells.map((cell) => cell.trim().toLowerCase());
+  for (const required of ["type", "prompt", "answer"]) {
+    if (!columns.includes(required)) return [{ line: header.line, error: `The header row needs a "${required}" column.` }];
+  }
+
+  return rows.map(({ line, cells }): Parsed => {
+    const get = (column: string) => {
+      const index = columns.indexOf(column);
+      return index >= 0 ? (cells[index] ?? "").trim() : "";
+    };
+    const base = { id: "q", prompt: get("prompt"), points: get("points") ? Number(get("points")) : 1 };
+    const options = splitList(get("options"));
+    const answer = get("answer");
+    const tags = splitList(get("tags"));
+    const difficulty = get("difficulty").toLowerCase() || null;
+
+    let question: unknown;
+    switch (get("type").toLowerCase()) {
+      case "multiple-choice": {
+        const correct = findOption(options, answer);
+        if (correct < 0 || correct >= options.length) return { line, error: `"${answer}" isn't one of the options.` };
+        question = { ...base, type: "multiple-choice", options: options.map((text, i) => ({ id: optionId(i), text })), correctOptionId: optionId(correct) };
+        break;
+      }
+      case "multiple-select": {
+        const correct = splitList(answer).map((a) => findOption(options, a));
+        if (correct.some((index) => index < 0 || index >= options.length)) return { line, error: "Every answer must be one of the options." };
+        question = { ...base, type: "multiple-select", options: options.map((text, i) => ({ id: optionId(i), text })), correctOptionIds: correct.map(optionId) };
+        break;
+      }
+      case "true-false":
+        if (!/^(true|false|t|f)$/i.test(answer)) return { line, error: "The answer must be true or false." };
+        question = { ...base, type: "true-false", correct: /^t/i.test(answer) };
+        break;
+      case "numeric": {
+        const [value, tolerance = "0"] = splitList(answer);
+        question = { ...base, type: "numeric", answer: Number(value), tolerance: Number(tolerance) };
+        break;
+      }
+      case "short-answer":
+        question = { ...base, type: "short-answer", acceptedAnswers: splitList(answer) };
+        break;
+      default:
+        return { line, error: `Unknown question type "${get("type")}".` };
+    }
+    return { line, question, tags, difficulty };
+  });
+}
+
+// Blocks of lines separated by blank lines, with the line each starts on
+function blocks(text: string): { line: number; lines: string[] }[] {
+  const result: { line: number; lines: string[] }[] = [];
+  let current: { line: number; lines: string[] } | undefined;
+  text.split(/\r?\n/).forEach((raw, index) => {
+    if (!raw.trim()) {
+      current = undefined;
+      return;
+    }
+    if (!current) {
+      current = { line: index + 1, lines: [] };
+      result.push(current);
+    }
+    current.lines.push(raw.trim());
+  });
+  return result;
+}
+
+function parseAiken(text: string): Parsed[] {
+  return blocks(text).map(({ line, lines }): Parsed => {
+    const prompt: string[] = [];
+    const options: string[] = [];
+    let answer: string | undefined;
+    for (const current of lines) {
+      const option = current.match(/^([A-Z])[.)]\s+(.*)$/);
+      const answerLine = current.match(/^ANSWER:\s*(.+)$/i);
+      if (answerLine) answer = answerLine[1];
+      else if (option && option[1] === String.fromCharCode(65 + options.length)) options.push(option[2]);
+      else if (options.length === 0) prompt.push(current);
+      else return { line, error: `Unexpected line after the options: "${current}".` };
+    }
+    if (!answer) return { line, error: "The question needs an ANSWER: line." };
+
+    const correct = answer.split(/[,\s]+/).filter(Boolean).map((letter) => letter.toUpperCase().charCodeAt(0) - 65);
+    if (correct.some((index) => index < 0 || index >= options.length)) return { line, error: `"${answer}" isn't one of the options.` };
+    const base = { id: "q", prompt: prompt.join("\n"), points: 1, options: options.map((text, i) => ({ id: optionId(i), text })) };
+    return {
+      line,
+      question: correct.length === 1
+        ? { ...base, type: "multiple-choice", correctOptionId: optionId(correct[0]) }
+        : { ...base, type: "multiple-select", correctOptionIds: correct.map(optionId) },
+    };
+  });
+}
+
+// GIFT escapes its special characters with a backslash
+const unescapeGift = (text: string) => text.replace(/\\([~=#{}:])/g, "$1").trim();
+
+// Splits an answer block into its "=..." and "~..." entries, skipping escaped markers
+function giftEntries(body: string): { correct: boolean; weight: number | null; text: string }[] {
+  const entries: { correct: boolean; weight: number | null; text: string }[] = [];
+  const pattern = /(^|[^\\])([=~])/g;
+  const starts: { index: number; marker: string }[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(body))) {
+    starts.push({ index: match.index + match[1].length, marker: match[2] });
+  }
+  starts.forEach((start, i) => {
+    let text = body.slice(start.index + 1, starts[i + 1]?.index ?? body.length);
+    text = text.replace(/(^|[^\\])#[\s\S]*$/, "$1"); // Feedback
+    const weight = text.match(/^\s*%(-?\d+(?:\.\d+)?)%/);
+    if (weight) text = text.slice(weight[0].length);
+    entries.push({ correct: start.marker === "=", weight: weight ? Number(weight[1]) : null, text: unescapeGift(text) });
+  });
+  return entries;
+}
+
+function giftQuestion(prompt: string, body: string): unknown | string {
+  const base = { id: "q", prompt, points: 1 };
+  const trimmed = body.trim();
+  if (/^(T|TRUE|F|FALSE)$/i.test(trimmed)) {
+    return { ...base, type: "true-false", correct: /^T/i.test(trimmed) };
+  }
+  if (trimmed.startsWith("#")) {
+    const value = trimmed.slice(1).replace(/(^|[^\\])#[\s\S]*$/, "$1").trim();
+    const range = value.match(/^(-?[\d.]+)\.\.(-?[\d.]+)$/);
+    if (range) {
+      const [min, max] = [Number(range[1]), Number(range[2])];
+      return { ...base, type: "numeric", answer: (min + max) / 2, tolerance: Math.abs(max - min) / 2 };
+    }
+    const [answer, tolerance = "0"] = value.split(":");
+    return { ...base, type: "numeric", answer: Number(answer), tolerance: Number(tolerance) };
+  }
+
+  const entries = giftEntries(trimmed);
+  if (entries.length === 0) return "The answer block is empty.";
+  if (entries.every((entry) => entry.correct)) {
+    return { ...base, type: "short-answer", acceptedAnswers: entries.map((entry) => entry.text) };
+  }
+  const options = entries.map((entry, i) => ({ id: optionId(i), text: entry.text }));
+  const correctIds = entries
+    .map((entry, i) => (entry.correct || (entry.weight ?? 0) > 0 ? optionId(i) : null))
+    .filter((id): id is string => id !== null);
+  return correctIds.length === 1 && entries.some((entry) => entry.correct)
+    ? { ...base, type: "multiple-choice", options, correctOptionId: correctIds[0] }
+    : { ...base, type: "multiple-select", options, correctOptionIds: correctIds };
+}
+
+function parseGift(text: string): Parsed[] {
+  const parsed: Parsed[] = [];
+  let category: string[] = [];
+  for (const { line, lines } of blocks(text)) {
+    const content = lines.filter((l) => !l.startsWith("//"));
+    const categoryLine = content.find((l) => l.startsWith("$CATEGORY:"));
+    if (categoryLine) {
+      // Moodle categories are paths; their last part is the topic
+      category = [categoryLine.slice("$CATEGORY:".length).split("/").pop()!.trim()].filter(Boolean);
+    }
+    const source = content.filter((l) => !l.startsWith("$CATEGORY:")).join("\n").replace(/^::[\s\S]*?::/, "");
+    if (!source.trim()) continue;
+
+    const open = source.search(/(?<!\\)\{/);
+    const close = source.search(/(?<!\\)\}(?![^{]*(?<!\\)\})/);
+    if (open < 0 || close < open) {
+      parsed.push({ line, error: "The question needs an answer block in { }." });
+      continue;
+    }
+    const before = unescapeGift(source.slice(0, open));
+    const after = unescapeGift(source.slice(close + 1));
+    const question = giftQuestion(after ? `${before} _____ ${after}` : before, source.slice(open + 1, close));
+    parsed.push(typeof question === "string" ? { line, error: question } : { line, question, tags: category });
+  }
+  return parsed;
+}
+
+/**
+ * Reads the questions in the text. Defaults apply to every question; the
+ * question's own tags, if any, are added to the default ones. Each question is
+ * checked as it would be if added by hand, and the questions that fail are
+ * listed by line instead.
+ */
+export function parseQuestions(
+  format: ImportFormat,
+  text: string,
+  defaults: { tags: string[]; difficulty: string | null },
+): { questions: InsertBankQuestion[]; errors: ImportError[] } {
+  const parsed = format === "csv" ? parseCsv(text) : format === "aiken" ? parseAiken(text) : parseGift(text);
+  const questions: InsertBankQuestion[] = [];
+  const errors: ImportError[] = [];
+  parsed.forEach((item, index) => {
+    if (item.error) {
+      errors.push({ line: item.line, message: item.error });
+      return;
+    }
+    const result = insertBankQuestionSchema.safeParse({
+      question: { ...(item.question as object), id: `q${index + 1}` },
+      tags: Array.from(new Set([...defaults.tags, ...(item.tags ?? [])])),
+      difficulty: item.difficulty || defaults.difficulty,
+    });
+    if (result.success) {
+      questions.push(result.data);
+    } else {
+      errors.push({ line: item.line, message: result.error.errors[0]?.message ?? "Invalid question." });
+    }
+  });
+  return { questions, errors };
+}
@@ -0,0 +1,173 @@
+/**
+ * The early-warning check: finds students who look at risk in a course under
+ * each rule, and keeps the course's flags in step with what it finds. It runs
+ * every night and whenever a teacher asks.
+ */
+import { hasGrade } from "@shared/gradebook";
+import { courseRiskThresholds, type RiskCheckResult, type RiskRule } from "@shared/risk";
+import type { Course, RiskThresholds } from "@shared/schema";
+import { lastActivity, loadCourseActivity, missingAssignments, type CourseActivityRows } from "./activity";
+import { storage } from "./storage";
+import { log } from "./vite";
+
+export type RiskFinding = { studentId: number; rule: RiskRule; explanation: string };
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Falling grades compare the average of this many latest grades with the ones before
+const RECENT_GRADES = 3;
+
+// Fewer students than this make no class to fall behind
+const MIN_CLASS_SIZE = 3;
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+const average = (values: number[]) => values.reduce((total, value) => total + value, 0) / values.length;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Every rule that applies to a student of the course as of `now`, with why.
+ * Rules whose threshold is null are skipped.
+ */
+export function findRisks(rows: CourseActivityRows, thresholds: RiskThresholds, now: Date): RiskFinding[] {
+  const findings: RiskFinding[] = [];
+  const classMedian = rows.enrollments.length >= MIN_CLASS_SIZE
+    ? median(rows.enrollments.map(e => e.progress))
+    : null;
+
+  for (const enrollment of rows.enrollments) {
+    const { studentId } = enrollment;
+    const submissions = rows.submissions.filter(s => s.studentId === studentId);
+
+    if (thresholds.missingWork !== null) {
+      const missing = missingAssignments(rows, studentId, now);
+      if (missing.length >= thresholds.missingWork) {
+        findings.push({
+          studentId,
+          rule: "missing-work",
+          explanation: `${plural(missing.length, "assignment")} past due and not handed in: ${missing.map(a => a.title).join(", ")}.`,
+        });
+      }
+    }
+
+    if (thresholds.gradeDrop !== null) {
+      // In the order the work was handed in, or graded when it never was
+      const maxPoints = new Map(rows.assignments.map(a => [a.id, a.maxPoints]));
+      const scores = submissions
+        .filter(s => hasGrade(s) && (maxPoints.get(s.assignmentId) ?? 0) > 0)
+        .map(s => ({ at: s.submittedAt ?? s.gradedAt?.toISOString() ?? "", percent: (s.grade! / maxPoints.get(s.assignmentId)!) * 100 }))
+        .sort((a, b) => a.at.localeCompare(b.at))
+        .map(score => score.percent);
+      if (scores.length > RECENT_GRADES) {
+        const earlier = average(scores.slice(0, -RECENT_GRADES));
+        const recent = average(scores.slice(-RECENT_GRADES));
+        if (earlier - recent >= thresholds.gradeDrop) {
+          findings.push({
+            studentId,
+            rule: "falling-grades",
+            explanation: `Averaging ${Math.round(recent)}% on the last ${RECENT_GRADES} graded assignments, down from ${Math.round(earlier)}% before.`,
+          });
+        }
+      }
+    }
+
+    if (thresholds.inactiveDays !== null) {
+      const last = lastActivity(rows, enrollment);
+      if (last !== null) {
+        const lastActive = new Date(last);
+        const days = Math.floor((now.getTime() - lastActive.getTime()) / DAY);
+        if (days >= thresholds.inactiveDays) {
+          findings.push({
+            studentId,
+            rule: "inactive",
+            explanation: `No course activity for ${plural(days, "day")}, since ${lastActive.toISOString().slice(0, 10)}.`,
+          });
+        }
+      }
+    }
+
+    if (thresholds.behindClass !== null && classMedian !== null && classMedian - enrollment.progress >= thresholds.behindClass) {
+      findings.push({
+        studentId,
+        rule: "behind-class",
+        explanation: `${enrollment.progress}% through the course, against a class median of ${Math.round(classMedian)}%.`,
+      });
+    }
+  }
+  return findings;
+}
+
+/**
+ * Checks one course and brings its flags up to date: new findings raise a
+ * flag, flags still found get the latest explanation (a dismissed flag stays
+ * dismissed), and flags no longer found are cleared.
+ */
+export async function checkCourseRisks(course: Course, now = new Date()): Promise<Omit<RiskCheckResult, "courses">> {
+  const [rows, flags] = await Promise.all([
+    loadCourseActivity(course.id),
+    storage.getRiskFlagsByCourse(course.id),
+  ]);
+  const findings = findRisks(rows, courseRiskThresholds(course), now);
+
+  const key = (flag: { studentId: number; rule: string }) => `${flag.studentId}:${flag.rule}`;
+  const standing = new Map(flags.filter(f => f.status !== "cleared").map(f => [key(f), f]));
+  let raised = 0;
+  let cleared = 0;
+
+  for (const finding of findings) {
+    const flag = standing.get(key(finding));
+    standing.delete(key(finding));
+    if (flag) {
+      await storage.updateRiskFlag(flag.id, { explanation: finding.explanation, checkedAt: now });
+    } else {
+      await storage.createRiskFlag({ courseId: course.id, ...finding });
+      raised++;
+    }
+  }
+  for (const flag of Array.from(standing.values())) {
+    await storage.updateRiskFlag(flag.id, { status: "cleared", checkedAt: now }, { action: "cleared" });
+    cleared++;
+  }
+  return { raised, cleared };
+}
+
+export async function checkRisks(courses: Course[]): Promise<RiskCheckResult> {
+  const result: RiskCheckResult = { courses: courses.length, raised: 0, cleared: 0 };
+  for (const course of courses) {
+    const { raised, cleared } = await checkCourseRisks(course);
+    result.raised += raised;
+    result.cleared += cleared;
+  }
+  return result;
+}
+
+// The nightly check runs at this hour, server time
+const RISK_CHECK_HOUR = Number(process.env.RISK_CHECK_HOUR || 2);
+
+/**
+ * Checks every course each night at RISK_CHECK_HOUR. The timer doesn't keep
+ * the process alive.
+ */
+export function scheduleRiskChecks() {
+  const run = async () => {
+    try {
+      const result = await checkRisks(await storage.getAllCourses());
+      log(`risk check: ${result.raised} flags raised, ${result.cleared} cleared in ${result.courses} courses`);
+    } catch (error) {
+      console.error("Error checking for at-risk students:", error);
+    }
+  };
+
+  const next = new Date();
+  next.setHours(RISK_CHECK_HOUR, 0, 0, 0);
+  if (next.getTime() <= Date.now()) next.setDate(next.getDate() + 1);
+  setTimeout(() => {
+    run();
+    setInterval(run, DAY).unref();
+  }, next.getTime() - Date.now()).unref();
+}
@@ -0,0 +1,509 @@
+/**
+ * The API on memory storage: the errors storage reports come back with the
+ * right status, and each role only gets to do what it should. Run with
+ * STORAGE=memory, as `npm test` does.
+ */
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import express from "express";
+import { registerRoutes } from "./routes";
+import { setupSession } from "./session";
+import { storage } from "./storage";
+import { hashPassword } from "./password";
+import { addDays } from "@shared/analytics";
+import { MIN_CLASS_AVERAGE_STUDENTS } from "@shared/progress";
+import { insertQuizSchema, type Assignment, type Content, type Course, type User } from "@shared/schema";
+
+const PASSWORD = "correct horse battery";
+const DAY = 24 * 60 * 60 * 1000;
+
+let server: Server;
+let baseUrl: string;
+
+// A signed-in user's requests, carrying their session cookie
+type Client = (method: string, path: string, body?: unknown) => Promise<{ status: number; body: any }>;
+
+async function signIn(username: string): Promise<Client> {
+  const login = await fetch(`${baseUrl}/api/auth/login`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ username, password: PASSWORD }),
+  });
+  assert.equal(login.status, 200, `${username} signs in`);
+  const cookie = login.headers.get("set-cookie")!.split(";")[0];
+  return request(cookie);
+}
+
+// Bodies go as JSON, except forms, which fetch sends as multipart
+function request(cookie?: string): Client {
+  return async (method, path, body) => {
+    const isForm = body instanceof FormData;
+    const res = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        ...(cookie && { Cookie: cookie }),
+        ...(body !== undefined && !isForm && { "Content-Type": "application/json" }),
+      },
+      body: body === undefined ? undefined : isForm ? body : JSON.stringify(body),
+    });
+    return { status: res.status, body: await res.json().catch(() => null) };
+  };
+}
+
+async function createUser(username: string, role: "teacher" | "student"): Promise<User> {
+  return storage.createUser({ username, password: await hashPassword(PASSWORD), role, name: username });
+}
+
+// Each suite's own teacher, enrolled student and course, so suites run alone or in any order
+interface Classroom {
+  teacher: User;
+  student: User;
+  course: Course;
+}
+
+async function openClassroom(name: string): Promise<Classroom> {
+  const teacher = await createUser(`${name}-teacher`, "teacher");
+  const student = await createUser(`${name}-student`, "student");
+  const course = await storage.createCourse({ title: name, teacherId: teacher.id, status: "active" });
+  await storage.enrollStudentInCourse(student.id, course.id);
+  return { teacher, student, course };
+}
+
+before(async () => {
+  assert.equal(process.env.STORAGE, "memory", "the API tests run on memory storage");
+
+  const app = express();
+  app.use(express.json());
+  await setupSession(app);
+  server = await registerRoutes(app);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+describe("enrolling", () => {
+  let student: User;
+  let active: Course;
+  let draft: Course;
+
+  before(async () => {
+    const teacher = await createUser("enrolling-teacher", "teacher");
+    student = await createUser("enrolling-student", "student");
+    active = await storage.createCourse({ title: "Active", teacherId: teacher.id, status: "active" });
+    draft = await storage.createCourse({ title: "Draft", teacherId: teacher.id, status: "draft" });
+  });
+
+  it("enrolls a student in an active course once", async () => {
+    const asStudent = await signIn(student.username);
+    const first = await asStudent("POST", `/api/courses/${active.id}/enroll`);
+    assert.equal(first.status, 201);
+    assert.equal(first.body.courseId, active.id);
+    assert.equal(first.body.studentId, student.id);
+
+    const again = await asStudent("POST", `/api/courses/${active.id}/enroll`);
+    assert.equal(again.status, 409);
+    assert.equal(again.body.message, "Student is already enrolled in this course.");
+  });
+
+  it("enrolls through /api/enrollments with the same checks", async () => {
+    const teacher = await createUser("enrolling-other-teacher", "teacher");
+    const elective = await storage.createCourse({ title: "Elective", teacherId: teacher.id, status: "active" });
+    const asStudent = await signIn(student.username);
+
+    const enrolled = await asStudent("POST", "/api/enrollments", { courseId: elective.id, progress: 100 });
+    assert.equal(enrolled.status, 201);
+    assert.equal(enrolled.body.studentId, student.id);
+    assert.equal(enrolled.body.progress, 0); // Worked out from the student's work, not taken from the request
+    assert.equal((await storage.getCourse(elective.id))?.enrollmentCount, 1);
+
+    const again = await asStudent("POST", "/api/enrollments", { courseId: elective.id });
+    assert.equal(again.status, 409);
+    const inDraft = await asStudent("POST", "/api/enrollments", { courseId: draft.id });
+    assert.equal(inDraft.status, 404);
+    assert.equal(inDraft.body.message, "Course is not active and cannot be enrolled in.");
+  });
+
+  it("refuses courses that aren't open for enrollment", async () => {
+    const asStudent = await signIn(student.username);
+    const inDraft = await asStudent("POST", `/api/courses/${draft.id}/enroll`);
+    assert.equal(inDraft.status, 404);
+    assert.equal(inDraft.body.message, "Course is not active and cannot be enrolled in.");
+
+    const missing = await asStudent("POST", "/api/courses/9999/enroll");
+    assert.equal(missing.status, 404);
+    assert.equal(missing.body.message, "Course not found.");
+  });
+});
+
+describe("course settings", () => {
+  let room: Classroom;
+
+  before(async () => {
+    room = await openClassroom("course-settings");
+  });
+
+  it("leave the grade scale and risk thresholds to their own routes", async () => {
+    const asTeacher = await signIn(room.teacher.username);
+    const updated = await asTeacher("PUT", `/api/courses/${room.course.id}`, {
+      title: "Renamed",
+      riskThresholds: { gradeBelow: "low" },
+      gradeScale: "A to F",
+    });
+    assert.equal(updated.status, 200);
+
+    const course = await storage.getCourse(room.course.id);
+    assert.equal(course?.title, "Renamed");
+    assert.deepEqual(course?.riskThresholds, room.course.riskThresholds);
+    assert.deepEqual(course?.gradeScale, room.course.gradeScale);
+  });
+});
+
+describe("submitting", () => {
+  let room: Classroom;
+  let essay: Assignment;
+
+  before(async () => {
+    room = await openClassroom("submitting");
+    await createUser("submitting-outsider", "student");
+    essay = await storage.createAssignment({ title: "Essay", courseId: room.course.id, teacherId: room.teacher.id, maxPoints: 10 });
+  });
+
+  it("takes work from enrolled students only", async () => {
+    const outsider = await signIn("submitting-outsider");
+    const refused = await outsider("POST", `/api/assignments/${essay.id}/submit`, { content: "Not mine to hand in" });
+    assert.equal(refused.status, 403);
+    assert.equal(refused.body.message, "Student not enrolled in the course for this assignment.");
+
+    const asStudent = await signIn(room.student.username);
+    const submitted = await asStudent("POST", `/api/assignments/${essay.id}/submit`, { content: "My essay" });
+    assert.equal(submitted.status, 201);
+    assert.equal(submitted.body.status, "submitted");
+    assert.equal(submitted.body.studentId, room.student.id);
+  });
+
+  it("reports a missing assignment and a passed lock date", async () => {
+    const asStudent = await signIn(room.student.username);
+    const missing = await asStudent("POST", "/api/assignments/9999/submit", { content: "Lost" });
+    assert.equal(missing.status, 404);
+
+    const locked = await storage.createAssignment({
+      title: "Closed",
+      courseId: room.course.id,
+      teacherId: room.teacher.id,
+      dueDate: new Date(Date.now() - 2 * DAY),
+      lockDate: new Date(Date.now() - DAY),
+    });
+    const late = await asStudent("POST", `/api/assignments/${locked.id}/submit`, { content: "Too late" });
+    assert.equal(late.status, 403);
+    assert.equal(late.body.message, "The deadline for this assignment has passed.");
+  });
+
+  it("refuses to resubmit work through another assignment once its own has locked", async () => {
+    const closing = await storage.createAssignment({
+      title: "Closing",
+      courseId: room.course.id,
+      teacherId: room.teacher.id,
+      latePolicy: "reject",
+      dueDate: new Date(Date.now() + DAY),
+    });
+    const open = await storage.createAssignment({ title: "Open", courseId: room.course.id, teacherId: room.teacher.id });
+    const asStudent = await signIn(room.student.username);
+    const handedIn = await asStudent("POST", `/api/assignments/${closing.id}/submit`, { content: "On time" });
+    assert.equal(handedIn.status, 201);
+    await storage.updateAssignment(closing.id, { dueDate: new Date(Date.now() - 2 * DAY), lockDate: new Date(Date.now() - DAY) });
+
+    const direct = await asStudent("POST", `/api/assignments/${closing.id}/submit`, { content: "Late", submissionId: handedIn.body.id });
+    assert.equal(direct.status, 403);
+    const sideways = await asStudent("POST", `/api/assignments/${open.id}/submit`, { content: "Late", submissionId: handedIn.body.id });
+    assert.equal(sideways.status, 400);
+    assert.equal(sideways.body.message, "This submission belongs to a different assignment.");
+
+    const kept = await storage.getSubmission(handedIn.body.id);
+    assert.equal(kept?.content, "On time");
+    assert.equal(kept?.status, "submitted");
+  });
+
+  it("leaves an auto-graded quiz submission to the quiz grader", async () => {
+    const quiz = await storage.createAssignment({ title: "Quiz", type: "quiz", courseId: room.course.id, teacherId: room.teacher.id });
+    await storage.saveQuiz(quiz.id, insertQuizSchema.parse({
+      questions: [{ id: "q1", type: "true-false", prompt: "1 + 1 = 2", points: 1, correct: true }],
+    }));
+    const attempt = await storage.startQuizAttempt(quiz.id, room.student.id);
+    assert.ok(!("error" in attempt));
+    await storage.submitQuizAttempt(attempt.id, { q1: true });
+    const graded = await storage.getSubmissionByAssignmentAndStudent(quiz.id, room.student.id);
+    assert.ok(graded);
+
+    const essay = await storage.createAssignment({ title: "Essay", courseId: room.course.id, teacherId: room.teacher.id });
+    const asStudent = await signIn(room.student.username);
+    const overwritten = await asStudent("POST", `/api/assignments/${essay.id}/submit`, { content: "Full marks please", submissionId: graded.id });
+    assert.equal(overwritten.status, 400);
+    assert.equal(overwritten.body.message, "This submission belongs to a different assignment.");
+    assert.deepEqual(await storage.getSubmission(graded.id), graded);
+  });
+
+  it("keeps files to the limits of the assignment they're handed in for", async () => {
+    const report = await storage.createAssignment({
+      title: "Report",
+      courseId: room.course.id,
+      teacherId: room.teacher.id,
+      allowedFileTypes: [".pdf"],
+    });
+    const notes = await storage.createAssignment({ title: "Notes", courseId: room.course.id, teacherId: room.teacher.id });
+    const asStudent = await signIn(room.student.username);
+    const handedIn = await asStudent("POST", `/api/assignments/${report.id}/submit`, { content: "Draft report" });
+    assert.equal(handedIn.status, 201);
+
+    const form = new FormData();
+    form.append("submissionId", String(handedIn.body.id));
+    form.append("files", new Blob(["not a pdf"], { type: "text/plain" }), "report.txt");
+    const smuggled = await asStudent("POST", `/api/assignments/${notes.id}/submit`, form);
+    assert.equal(smuggled.status, 400);
+    assert.equal(smuggled.body.message, "This submission belongs to a different assignment.");
+    assert.deepEqual(await storage.getUploadsBySubmission(handedIn.body.id), []);
+  });
+});
+
+describe("extensions", () => {
+  let room: Classroom;
+
+  before(async () => {
+    room = await openClassroom("extensions");
+  });
+
+  it("keep the assignment's lock date unless given their own", async () => {
+    const project = await storage.createAssignment({
+      title: "Project",
+      courseId: room.course.id,
+      teacherId: room.teacher.id,
+      dueDate: new Date(Date.now() - DAY),
+      lockDate: new Date(Date.now() + 5 * DAY),
+    });
+    const asTeacher = await signIn(room.teacher.username);
+    const url = `/api/assignments/${project.id}/extensions/${room.student.id}`;
+
+    const tooLate = await asTeacher("PUT", url, { dueDate: new Date(Date.now() + 7 * DAY).toISOString() });
+    assert.equal(tooLate.status, 400);
+    assert.equal(tooLate.body.message, "The assignment locks before this due date, so the extension needs a later lock date.");
+
+    const granted = await asTeacher("PUT", url, { dueDate: new Date(Date.now() + DAY).toISOString() });
+    assert.equal(granted.status, 200);
+
+    const asStudent = await signIn(room.student.username);
+    const listed = await asStudent("GET", `/api/courses/${room.course.id}/assignments`);
+    const extended = listed.body.find((a: Assignment) => a.id === project.id);
+    assert.equal(extended.extended, true);
+    assert.equal(extended.deadlineStatus, "open");
+    assert.equal(new Date(extended.lockDate).getTime(), project.lockDate!.getTime());
+  });
+});
+
+describe("gradebook import", () => {
+  let room: Classroom;
+
+  before(async () => {
+    room = await openClassroom("gradebook-import");
+  });
+
+  it("records imported grades and the student's progress with them", async () => {
+    const { teacher, student, course } = room;
+    const lab = await storage.createAssignment({ title: "Lab", courseId: course.id, teacherId: teacher.id, maxPoints: 10 });
+    const progress = async () => (await storage.getEnrollmentsByStudent(student.id)).find(e => e.courseId === course.id)!.progress;
+    const was = await progress();
+
+    const asTeacher = await signIn(teacher.username);
+    const imported = await asTeacher("POST", `/api/courses/${course.id}/gradebook/import`, {
+      csv: `Username,Lab (${lab.id})\n${student.username},6\n`,
+      apply: true,
+    });
+    assert.equal(imported.status, 200);
+    assert.deepEqual(imported.body.problems, []);
+    assert.equal(imported.body.changes.length, 1);
+
+    const submission = await storage.getSubmissionByAssignmentAndStudent(lab.id, student.id);
+    assert.equal(submission?.grade, 6);
+    assert.ok(await progress() > was);
+  });
+});
+
+// A lesson and a homework, so each piece of work done is half the course
+async function lessonAndHomework({ teacher, course }: Classroom) {
+  const lesson = await storage.createContent({ title: "Welcome", type: "lesson", courseId: course.id, teacherId: teacher.id, content: "<p>Hello</p>" });
+  const homework = await storage.createAssignment({ title: "Homework", courseId: course.id, teacherId: teacher.id, maxPoints: 10 });
+  return { lesson, homework };
+}
+
+// The student hands the homework in and their teacher grades it, both through the API
+async function handInAndGrade({ teacher, student }: Classroom, homework: Assignment) {
+  const asStudent = await signIn(student.username);
+  const handedIn = await asStudent("POST", `/api/assignments/${homework.id}/submit`, { content: "Done" });
+  assert.equal(handedIn.status, 201);
+  const asTeacher = await signIn(teacher.username);
+  const graded = await asTeacher("PUT", `/api/submissions/${handedIn.body.id}/grade`, { grade: 8, feedback: null });
+  assert.equal(graded.status, 200);
+}
+
+// Works through the lesson and homework, reading the progress `shown` after each step
+async function workThroughCourse(room: Classroom, lesson: Content, homework: Assignment, shown: () => Promise<number>) {
+  assert.equal(await shown(), 0);
+
+  const asStudent = await signIn(room.student.username);
+  assert.equal((await asStudent("POST", `/api/content/${lesson.id}/complete`, {})).status, 200);
+  assert.equal(await shown(), 50);
+
+  await handInAndGrade(room, homework);
+  assert.equal(await shown(), 100);
+}
+
+describe("roster", () => {
+  let room: Classroom;
+  let lesson: Content;
+  let homework: Assignment;
+
+  before(async () => {
+    room = await openClassroom("roster");
+    ({ lesson, homework } = await lessonAndHomework(room));
+  });
+
+  it("shows progress as the student's work is done and graded", async () => {
+    const { teacher, student, course } = room;
+    const asTeacher = await signIn(teacher.username);
+    await workThroughCourse(room, lesson, homework, async () => {
+      const roster = await asTeacher("GET", "/api/students");
+      assert.equal(roster.status, 200);
+      return roster.body.find((entry: any) => entry.student.id === student.id && entry.course.id === course.id).progress;
+    });
+  });
+});
+
+describe("progress page", () => {
+  // The student's entry for the course on their progress page, with the page's timeline
+  async function progressPage({ student, course }: Classroom) {
+    const asStudent = await signIn(student.username);
+    const page = await asStudent("GET", "/api/me/progress");
+    assert.equal(page.status, 200);
+    return { entry: page.body.courses.find((c: any) => c.course.id === course.id), timeline: page.body.timeline };
+  }
+
+  it("follows the student's work, ending the completion series at their progress", async () => {
+    const room = await openClassroom("progress-page");
+    const { lesson, homework } = await lessonAndHomework(room);
+    await workThroughCourse(room, lesson, homework, async () => {
+      const { entry } = await progressPage(room);
+      assert.equal(entry.completion[entry.completion.length - 1].percent, entry.progress);
+      const enrollment = (await storage.getEnrollmentsByStudent(room.student.id)).find(e => e.courseId === room.course.id)!;
+      assert.equal(enrollment.progress, entry.progress);
+      return entry.progress;
+    });
+  });
+
+  it("charts each day since enrolling, with what's due next and what happened to the work", async () => {
+    const room = await openClassroom("progress-page-timeline");
+    const { teacher, student, course } = room;
+    const { homework } = await lessonAndHomework(room);
+    const enrollment = (await storage.getEnrollmentsByStudent(student.id)).find(e => e.courseId === course.id)!;
+    const today = new Date().toISOString().slice(0, 10);
+    await storage.updateEnrollment(enrollment.id, { enrolledAt: new Date(Date.now() - 2 * DAY).toISOString() });
+    await handInAndGrade(room, homework);
+
+    const project = await storage.createAssignment({
+      title: "Project",
+      courseId: course.id,
+      teacherId: teacher.id,
+      dueDate: new Date(Date.now() + 3 * DAY),
+    });
+    const extendedTo = new Date(Date.now() + 5 * DAY);
+    await storage.setExtension({ assignmentId: project.id, studentId: student.id, dueDate: extendedTo, grantedBy: teacher.id });
+
+    const { entry, timeline } = await progressPage(room);
+    assert.deepEqual(entry.completion, [
+      { date: addDays(today, -2), percent: 0 },
+      { date: addDays(today, -1), percent: 0 },
+      { date: today, percent: 33 }, // The homework, of a lesson, the homework and the project
+    ]);
+    assert.deepEqual(entry.upcoming, [
+      { assignmentId: project.id, title: "Project", dueDate: extendedTo.toISOString(), extended: true, handedIn: false },
+    ]);
+    const events = timeline.filter((event: any) => event.course.id === course.id);
+    assert.deepEqual(events.map((event: any) => event.kind), ["graded", "submitted"]);
+    assert.equal(events[0].grade, 8);
+    assert.equal(events[1].version, 1);
+    assert.equal(events[1].daysLate, 0);
+  });
+
+  it("shows the class average only once enough students are graded", async () => {
+    const room = await openClassroom("progress-page-average");
+    const { teacher, student, course } = room;
+    const { homework } = await lessonAndHomework(room);
+    const classmates: User[] = [];
+    for (let i = 1; i < MIN_CLASS_AVERAGE_STUDENTS; i++) {
+      const classmate = await createUser(`progress-page-average-classmate-${i}`, "student");
+      await storage.enrollStudentInCourse(classmate.id, course.id);
+      classmates.push(classmate);
+    }
+
+    await storage.recordGrade(homework.id, student.id, teacher.id, 8);
+    for (const classmate of classmates.slice(1)) await storage.recordGrade(homework.id, classmate.id, teacher.id, 5);
+    const tooFew = (await progressPage(room)).entry.grades.find((g: any) => g.assignmentId === homework.id);
+    assert.equal(tooFew.percent, 80);
+    assert.equal(tooFew.classAverage, null);
+
+    await storage.recordGrade(homework.id, classmates[0].id, teacher.id, 5);
+    const enough = (await progressPage(room)).entry.grades.find((g: any) => g.assignmentId === homework.id);
+    assert.equal(enough.classAverage, Math.round(((80 + 50 * classmates.length) / MIN_CLASS_AVERAGE_STUDENTS) * 10) / 10);
+  });
+});
+
+describe("role checks", () => {
+  let room: Classroom;
+  let essay: Assignment;
+
+  before(async () => {
+    room = await openClassroom("role-checks");
+    await createUser("role-checks-other-teacher", "teacher");
+    essay = await storage.createAssignment({ title: "Essay", courseId: room.course.id, teacherId: room.teacher.id, maxPoints: 10 });
+    const submission = await storage.createOrUpdateSubmission(essay.id, room.student.id, { content: "My essay", files: [], keepFileIds: [] });
+    assert.ok(!("error" in submission));
+  });
+
+  it("needs a signed-in user", async () => {
+    const anonymous = request();
+    assert.equal((await anonymous("GET", "/api/courses")).status, 401);
+    assert.equal((await anonymous("POST", `/api/courses/${room.course.id}/enroll`)).status, 401);
+  });
+
+  it("keeps teachers from acting as students", async () => {
+    const asTeacher = await signIn(room.teacher.username);
+    assert.equal((await asTeacher("POST", `/api/courses/${room.course.id}/enroll`)).status, 403);
+    assert.equal((await asTeacher("POST", `/api/assignments/${essay.id}/submit`, { content: "Hi" })).status, 403);
+  });
+
+  it("keeps students from acting as teachers", async () => {
+    const asStudent = await signIn(room.student.username);
+    assert.equal((await asStudent("POST", "/api/courses", { title: "Mine now" })).status, 403);
+
+    const submission = await storage.getSubmissionByAssignmentAndStudent(essay.id, room.student.id);
+    assert.ok(submission);
+    const graded = await asStudent("PUT", `/api/submissions/${submission.id}/grade`, { grade: 10, feedback: null });
+    assert.equal(graded.status, 403);
+  });
+
+  it("lets only a course's own teacher grade its work", async () => {
+    const submission = await storage.getSubmissionByAssignmentAndStudent(essay.id, room.student.id);
+    assert.ok(submission);
+
+    const otherTeacher = await signIn("role-checks-other-teacher");
+    const refused = await otherTeacher("PUT", `/api/submissions/${submission.id}/grade`, { grade: 7, feedback: null });
+    assert.equal(refused.status, 403);
+    assert.equal(refused.body.message, "Access denied. You are not the teacher of this course.");
+
+    const asTeacher = await signIn(room.teacher.username);
+    const graded = await asTeacher("PUT", `/api/submissions/${submission.id}/grade`, { grade: 7, feedback: "Good start" });
+    assert.equal(graded.status, 200);
+    assert.equal(graded.body.grade, 7);
+    assert.equal(graded.body.status, "graded");
+  });
+});
@@ -1,14 +1,95 @@
-import type { Express, Request } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, type SubmittedWork } from "./storage";
+import { rubricMaxPoints } from "@shared/rubrics";
+import { withDeadline } from "@shared/deadlines";
 import {
-  insertUserSchema,
+  ANALYTICS_DEFAULT_DAYS,
+  ANALYTICS_MAX_DAYS,
+  METRICS_TREND_DAYS,
+  addDays,
+  datesBetween,
+  type StudentDashboardStats,
+  type TeacherDashboardStats,
+} from "@shared/analytics";
+import {
+  computeCourseGrade,
+  courseGradeScale,
+  gradebookCell,
+  gradedPoints,
+  type Gradebook,
+  type GradebookCell,
+  type GradebookImport,
+  type CourseGrade,
+  type StudentCourseGrades,
+} from "@shared/gradebook";
+import {
+  attemptQuestions,
+  attemptView,
+  isAttemptExpired,
+  matchesDraw,
+  quizMaxPoints,
+  quizQuestionCount,
+  type QuestionBankSummary,
+  type StudentQuiz,
+} from "@shared/quizzes";
+import { ACTIVE_RISK_STATUSES, type RiskFlagWithHistory } from "@shared/risk";
+import type { RosterCourseStanding, RosterEntry, StudentDetail, StudentSubmissionRecord } from "@shared/roster";
+import type { MyProgress } from "@shared/progress";
+import { hashPassword, verifyPassword, needsRehash, DUMMY_PASSWORD_HASH } from "./password";
+import { establishSession, endSession, listUserSessions, revokeOtherSessions } from "./session";
+import { prepareContentBody } from "./sanitize";
+import { getBlobStore } from "./blob-store";
+import { importFormatSchema, parseQuestions } from "./question-import";
+import { exportQtiQuestions, exportQtiQuiz, importQtiQuestions, importQtiQuiz } from "./qti";
+import { gradebookCsv, planGradebookImport } from "./gradebook-csv";
+import { courseAnalytics } from "./analytics";
+import { checkCourseRisks, checkRisks } from "./risk";
+import { lastActivity, loadCourseActivity, missingAssignments, type CourseActivityRows } from "./activity";
+import { courseProgress, progressTimeline } from "./progress";
+import {
+  contentDisposition,
+  discardReceivedFiles,
+  isInlineMimeType,
+  receiveSubmissionFiles,
+  receivePackage,
+  receiveUpload,
+  releaseBlob,
+  storeUploadedFile,
+  submissionMimeType,
+} from "./uploads";
+import {
+  registerUserSchema,
+  changePasswordSchema,
   insertCourseSchema,
+  insertModuleSchema,
   insertContentSchema,
+  courseOutlineSchema,
   insertAssignmentSchema,
   insertSubmissionSchema,
   insertEnrollmentSchema,
+  insertRubricSchema,
+  insertAssignmentExtensionSchema,
+  insertQuizSchema,
+  insertQuestionBankSchema,
+  insertBankQuestionSchema,
+  insertGradeCategorySchema,
+  gradeScaleSchema,
+  riskThresholdsSchema,
+  questionDifficultySchema,
+  questionTagsSchema,
+  quizAnswersSchema,
   selectUserSchema, // Added for profile response
+  type Assignment,
+  type Course,
+  type Enrollment,
+  type GradeCategory,
+  type InsertQuiz,
+  type QuestionBank,
+  type QuizAttempt,
+  type RiskFlag,
+  type Rubric,
+  type StoredFile,
 } from "@shared/schema";
 import { z } from "zod";
 
@@ -18,15 +99,150 @@ const updateUserProfileSchema = z.object({
   avatar: z.string().url("Invalid URL format").optional(),
 });
 
-// Schema for submitting/updating an assignment
+// Schema for submitting/updating an assignment. Sent as JSON, or as multipart
+// form fields alongside files, so numbers may arrive as strings.
 const submissionContentSchema = z.object({
-  content: z.string().min(1, "Submission content cannot be empty."),
-  submissionId: z.number().optional(), // For updating existing submission
+  content: z.string().default(""),
+  submissionId: z.coerce.number().int().optional(), // For updating existing submission
+  // Previously submitted files to keep; a single form field arrives as a plain string
+  keepFileIds: z.preprocess(
+    (value) => value === undefined ? [] : Array.isArray(value) ? value : [value],
+    z.array(z.coerce.number().int()),
+  ),
+});
+
+// Schema for creating/updating a module; courseId comes from the URL and order from the outline
+const moduleDetailsSchema = insertModuleSchema
+  .omit({ courseId: true, order: true })
+  .extend({
+    title: z.string().min(1, "Module title cannot be empty."),
+    unlockAt: z.string().datetime({ offset: true, message: "Unlock date must be an ISO timestamp." }).nullable().optional(),
+  });
+
+// Schema for editing a content item; it can't be moved to another course or teacher
+const updateContentSchema = insertContentSchema.omit({ courseId: true, teacherId: true }).partial();
+
+// Schema for marking a content item complete, or incomplete again
+const markCompleteSchema = z.object({
+  completed: z.boolean().default(true),
+});
+
+// Uploaded files to attach to a content item or assignment, replacing any attached before
+const attachmentIdsSchema = z.object({
+  attachmentIds: z.array(z.number().int()).optional(),
+});
+
+// Schema for a teacher's grade: points, or a level per criterion for rubric-graded
+// assignments. Upper bounds and rubric levels are checked in storage.
+const gradeSubmissionSchema = z.object({
+  grade: z.number().int().min(0).optional(),
+  rubricScores: z.record(z.string()).optional(),
+  feedback: z.string().trim().transform(feedback => feedback || null).nullable().default(null),
+});
+
+// Schema for editing a rubric; it stays in its course
+const updateRubricSchema = insertRubricSchema.pick({ title: true, description: true, criteria: true });
+
+const copyRubricSchema = z.object({
+  courseId: z.number().int(),
+});
+
+// Schema for granting a student an extension; the assignment and student come from the URL
+const extensionSchema = insertAssignmentExtensionSchema.pick({ dueDate: true, lockDate: true });
+
+// A quiz may come with a new assignment; quiz assignments need one
+const newQuizSchema = z.object({
+  quiz: insertQuizSchema.optional(),
+});
+
+const quizAnswersBodySchema = z.object({
+  answers: quizAnswersSchema,
+});
+
+const submitQuizAttemptSchema = z.object({
+  answers: quizAnswersSchema.optional(), // Omitted to submit the answers saved so far
+});
+
+// Schema for renaming a question bank; it stays in its course
+const updateQuestionBankSchema = insertQuestionBankSchema.pick({ title: true, description: true });
+
+// Schema for importing questions into a bank; the tags and difficulty apply to every question
+const importQuestionsSchema = z.object({
+  format: importFormatSchema,
+  text: z.string().min(1, "Paste or upload some questions."),
+  tags: questionTagsSchema,
+  difficulty: questionDifficultySchema.nullable().default(null),
+});
+
+// Schema for a teacher's review of a quiz attempt: points per short-answer question id
+const reviewQuizAttemptSchema = z.object({
+  scores: z.record(z.number().int().min(0)),
+  feedback: z.string().trim().transform(feedback => feedback || null).nullable().default(null),
+});
+
+// Schema for editing a grade category; it stays in its course
+const updateGradeCategorySchema = insertGradeCategorySchema.pick({ title: true, weight: true, dropLowest: true });
+
+// A course's letter grades; null goes back to the default scale
+const gradeScaleBodySchema = z.object({
+  scale: gradeScaleSchema.nullable(),
+});
+
+// Moves an assignment into a gradebook category, or out of them all with null
+const assignmentCategorySchema = z.object({
+  categoryId: z.number().int().nullable(),
+});
+
+// A score typed into the gradebook, before any late penalty
+const gradebookGradeSchema = z.object({
+  grade: z.number().int().min(0),
+});
+
+// A gradebook spreadsheet to preview, or to apply once the changes look right
+const gradebookImportSchema = z.object({
+  csv: z.string().min(1, "Choose or paste a CSV file."),
+  apply: z.boolean().default(false),
+});
+
+// A YYYY-MM-DD date that exists on the calendar
+const calendarDateSchema = z.string().refine(
+  date => /^\d{4}-\d{2}-\d{2}$/.test(date) && !isNaN(Date.parse(date)) && new Date(date).toISOString().startsWith(date),
+  "Dates must be written YYYY-MM-DD.",
+);
+
+// The days course analytics cover, both included; by default the 30 up to today
+const analyticsRangeSchema = z.object({
+  from: calendarDateSchema.optional(),
+  to: calendarDateSchema.optional(),
+});
+
+// Which of a teacher's risk flags to list; by default only those still open or followed up
+const riskFlagQuerySchema = z.object({
+  courseId: z.coerce.number().int().optional(),
+  status: z.enum(["active", "all"]).default("active"),
+});
+
+// Checks one of the teacher's courses for at-risk students, or all of them
+const riskCheckSchema = z.object({
+  courseId: z.number().int().optional(),
+});
+
+// A course's early-warning thresholds; null goes back to the defaults
+const riskThresholdsBodySchema = z.object({
+  thresholds: riskThresholdsSchema.nullable(),
+});
+
+// The teacher following up on a flag, dismissing it, or taking it up again
+const riskFlagActionSchema = z.object({
+  action: z.enum(["acted", "dismissed", "reopened"]),
+  note: z.string().trim().max(2000).nullable().default(null),
+}).refine(({ action, note }) => action !== "acted" || !!note, {
+  message: "Describe how you followed up.",
+  path: ["note"],
 });
 
-// Extend Express Request type to include session
+// Extend Express Request type with the user loaded by requireAuth
 interface AuthenticatedRequest extends Request {
-  session: any;
   user?: any;
 }
 
@@ -35,6 +251,424 @@ const loginSchema = z.object({
   password: z.string().min(1),
 });
 
+/**
+ * Loads the course named by :courseId if the signed-in user is its teacher.
+ * Otherwise sends the appropriate error response and returns undefined.
+ */
+async function loadOwnedCourse(req: AuthenticatedRequest, res: Response): Promise<Course | undefined> {
+  const courseId = parseInt(req.params.courseId, 10);
+  if (isNaN(courseId)) {
+    res.status(400).json({ message: "Invalid course ID." });
+    return undefined;
+  }
+
+  const course = await storage.getCourse(courseId);
+  if (!course) {
+    res.status(404).json({ message: "Course not found." });
+    return undefined;
+  }
+  if (req.user.role !== "teacher" || course.teacherId !== req.user.id) {
+    res.status(403).json({ message: "You are not authorized to manage this course." });
+    return undefined;
+  }
+  return course;
+}
+
+/**
+ * Loads the assignment named by :assignmentId if the signed-in user is the
+ * teacher who set it. Otherwise sends the appropriate error response and
+ * returns undefined.
+ */
+async function loadOwnedAssignment(req: AuthenticatedRequest, res: Response): Promise<Assignment | undefined> {
+  const assignmentId = parseInt(req.params.assignmentId, 10);
+  if (isNaN(assignmentId)) {
+    res.status(400).json({ message: "Invalid assignment ID." });
+    return undefined;
+  }
+
+  const assignment = await storage.getAssignment(assignmentId);
+  if (!assignment) {
+    res.status(404).json({ message: "Assignment not found." });
+    return undefined;
+  }
+  if (req.user.role !== "teacher" || assignment.teacherId !== req.user.id) {
+    res.status(403).json({ message: "You are not authorized to manage this assignment." });
+    return undefined;
+  }
+  return assignment;
+}
+
+/**
+ * Loads the quiz attempt named by :attemptId if it is the signed-in student's
+ * own. Otherwise sends the appropriate error response and returns undefined.
+ */
+async function loadOwnQuizAttempt(req: AuthenticatedRequest, res: Response): Promise<QuizAttempt | undefined> {
+  const attemptId = parseInt(req.params.attemptId, 10);
+  if (isNaN(attemptId)) {
+    res.status(400).json({ message: "Invalid attempt ID." });
+    return undefined;
+  }
+
+  const attempt = await storage.getQuizAttempt(attemptId);
+  if (!attempt || attempt.studentId !== req.user.id) {
+    res.status(404).json({ message: "Quiz attempt not found." });
+    return undefined;
+  }
+  return attempt;
+}
+
+// A lock date before the due date would close the assignment before it is due
+function checkLockDate(dueDate: Date | null | undefined, lockDate: Date | null | undefined): string | undefined {
+  if (dueDate && lockDate && lockDate < dueDate) {
+    return "The lock date can't be before the due date.";
+  }
+}
+
+/**
+ * Checks that uploads can be attached to an item that is about to be created:
+ * they must be in its course and not attached to anything yet. Returns an
+ * error message, or undefined.
+ */
+async function checkNewAttachments(courseId: number, uploadIds: number[]): Promise<string | undefined> {
+  for (const id of uploadIds) {
+    const upload = await storage.getUpload(id);
+    if (!upload || upload.courseId !== courseId || upload.submissionId !== null) {
+      return "Attachment not found in this course.";
+    }
+    if (upload.contentId !== null || upload.assignmentId !== null) {
+      return "Attachment is already attached to another item.";
+    }
+  }
+}
+
+/**
+ * Loads the rubric named by :rubricId if the signed-in user is the teacher who
+ * owns it. Otherwise sends the appropriate error response and returns undefined.
+ */
+async function loadOwnedRubric(req: AuthenticatedRequest, res: Response): Promise<Rubric | undefined> {
+  const rubricId = parseInt(req.params.rubricId, 10);
+  if (isNaN(rubricId)) {
+    res.status(400).json({ message: "Invalid rubric ID." });
+    return undefined;
+  }
+
+  const rubric = await storage.getRubric(rubricId);
+  if (!rubric) {
+    res.status(404).json({ message: "Rubric not found." });
+    return undefined;
+  }
+  if (req.user.role !== "teacher" || rubric.teacherId !== req.user.id) {
+    res.status(403).json({ message: "You are not authorized to manage this rubric." });
+    return undefined;
+  }
+  return rubric;
+}
+
+/**
+ * Loads the question bank named by :bankId if the signed-in user is the teacher
+ * who owns it. Otherwise sends the appropriate error response and returns
+ * undefined.
+ */
+async function loadOwnedQuestionBank(req: AuthenticatedRequest, res: Response): Promise<QuestionBank | undefined> {
+  const bankId = parseInt(req.params.bankId, 10);
+  if (isNaN(bankId)) {
+    res.status(400).json({ message: "Invalid question bank ID." });
+    return undefined;
+  }
+
+  const bank = await storage.getQuestionBank(bankId);
+  if (!bank) {
+    res.status(404).json({ message: "Question bank not found." });
+    return undefined;
+  }
+  if (req.user.role !== "teacher" || bank.teacherId !== req.user.id) {
+    res.status(403).json({ message: "You are not authorized to manage this question bank." });
+    return undefined;
+  }
+  return bank;
+}
+
+/**
+ * Loads the grade category named by :categoryId if the signed-in user teaches
+ * its course. Otherwise sends the appropriate error response and returns
+ * undefined.
+ */
+async function loadOwnedGradeCategory(req: AuthenticatedRequest, res: Response): Promise<GradeCategory | undefined> {
+  const categoryId = parseInt(req.params.categoryId, 10);
+  if (isNaN(categoryId)) {
+    res.status(400).json({ message: "Invalid grade category ID." });
+    return undefined;
+  }
+
+  const category = await storage.getGradeCategory(categoryId);
+  if (!category) {
+    res.status(404).json({ message: "Grade category not found." });
+    return undefined;
+  }
+  const course = await storage.getCourse(category.courseId);
+  if (req.user.role !== "teacher" || course?.teacherId !== req.user.id) {
+    res.status(403).json({ message: "You are not authorized to manage this course." });
+    return undefined;
+  }
+  return category;
+}
+
+/**
+ * Loads the risk flag named by :flagId if the signed-in user teaches its
+ * course. Otherwise sends the appropriate error response and returns
+ * undefined.
+ */
+async function loadOwnedRiskFlag(req: AuthenticatedRequest, res: Response): Promise<{ flag: RiskFlag, course: Course } | undefined> {
+  const flagId = parseInt(req.params.flagId, 10);
+  if (isNaN(flagId)) {
+    res.status(400).json({ message: "Invalid risk flag ID." });
+    return undefined;
+  }
+
+  const flag = await storage.getRiskFlag(flagId);
+  if (!flag) {
+    res.status(404).json({ message: "Risk flag not found." });
+    return undefined;
+  }
+  const course = await storage.getCourse(flag.courseId);
+  if (!course || req.user.role !== "teacher" || course.teacherId !== req.user.id) {
+    res.status(403).json({ message: "You are not authorized to manage this course." });
+    return undefined;
+  }
+  return { flag, course };
+}
+
+// Adds who each flag is about and its history, with the names of the teachers involved
+async function withRiskHistory(flags: RiskFlag[], courses: Course[]): Promise<RiskFlagWithHistory[]> {
+  const events = await storage.getRiskFlagEvents(flags.map(flag => flag.id));
+  const userIds = new Set([...flags.map(flag => flag.studentId), ...events.flatMap(event => event.actorId ?? [])]);
+  const users = new Map<number, { id: number, name: string, username: string }>();
+  for (const id of Array.from(userIds)) {
+    const user = await storage.getUser(id);
+    if (user) users.set(id, { id: user.id, name: user.name, username: user.username });
+  }
+
+  return flags.map(flag => {
+    const course = courses.find(c => c.id === flag.courseId)!;
+    return {
+      ...flag,
+      student: users.get(flag.studentId) ?? { id: flag.studentId, name: "Unknown student", username: "" },
+      course: { id: course.id, title: course.title },
+      events: events
+        .filter(event => event.flagId === flag.id)
+        .map(event => ({ ...event, actorName: event.actorId !== null ? users.get(event.actorId)?.name ?? null : null })),
+    };
+  });
+}
+
+// Returns an error message unless the category is one of the course's; null is no category
+async function checkGradeCategory(courseId: number, categoryId: number | null | undefined): Promise<string | undefined> {
+  if (categoryId == null) return undefined;
+  const category = await storage.getGradeCategory(categoryId);
+  if (!category || category.courseId !== courseId) {
+    return "Grade category not found in this course.";
+  }
+}
+
+// Assignments in gradebook column order: by due date, undated ones last
+function gradebookOrder(assignments: Assignment[]): Assignment[] {
+  return [...assignments].sort((a, b) =>
+    (a.dueDate?.getTime() ?? Infinity) - (b.dueDate?.getTime() ?? Infinity) || a.id - b.id);
+}
+
+/**
+ * Every enrolled student's scores in the course and the grade they add up to,
+ * students in name order.
+ */
+async function courseGradebook(course: Course): Promise<Gradebook> {
+  const [categories, courseAssignments, enrollments] = await Promise.all([
+    storage.getGradeCategoriesByCourse(course.id),
+    storage.getAssignmentsByCourse(course.id),
+    storage.getEnrollmentsByCourse(course.id),
+  ]);
+  const assignments = gradebookOrder(courseAssignments);
+  const scale = courseGradeScale(course);
+
+  const cellsByStudent = new Map<number, Record<number, GradebookCell>>();
+  for (const assignment of assignments) {
+    for (const submission of await storage.getSubmissionsByAssignment(assignment.id)) {
+      const cells = cellsByStudent.get(submission.studentId) ?? {};
+      cells[assignment.id] = gradebookCell(submission);
+      cellsByStudent.set(submission.studentId, cells);
+    }
+  }
+
+  const rows: Gradebook["rows"] = [];
+  for (const enrollment of enrollments) {
+    const student = await storage.getUser(enrollment.studentId);
+    if (!student) continue;
+    const cells = cellsByStudent.get(student.id) ?? {};
+    rows.push({
+      student: { id: student.id, name: student.name, username: student.username },
+      cells,
+      grade: computeCourseGrade(assignments, categories, gradedPoints(cells), scale),
+    });
+  }
+  rows.sort((a, b) => a.student.name.localeCompare(b.student.name));
+  return { course, scale, categories, assignments, rows };
+}
+
+// One student's scores and grade in a course, with the deadlines that apply to them
+async function studentCourseGrades(course: Course, studentId: number): Promise<StudentCourseGrades> {
+  const [categories, courseAssignments, studentSubmissions] = await Promise.all([
+    storage.getGradeCategoriesByCourse(course.id),
+    storage.getAssignmentsByCourse(course.id),
+    storage.getSubmissionsByStudent(studentId),
+  ]);
+  const assignments = gradebookOrder(courseAssignments);
+  const scale = courseGradeScale(course);
+
+  const cells: Record<number, GradebookCell> = {};
+  for (const submission of studentSubmissions) {
+    if (assignments.some((assignment) => assignment.id === submission.assignmentId)) {
+      cells[submission.assignmentId] = gradebookCell(submission);
+    }
+  }
+
+  return {
+    course: { id: course.id, title: course.title },
+    scale,
+    categories,
+    assignments: await Promise.all(assignments.map(async (assignment) =>
+      withDeadline(assignment, await storage.getExtension(assignment.id, studentId)))),
+    cells,
+    grade: computeCourseGrade(assignments, categories, gradedPoints(cells), scale),
+  };
+}
+
+// How a student enrolled in the course stands in it, for the roster
+function courseStanding(course: Course, activity: CourseActivityRows, enrollment: Enrollment, grade: CourseGrade, now: Date): RosterCourseStanding {
+  return {
+    course: { id: course.id, title: course.title },
+    enrolledAt: enrollment.enrolledAt,
+    progress: enrollment.progress,
+    lastActivity: lastActivity(activity, enrollment),
+    grade: grade.current,
+    gradeLetter: grade.currentLetter,
+    missing: missingAssignments(activity, enrollment.studentId, now).length,
+  };
+}
+
+// Every student enrolled in the course, as the roster lists them
+async function courseRoster(course: Course, now: Date): Promise<RosterEntry[]> {
+  const [gradebook, activity] = await Promise.all([courseGradebook(course), loadCourseActivity(course.id)]);
+  return gradebook.rows.flatMap(({ student, grade }) => {
+    const enrollment = activity.enrollments.find(e => e.studentId === student.id);
+    return enrollment ? [{ student, ...courseStanding(course, activity, enrollment, grade, now) }] : [];
+  });
+}
+
+/**
+ * A student's standing in each of the teacher's courses they take, and every
+ * submission they made in them. Undefined if they take none.
+ */
+async function studentDetail(teacherId: number, studentId: number, now: Date): Promise<StudentDetail | undefined> {
+  const student = await storage.getUser(studentId);
+  if (!student || student.role !== "student") return undefined;
+
+  const courses: StudentDetail["courses"] = [];
+  const assignments = new Map<number, Assignment>();
+  for (const course of await storage.getCoursesByTeacher(teacherId)) {
+    const activity = await loadCourseActivity(course.id);
+    const enrollment = activity.enrollments.find(e => e.studentId === studentId);
+    if (!enrollment) continue;
+    const { grade } = await studentCourseGrades(course, studentId);
+    courses.push({
+      ...courseStanding(course, activity, enrollment, grade, now),
+      missingAssignments: missingAssignments(activity, studentId, now)
+        .map(({ id, title, dueDate }) => ({ id, title, dueDate })),
+    });
+    for (const assignment of activity.assignments) assignments.set(assignment.id, assignment);
+  }
+  if (courses.length === 0) return undefined;
+
+  const submissions: StudentSubmissionRecord[] = [];
+  for (const submission of await storage.getSubmissionsByStudent(studentId)) {
+    const assignment = assignments.get(submission.assignmentId);
+    if (!assignment || (submission.submittedAt === null && submission.status !== "graded")) continue;
+    const versions = await storage.getSubmissionVersions(submission.id);
+    submissions.push({
+      id: submission.id,
+      status: submission.status,
+      grade: submission.grade,
+      feedback: submission.feedback,
+      submittedAt: submission.submittedAt,
+      gradedAt: submission.gradedAt,
+      daysLate: submission.daysLate,
+      latePenalty: submission.latePenalty,
+      assignment: {
+        id: assignment.id,
+        courseId: assignment.courseId,
+        title: assignment.title,
+        type: assignment.type,
+        maxPoints: assignment.maxPoints,
+        dueDate: assignment.dueDate,
+      },
+      versions: versions.map(v => ({ version: v.version, submittedAt: v.submittedAt, files: v.files.length })),
+    });
+  }
+  // Graded-only work never handed in sorts by when it was graded
+  const sortKey = (record: StudentSubmissionRecord) => record.submittedAt ?? record.gradedAt?.toISOString() ?? "";
+  submissions.sort((a, b) => sortKey(b).localeCompare(sortKey(a)));
+
+  return { student: { id: student.id, name: student.name, username: student.username }, courses, submissions };
+}
+
+
+// Everything on a student's progress page, across the courses they're enrolled in
+async function studentProgress(studentId: number, now: Date): Promise<MyProgress> {
+  const result: MyProgress = { courses: [], timeline: [] };
+  for (const course of await storage.getCoursesByStudent(studentId)) {
+    const [activity, content, { grade }] = await Promise.all([
+      loadCourseActivity(course.id),
+      storage.getContentByCourse(course.id),
+      studentCourseGrades(course, studentId),
+    ]);
+    const enrollment = activity.enrollments.find(e => e.studentId === studentId);
+    if (!enrollment) continue;
+    const rows = { ...activity, assignments: gradebookOrder(activity.assignments) };
+    result.courses.push(courseProgress(course, rows, content.length, enrollment, grade, now));
+
+    const versions = (await Promise.all(rows.submissions
+      .filter(s => s.studentId === studentId)
+      .map(s => storage.getSubmissionVersions(s.id)))).flat();
+    result.timeline.push(...progressTimeline(course, rows, studentId, versions));
+  }
+  result.timeline.sort((a, b) => b.at.localeCompare(a.at));
+  return result;
+}
+
+
+/**
+ * Checks that a quiz's draws can be made: each bank must be in the quiz's
+ * course and hold enough questions matching the draw. Returns an error
+ * message, or undefined.
+ */
+async function checkQuizDraws(courseId: number, quiz: InsertQuiz): Promise<string | undefined> {
+  for (const draw of quiz.draws) {
+    const bank = await storage.getQuestionBank(draw.bankId);
+    if (!bank || bank.courseId !== courseId) {
+      return "Question bank not found in this course.";
+    }
+    const matching = (await storage.getBankQuestions(bank.id)).filter((question) => matchesDraw(question, draw)).length;
+    if (matching < draw.count) {
+      return `"${bank.title}" has only ${matching} matching question${matching === 1 ? "" : "s"} to draw ${draw.count} from.`;
+    }
+  }
+}
+
+// Sends a QTI package as a download
+function sendPackage(res: Response, filename: string, data: Uint8Array) {
+  res.setHeader("Content-Type", "application/zip");
+  res.setHeader("Content-Disposition", contentDisposition(`${filename}.zip`, false));
+  res.send(Buffer.from(data));
+}
+
 /**
  * Registers all API routes for authentication, user management, courses, content, assignments, submissions, enrollments, and dashboard statistics on the provided Express app, and returns an HTTP server instance.
  *
@@ -54,11 +688,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { username, password } = loginSchema.parse(req.body);
       
       const user = await storage.getUserByUsername(username);
-      if (!user || user.password !== password) {
+      // Unknown usernames still pay for a full check so timing doesn't give them away
+      const valid = await verifyPassword(password, user?.password ?? DUMMY_PASSWORD_HASH);
+      if (!user || !valid) {
         return res.status(401).json({ message: "Invalid credentials" });
       }
 
-      req.session.userId = user.id;
+      // Upgrade legacy plain-text or outdated hashes now that we have the password
+      if (needsRehash(user.password)) {
+        await storage.updateUserPassword(user.id, await hashPassword(password));
+      }
+
+      await establishSession(req, user.id);
       const { password: _, ...userWithoutPassword } = user;
       res.json(userWithoutPassword);
     } catch (error) {
@@ -66,10 +707,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/auth/logout", (req: AuthenticatedRequest, res) => {
-    req.session.destroy(() => {
+  app.post("/api/auth/logout", async (req: AuthenticatedRequest, res) => {
+    try {
+      await endSession(req, res);
       res.json({ message: "Logged out" });
-    });
+    } catch (error) {
+      console.error("Error destroying session:", error);
+      res.status(500).json({ message: "Failed to log out" });
+    }
   });
 
   app.get("/api/auth/me", async (req: AuthenticatedRequest, res) => {
@@ -101,10 +746,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
     next();
   };
 
+  app.get("/api/auth/sessions", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const sessions = await listUserSessions(req.user.id, req.sessionID);
+      res.json(sessions);
+    } catch (error) {
+      console.error("Error listing sessions:", error);
+      res.status(500).json({ message: "Failed to fetch sessions" });
+    }
+  });
+
+  // Signs out every other device; the current session stays logged in
+  app.delete("/api/auth/sessions", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const revoked = await revokeOtherSessions(req.user.id, req.sessionID);
+      res.json({ message: "Signed out of other devices", revoked });
+    } catch (error) {
+      console.error("Error revoking sessions:", error);
+      res.status(500).json({ message: "Failed to sign out other devices" });
+    }
+  });
+
   // User routes
   app.post("/api/users/register", async (req, res) => {
     try {
-      const userData = insertUserSchema.parse(req.body);
+      const userData = registerUserSchema.parse(req.body);
       
       // Check if user already exists
       const existingUser = await storage.getUserByUsername(userData.username);
@@ -112,10 +778,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Username already exists" });
       }
 
-      const user = await storage.createUser(userData);
+      const user = await storage.createUser({
+        ...userData,
+        password: await hashPassword(userData.password),
+      });
       const { password: _, ...userWithoutPassword } = user;
       res.status(201).json(userWithoutPassword);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid user data", errors: error.errors });
+      }
       res.status(400).json({ message: "Invalid user data" });
     }
   });
@@ -136,6 +808,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const updatedUser = await storage.updateUser(req.user.id, dataToUpdate);
+      if (!updatedUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
       const { password: _, ...userWithoutPassword } = updatedUser;
       res.json(selectUserSchema.parse(userWithoutPassword));
     } catch (error) {
@@ -146,6 +821,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.put("/api/users/password", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const { currentPassword, newPassword } = changePasswordSchema.parse(req.body);
+
+      if (!(await verifyPassword(currentPassword, req.user.password))) {
+        return res.status(403).json({ message: "Current password is incorrect" });
+      }
+
+      await storage.updateUserPassword(req.user.id, await hashPassword(newPassword));
+      // Anyone holding an old session shouldn't survive a password change
+      await revokeOtherSessions(req.user.id, req.sessionID);
+      res.json({ message: "Password updated" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid password data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update password" });
+    }
+  });
+
   // Course routes
   app.get("/api/courses/available", requireAuth, async (req: AuthenticatedRequest, res) => {
     try {
@@ -160,6 +855,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  const enrollmentErrorStatus = (error: string) => {
+    if (error === "Student is already enrolled in this course.") return 409;
+    if (error === "Course not found." || error === "Course is not active and cannot be enrolled in.") return 404;
+    return 500; // Other errors, like a failed transaction
+  };
+
   app.post("/api/courses/:courseId/enroll", requireAuth, async (req: AuthenticatedRequest, res) => {
     try {
       if (req.user?.role !== "student") {
@@ -173,15 +874,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const result = await storage.enrollStudentInCourse(req.user.id, courseId);
 
       if ('error' in result) {
-        // Check if the error is due to already being enrolled or course not found/active
-        if (result.error === "Student is already enrolled in this course.") {
-            return res.status(409).json({ message: result.error }); // 409 Conflict
-        }
-        if (result.error === "Course not found." || result.error === "Course is not active and cannot be enrolled in.") {
-            return res.status(404).json({ message: result.error }); // 404 Not Found
-        }
-        // For other errors, like transaction failure
-        return res.status(500).json({ message: result.error });
+        return res.status(enrollmentErrorStatus(result.error)).json({ message: result.error });
       }
 
       res.status(201).json(result);
@@ -245,7 +938,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Not authorized to update this course" });
       }
 
-      const updatedCourse = await storage.updateCourse(courseId, req.body);
+      // Grade scales and risk thresholds are validated by their own routes
+      const updates = insertCourseSchema.partial().parse(req.body);
+      const updatedCourse = await storage.updateCourse(courseId, updates);
       res.json(updatedCourse);
     } catch (error) {
       res.status(400).json({ message: "Failed to update course" });
@@ -285,9 +980,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         if (courseDetails.teacherId !== req.user.id) {
           return res.status(403).json({ message: "You are not authorized to view this course's content." });
         }
-        // Fetch content separately for teacher (could be refactored into a storage method too)
-        const courseContentItems = await storage.getContentByCourse(courseId);
-        return res.json({ ...courseDetails, content: courseContentItems });
+        // Fetch modules and content separately for teacher (could be refactored into a storage method too)
+        const [courseModules, courseContentItems] = await Promise.all([
+          storage.getModulesByCourse(courseId),
+          storage.getContentByCourse(courseId),
+        ]);
+        return res.json({ ...courseDetails, modules: courseModules, content: courseContentItems });
 
       } else {
         // Should not happen if roles are properly defined
@@ -300,6 +998,112 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Module routes
+  app.get("/api/courses/:courseId/modules", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const courseId = parseInt(req.params.courseId, 10);
+      if (isNaN(courseId)) {
+        return res.status(400).json({ message: "Invalid course ID." });
+      }
+
+      const course = await storage.getCourse(courseId);
+      if (!course) {
+        return res.status(404).json({ message: "Course not found." });
+      }
+
+      const isOwner = req.user.role === "teacher" && course.teacherId === req.user.id;
+      const isEnrolled = req.user.role === "student"
+        && (await storage.getEnrollmentsByStudent(req.user.id)).some((e) => e.courseId === courseId);
+      if (!isOwner && !isEnrolled) {
+        return res.status(403).json({ message: "You are not authorized to view this course's modules." });
+      }
+
+      res.json(await storage.getModulesByCourse(courseId));
+    } catch (error) {
+      console.error("Error fetching modules:", error);
+      res.status(500).json({ message: "Failed to fetch modules." });
+    }
+  });
+
+  app.post("/api/courses/:courseId/modules", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const course = await loadOwnedCourse(req, res);
+      if (!course) return;
+
+      const details = moduleDetailsSchema.parse(req.body);
+      const existing = await storage.getModulesByCourse(course.id);
+      const module = await storage.createModule({ ...details, courseId: course.id, order: existing.length });
+      res.status(201).json(module);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid module data.", errors: error.errors });
+      }
+      console.error("Error creating module:", error);
+      res.status(500).json({ message: "Failed to create module." });
+    }
+  });
+
+  app.put("/api/courses/:courseId/modules/:moduleId", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const course = await loadOwnedCourse(req, res);
+      if (!course) return;
+
+      const module = await storage.getModule(parseInt(req.params.moduleId, 10));
+      if (!module || module.courseId !== course.id) {
+        return res.status(404).json({ message: "Module not found." });
+      }
+
+      const updates = moduleDetailsSchema.partial().parse(req.body);
+      res.json(await storage.updateModule(module.id, updates));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid module data.", errors: error.errors });
+      }
+      console.error("Error updating module:", error);
+      res.status(500).json({ message: "Failed to update module." });
+    }
+  });
+
+  app.delete("/api/courses/:courseId/modules/:moduleId", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const course = await loadOwnedCourse(req, res);
+      if (!course) return;
+
+      const module = await storage.getModule(parseInt(req.params.moduleId, 10));
+      if (!module || module.courseId !== course.id) {
+        return res.status(404).json({ message: "Module not found." });
+      }
+
+      await storage.deleteModule(module.id);
+      res.json({ message: "Module deleted" });
+    } catch (error) {
+      console.error("Error deleting module:", error);
+      res.status(500).json({ message: "Failed to delete module." });
+    }
+  });
+
+  // Reorders modules and moves content between them in one go
+  app.put("/api/courses/:courseId/outline", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const course = await loadOwnedCourse(req, res);
+      if (!course) return;
+
+      const outline = courseOutlineSchema.parse(req.body);
+      const result = await storage.updateCourseOutline(course.id, outline);
+      if ('error' in result) {
+        // The editor was working from a stale copy of the course
+        return res.status(409).json({ message: result.error });
+      }
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid outline.", errors: error.errors });
+      }
+      console.error("Error updating course outline:", error);
+      res.status(500).json({ message: "Failed to update course outline." });
+    }
+  });
+
   app.post("/api/content", requireAuth, async (req: any, res) => {
     try {
       if (req.user.role !== "teacher") {
@@ -310,8 +1114,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ...req.body,
         teacherId: req.user.id,
       });
+      Object.assign(contentData, prepareContentBody(contentData.type, {
+        content: contentData.content ?? null,
+        markdown: contentData.markdown ?? null,
+      }));
+
+      if (contentData.moduleId != null) {
+        const module = await storage.getModule(contentData.moduleId);
+        if (!module || module.courseId !== contentData.courseId) {
+          return res.status(400).json({ message: "Module does not belong to this course" });
+        }
+      }
+
+      const { attachmentIds = [] } = attachmentIdsSchema.parse(req.body);
+      const attachmentError = await checkNewAttachments(contentData.courseId, attachmentIds);
+      if (attachmentError) {
+        return res.status(400).json({ message: attachmentError });
+      }
 
       const content = await storage.createContent(contentData);
+      if (attachmentIds.length > 0) {
+        await storage.setAttachments(content.courseId, { contentId: content.id }, attachmentIds);
+      }
+      // A new item lowers everyone's completion percentage
+      await storage.recomputeEnrollmentProgress(content.courseId);
       res.status(201).json(content);
     } catch (error) {
       res.status(400).json({ message: "Invalid content data" });
@@ -331,7 +1157,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Not authorized to update this content" });
       }
 
-      const updatedContent = await storage.updateContent(contentId, req.body);
+      const updates = updateContentSchema.parse(req.body);
+      if (updates.moduleId != null) {
+        const module = await storage.getModule(updates.moduleId);
+        if (!module || module.courseId !== content.courseId) {
+          return res.status(400).json({ message: "Module does not belong to this course" });
+        }
+      }
+
+      const { attachmentIds } = attachmentIdsSchema.parse(req.body);
+      if (attachmentIds) {
+        const attached = await storage.setAttachments(content.courseId, { contentId }, attachmentIds);
+        if ('error' in attached) {
+          return res.status(400).json({ message: attached.error });
+        }
+      }
+
+      const type = updates.type ?? content.type;
+      if (updates.content !== undefined || updates.markdown !== undefined || type !== content.type) {
+        // A new body without Markdown means the teacher switched to the rich-text editor.
+        // Unchanged bodies are re-checked too, in case the item switched to an HTML type.
+        Object.assign(updates, prepareContentBody(type, {
+          content: updates.content !== undefined ? updates.content : content.content,
+          markdown: updates.markdown !== undefined
+            ? updates.markdown
+            : updates.content !== undefined ? null : content.markdown,
+        }));
+      }
+
+      const updatedContent = await storage.updateContent(contentId, updates);
       res.json(updatedContent);
     } catch (error) {
       res.status(400).json({ message: "Failed to update content" });
@@ -352,98 +1206,1252 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       await storage.deleteContent(contentId);
+      await storage.recomputeEnrollmentProgress(content.courseId);
       res.json({ message: "Content deleted" });
     } catch (error) {
       res.status(400).json({ message: "Failed to delete content" });
     }
   });
 
-  // Assignment routes
-  app.get("/api/courses/:courseId/assignments", requireAuth, async (req: AuthenticatedRequest, res) => {
+  // Content progress routes (students)
+  app.get("/api/courses/:courseId/content-progress", requireAuth, async (req: AuthenticatedRequest, res) => {
     try {
       const courseId = parseInt(req.params.courseId, 10);
       if (isNaN(courseId)) {
         return res.status(400).json({ message: "Invalid course ID." });
       }
-
-      const assignmentsData = await storage.getAssignmentsForCourse(courseId, req.user.id, req.user.role);
-      if ('error' in assignmentsData) {
-        if (assignmentsData.error === "Course not found.") return res.status(404).json({ message: assignmentsData.error });
-        if (assignmentsData.error === "Teacher not authorized for this course." || assignmentsData.error === "Student not enrolled in this course.") {
-          return res.status(403).json({ message: assignmentsData.error });
-        }
-        return res.status(500).json({ message: assignmentsData.error });
+      if (req.user.role !== "student") {
+        return res.status(403).json({ message: "Only students have content progress." });
       }
-      res.json(assignmentsData);
+
+      res.json(await storage.getContentProgressForStudent(req.user.id, courseId));
     } catch (error) {
-      console.error("Error fetching assignments for course:", error);
-      res.status(500).json({ message: "Failed to fetch assignments." });
+      console.error("Error fetching content progress:", error);
+      res.status(500).json({ message: "Failed to fetch content progress." });
     }
   });
-  
-  // This is the new endpoint for students submitting work
-  app.post("/api/assignments/:assignmentId/submit", requireAuth, async (req: AuthenticatedRequest, res) => {
-    try {
-      if (req.user?.role !== 'student') {
-        return res.status(403).json({ message: "Only students can submit assignments." });
-      }
-      
-      const assignmentId = parseInt(req.params.assignmentId, 10);
-      if (isNaN(assignmentId)) {
-        return res.status(400).json({ message: "Invalid assignment ID." });
-      }
 
-      const { content, submissionId } = submissionContentSchema.parse(req.body);
+  const contentProgressErrorStatus = (error: string) => {
+    if (error === "Content not found.") return 404;
+    if (error === "Student is not enrolled in this course." || error === "This content is not available yet.") return 403;
+    return 500;
+  };
 
-      const submissionResult = await storage.createOrUpdateSubmission(assignmentId, req.user.id, content, submissionId);
+  app.post("/api/content/:id/open", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      if (req.user.role !== "student") {
+        return res.status(403).json({ message: "Only students can open content." });
+      }
+
+      const result = await storage.recordContentOpened(req.user.id, parseInt(req.params.id, 10));
+      if ('error' in result) {
+        return res.status(contentProgressErrorStatus(result.error)).json({ message: result.error });
+      }
+      res.json(result);
+    } catch (error) {
+      console.error("Error recording content open:", error);
+      res.status(500).json({ message: "Failed to record content open." });
+    }
+  });
+
+  app.post("/api/content/:id/complete", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      if (req.user.role !== "student") {
+        return res.status(403).json({ message: "Only students can complete content." });
+      }
+
+      const { completed } = markCompleteSchema.parse(req.body ?? {});
+      const result = await storage.setContentCompleted(req.user.id, parseInt(req.params.id, 10), completed);
+      if ('error' in result) {
+        return res.status(contentProgressErrorStatus(result.error)).json({ message: result.error });
+      }
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request.", errors: error.errors });
+      }
+      console.error("Error marking content complete:", error);
+      res.status(500).json({ message: "Failed to update content progress." });
+    }
+  });
+
+  // Upload routes
+  app.post("/api/courses/:courseId/uploads", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const course = await loadOwnedCourse(req, res);
+      if (!course) return;
+
+      const file = await receiveUpload(req, res);
+      if (!file) return;
+
+      const checksum = await storeUploadedFile(file);
+      const upload = await storage.createUpload({
+        courseId: course.id,
+        uploaderId: req.user.id,
+        filename: file.originalname,
+        mimeType: file.mimetype,
+        size: file.size,
+        checksum,
+      });
+      res.status(201).json(upload);
+    } catch (error) {
+      console.error("Error uploading file:", error);
+      res.status(500).json({ message: "Failed to upload file." });
+    }
+  });
+
+  app.get("/api/courses/:courseId/uploads", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const courseId = parseInt(req.params.courseId, 10);
+      if (isNaN(courseId)) {
+        return res.status(400).json({ message: "Invalid course ID." });
+      }
+
+      if (req.user.role === "student") {
+        const visible = await storage.getUploadsForStudent(courseId, req.user.id);
+        if ('error' in visible) {
+          const status = visible.error === "Course not found." ? 404 : 403;
+          return res.status(status).json({ message: visible.error });
+        }
+        return res.json(visible);
+      }
+
+      const course = await loadOwnedCourse(req, res);
+      if (!course) return;
+      res.json(await storage.getUploadsByCourse(course.id));
+    } catch (error) {
+      console.error("Error fetching uploads:", error);
+      res.status(500).json({ message: "Failed to fetch uploads." });
+    }
+  });
+
+  app.get("/api/uploads/:id/download", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const upload = await storage.getUpload(parseInt(req.params.id, 10));
+      if (!upload) {
+        return res.status(404).json({ message: "File not found." });
+      }
+
+      // Students need an enrollment and an attachment they can currently see,
+      // or to have submitted the file themselves
+      let allowed: boolean;
+      if (req.user.role === "student" && upload.submissionId !== null) {
+        allowed = upload.uploaderId === req.user.id;
+      } else if (req.user.role === "student") {
+        const visible = await storage.getUploadsForStudent(upload.courseId, req.user.id);
+        allowed = !('error' in visible) && visible.some((u) => u.id === upload.id);
+      } else {
+        const course = await storage.getCourse(upload.courseId);
+        allowed = course?.teacherId === req.user.id;
+      }
+      if (!allowed) {
+        return res.status(403).json({ message: "You are not authorized to download this file." });
+      }
+
+      // Single byte ranges let browsers seek in attached videos
+      const ranges = req.range(upload.size);
+      if (ranges === -1) {
+        res.setHeader("Content-Range", `bytes */${upload.size}`);
+        return res.status(416).end();
+      }
+      const range = Array.isArray(ranges) && ranges.type === "bytes" && ranges.length === 1 ? ranges[0] : undefined;
+
+      const body = await getBlobStore().get(upload.checksum, range);
+      if (range) {
+        res.status(206);
+        res.setHeader("Content-Range", `bytes ${range.start}-${range.end}/${upload.size}`);
+      }
+      res.setHeader("Accept-Ranges", "bytes");
+      res.setHeader("Content-Type", upload.mimeType);
+      res.setHeader("Content-Length", range ? range.end - range.start + 1 : upload.size);
+      res.setHeader("Content-Disposition", contentDisposition(upload.filename, isInlineMimeType(upload.mimeType)));
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.setHeader("Cache-Control", "private, max-age=3600");
+      body.on("error", (error) => {
+        console.error("Error streaming file:", error);
+        res.destroy(error);
+      });
+      body.pipe(res);
+    } catch (error) {
+      console.error("Error downloading file:", error);
+      res.status(500).json({ message: "Failed to download file." });
+    }
+  });
+
+  app.delete("/api/uploads/:id", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const upload = await storage.getUpload(parseInt(req.params.id, 10));
+      if (!upload) {
+        return res.status(404).json({ message: "File not found." });
+      }
+
+      const course = await storage.getCourse(upload.courseId);
+      if (req.user.role !== "teacher" || course?.teacherId !== req.user.id) {
+        return res.status(403).json({ message: "You are not authorized to delete this file." });
+      }
+      if (upload.submissionId !== null) {
+        return res.status(403).json({ message: "Submitted files can't be deleted." });
+      }
+
+      await storage.deleteUpload(upload.id);
+      await releaseBlob(upload.checksum);
+      res.json({ message: "File deleted" });
+    } catch (error) {
+      console.error("Error deleting file:", error);
+      res.status(500).json({ message: "Failed to delete file." });
+    }
+  });
+
+  // Assignment routes
+  app.get("/api/courses/:courseId/assignments", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const courseId = parseInt(req.params.courseId, 10);
+      if (isNaN(courseId)) {
+        return res.status(400).json({ message: "Invalid course ID." });
+      }
+
+      const assignmentsData = await storage.getAssignmentsForCourse(courseId, req.user.id, req.user.role);
+      if ('error' in assignmentsData) {
+        if (assignmentsData.error === "Course not found.") return res.status(404).json({ message: assignmentsData.error });
+        if (assignmentsData.error === "Teacher not authorized for this course." || assignmentsData.error === "Student not enrolled in this course.") {
+          return res.status(403).json({ message: assignmentsData.error });
+        }
+        return res.status(500).json({ message: assignmentsData.error });
+      }
+      res.json(assignmentsData);
+    } catch (error) {
+      console.error("Error fetching assignments for course:", error);
+      res.status(500).json({ message: "Failed to fetch assignments." });
+    }
+  });
+  
+  // This is the new endpoint for students submitting work
+  app.post("/api/assignments/:assignmentId/submit", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      if (req.user?.role !== 'student') {
+        return res.status(403).json({ message: "Only students can submit assignments." });
+      }
+      
+      const assignmentId = parseInt(req.params.assignmentId, 10);
+      if (isNaN(assignmentId)) {
+        return res.status(400).json({ message: "Invalid assignment ID." });
+      }
+
+      const assignment = await storage.getAssignment(assignmentId);
+      if (!assignment) {
+        return res.status(404).json({ message: "Assignment not found." });
+      }
+      if (assignment.type === "quiz") {
+        return res.status(400).json({ message: "This assignment is a quiz; take the quiz instead of handing in work." });
+      }
+
+      const received = await receiveSubmissionFiles(req, res, assignment);
+      if (!received) return;
+
+      let storedFiles: StoredFile[] = [];
+      let submissionId: number | undefined;
+      let work: SubmittedWork;
+      try {
+        const body = submissionContentSchema.parse(req.body);
+        if (!body.content.trim() && received.length === 0 && body.keepFileIds.length === 0) {
+          return res.status(400).json({ message: "A submission needs text or at least one file." });
+        }
+        submissionId = body.submissionId;
+
+        // The files were checked against this assignment's limits, so they may only go to its submission
+        if (submissionId !== undefined) {
+          const target = await storage.getSubmission(submissionId);
+          if (!target || target.studentId !== req.user.id) {
+            return res.status(404).json({ message: "Submission to update not found or access denied." });
+          }
+          if (target.assignmentId !== assignmentId) {
+            return res.status(400).json({ message: "This submission belongs to a different assignment." });
+          }
+        }
+
+        for (const file of received) {
+          storedFiles.push({
+            filename: file.originalname,
+            mimeType: submissionMimeType(file.originalname),
+            size: file.size,
+            checksum: await storeUploadedFile(file),
+          });
+        }
+        work = { content: body.content.trim() ? body.content : null, files: storedFiles, keepFileIds: body.keepFileIds };
+      } finally {
+        await discardReceivedFiles(received);
+      }
+
+      const submissionResult = await storage.createOrUpdateSubmission(assignmentId, req.user.id, work, submissionId);
 
       if ('error' in submissionResult) {
+        // Blobs that only this submission would have used
+        for (const file of storedFiles) await releaseBlob(file.checksum);
         if (submissionResult.error.includes("not found")) return res.status(404).json({ message: submissionResult.error });
         if (submissionResult.error.includes("not enrolled")) return res.status(403).json({ message: submissionResult.error });
+        if (submissionResult.error.includes("deadline")) return res.status(403).json({ message: submissionResult.error });
         return res.status(400).json({ message: submissionResult.error }); // Other validation errors from storage
       }
-      res.status(submissionId ? 200 : 201).json(submissionResult); // 200 for update, 201 for create
+
+      // Files dropped from this version still belong to earlier ones, so no blobs are released
+      res.status(submissionId ? 200 : 201).json(submissionResult); // 200 for update, 201 for create
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid submission data.", errors: error.errors });
+      }
+      console.error("Error submitting assignment:", error);
+      res.status(500).json({ message: "Failed to submit assignment." });
+    }
+  });
+
+  // General GET /api/assignments (can be kept for teacher overview or admin, or removed if not needed)
+  app.get("/api/assignments", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      // This route might need more specific logic based on who is accessing it.
+      // For now, let's assume it's for a teacher to see all their assignments.
+      if (req.user.role === "teacher") {
+        const assignments = await storage.getAssignmentsByTeacher(req.user.id);
+        res.json(assignments.map((assignment) => withDeadline(assignment)));
+      } else {
+        // Students should use /api/courses/:courseId/assignments
+        return res.status(403).json({ message: "Access denied. Please use course-specific assignment list." });
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch assignments" });
+    }
+  });
+
+  app.get("/api/assignments/:assignmentId", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const assignment = await storage.getAssignment(parseInt(req.params.assignmentId, 10));
+      if (!assignment) {
+        return res.status(404).json({ message: "Assignment not found." });
+      }
+
+      const isOwner = req.user.role === "teacher" && assignment.teacherId === req.user.id;
+      const isEnrolled = req.user.role === "student"
+        && (await storage.getEnrollmentsByStudent(req.user.id)).some((e) => e.courseId === assignment.courseId);
+      if (!isOwner && !isEnrolled) {
+        return res.status(403).json({ message: "You are not authorized to view this assignment." });
+      }
+
+      // Students see their own deadline, which an extension may have moved
+      const extension = isEnrolled ? await storage.getExtension(assignment.id, req.user.id) : undefined;
+      res.json(withDeadline(assignment, extension));
+    } catch (error) {
+      console.error("Error fetching assignment:", error);
+      res.status(500).json({ message: "Failed to fetch assignment." });
+    }
+  });
+
+  app.post("/api/assignments", requireAuth, async (req: any, res) => {
+    try {
+      if (req.user.role !== "teacher") {
+        return res.status(403).json({ message: "Only teachers can create assignments" });
+      }
+
+      const assignmentData = insertAssignmentSchema.parse({
+        ...req.body,
+        teacherId: req.user.id,
+      });
+
+      const deadlineError = checkLockDate(assignmentData.dueDate, assignmentData.lockDate);
+      if (deadlineError) {
+        return res.status(400).json({ message: deadlineError });
+      }
+      if (assignmentData.latePolicy === "deduct" && !assignmentData.latePenaltyPercent) {
+        return res.status(400).json({ message: "Set the percentage to deduct per day late." });
+      }
+
+      const categoryError = await checkGradeCategory(assignmentData.courseId, assignmentData.categoryId);
+      if (categoryError) {
+        return res.status(400).json({ message: categoryError });
+      }
+
+      const { attachmentIds = [] } = attachmentIdsSchema.parse(req.body);
+      const attachmentError = await checkNewAttachments(assignmentData.courseId, attachmentIds);
+      if (attachmentError) {
+        return res.status(400).json({ message: attachmentError });
+      }
+
+      const { quiz } = newQuizSchema.parse(req.body);
+      if (assignmentData.type === "quiz") {
+        if (!quiz) {
+          return res.status(400).json({ message: "Add the quiz's questions." });
+        }
+        const drawError = await checkQuizDraws(assignmentData.courseId, quiz);
+        if (drawError) {
+          return res.status(400).json({ message: drawError });
+        }
+        assignmentData.rubricId = null; // The quiz's questions decide the points
+        assignmentData.maxPoints = quizMaxPoints(quiz);
+      }
+
+      if (assignmentData.rubricId != null) {
+        const rubric = await storage.getRubric(assignmentData.rubricId);
+        if (!rubric || rubric.courseId !== assignmentData.courseId) {
+          return res.status(400).json({ message: "Rubric not found in this course." });
+        }
+        assignmentData.maxPoints = rubricMaxPoints(rubric.criteria); // The rubric decides the points
+      }
+
+      const assignment = await storage.createAssignment(assignmentData);
+      if (assignmentData.type === "quiz" && quiz) {
+        await storage.saveQuiz(assignment.id, quiz);
+      }
+      if (attachmentIds.length > 0) {
+        await storage.setAttachments(assignment.courseId, { assignmentId: assignment.id }, attachmentIds);
+      }
+      await storage.recomputeEnrollmentProgress(assignment.courseId);
+      res.status(201).json(assignment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid assignment data", errors: error.errors });
+      }
+      res.status(400).json({ message: "Invalid assignment data" });
+    }
+  });
+
+  // Extension routes (teachers)
+  // Every student in the course, with the extension they have on this assignment, if any
+  app.get("/api/assignments/:assignmentId/extensions", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const assignment = await loadOwnedAssignment(req, res);
+      if (!assignment) return;
+
+      const extensions = await storage.getExtensionsByAssignment(assignment.id);
+      const enrollments = await storage.getEnrollmentsByCourse(assignment.courseId);
+      res.json(await Promise.all(enrollments.map(async (enrollment) => {
+        const student = await storage.getUser(enrollment.studentId);
+        return {
+          student: { id: enrollment.studentId, name: student?.name ?? "", username: student?.username ?? "" },
+          extension: extensions.find((extension) => extension.studentId === enrollment.studentId) ?? null,
+        };
+      })));
+    } catch (error) {
+      console.error("Error fetching extensions:", error);
+      res.status(500).json({ message: "Failed to fetch extensions." });
+    }
+  });
+
+  app.put("/api/assignments/:assignmentId/extensions/:studentId", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const assignment = await loadOwnedAssignment(req, res);
+      if (!assignment) return;
+
+      const studentId = parseInt(req.params.studentId, 10);
+      const enrollments = await storage.getEnrollmentsByCourse(assignment.courseId);
+      if (!enrollments.some((enrollment) => enrollment.studentId === studentId)) {
+        return res.status(404).json({ message: "Student not enrolled in this course." });
+      }
+
+      const dates = extensionSchema.parse(req.body);
+      const deadlineError = checkLockDate(dates.dueDate, dates.lockDate);
+      if (deadlineError) {
+        return res.status(400).json({ message: deadlineError });
+      }
+      // Without its own lock date the extension keeps the assignment's
+      if (!dates.lockDate && assignment.lockDate && assignment.lockDate < dates.dueDate) {
+        return res.status(400).json({ message: "The assignment locks before this due date, so the extension needs a later lock date." });
+      }
+
+      const extension = await storage.setExtension({
+        ...dates,
+        assignmentId: assignment.id,
+        studentId,
+        grantedBy: req.user.id,
+      });
+      res.json(extension);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid extension data.", errors: error.errors });
+      }
+      console.error("Error granting extension:", error);
+      res.status(500).json({ message: "Failed to grant extension." });
+    }
+  });
+
+  app.delete("/api/assignments/:assignmentId/extensions/:studentId", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const assignment = await loadOwnedAssignment(req, res);
+      if (!assignment) return;
+
+      const deleted = await storage.deleteExtension(assignment.id, parseInt(req.params.studentId, 10));
+      if (!deleted) {
+        return res.status(404).json({ message: "Extension not found." });
+      }
+      res.json({ message: "Extension removed" });
+    } catch (error) {
+      console.error("Error removing extension:", error);
+      res.status(500).json({ message: "Failed to remove extension." });
+    }
+  });
+
+  // Quiz routes
+  // Teachers get the whole quiz; students get its settings and their own attempts
+  app.get("/api/assignments/:assignmentId/quiz", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const assignment = await storage.getAssignment(parseInt(req.params.assignmentId, 10));
+      const quiz = assignment && await storage.getQuiz(assignment.id);
+      if (!assignment || !quiz) {
+        return res.status(404).json({ message: "Quiz not found." });
+      }
+
+      if (req.user.role === "teacher" && assignment.teacherId === req.user.id) {
+        return res.json(quiz);
+      }
+      const isEnrolled = req.user.role === "student"
+        && (await storage.getEnrollmentsByStudent(req.user.id)).some((e) => e.courseId === assignment.courseId);
+      if (!isEnrolled) {
+        return res.status(403).json({ message: "You are not authorized to view this quiz." });
+      }
+
+      const attempts = await storage.getQuizAttempts(assignment.id, req.user.id);
+      const studentQuiz: StudentQuiz = {
+        timeLimitMinutes: quiz.timeLimitMinutes,
+        maxAttempts: quiz.maxAttempts,
+        questionCount: quizQuestionCount(quiz),
+        maxPoints: quizMaxPoints(quiz),
+        attempts: attempts.map((attempt) => attemptView(quiz, attempt)),
+      };
+      res.json(studentQuiz);
+    } catch (error) {
+      console.error("Error fetching quiz:", error);
+      res.status(500).json({ message: "Failed to fetch quiz." });
+    }
+  });
+
+  app.put("/api/assignments/:assignmentId/quiz", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const assignment = await loadOwnedAssignment(req, res);
+      if (!assignment) return;
+      if (assignment.type !== "quiz") {
+        return res.status(400).json({ message: "This assignment is not a quiz." });
+      }
+
+      const quiz = insertQuizSchema.parse(req.body);
+      const drawError = await checkQuizDraws(assignment.courseId, quiz);
+      if (drawError) {
+        return res.status(400).json({ message: drawError });
+      }
+
+      const result = await storage.saveQuiz(assignment.id, quiz);
+      if ('error' in result) {
+        return res.status(409).json({ message: result.error });
+      }
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid quiz data.", errors: error.errors });
+      }
+      console.error("Error saving quiz:", error);
+      res.status(500).json({ message: "Failed to save quiz." });
+    }
+  });
+
+  // The quiz as a QTI 2.1 package; each draw from a bank becomes a randomly selected section
+  app.get("/api/assignments/:assignmentId/quiz/qti", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const assignment = await loadOwnedAssignment(req, res);
+      if (!assignment) return;
+      const quiz = await storage.getQuiz(assignment.id);
+      if (!quiz) {
+        return res.status(404).json({ message: "Quiz not found." });
+      }
+
+      const draws = await Promise.all(quiz.draws.map(async (draw) => {
+        const bank = await storage.getQuestionBank(draw.bankId);
+        const questions = bank ? await storage.getBankQuestions(bank.id) : [];
+        return {
+          title: bank?.title ?? "Question bank",
+          questions: questions.filter((question) => matchesDraw(question, draw)),
+          count: draw.count,
+          points: draw.points,
+        };
+      }));
+      sendPackage(res, assignment.title, exportQtiQuiz(assignment.title, quiz, draws));
+    } catch (error) {
+      console.error("Error exporting quiz:", error);
+      res.status(500).json({ message: "Failed to export quiz." });
+    }
+  });
+
+  // Reads a QTI 2.1 package into a quiz for the quiz editor; nothing is saved
+  app.post("/api/qti/quiz", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      if (req.user.role !== "teacher") {
+        return res.status(403).json({ message: "Only teachers can import quizzes." });
+      }
+      const file = await receivePackage(req, res);
+      if (!file) return;
+
+      const result = importQtiQuiz(file.buffer);
+      if ("error" in result) {
+        return res.status(400).json({ message: result.error });
+      }
+      if (result.quiz.questions.length === 0) {
+        return res.status(400).json({ message: "No questions could be imported.", skipped: result.skipped });
+      }
+      res.json(result);
+    } catch (error) {
+      console.error("Error importing quiz:", error);
+      res.status(500).json({ message: "Failed to import quiz." });
+    }
+  });
+
+  // A student's attempts, with the questions as they were shown, for the teacher to review
+  app.get("/api/assignments/:assignmentId/quiz/attempts", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const assignment = await loadOwnedAssignment(req, res);
+      if (!assignment) return;
+      const quiz = await storage.getQuiz(assignment.id);
+      if (!quiz) {
+        return res.status(404).json({ message: "Quiz not found." });
+      }
+
+      const studentId = parseInt(String(req.query.studentId), 10);
+      if (isNaN(studentId)) {
+        return res.status(400).json({ message: "Invalid student ID." });
+      }
+      const attempts = await storage.getQuizAttempts(assignment.id, studentId);
+      res.json(attempts.map((attempt) => ({ ...attempt, questions: attemptQuestions(quiz, attempt) })));
+    } catch (error) {
+      console.error("Error fetching quiz attempts:", error);
+      res.status(500).json({ message: "Failed to fetch quiz attempts." });
+    }
+  });
+
+  // Starts an attempt, or resumes the one in progress
+  app.post("/api/assignments/:assignmentId/quiz/attempts", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      if (req.user.role !== "student") {
+        return res.status(403).json({ message: "Only students can take quizzes." });
+      }
+
+      const assignmentId = parseInt(req.params.assignmentId, 10);
+      const result = await storage.startQuizAttempt(assignmentId, req.user.id);
+      if ('error' in result) {
+        return res.status(result.error.includes("not found") ? 404 : 403).json({ message: result.error });
+      }
+      const quiz = await storage.getQuiz(assignmentId);
+      res.status(201).json(attemptView(quiz!, result));
+    } catch (error) {
+      console.error("Error starting quiz attempt:", error);
+      res.status(500).json({ message: "Failed to start quiz." });
+    }
+  });
+
+  app.get("/api/quiz-attempts/:attemptId", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      let attempt = await loadOwnQuizAttempt(req, res);
+      if (!attempt) return;
+
+      // An attempt left open past its time is submitted with the answers saved in time
+      if (!attempt.submittedAt && isAttemptExpired(attempt)) {
+        const result = await storage.submitQuizAttempt(attempt.id);
+        if (!('error' in result)) attempt = result;
+      }
+      const quiz = await storage.getQuiz(attempt.assignmentId);
+      if (!quiz) {
+        return res.status(404).json({ message: "Quiz not found." });
+      }
+      res.json(attemptView(quiz, attempt));
+    } catch (error) {
+      console.error("Error fetching quiz attempt:", error);
+      res.status(500).json({ message: "Failed to fetch quiz attempt." });
+    }
+  });
+
+  // Saves answers as the student goes, so they survive a reload or running out of time
+  app.put("/api/quiz-attempts/:attemptId/answers", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const attempt = await loadOwnQuizAttempt(req, res);
+      if (!attempt) return;
+
+      const { answers } = quizAnswersBodySchema.parse(req.body);
+      const result = await storage.saveQuizAnswers(attempt.id, answers);
+      if ('error' in result) {
+        return res.status(409).json({ message: result.error });
+      }
+      res.json({ message: "Answers saved" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid answers.", errors: error.errors });
+      }
+      console.error("Error saving quiz answers:", error);
+      res.status(500).json({ message: "Failed to save answers." });
+    }
+  });
+
+  app.post("/api/quiz-attempts/:attemptId/submit", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const attempt = await loadOwnQuizAttempt(req, res);
+      if (!attempt) return;
+
+      const { answers } = submitQuizAttemptSchema.parse(req.body);
+      const result = await storage.submitQuizAttempt(attempt.id, answers);
+      if ('error' in result) {
+        return res.status(409).json({ message: result.error });
+      }
+      const quiz = await storage.getQuiz(result.assignmentId);
+      res.json(attemptView(quiz!, result));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid answers.", errors: error.errors });
+      }
+      console.error("Error submitting quiz attempt:", error);
+      res.status(500).json({ message: "Failed to submit quiz." });
+    }
+  });
+
+  // Teachers score the short answers that matched none of the accepted answers
+  app.put("/api/quiz-attempts/:attemptId/review", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      if (req.user.role !== "teacher") {
+        return res.status(403).json({ message: "Only teachers can review quizzes." });
+      }
+
+      const review = reviewQuizAttemptSchema.parse(req.body);
+      const result = await storage.reviewQuizAttempt(parseInt(req.params.attemptId, 10), req.user.id, review);
+      if ('error' in result) {
+        const status = result.error.startsWith("Access denied") ? 403 : result.error.includes("not found") ? 404 : 400;
+        return res.status(status).json({ message: result.error });
+      }
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid review.", errors: error.errors });
+      }
+      console.error("Error reviewing quiz attempt:", error);
+      res.status(500).json({ message: "Failed to save review." });
+    }
+  });
+
+  // Question bank routes (teachers)
+  // The course's banks, with how many questions each holds and the tags in use
+  app.get("/api/courses/:courseId/question-banks", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const course = await loadOwnedCourse(req, res);
+      if (!course) return;
+
+      const banks = await storage.getQuestionBanksByCourse(course.id);
+      const summaries: QuestionBankSummary[] = await Promise.all(banks.map(async (bank) => {
+        const questions = await storage.getBankQuestions(bank.id);
+        const tags = Array.from(new Set(questions.flatMap((question) => question.tags))).sort();
+        return { ...bank, questionCount: questions.length, tags };
+      }));
+      res.json(summaries);
+    } catch (error) {
+      console.error("Error fetching question banks:", error);
+      res.status(500).json({ message: "Failed to fetch question banks." });
+    }
+  });
+
+  app.post("/api/courses/:courseId/question-banks", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const course = await loadOwnedCourse(req, res);
+      if (!course) return;
+
+      const bankData = insertQuestionBankSchema.parse({ ...req.body, courseId: course.id, teacherId: req.user.id });
+      res.status(201).json(await storage.createQuestionBank(bankData));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid question bank data.", errors: error.errors });
+      }
+      console.error("Error creating question bank:", error);
+      res.status(500).json({ message: "Failed to create question bank." });
+    }
+  });
+
+  app.put("/api/question-banks/:bankId", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const bank = await loadOwnedQuestionBank(req, res);
+      if (!bank) return;
+
+      const updated = await storage.updateQuestionBank(bank.id, updateQuestionBankSchema.parse(req.body));
+      if (!updated) {
+        return res.status(404).json({ message: "Question bank not found." });
+      }
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid question bank data.", errors: error.errors });
+      }
+      console.error("Error updating question bank:", error);
+      res.status(500).json({ message: "Failed to update question bank." });
+    }
+  });
+
+  app.delete("/api/question-banks/:bankId", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const bank = await loadOwnedQuestionBank(req, res);
+      if (!bank) return;
+
+      const result = await storage.deleteQuestionBank(bank.id);
+      if (typeof result === "object") {
+        return res.status(409).json({ message: result.error });
+      }
+      res.json({ message: "Question bank deleted" });
+    } catch (error) {
+      console.error("Error deleting question bank:", error);
+      res.status(500).json({ message: "Failed to delete question bank." });
+    }
+  });
+
+  app.get("/api/question-banks/:bankId/questions", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const bank = await loadOwnedQuestionBank(req, res);
+      if (!bank) return;
+      res.json(await storage.getBankQuestions(bank.id));
+    } catch (error) {
+      console.error("Error fetching bank questions:", error);
+      res.status(500).json({ message: "Failed to fetch questions." });
+    }
+  });
+
+  app.post("/api/question-banks/:bankId/questions", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const bank = await loadOwnedQuestionBank(req, res);
+      if (!bank) return;
+
+      const [question] = await storage.addBankQuestions(bank.id, [insertBankQuestionSchema.parse(req.body)]);
+      res.status(201).json(question);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid question.", errors: error.errors });
+      }
+      console.error("Error adding bank question:", error);
+      res.status(500).json({ message: "Failed to add question." });
+    }
+  });
+
+  // Attempts keep copies of the questions drawn for them, so edits only reach later attempts
+  app.put("/api/question-banks/:bankId/questions/:questionId", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const bank = await loadOwnedQuestionBank(req, res);
+      if (!bank) return;
+
+      const question = await storage.getBankQuestion(parseInt(req.params.questionId, 10));
+      if (!question || question.bankId !== bank.id) {
+        return res.status(404).json({ message: "Question not found." });
+      }
+      res.json(await storage.updateBankQuestion(question.id, insertBankQuestionSchema.parse(req.body)));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid question.", errors: error.errors });
+      }
+      console.error("Error updating bank question:", error);
+      res.status(500).json({ message: "Failed to update question." });
+    }
+  });
+
+  app.delete("/api/question-banks/:bankId/questions/:questionId", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const bank = await loadOwnedQuestionBank(req, res);
+      if (!bank) return;
+
+      const question = await storage.getBankQuestion(parseInt(req.params.questionId, 10));
+      if (!question || question.bankId !== bank.id) {
+        return res.status(404).json({ message: "Question not found." });
+      }
+      await storage.deleteBankQuestion(question.id);
+      res.json({ message: "Question deleted" });
+    } catch (error) {
+      console.error("Error deleting bank question:", error);
+      res.status(500).json({ message: "Failed to delete question." });
+    }
+  });
+
+  // Imports questions from CSV, Aiken or GIFT text. Nothing is added unless every question reads.
+  app.post("/api/question-banks/:bankId/import", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const bank = await loadOwnedQuestionBank(req, res);
+      if (!bank) return;
+
+      const { format, text, tags, difficulty } = importQuestionsSchema.parse(req.body);
+      const { questions, errors } = parseQuestions(format, text, { tags, difficulty });
+      if (errors.length > 0) {
+        return res.status(400).json({ message: "Some questions couldn't be read.", errors });
+      }
+      if (questions.length === 0) {
+        return res.status(400).json({ message: "No questions found." });
+      }
+      res.status(201).json(await storage.addBankQuestions(bank.id, questions));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid import data.", errors: error.errors });
+      }
+      console.error("Error importing questions:", error);
+      res.status(500).json({ message: "Failed to import questions." });
+    }
+  });
+
+  // Adds the questions of a QTI 2.1 package; items that can't be read are listed instead
+  app.post("/api/question-banks/:bankId/qti", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const bank = await loadOwnedQuestionBank(req, res);
+      if (!bank) return;
+      const file = await receivePackage(req, res);
+      if (!file) return;
+
+      const result = importQtiQuestions(file.buffer);
+      if ("error" in result) {
+        return res.status(400).json({ message: result.error });
+      }
+      if (result.questions.length === 0) {
+        return res.status(400).json({ message: "No questions could be imported.", skipped: result.skipped });
+      }
+      const imported = await storage.addBankQuestions(bank.id, result.questions);
+      res.status(201).json({ imported, skipped: result.skipped });
+    } catch (error) {
+      console.error("Error importing QTI package:", error);
+      res.status(500).json({ message: "Failed to import questions." });
+    }
+  });
+
+  app.get("/api/question-banks/:bankId/qti", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const bank = await loadOwnedQuestionBank(req, res);
+      if (!bank) return;
+      sendPackage(res, bank.title, exportQtiQuestions(await storage.getBankQuestions(bank.id)));
+    } catch (error) {
+      console.error("Error exporting question bank:", error);
+      res.status(500).json({ message: "Failed to export questions." });
+    }
+  });
+
+  // Rubric routes
+  // All of the teacher's rubrics, across courses, so they can be copied between them
+  app.get("/api/rubrics", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      if (req.user.role !== "teacher") {
+        return res.status(403).json({ message: "Only teachers can list rubrics." });
+      }
+      res.json(await storage.getRubricsByTeacher(req.user.id));
+    } catch (error) {
+      console.error("Error fetching rubrics:", error);
+      res.status(500).json({ message: "Failed to fetch rubrics." });
+    }
+  });
+
+  app.get("/api/rubrics/:rubricId", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const rubric = await storage.getRubric(parseInt(req.params.rubricId, 10));
+      if (!rubric) {
+        return res.status(404).json({ message: "Rubric not found." });
+      }
+
+      // Students see the rubrics of courses they are enrolled in
+      const isOwner = req.user.role === "teacher" && rubric.teacherId === req.user.id;
+      const isEnrolled = req.user.role === "student"
+        && (await storage.getEnrollmentsByStudent(req.user.id)).some((e) => e.courseId === rubric.courseId);
+      if (!isOwner && !isEnrolled) {
+        return res.status(403).json({ message: "You are not authorized to view this rubric." });
+      }
+
+      res.json(rubric);
+    } catch (error) {
+      console.error("Error fetching rubric:", error);
+      res.status(500).json({ message: "Failed to fetch rubric." });
+    }
+  });
+
+  app.post("/api/rubrics", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      if (req.user.role !== "teacher") {
+        return res.status(403).json({ message: "Only teachers can create rubrics." });
+      }
+
+      const rubricData = insertRubricSchema.parse({ ...req.body, teacherId: req.user.id });
+      const course = await storage.getCourse(rubricData.courseId);
+      if (!course || course.teacherId !== req.user.id) {
+        return res.status(403).json({ message: "You are not authorized to manage this course." });
+      }
+
+      res.status(201).json(await storage.createRubric(rubricData));
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid submission data.", errors: error.errors });
+        return res.status(400).json({ message: "Invalid rubric data.", errors: error.errors });
       }
-      console.error("Error submitting assignment:", error);
-      res.status(500).json({ message: "Failed to submit assignment." });
+      console.error("Error creating rubric:", error);
+      res.status(500).json({ message: "Failed to create rubric." });
     }
   });
 
-  // General GET /api/assignments (can be kept for teacher overview or admin, or removed if not needed)
-  app.get("/api/assignments", requireAuth, async (req: AuthenticatedRequest, res) => {
+  app.put("/api/rubrics/:rubricId", requireAuth, async (req: AuthenticatedRequest, res) => {
     try {
-      // This route might need more specific logic based on who is accessing it.
-      // For now, let's assume it's for a teacher to see all their assignments.
-      if (req.user.role === "teacher") {
-        const assignments = await storage.getAssignmentsByTeacher(req.user.id);
-        res.json(assignments);
-      } else {
-        // Students should use /api/courses/:courseId/assignments
-        return res.status(403).json({ message: "Access denied. Please use course-specific assignment list." });
+      const rubric = await loadOwnedRubric(req, res);
+      if (!rubric) return;
+
+      const updates = updateRubricSchema.parse(req.body);
+      const result = await storage.updateRubric(rubric.id, updates);
+      if ('error' in result) {
+        if (result.error.includes("not found")) return res.status(404).json({ message: result.error });
+        return res.status(409).json({ message: result.error });
       }
+      res.json(result);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch assignments" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid rubric data.", errors: error.errors });
+      }
+      console.error("Error updating rubric:", error);
+      res.status(500).json({ message: "Failed to update rubric." });
     }
   });
 
-  app.post("/api/assignments", requireAuth, async (req: any, res) => {
+  app.delete("/api/rubrics/:rubricId", requireAuth, async (req: AuthenticatedRequest, res) => {
     try {
-      if (req.user.role !== "teacher") {
-        return res.status(403).json({ message: "Only teachers can create assignments" });
+      const rubric = await loadOwnedRubric(req, res);
+      if (!rubric) return;
+
+      const result = await storage.deleteRubric(rubric.id);
+      if (typeof result === "object") {
+        return res.status(409).json({ message: result.error });
       }
+      res.json({ message: "Rubric deleted" });
+    } catch (error) {
+      console.error("Error deleting rubric:", error);
+      res.status(500).json({ message: "Failed to delete rubric." });
+    }
+  });
 
-      const assignmentData = insertAssignmentSchema.parse({
-        ...req.body,
+  // Copies a rubric into another of the teacher's courses (or the same one)
+  app.post("/api/rubrics/:rubricId/copy", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const rubric = await loadOwnedRubric(req, res);
+      if (!rubric) return;
+
+      const { courseId } = copyRubricSchema.parse(req.body);
+      const course = await storage.getCourse(courseId);
+      if (!course || course.teacherId !== req.user.id) {
+        return res.status(403).json({ message: "You are not authorized to manage this course." });
+      }
+
+      const copy = await storage.createRubric({
+        courseId,
         teacherId: req.user.id,
+        title: courseId === rubric.courseId ? `${rubric.title} (copy)` : rubric.title,
+        description: rubric.description,
+        criteria: rubric.criteria,
       });
+      res.status(201).json(copy);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid course ID.", errors: error.errors });
+      }
+      console.error("Error copying rubric:", error);
+      res.status(500).json({ message: "Failed to copy rubric." });
+    }
+  });
 
-      const assignment = await storage.createAssignment(assignmentData);
-      res.status(201).json(assignment);
+  // Gradebook routes
+  app.get("/api/courses/:courseId/gradebook", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const course = await loadOwnedCourse(req, res);
+      if (!course) return;
+
+      res.json(await courseGradebook(course));
     } catch (error) {
-      res.status(400).json({ message: "Invalid assignment data" });
+      console.error("Error fetching gradebook:", error);
+      res.status(500).json({ message: "Failed to fetch gradebook." });
+    }
+  });
+
+  app.get("/api/courses/:courseId/gradebook.csv", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const course = await loadOwnedCourse(req, res);
+      if (!course) return;
+
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", contentDisposition(`${course.title} grades.csv`, false));
+      res.send(gradebookCsv(await courseGradebook(course)));
+    } catch (error) {
+      console.error("Error exporting gradebook:", error);
+      res.status(500).json({ message: "Failed to export gradebook." });
+    }
+  });
+
+  // Previews the grade changes in a spreadsheet, or records them with apply: true.
+  // Rows and cells that can't be used are reported and the rest still go through.
+  app.post("/api/courses/:courseId/gradebook/import", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const course = await loadOwnedCourse(req, res);
+      if (!course) return;
+
+      const { csv, apply } = gradebookImportSchema.parse(req.body);
+      const { changes, problems } = planGradebookImport(csv, await courseGradebook(course));
+      const result: GradebookImport = { changes: [], problems, applied: apply };
+      for (const { score, ...change } of changes) {
+        if (apply) {
+          const recorded = await storage.recordGrade(change.assignment.id, change.student.id, req.user.id, score, change.feedback?.to);
+          if ('error' in recorded) {
+            problems.push({ line: change.line, message: `${change.assignment.title}: ${recorded.error}` });
+            continue;
+          }
+        }
+        result.changes.push(change);
+      }
+      problems.sort((a, b) => a.line - b.line);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid gradebook import.", errors: error.errors });
+      }
+      console.error("Error importing gradebook:", error);
+      res.status(500).json({ message: "Failed to import gradebook." });
+    }
+  });
+
+  // A student's scores and grades in every course they're enrolled in
+  app.get("/api/grades", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      if (req.user.role !== "student") {
+        return res.status(403).json({ message: "Only students have grades. Teachers use the gradebook." });
+      }
+
+      const courses = await storage.getCoursesByStudent(req.user.id);
+      res.json(await Promise.all(courses.map((course) => studentCourseGrades(course, req.user.id))));
+    } catch (error) {
+      console.error("Error fetching grades:", error);
+      res.status(500).json({ message: "Failed to fetch grades." });
+    }
+  });
+
+  // The student's own progress page: each course over time, and what happened to their work
+  app.get("/api/me/progress", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      if (req.user.role !== "student") {
+        return res.status(403).json({ message: "Only students have a progress page." });
+      }
+      res.json(await studentProgress(req.user.id, new Date()));
+    } catch (error) {
+      console.error("Error fetching progress:", error);
+      res.status(500).json({ message: "Failed to fetch progress." });
+    }
+  });
+
+  app.get("/api/courses/:courseId/grade-categories", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const course = await loadOwnedCourse(req, res);
+      if (!course) return;
+
+      res.json(await storage.getGradeCategoriesByCourse(course.id));
+    } catch (error) {
+      console.error("Error fetching grade categories:", error);
+      res.status(500).json({ message: "Failed to fetch grade categories." });
+    }
+  });
+
+  app.post("/api/courses/:courseId/grade-categories", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const course = await loadOwnedCourse(req, res);
+      if (!course) return;
+
+      const categoryData = insertGradeCategorySchema.parse({ ...req.body, courseId: course.id });
+      res.status(201).json(await storage.createGradeCategory(categoryData));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid grade category data.", errors: error.errors });
+      }
+      console.error("Error creating grade category:", error);
+      res.status(500).json({ message: "Failed to create grade category." });
+    }
+  });
+
+  app.put("/api/grade-categories/:categoryId", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const category = await loadOwnedGradeCategory(req, res);
+      if (!category) return;
+
+      const updated = await storage.updateGradeCategory(category.id, updateGradeCategorySchema.parse(req.body));
+      if (!updated) {
+        return res.status(404).json({ message: "Grade category not found." });
+      }
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid grade category data.", errors: error.errors });
+      }
+      console.error("Error updating grade category:", error);
+      res.status(500).json({ message: "Failed to update grade category." });
+    }
+  });
+
+  // Its assignments stay in the course, outside any category
+  app.delete("/api/grade-categories/:categoryId", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const category = await loadOwnedGradeCategory(req, res);
+      if (!category) return;
+
+      await storage.deleteGradeCategory(category.id);
+      res.json({ message: "Grade category deleted" });
+    } catch (error) {
+      console.error("Error deleting grade category:", error);
+      res.status(500).json({ message: "Failed to delete grade category." });
+    }
+  });
+
+  app.put("/api/courses/:courseId/grade-scale", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const course = await loadOwnedCourse(req, res);
+      if (!course) return;
+
+      const { scale } = gradeScaleBodySchema.parse(req.body);
+      res.json(await storage.updateCourse(course.id, { gradeScale: scale }));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid grading scale.", errors: error.errors });
+      }
+      console.error("Error updating grading scale:", error);
+      res.status(500).json({ message: "Failed to update grading scale." });
+    }
+  });
+
+  app.put("/api/assignments/:assignmentId/category", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const assignment = await loadOwnedAssignment(req, res);
+      if (!assignment) return;
+
+      const { categoryId } = assignmentCategorySchema.parse(req.body);
+      const categoryError = await checkGradeCategory(assignment.courseId, categoryId);
+      if (categoryError) {
+        return res.status(400).json({ message: categoryError });
+      }
+      res.json(await storage.updateAssignment(assignment.id, { categoryId }));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid grade category.", errors: error.errors });
+      }
+      console.error("Error moving assignment to a grade category:", error);
+      res.status(500).json({ message: "Failed to update the assignment's category." });
+    }
+  });
+
+  // A score typed into the gradebook. Students who handed nothing in get an empty submission to hold it.
+  app.put("/api/assignments/:assignmentId/grades/:studentId", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const assignment = await loadOwnedAssignment(req, res);
+      if (!assignment) return;
+
+      const studentId = parseInt(req.params.studentId, 10);
+      if (isNaN(studentId)) {
+        return res.status(400).json({ message: "Invalid student ID." });
+      }
+
+      const { grade } = gradebookGradeSchema.parse(req.body);
+      const result = await storage.recordGrade(assignment.id, studentId, req.user.id, grade);
+      if ('error' in result) {
+        if (result.error.includes("not found")) return res.status(404).json({ message: result.error });
+        if (result.error.includes("Access denied")) return res.status(403).json({ message: result.error });
+        return res.status(400).json({ message: result.error });
+      }
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid grade data.", errors: error.errors });
+      }
+      console.error("Error recording grade:", error);
+      res.status(500).json({ message: "Failed to record grade." });
     }
   });
 
@@ -462,7 +2470,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       if (req.user?.role === "teacher" && assignment.teacherId === req.user.id) {
         const submissions = await storage.getSubmissionsByAssignment(assignmentId);
-        res.json(submissions);
+        // Who handed each one in, for the grading queue
+        res.json(await Promise.all(submissions.map(async (submission) => {
+          const student = await storage.getUser(submission.studentId);
+          return { ...submission, student: student ? { id: student.id, name: student.name, username: student.username } : undefined };
+        })));
       } else if (req.user?.role === 'student') {
         // Students should use GET /api/submissions/:submissionId for their specific submission,
         // or GET /api/courses/:courseId/assignments to see their submission status.
@@ -490,6 +2502,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
             if (submissionDetails.error.includes("Access denied")) return res.status(403).json({ message: submissionDetails.error });
             return res.status(500).json({ message: submissionDetails.error });
         }
+        if (submissionDetails.student) {
+          const { password: _, ...studentWithoutPassword } = submissionDetails.student;
+          return res.json({ ...submissionDetails, student: studentWithoutPassword });
+        }
         res.json(submissionDetails);
     } catch (error) {
         console.error("Error fetching submission details:", error);
@@ -497,6 +2513,56 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.put("/api/submissions/:submissionId/grade", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      if (req.user.role !== "teacher") {
+        return res.status(403).json({ message: "Only teachers can grade submissions." });
+      }
+
+      const submissionId = parseInt(req.params.submissionId, 10);
+      if (isNaN(submissionId)) {
+        return res.status(400).json({ message: "Invalid submission ID." });
+      }
+
+      const grade = gradeSubmissionSchema.parse(req.body);
+      const result = await storage.gradeSubmission(submissionId, req.user.id, grade);
+      if ('error' in result) {
+        if (result.error.includes("not found")) return res.status(404).json({ message: result.error });
+        if (result.error.includes("Access denied")) return res.status(403).json({ message: result.error });
+        return res.status(400).json({ message: result.error });
+      }
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid grade data.", errors: error.errors });
+      }
+      console.error("Error grading submission:", error);
+      res.status(500).json({ message: "Failed to grade submission." });
+    }
+  });
+
+  // Every version of a submission, oldest first, for whoever may see the submission
+  app.get("/api/submissions/:submissionId/versions", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const submissionId = parseInt(req.params.submissionId, 10);
+      if (isNaN(submissionId)) {
+        return res.status(400).json({ message: "Invalid submission ID." });
+      }
+
+      const submissionDetails = await storage.getSubmissionDetails(submissionId, req.user.id, req.user.role);
+      if ('error' in submissionDetails) {
+        if (submissionDetails.error.includes("not found")) return res.status(404).json({ message: submissionDetails.error });
+        if (submissionDetails.error.includes("Access denied")) return res.status(403).json({ message: submissionDetails.error });
+        return res.status(500).json({ message: submissionDetails.error });
+      }
+
+      res.json(await storage.getSubmissionVersions(submissionId));
+    } catch (error) {
+      console.error("Error fetching submission versions:", error);
+      res.status(500).json({ message: "Failed to fetch submission versions." });
+    }
+  });
+
   // This existing POST /api/submissions can be deprecated or refactored if /api/assignments/:assignmentId/submit covers all student submission cases.
   // For now, I'll leave it but note that the new endpoint is preferred for student submissions.
   app.post("/api/submissions", requireAuth, async (req: any, res) => {
@@ -520,7 +2586,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Assignment already submitted" });
       }
 
-      const submission = await storage.createSubmission(submissionData);
+      const submission = await storage.createOrUpdateSubmission(submissionData.assignmentId, req.user.id, {
+        content: submissionData.content ?? null,
+        files: [],
+        keepFileIds: [],
+      });
+      if ('error' in submission) {
+        return res.status(400).json({ message: submission.error });
+      }
       res.status(201).json(submission);
     } catch (error) {
       res.status(400).json({ message: "Invalid submission data" });
@@ -528,104 +2601,235 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Enrollment routes
-  app.post("/api/enrollments", requireAuth, async (req: any, res) => {
+  app.post("/api/enrollments", requireAuth, async (req: AuthenticatedRequest, res) => {
     try {
       if (req.user.role !== "student") {
         return res.status(403).json({ message: "Only students can enroll in courses" });
       }
 
-      const enrollmentData = insertEnrollmentSchema.parse({
-        ...req.body,
-        studentId: req.user.id,
-      });
-
-      const enrollment = await storage.createEnrollment(enrollmentData);
-      res.status(201).json(enrollment);
+      const { courseId } = insertEnrollmentSchema.pick({ courseId: true }).parse(req.body);
+      const result = await storage.enrollStudentInCourse(req.user.id, courseId);
+      if ('error' in result) {
+        return res.status(enrollmentErrorStatus(result.error)).json({ message: result.error });
+      }
+      res.status(201).json(result);
     } catch (error) {
-      res.status(400).json({ message: "Failed to enroll in course" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid enrollment data", errors: error.errors });
+      }
+      console.error("Error enrolling in course:", error);
+      res.status(500).json({ message: "Failed to enroll in course" });
     }
   });
 
-  // Enrollments
-  app.post("/api/enrollments", requireAuth, async (req: any, res) => {
+  // Dashboard stats
+  // Analytics routes
+  app.get("/api/courses/:courseId/analytics", requireAuth, async (req: AuthenticatedRequest, res) => {
     try {
-      if (req.user.role !== "student") {
-        return res.status(403).json({ error: "Only students can enroll in courses" });
+      const course = await loadOwnedCourse(req, res);
+      if (!course) return;
+
+      const range = analyticsRangeSchema.parse(req.query);
+      const to = range.to ?? new Date().toISOString().slice(0, 10);
+      const from = range.from ?? addDays(to, 1 - ANALYTICS_DEFAULT_DAYS);
+      const days = datesBetween(from, to).length;
+      if (days === 0) {
+        return res.status(400).json({ message: "The start date must not be after the end date." });
+      }
+      if (days > ANALYTICS_MAX_DAYS) {
+        return res.status(400).json({ message: `Choose a range of at most ${ANALYTICS_MAX_DAYS} days.` });
       }
 
-      const { courseId } = req.body;
-      
-      // Check if course exists
-      const course = await storage.getCourse(courseId);
-      if (!course) {
-        return res.status(404).json({ error: "Course not found" });
+      const [assignments, submissions, enrollments, modules, content, progress] = await Promise.all([
+        storage.getAssignmentsByCourse(course.id),
+        storage.getSubmissionsByCourse(course.id),
+        storage.getEnrollmentsByCourse(course.id),
+        storage.getModulesByCourse(course.id),
+        storage.getContentByCourse(course.id),
+        storage.getContentProgressByCourse(course.id),
+      ]);
+      const extensions = (await Promise.all(assignments.map((assignment) => storage.getExtensionsByAssignment(assignment.id)))).flat();
+      res.json(courseAnalytics(
+        { assignments: gradebookOrder(assignments), submissions, extensions, enrollments, modules, content, progress },
+        from,
+        to,
+      ));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid date range.", errors: error.errors });
       }
+      console.error("Error fetching course analytics:", error);
+      res.status(500).json({ message: "Failed to fetch course analytics." });
+    }
+  });
 
-      // Check if already enrolled
-      const existingEnrollments = await storage.getEnrollmentsByStudent(req.user.id);
-      const alreadyEnrolled = existingEnrollments.some(e => e.courseId === courseId);
-      
-      if (alreadyEnrolled) {
-        return res.status(400).json({ error: "Already enrolled in this course" });
+  // Every student in the teacher's courses, a row per course
+  app.get("/api/students", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      if (req.user.role !== "teacher") {
+        return res.status(403).json({ message: "Only teachers can view the student roster." });
       }
+      const now = new Date();
+      const roster: RosterEntry[] = [];
+      for (const course of await storage.getCoursesByTeacher(req.user.id)) {
+        roster.push(...await courseRoster(course, now));
+      }
+      roster.sort((a, b) => a.student.name.localeCompare(b.student.name) || a.course.title.localeCompare(b.course.title));
+      res.json(roster);
+    } catch (error) {
+      console.error("Error fetching student roster:", error);
+      res.status(500).json({ message: "Failed to fetch students." });
+    }
+  });
 
-      // Create enrollment
-      const enrollment = await storage.createEnrollment({
-        courseId,
-        studentId: req.user.id,
-        progress: 0
-      });
+  app.get("/api/students/:studentId", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      if (req.user.role !== "teacher") {
+        return res.status(403).json({ message: "Only teachers can view the student roster." });
+      }
+      const studentId = parseInt(req.params.studentId, 10);
+      if (isNaN(studentId)) {
+        return res.status(400).json({ message: "Invalid student ID." });
+      }
 
-      res.json(enrollment);
+      // Students outside the teacher's courses aren't theirs to see
+      const detail = await studentDetail(req.user.id, studentId, new Date());
+      if (!detail) return res.status(404).json({ message: "Student not found." });
+      res.json(detail);
     } catch (error) {
-      console.error("Enrollment error:", error);
-      res.status(500).json({ error: "Failed to enroll in course" });
+      console.error("Error fetching student:", error);
+      res.status(500).json({ message: "Failed to fetch student." });
     }
   });
 
-  // Dashboard stats
-  app.get("/api/dashboard/stats", requireAuth, async (req: any, res) => {
+  // Counts and metrics for the dashboards, each metric with its value a week earlier
+  app.get("/api/dashboard/stats", requireAuth, async (req: AuthenticatedRequest, res) => {
     try {
+      const now = new Date();
+      const lastWeek = new Date(now.getTime() - METRICS_TREND_DAYS * 24 * 60 * 60 * 1000);
       if (req.user.role === "teacher") {
-        const courses = await storage.getCoursesByTeacher(req.user.id);
-        const assignments = await storage.getAssignmentsByTeacher(req.user.id);
-        
-        let totalStudents = 0;
-        let pendingReviews = 0;
-        
-        for (const course of courses) {
-          totalStudents += course.enrollmentCount || 0;
-        }
-
-        for (const assignment of assignments) {
-          const submissions = await storage.getSubmissionsByAssignment(assignment.id);
-          pendingReviews += submissions.filter(s => s.status === "pending").length;
-        }
-
-        const activeCourses = courses.filter(c => c.status === "active").length;
-
-        res.json({
-          totalStudents,
-          activeCourses,
-          pendingReviews,
-          completionRate: 89, // Mock completion rate
-        });
+        const [courses, [metrics, previous]] = await Promise.all([
+          storage.getCoursesByTeacher(req.user.id),
+          storage.getDashboardMetrics({ teacherId: req.user.id }, [now, lastWeek]),
+        ]);
+        const stats: TeacherDashboardStats = {
+          totalStudents: courses.reduce((total, course) => total + (course.enrollmentCount || 0), 0),
+          activeCourses: courses.filter(c => c.status === "active").length,
+          ...metrics,
+          lastWeek: previous,
+        };
+        res.json(stats);
       } else {
-        const enrollments = await storage.getEnrollmentsByStudent(req.user.id);
-        const submissions = await storage.getSubmissionsByStudent(req.user.id);
-        
-        res.json({
+        const [enrollments, [metrics, previous]] = await Promise.all([
+          storage.getEnrollmentsByStudent(req.user.id),
+          storage.getDashboardMetrics({ studentId: req.user.id }, [now, lastWeek]),
+        ]);
+        const stats: StudentDashboardStats = {
           enrolledCourses: enrollments.length,
-          completedAssignments: submissions.filter(s => s.status === "graded").length,
-          pendingAssignments: submissions.filter(s => s.status === "pending").length,
-          averageGrade: 85, // Mock average grade
-        });
+          ...metrics,
+          lastWeek: previous,
+        };
+        res.json(stats);
       }
     } catch (error) {
+      console.error("Error fetching dashboard stats:", error);
       res.status(500).json({ message: "Failed to fetch dashboard stats" });
     }
   });
 
+  // At-risk students in the teacher's courses, newest flags first, each with its history
+  app.get("/api/risk-flags", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      if (req.user.role !== "teacher") {
+        return res.status(403).json({ message: "Only teachers can view at-risk students." });
+      }
+      const query = riskFlagQuerySchema.parse(req.query);
+      const courses = (await storage.getCoursesByTeacher(req.user.id))
+        .filter(course => query.courseId === undefined || course.id === query.courseId);
+
+      const flags = (await Promise.all(courses.map(course => storage.getRiskFlagsByCourse(course.id))))
+        .flat()
+        .filter(flag => query.status === "all" || ACTIVE_RISK_STATUSES.includes(flag.status))
+        .sort((a, b) => b.raisedAt.getTime() - a.raisedAt.getTime() || b.id - a.id);
+      res.json(await withRiskHistory(flags, courses));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid filter.", errors: error.errors });
+      }
+      console.error("Error fetching risk flags:", error);
+      res.status(500).json({ message: "Failed to fetch at-risk students." });
+    }
+  });
+
+  // Runs the early-warning check now rather than waiting for the night
+  app.post("/api/risk-check", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      if (req.user.role !== "teacher") {
+        return res.status(403).json({ message: "Only teachers can check for at-risk students." });
+      }
+      const { courseId } = riskCheckSchema.parse(req.body ?? {});
+      const courses = (await storage.getCoursesByTeacher(req.user.id))
+        .filter(course => courseId === undefined || course.id === courseId);
+      if (courseId !== undefined && courses.length === 0) {
+        return res.status(404).json({ message: "Course not found." });
+      }
+      res.json(await checkRisks(courses));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid course.", errors: error.errors });
+      }
+      console.error("Error checking for at-risk students:", error);
+      res.status(500).json({ message: "Failed to check for at-risk students." });
+    }
+  });
+
+  // Flags are brought in line with new thresholds straight away
+  app.put("/api/courses/:courseId/risk-thresholds", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const course = await loadOwnedCourse(req, res);
+      if (!course) return;
+
+      const { thresholds } = riskThresholdsBodySchema.parse(req.body);
+      const updated = await storage.updateCourse(course.id, { riskThresholds: thresholds });
+      if (updated) await checkCourseRisks(updated);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid risk thresholds.", errors: error.errors });
+      }
+      console.error("Error updating risk thresholds:", error);
+      res.status(500).json({ message: "Failed to update risk thresholds." });
+    }
+  });
+
+  app.post("/api/risk-flags/:flagId/actions", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const owned = await loadOwnedRiskFlag(req, res);
+      if (!owned) return;
+      const { flag, course } = owned;
+
+      const { action, note } = riskFlagActionSchema.parse(req.body);
+      if (flag.status === "cleared") {
+        return res.status(400).json({ message: "This flag has cleared: the student no longer meets the rule." });
+      }
+      if ((action === "reopened" && flag.status === "open") || (action === "dismissed" && flag.status === "dismissed")) {
+        return res.status(400).json({ message: `This flag is already ${flag.status}.` });
+      }
+
+      const status = action === "reopened" ? "open" : action;
+      const updated = await storage.updateRiskFlag(flag.id, { status }, { action, note, actorId: req.user.id });
+      if (!updated) return res.status(404).json({ message: "Risk flag not found." });
+      const [withHistory] = await withRiskHistory([updated], [course]);
+      res.json(withHistory);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid action.", errors: error.errors });
+      }
+      console.error("Error updating risk flag:", error);
+      res.status(500).json({ message: "Failed to update risk flag." });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
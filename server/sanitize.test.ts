@@ -0,0 +1,149 @@
+/**
+ * XSS payloads put through the lesson sanitizer must come out clean: only
+ * allow-listed tags, no event handlers or styles, and links and embeds only
+ * to safe schemes and hosts. Attribute values are checked after entity
+ * decoding, the way a browser reads them.
+ */
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Parser } from "htmlparser2";
+import { ALLOWED_IFRAME_HOSTNAMES, prepareContentBody, sanitizeLessonHtml } from "./sanitize";
+
+const PAYLOADS = [
+  `<script>alert(1)</script>`,
+  `<SCRIPT SRC=https://evil.example/xss.js></SCRIPT>`,
+  `<scr<script>ipt>alert(1)</scr</script>ipt>`,
+  `<img src=x onerror=alert(1)>`,
+  `<img src="https://example.com/a.png" onload="alert(1)">`,
+  `<img src="javascript:alert(1)">`,
+  `<img src="data:image/svg+xml;base64,PHN2ZyBvbmxvYWQ9YWxlcnQoMSk+">`,
+  `<a href="javascript:alert(1)">click</a>`,
+  `<a href="JaVaScRiPt:alert(1)">click</a>`,
+  `<a href="  javascript:alert(1)">click</a>`,
+  `<a href="java&#x09;script:alert(1)">click</a>`,
+  `<a href="&#106;&#97;&#118;&#97;&#115;&#99;&#114;&#105;&#112;&#116;&#58;alert(1)">click</a>`,
+  `<a href="&#x6A;avascript&colon;alert(1)">click</a>`,
+  `<a href="vbscript:msgbox(1)">click</a>`,
+  `<a href="data:text/html,<script>alert(1)</script>">click</a>`,
+  `<a href="//evil.example">protocol-relative</a>`,
+  `<p onclick="alert(1)" onmouseover="alert(1)">hover</p>`,
+  `<p style="background:url(javascript:alert(1))">styled</p>`,
+  `<div style="behavior:url(x.htc)">old IE</div>`,
+  `<svg onload=alert(1)><circle r=1 /></svg>`,
+  `<svg><script>alert(1)</script></svg>`,
+  `<svg><a xlink:href="javascript:alert(1)"><text>x</text></a></svg>`,
+  `<math><mtext><table><mglyph><style><img src=x onerror=alert(1)></style></mglyph></table></mtext></math>`,
+  `<math href="javascript:alert(1)">x</math>`,
+  `<iframe src="https://evil.example/embed"></iframe>`,
+  `<iframe src="javascript:alert(1)"></iframe>`,
+  `<iframe src="http://www.youtube.com/embed/x"></iframe>`,
+  `<iframe src="https://www.youtube.com.evil.example/embed/x"></iframe>`,
+  `<iframe srcdoc="<script>alert(1)</script>"></iframe>`,
+  `<iframe src="https://www.youtube.com/embed/x" onload="alert(1)"></iframe>`,
+  `<object data="https://evil.example/x.swf"></object>`,
+  `<embed src="https://evil.example/x.swf">`,
+  `<form action="https://evil.example"><input name="password"><button>Go</button></form>`,
+  `<meta http-equiv="refresh" content="0;url=javascript:alert(1)">`,
+  `<link rel="stylesheet" href="https://evil.example/x.css">`,
+  `<base href="https://evil.example/">`,
+  `<style>body{background:url(javascript:alert(1))}</style>`,
+  `<body onload=alert(1)>`,
+  `<details open ontoggle=alert(1)>`,
+  `<video><source onerror="alert(1)"></video>`,
+  `<audio src=x onerror=alert(1)>`,
+  `<marquee onstart=alert(1)>`,
+  `<table background="javascript:alert(1)"><tr><td>x</td></tr></table>`,
+  `<code class="language-ts x-evil" onclick="alert(1)">code</code>`,
+  `<!--<img src=x onerror=alert(1)>-->`,
+  `<![CDATA[<script>alert(1)</script>]]>`,
+  `<noscript><p title="</noscript><img src=x onerror=alert(1)>"></noscript>`,
+  `<a href="https://example.com" target="_blank" rel="opener">new tab</a>`,
+];
+
+const ALLOWED_TAGS = new Set([
+  "h1", "h2", "h3", "h4", "h5", "h6",
+  "p", "br", "hr", "blockquote", "div", "span",
+  "strong", "b", "em", "i", "u", "s", "del", "ins", "sub", "sup", "mark", "small",
+  "ul", "ol", "li", "dl", "dt", "dd",
+  "table", "caption", "colgroup", "col", "thead", "tbody", "tfoot", "tr", "th", "td",
+  "pre", "code", "kbd", "samp",
+  "a", "img", "figure", "figcaption",
+  "iframe",
+]);
+
+const URL_ATTRIBUTES = new Set(["href", "src"]);
+
+// Everything in the HTML a browser would act on that it shouldn't
+function problems(html: string): string[] {
+  const found: string[] = [];
+  const parser = new Parser({
+    onopentag(tag, attribs) {
+      if (!ALLOWED_TAGS.has(tag)) found.push(`<${tag}>`);
+      for (const [name, value] of Object.entries(attribs)) {
+        if (name.startsWith("on")) found.push(`${tag}[${name}]`);
+        if (name === "style" || name === "srcdoc" || name === "background") found.push(`${tag}[${name}]`);
+        if (name === "class" && !value.split(/\s+/).every(c => /^language-[\w-]+$/.test(c))) found.push(`${tag}[class=${value}]`);
+        if (URL_ATTRIBUTES.has(name)) {
+          // Browsers ignore whitespace and control characters inside the scheme
+          const url = value.replace(/[\u0000- ]/g, "").toLowerCase();
+          const safe = tag === "iframe"
+            ? ALLOWED_IFRAME_HOSTNAMES.some(host => url.startsWith(`https://${host}/`))
+            : /^(https?:|mailto:)/.test(url) || (!/^[^/?#]*:/.test(url) && !url.startsWith("//")); // Or relative
+          if (!safe) found.push(`${tag}[${name}=${value}]`);
+        }
+      }
+      if (tag === "a" && attribs.target === "_blank" && attribs.rel !== "noopener noreferrer") {
+        found.push("a[target=_blank] without noopener");
+      }
+    },
+  }, { decodeEntities: true, lowerCaseTags: true, lowerCaseAttributeNames: true });
+  parser.end(html);
+  return found;
+}
+
+describe("sanitizeLessonHtml", () => {
+  for (const payload of PAYLOADS) {
+    it(`cleans ${payload}`, () => {
+      const clean = sanitizeLessonHtml(payload);
+      assert.deepEqual(problems(clean), [], clean);
+      // Nothing left to strip on a second pass
+      assert.equal(sanitizeLessonHtml(clean), clean);
+    });
+  }
+
+  it("keeps lesson formatting, links and allowed embeds", () => {
+    const lesson = [
+      `<h2>Loops</h2>`,
+      `<p><strong>Bold</strong> and <a href="https://example.com/docs">a link</a></p>`,
+      `<pre><code class="language-ts">for (;;) {}</code></pre>`,
+      `<img src="https://example.com/loop.png" alt="A loop" />`,
+      `<iframe src="https://www.youtube.com/embed/abc" allowfullscreen></iframe>`,
+    ].join("");
+    assert.equal(sanitizeLessonHtml(lesson), lesson);
+  });
+
+  it("adds noopener to links that open a new tab", () => {
+    assert.equal(
+      sanitizeLessonHtml(`<a href="https://example.com" target="_blank">new tab</a>`),
+      `<a href="https://example.com" target="_blank" rel="noopener noreferrer">new tab</a>`,
+    );
+  });
+});
+
+describe("prepareContentBody", () => {
+  it("renders and cleans Markdown instead of trusting the HTML sent with it", () => {
+    const body = prepareContentBody("lesson", {
+      content: `<p>fine</p>`,
+      markdown: `# Title\n\n<script>alert(1)</script>\n\n[click](javascript:alert(1))`,
+    });
+    assert.deepEqual(problems(body.content!), [], body.content!);
+    assert.match(body.content!, /<h1>Title<\/h1>/);
+  });
+
+  it("leaves URL bodies alone", () => {
+    assert.deepEqual(
+      prepareContentBody("video", { content: "https://example.com/a?b=1&c=2", markdown: "ignored" }),
+      { content: "https://example.com/a?b=1&c=2", markdown: null },
+    );
+  });
+});
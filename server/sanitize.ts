@@ -0,0 +1,101 @@
+import sanitizeHtml from "sanitize-html";
+import { renderMarkdown } from "@shared/markdown";
+
+// Content types whose body is HTML rendered into the page. Other types hold a URL.
+export const HTML_CONTENT_TYPES = ["lesson", "text"];
+
+// Video hosts whose players may be embedded in lessons
+export const ALLOWED_IFRAME_HOSTNAMES = [
+  "www.youtube.com",
+  "www.youtube-nocookie.com",
+  "player.vimeo.com",
+  "fast.wistia.net",
+  "www.loom.com",
+];
+
+const SANITIZE_OPTIONS: sanitizeHtml.IOptions = {
+  allowedTags: [
+    "h1", "h2", "h3", "h4", "h5", "h6",
+    "p", "br", "hr", "blockquote", "div", "span",
+    "strong", "b", "em", "i", "u", "s", "del", "ins", "sub", "sup", "mark", "small",
+    "ul", "ol", "li", "dl", "dt", "dd",
+    "table", "caption", "colgroup", "col", "thead", "tbody", "tfoot", "tr", "th", "td",
+    "pre", "code", "kbd", "samp",
+    "a", "img", "figure", "figcaption",
+    "iframe",
+  ],
+  allowedAttributes: {
+    a: ["href", "title", "target", "rel"],
+    img: ["src", "alt", "title", "width", "height"],
+    iframe: ["src", "title", "width", "height", "allow", "allowfullscreen"],
+    ol: ["start", "type"],
+    th: ["colspan", "rowspan", "scope"],
+    td: ["colspan", "rowspan"],
+    col: ["span"],
+    colgroup: ["span"],
+    code: ["class"],
+    pre: ["class"],
+  },
+  // Only syntax-highlighting hints survive, e.g. <code class="language-ts">
+  allowedClasses: {
+    code: [/^language-[\w-]+$/],
+    pre: [/^language-[\w-]+$/],
+  },
+  allowedSchemes: ["http", "https", "mailto"],
+  allowedSchemesByTag: {
+    img: ["http", "https"],
+    iframe: ["https"],
+  },
+  allowProtocolRelative: false,
+  allowedIframeHostnames: ALLOWED_IFRAME_HOSTNAMES,
+  allowIframeRelativeUrls: false,
+  // An embed whose src was rejected is just an empty box
+  exclusiveFilter: (frame) => frame.tag === "iframe" && !frame.attribs.src,
+  transformTags: {
+    // Links opened in a new tab must not get a handle on this window
+    a: (tagName, attribs) => ({
+      tagName,
+      attribs: attribs.target === "_blank"
+        ? { ...attribs, rel: "noopener noreferrer" }
+        : attribs,
+    }),
+  },
+};
+
+/**
+ * Strips everything from teacher-authored HTML except the allow-listed
+ * formatting tags, links, images and embeds from {@link ALLOWED_IFRAME_HOSTNAMES}.
+ */
+export function sanitizeLessonHtml(html: string): string {
+  return sanitizeHtml(html, SANITIZE_OPTIONS);
+}
+
+/**
+ * Sanitizes a content item's body if its type is rendered as HTML. URL bodies
+ * are returned unchanged since escaping would corrupt them; the client only
+ * ever uses those as link targets.
+ */
+export function sanitizeContentBody<T extends string | null | undefined>(type: string, body: T): T {
+  if (typeof body !== "string" || !HTML_CONTENT_TYPES.includes(type)) {
+    return body;
+  }
+  return sanitizeLessonHtml(body) as T;
+}
+
+/**
+ * Works out what to store for a content item's body. For HTML types written in
+ * Markdown mode the Markdown is the source of truth: it is rendered here rather
+ * than trusting the HTML the client sent. Other types never keep Markdown.
+ */
+export function prepareContentBody(
+  type: string,
+  body: { content: string | null; markdown: string | null },
+): { content: string | null; markdown: string | null } {
+  if (!HTML_CONTENT_TYPES.includes(type)) {
+    return { content: body.content, markdown: null };
+  }
+  if (body.markdown !== null) {
+    return { content: sanitizeLessonHtml(renderMarkdown(body.markdown)), markdown: body.markdown };
+  }
+  return { content: sanitizeContentBody(type, body.content), markdown: null };
+}
@@ -0,0 +1,228 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPgSimple from "connect-pg-simple";
+import type pg from "pg";
+import { createHash } from "node:crypto";
+import { log } from "./vite";
+
+declare module "express-session" {
+  interface SessionData {
+    userId: number;
+    createdAt: number;
+    lastSeenAt: number;
+    userAgent?: string;
+    ip?: string;
+  }
+}
+
+export const SESSION_COOKIE_NAME = "eduflow.sid";
+
+const MINUTE = 60 * 1000;
+const IDLE_TIMEOUT = Number(process.env.SESSION_IDLE_TIMEOUT_MINUTES || 30) * MINUTE;
+const ABSOLUTE_TIMEOUT = Number(process.env.SESSION_ABSOLUTE_TIMEOUT_HOURS || 12) * 60 * MINUTE;
+// Don't rewrite the session on every request just to bump lastSeenAt
+const LAST_SEEN_RESOLUTION = MINUTE;
+
+export interface ActiveSession {
+  id: string; // Opaque identifier, never the raw session id
+  current: boolean;
+  createdAt: number;
+  lastSeenAt: number;
+  userAgent?: string;
+  ip?: string;
+}
+
+type StoredSession = { sid: string; data: session.SessionData };
+
+/**
+ * A session store plus the lookups express-session's Store interface doesn't
+ * provide, so that a user's sessions can be listed and revoked.
+ */
+interface SessionBackend {
+  name: string;
+  store: session.Store;
+  findByUser(userId: number): Promise<StoredSession[]>;
+}
+
+function createMemoryBackend(): SessionBackend {
+  const MemoryStore = createMemoryStore(session);
+  const store = new MemoryStore({ checkPeriod: IDLE_TIMEOUT });
+
+  return {
+    name: "memory",
+    store,
+    findByUser: (userId) =>
+      new Promise((resolve, reject) => {
+        store.all!((err, sessions) => {
+          if (err) return reject(err);
+          const entries = Object.entries(sessions || {}) as [string, session.SessionData][];
+          resolve(
+            entries
+              .filter(([, data]) => data.userId === userId)
+              .map(([sid, data]) => ({ sid, data })),
+          );
+        });
+      }),
+  };
+}
+
+async function createPostgresBackend(): Promise<SessionBackend> {
+  // Imported lazily so the memory backend works without DATABASE_URL
+  const { db, pool, requireDatabaseUrl } = await import("./db");
+  requireDatabaseUrl();
+  const { userSessions } = await import("@shared/schema");
+  const { and, gt, sql } = await import("drizzle-orm");
+
+  const PgStore = connectPgSimple(session);
+  const store = new PgStore({
+    pool: pool as unknown as pg.Pool, // Neon's Pool is wire-compatible with pg's
+    tableName: "user_sessions",
+    createTableIfMissing: true,
+  });
+
+  return {
+    name: "postgres",
+    store,
+    findByUser: async (userId) => {
+      const rows = await db
+        .select()
+        .from(userSessions)
+        .where(and(
+          sql`${userSessions.sess}->>'userId' = ${String(userId)}`,
+          gt(userSessions.expire, new Date()),
+        ));
+      return rows.map((row) => ({ sid: row.sid, data: row.sess as session.SessionData }));
+    },
+  };
+}
+
+let backend: SessionBackend | undefined;
+
+function getBackend(): SessionBackend {
+  if (!backend) {
+    throw new Error("Session subsystem used before setupSession() was called");
+  }
+  return backend;
+}
+
+function publicSessionId(sid: string): string {
+  return createHash("sha256").update(sid).digest("hex").slice(0, 16);
+}
+
+function promisify(fn: (cb: (err?: any) => void) => void): Promise<void> {
+  return new Promise((resolve, reject) => fn((err) => (err ? reject(err) : resolve())));
+}
+
+/**
+ * Mounts express-session on the app.
+ *
+ * The store is chosen by SESSION_STORE ("postgres" or "memory"), defaulting to
+ * Postgres in production (unless STORAGE=memory) and memory everywhere else.
+ * Sessions expire after SESSION_IDLE_TIMEOUT_MINUTES of inactivity and
+ * SESSION_ABSOLUTE_TIMEOUT_HOURS after login, whichever comes first.
+ */
+export async function setupSession(app: Express): Promise<void> {
+  const isProduction = app.get("env") === "production";
+  const usesDatabase = process.env.STORAGE !== "memory";
+  const storeKind = process.env.SESSION_STORE || (isProduction && usesDatabase ? "postgres" : "memory");
+
+  const secret = process.env.SESSION_SECRET;
+  if (!secret && isProduction) {
+    throw new Error("SESSION_SECRET must be set in production.");
+  }
+
+  backend = storeKind === "postgres" ? await createPostgresBackend() : createMemoryBackend();
+  log(`using ${backend.name} session store`, "session");
+
+  if (isProduction) {
+    // Needed for secure cookies behind the platform's TLS-terminating proxy
+    app.set("trust proxy", 1);
+  }
+
+  app.use(session({
+    name: SESSION_COOKIE_NAME,
+    secret: secret || "eduflow-dev-secret",
+    store: backend.store,
+    resave: false,
+    saveUninitialized: false,
+    rolling: true, // Every response pushes the idle deadline forward
+    cookie: {
+      httpOnly: true,
+      secure: isProduction,
+      sameSite: "lax",
+      maxAge: IDLE_TIMEOUT,
+    },
+  }));
+
+  app.use(enforceAbsoluteTimeout);
+}
+
+function enforceAbsoluteTimeout(req: Request, _res: Response, next: NextFunction) {
+  const { userId, createdAt, lastSeenAt } = req.session;
+  if (!userId) return next();
+
+  const now = Date.now();
+  if (!createdAt || now - createdAt > ABSOLUTE_TIMEOUT) {
+    // Swap in a fresh, anonymous session so downstream handlers see a logged-out user
+    return req.session.regenerate(next);
+  }
+
+  if (!lastSeenAt || now - lastSeenAt > LAST_SEEN_RESOLUTION) {
+    req.session.lastSeenAt = now;
+  }
+  next();
+}
+
+/**
+ * Starts an authenticated session for the user. The session id is rotated so a
+ * pre-login id can't be fixated onto the authenticated session.
+ */
+export async function establishSession(req: Request, userId: number): Promise<void> {
+  await promisify((cb) => req.session.regenerate(cb));
+
+  const now = Date.now();
+  req.session.userId = userId;
+  req.session.createdAt = now;
+  req.session.lastSeenAt = now;
+  req.session.userAgent = req.get("user-agent");
+  req.session.ip = req.ip;
+
+  await promisify((cb) => req.session.save(cb));
+}
+
+/**
+ * Destroys the current session and clears its cookie.
+ */
+export async function endSession(req: Request, res: Response): Promise<void> {
+  await promisify((cb) => req.session.destroy(cb));
+  res.clearCookie(SESSION_COOKIE_NAME);
+}
+
+/**
+ * Lists the user's unexpired sessions, most recently active first.
+ */
+export async function listUserSessions(userId: number, currentSid: string): Promise<ActiveSession[]> {
+  const sessions = await getBackend().findByUser(userId);
+  return sessions
+    .map(({ sid, data }) => ({
+      id: publicSessionId(sid),
+      current: sid === currentSid,
+      createdAt: data.createdAt,
+      lastSeenAt: data.lastSeenAt,
+      userAgent: data.userAgent,
+      ip: data.ip,
+    }))
+    .sort((a, b) => b.lastSeenAt - a.lastSeenAt);
+}
+
+/**
+ * Destroys every session belonging to the user except the current one.
+ * Returns the number of sessions revoked.
+ */
+export async function revokeOtherSessions(userId: number, currentSid: string): Promise<number> {
+  const { store, findByUser } = getBackend();
+  const others = (await findByUser(userId)).filter(({ sid }) => sid !== currentSid);
+  await Promise.all(others.map(({ sid }) => promisify((cb) => store.destroy(sid, cb))));
+  return others.length;
+}
@@ -0,0 +1,299 @@
+/**
+ * Storage behaviour, checked on MemStorage. Students only ever see their own
+ * courses: what they're enrolled in, what they could enroll in, and the
+ * content of a course they're enrolled in. Enrollment progress follows the
+ * student's graded work.
+ *
+ * The SQL behind DatabaseStorage's student course queries is checked too, and
+ * the queries themselves run against the database when DATABASE_URL is set.
+ */
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { inArray } from "drizzle-orm";
+import { DatabaseStorage, MemStorage, studentCourseQueries } from "./storage";
+import { db, pool } from "./db";
+import { gradedPoints } from "@shared/gradebook";
+import { courses, enrollments, insertQuizSchema, users, type Course, type User } from "@shared/schema";
+
+let storage: MemStorage;
+let alice: User;
+let bob: User;
+let algebra: Course;
+let biology: Course;
+let chemistry: Course;
+
+beforeEach(async () => {
+  storage = new MemStorage();
+  const teacher = await storage.createUser({ username: "teacher", password: "x", role: "teacher", name: "Teacher" });
+  alice = await storage.createUser({ username: "alice", password: "x", role: "student", name: "Alice" });
+  bob = await storage.createUser({ username: "bob", password: "x", role: "student", name: "Bob" });
+
+  algebra = await storage.createCourse({ title: "Algebra", teacherId: teacher.id, status: "active" });
+  biology = await storage.createCourse({ title: "Biology", teacherId: teacher.id, status: "active" });
+  chemistry = await storage.createCourse({ title: "Chemistry", teacherId: teacher.id, status: "draft" });
+  await storage.createContent({ title: "Equations", type: "lesson", courseId: algebra.id, teacherId: teacher.id, content: "<p>x = 1</p>" });
+
+  await storage.enrollStudentInCourse(alice.id, algebra.id);
+  await storage.enrollStudentInCourse(bob.id, biology.id);
+});
+
+describe("getCoursesByStudent", () => {
+  it("lists only the student's own enrollments", async () => {
+    assert.deepEqual((await storage.getCoursesByStudent(alice.id)).map(c => c.title), ["Algebra"]);
+    assert.deepEqual((await storage.getCoursesByStudent(bob.id)).map(c => c.title), ["Biology"]);
+  });
+
+  it("carries the student's own progress", async () => {
+    const [enrollment] = await storage.getEnrollmentsByStudent(alice.id);
+    await storage.updateEnrollment(enrollment.id, { progress: 40 });
+
+    const [course] = await storage.getCoursesByStudent(alice.id);
+    assert.equal(course.progress, 40);
+    assert.equal(course.enrolledAt, enrollment.enrolledAt);
+    assert.equal((await storage.getCoursesByStudent(bob.id))[0].progress, 0);
+  });
+
+  it("is empty for a student with no enrollments", async () => {
+    const carol = await storage.createUser({ username: "carol", password: "x", role: "student", name: "Carol" });
+    assert.deepEqual(await storage.getCoursesByStudent(carol.id), []);
+  });
+});
+
+describe("getAvailableCoursesForStudent", () => {
+  it("offers active courses the student isn't in, whoever else is", async () => {
+    assert.deepEqual((await storage.getAvailableCoursesForStudent(alice.id)).map(c => c.title), ["Biology"]);
+    assert.deepEqual((await storage.getAvailableCoursesForStudent(bob.id)).map(c => c.title), ["Algebra"]);
+  });
+
+  it("never offers draft courses", async () => {
+    const available = await storage.getAvailableCoursesForStudent(alice.id);
+    assert.ok(!available.some(c => c.id === chemistry.id));
+  });
+});
+
+describe("getCourseWithContentForStudent", () => {
+  it("returns the course with the student's progress when enrolled", async () => {
+    const result = await storage.getCourseWithContentForStudent(algebra.id, alice.id);
+    assert.ok(!("error" in result));
+    assert.equal(result.title, "Algebra");
+    assert.equal(result.progress, 0);
+    assert.deepEqual(result.content.map(c => c.title), ["Equations"]);
+  });
+
+  it("hides the body and Markdown source of content in a locked module", async () => {
+    const nextWeek = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString();
+    const locked = await storage.createModule({ courseId: algebra.id, title: "Later", unlockAt: nextWeek });
+    await storage.createContent({
+      title: "Matrices",
+      type: "lesson",
+      courseId: algebra.id,
+      moduleId: locked.id,
+      teacherId: algebra.teacherId,
+      content: "<h1>Matrices</h1>",
+      markdown: "# Matrices",
+    });
+
+    const result = await storage.getCourseWithContentForStudent(algebra.id, alice.id);
+    assert.ok(!("error" in result));
+    const matrices = result.content.find(c => c.title === "Matrices");
+    assert.ok(matrices);
+    assert.equal(matrices.content, null);
+    assert.equal(matrices.markdown, null);
+  });
+
+  it("refuses a course the student isn't enrolled in", async () => {
+    assert.deepEqual(
+      await storage.getCourseWithContentForStudent(algebra.id, bob.id),
+      { error: "Student is not enrolled in this course." },
+    );
+  });
+
+  it("reports a course that doesn't exist", async () => {
+    assert.deepEqual(await storage.getCourseWithContentForStudent(9999, alice.id), { error: "Course not found." });
+  });
+});
+
+describe("createOrUpdateSubmission", () => {
+  it("refuses to update a submission through another assignment", async () => {
+    const homework = await storage.createAssignment({ title: "Homework", courseId: algebra.id, teacherId: algebra.teacherId });
+    const other = await storage.createAssignment({ title: "Other", courseId: algebra.id, teacherId: algebra.teacherId });
+    const submission = await storage.createOrUpdateSubmission(homework.id, alice.id, { content: "Done", files: [], keepFileIds: [] });
+    assert.ok(!("error" in submission));
+
+    assert.deepEqual(
+      await storage.createOrUpdateSubmission(other.id, alice.id, { content: "Sideways", files: [], keepFileIds: [] }, submission.id),
+      { error: "This submission belongs to a different assignment." },
+    );
+    assert.equal((await storage.getSubmission(submission.id))?.content, "Done");
+  });
+
+  it("refuses to overwrite a quiz submission", async () => {
+    const quiz = await storage.createAssignment({ title: "Quiz", type: "quiz", courseId: algebra.id, teacherId: algebra.teacherId });
+    await storage.saveQuiz(quiz.id, insertQuizSchema.parse({
+      questions: [{ id: "q1", type: "true-false", prompt: "1 + 1 = 2", points: 1, correct: true }],
+    }));
+    const attempt = await storage.startQuizAttempt(quiz.id, alice.id);
+    assert.ok(!("error" in attempt));
+    await storage.submitQuizAttempt(attempt.id, { q1: false });
+    const graded = await storage.getSubmissionByAssignmentAndStudent(quiz.id, alice.id);
+    assert.ok(graded);
+
+    const essay = await storage.createAssignment({ title: "Essay", courseId: algebra.id, teacherId: algebra.teacherId });
+    assert.deepEqual(
+      await storage.createOrUpdateSubmission(essay.id, alice.id, { content: "Full marks please", files: [], keepFileIds: [] }, graded.id),
+      { error: "This submission belongs to a different assignment." },
+    );
+    assert.deepEqual(await storage.getSubmission(graded.id), graded);
+  });
+});
+
+describe("enrollment progress", () => {
+  async function handIn(title: string) {
+    const assignment = await storage.createAssignment({ title, courseId: algebra.id, teacherId: algebra.teacherId, maxPoints: 10 });
+    const submission = await storage.createOrUpdateSubmission(assignment.id, alice.id, { content: "Done", files: [], keepFileIds: [] });
+    assert.ok(!("error" in submission));
+    return { assignment, submission };
+  }
+
+  const progressOf = async (student: User) => (await storage.getCoursesByStudent(student.id))[0].progress;
+
+  it("counts work once it's graded", async () => {
+    const { submission } = await handIn("Homework");
+    assert.equal(await progressOf(alice), 0);
+
+    await storage.gradeSubmission(submission.id, algebra.teacherId, { grade: 8, feedback: null });
+    assert.equal(await progressOf(alice), 50); // The lesson and the homework, one of them done
+    assert.equal(await progressOf(bob), 0);
+  });
+
+  it("counts grades typed into the gradebook", async () => {
+    const { assignment } = await handIn("Homework");
+    const graded = await storage.recordGrade(assignment.id, alice.id, algebra.teacherId, 9);
+    assert.ok(!("error" in graded));
+    assert.equal(await progressOf(alice), 50);
+  });
+
+  it("keeps counting a grade while a resubmission waits", async () => {
+    const { assignment, submission } = await handIn("Homework");
+    await storage.gradeSubmission(submission.id, algebra.teacherId, { grade: 8, feedback: null });
+
+    await storage.createOrUpdateSubmission(assignment.id, alice.id, { content: "Done again", files: [], keepFileIds: [] });
+    const resubmitted = await storage.getSubmissionByAssignmentAndStudent(assignment.id, alice.id);
+    assert.equal(resubmitted?.status, "resubmitted");
+    assert.equal(resubmitted?.grade, 8);
+    assert.deepEqual(
+      gradedPoints({ [assignment.id]: { ...resubmitted!, submissionId: resubmitted!.id } }),
+      new Map([[assignment.id, 8]]),
+    );
+    await storage.recomputeEnrollmentProgress(algebra.id);
+    assert.equal(await progressOf(alice), 50);
+  });
+
+  it("counts a quiz once it's auto-graded", async () => {
+    const quiz = await storage.createAssignment({ title: "Quiz", type: "quiz", courseId: algebra.id, teacherId: algebra.teacherId });
+    await storage.saveQuiz(quiz.id, insertQuizSchema.parse({
+      questions: [{ id: "q1", type: "true-false", prompt: "1 + 1 = 2", points: 1, correct: true }],
+    }));
+    const attempt = await storage.startQuizAttempt(quiz.id, alice.id);
+    assert.ok(!("error" in attempt));
+
+    await storage.submitQuizAttempt(attempt.id, { q1: true });
+    assert.equal(await progressOf(alice), 50);
+  });
+});
+
+describe("student course queries", () => {
+  it("join a student's enrollments to their courses, scoped to that student", () => {
+    const { sql, params } = studentCourseQueries.enrolled(7).toSQL();
+    assert.match(sql, /from "enrollments" inner join "courses" on "courses"\."id" = "enrollments"\."course_id"/);
+    assert.match(sql, /where "enrollments"\."student_id" = \$1/);
+    assert.match(sql, /"enrollments"\."progress", "enrollments"\."enrolled_at"/);
+    assert.deepEqual(params, [7]);
+  });
+
+  it("offer active courses with no enrollment for that student", () => {
+    const { sql, params } = studentCourseQueries.available(7).toSQL();
+    // The student belongs in the join, not the where clause, or courses anyone else is in drop out
+    assert.match(sql, /left join "enrollments" on \("enrollments"\."course_id" = "courses"\."id" and "enrollments"\."student_id" = \$1\)/);
+    assert.match(sql, /where \("courses"\."status" = \$2 and "enrollments"\."id" is null\)/);
+    assert.deepEqual(params, [7, "active"]);
+  });
+
+  it("fetch a course with only that student's enrollment", () => {
+    const { sql, params } = studentCourseQueries.withEnrollment(3, 7).toSQL();
+    assert.match(sql, /left join "enrollments" on \("enrollments"\."course_id" = "courses"\."id" and "enrollments"\."student_id" = \$1\)/);
+    assert.match(sql, /where "courses"\."id" = \$2/);
+    assert.deepEqual(params, [7, 3]);
+  });
+});
+
+describe("DatabaseStorage student courses", { skip: !process.env.DATABASE_URL && "DATABASE_URL is not set" }, () => {
+  const database = new DatabaseStorage();
+  const tag = `storage-test-${Date.now()}`;
+  let dave: User;
+  let erin: User;
+  let physics: Course;
+  let history: Course;
+  let drafted: Course;
+
+  before(async () => {
+    const teacher = await database.createUser({ username: `${tag}-teacher`, password: "x", role: "teacher", name: "Teacher" });
+    dave = await database.createUser({ username: `${tag}-dave`, password: "x", role: "student", name: "Dave" });
+    erin = await database.createUser({ username: `${tag}-erin`, password: "x", role: "student", name: "Erin" });
+    physics = await database.createCourse({ title: "Physics", teacherId: teacher.id, status: "active" });
+    history = await database.createCourse({ title: "History", teacherId: teacher.id, status: "active" });
+    drafted = await database.createCourse({ title: "Drafted", teacherId: teacher.id, status: "draft" });
+    await database.enrollStudentInCourse(dave.id, physics.id);
+    await database.enrollStudentInCourse(erin.id, history.id);
+  });
+
+  after(async () => {
+    const courseIds = [physics, history, drafted].filter(Boolean).map(c => c.id);
+    if (courseIds.length > 0) {
+      await db.delete(enrollments).where(inArray(enrollments.courseId, courseIds));
+      await db.delete(courses).where(inArray(courses.id, courseIds));
+    }
+    await db.delete(users).where(inArray(users.username, [`${tag}-teacher`, `${tag}-dave`, `${tag}-erin`]));
+    await pool.end();
+  });
+
+  it("lists only the student's own enrollments, with their progress", async () => {
+    assert.deepEqual((await database.getCoursesByStudent(dave.id)).map(c => c.id), [physics.id]);
+    assert.deepEqual((await database.getCoursesByStudent(erin.id)).map(c => c.id), [history.id]);
+    assert.equal((await database.getCoursesByStudent(dave.id))[0].progress, 0);
+  });
+
+  it("offers active courses the student isn't in, whoever else is", async () => {
+    const available = (await database.getAvailableCoursesForStudent(dave.id)).map(c => c.id);
+    assert.ok(available.includes(history.id));
+    assert.ok(!available.includes(physics.id));
+    assert.ok(!available.includes(drafted.id));
+  });
+
+  it("returns course content only to an enrolled student", async () => {
+    const result = await database.getCourseWithContentForStudent(physics.id, dave.id);
+    assert.ok(!("error" in result));
+    assert.equal(result.id, physics.id);
+    assert.deepEqual(
+      await database.getCourseWithContentForStudent(physics.id, erin.id),
+      { error: "Student is not enrolled in this course." },
+    );
+  });
+});
+
+describe("getDashboardMetrics", () => {
+  it("keeps counting a grade while a resubmission waits", async () => {
+    const homework = await storage.createAssignment({ title: "Homework", courseId: algebra.id, teacherId: algebra.teacherId, maxPoints: 10 });
+    const submission = await storage.createOrUpdateSubmission(homework.id, alice.id, { content: "Done", files: [], keepFileIds: [] });
+    assert.ok(!("error" in submission));
+    await storage.gradeSubmission(submission.id, algebra.teacherId, { grade: 8, feedback: null });
+    await storage.createOrUpdateSubmission(homework.id, alice.id, { content: "Done again", files: [], keepFileIds: [] });
+    assert.equal((await storage.getSubmission(submission.id))?.status, "resubmitted");
+
+    for (const scope of [{ studentId: alice.id }, { teacherId: algebra.teacherId }]) {
+      const [metrics] = await storage.getDashboardMetrics(scope, [new Date()]);
+      assert.equal(metrics.averageGrade, 80);
+      assert.equal(metrics.pendingReviews, 1); // The resubmission still needs grading
+    }
+  });
+});
@@ -1,14 +1,29 @@
 import {
   users,
   courses,
+  modules,
   content,
   assignments,
   submissions,
   enrollments,
+  contentProgress,
+  uploads,
+  submissionVersions,
+  rubrics,
+  assignmentExtensions,
+  quizzes,
+  quizAttempts,
+  questionBanks,
+  bankQuestions,
+  gradeCategories,
+  riskFlags,
+  riskFlagEvents,
   type User,
   type InsertUser,
   type Course,
   type InsertCourse,
+  type Module,
+  type InsertModule,
   type Content,
   type InsertContent,
   type Assignment,
@@ -17,9 +32,93 @@ import {
   type InsertSubmission,
   type Enrollment,
   type InsertEnrollment,
+  type ContentProgress,
+  type StudentCourse,
+  type CourseOutlineUpdate,
+  type Upload,
+  type InsertUpload,
+  type UploadOwner,
+  type StoredFile,
+  type SubmissionVersion,
+  type SubmissionVersionWithFiles,
+  type Rubric,
+  type InsertRubric,
+  type RubricScores,
+  type AssignmentExtension,
+  type InsertAssignmentExtension,
+  type Quiz,
+  type InsertQuiz,
+  type QuizAttempt,
+  type QuizAnswers,
+  type QuizResults,
+  type QuizDraw,
+  type QuizQuestion,
+  type QuestionBank,
+  type InsertQuestionBank,
+  type BankQuestion,
+  type InsertBankQuestion,
+  type GradeCategory,
+  type InsertGradeCategory,
+  type RiskFlag,
+  type InsertRiskFlag,
+  type RiskFlagEvent,
+  type InsertRiskFlagEvent,
 } from "@shared/schema";
-import { db } from "./db";
-import { eq } from "drizzle-orm";
+import { rubricMaxPoints, rubricScore } from "@shared/rubrics";
+import {
+  daysLate,
+  deadlineStatus,
+  latePenalty,
+  studentDeadline,
+  withDeadline,
+  type AssignmentWithDeadline,
+  type Deadline,
+} from "@shared/deadlines";
+import {
+  attemptOrder,
+  attemptQuestionPool,
+  drawQuestions,
+  isAttemptExpired,
+  quizMaxPoints,
+  scoreAttempt,
+  totalResults,
+} from "@shared/quizzes";
+import { percentage, progressPercentage, type DashboardMetrics, type MetricsScope } from "@shared/analytics";
+import { hasGrade } from "@shared/gradebook";
+import { db, requireDatabaseUrl } from "./db";
+import { and, asc, count, desc, eq, inArray, isNotNull, isNull, sql, type SQL } from "drizzle-orm";
+
+// What a student hands in: text, newly uploaded files, and which previously submitted files to keep
+export type SubmittedWork = {
+  content: string | null;
+  files: StoredFile[];
+  keepFileIds: number[];
+};
+
+// A teacher's grade for a submission: points, or the levels picked on the assignment's rubric
+export type SubmissionGrade = {
+  grade?: number;
+  rubricScores?: RubricScores;
+  feedback: string | null;
+};
+
+// A teacher's review of a quiz attempt: points for short answers, and feedback
+export type QuizReview = {
+  scores: Record<string, number>;
+  feedback: string | null;
+};
+
+// The parts of a question bank that can be edited; its course is fixed
+export type QuestionBankUpdate = Pick<InsertQuestionBank, "title" | "description">;
+
+// The parts of a rubric that can be edited; its course is fixed
+export type RubricUpdate = Pick<InsertRubric, "title" | "description" | "criteria">;
+
+// The parts of a grade category that can be edited; its course is fixed
+export type GradeCategoryUpdate = Pick<InsertGradeCategory, "title" | "weight" | "dropLowest">;
+
+// What a check or the teacher can change on a risk flag; who it's about and why it was raised are fixed
+export type RiskFlagUpdate = Partial<Pick<RiskFlag, "status" | "explanation" | "checkedAt">>;
 
 export interface IStorage {
   // Users
@@ -27,14 +126,23 @@ export interface IStorage {
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: number, updates: Partial<Pick<User, 'name' | 'avatar'>>): Promise<User | undefined>; // Added updateUser
+  updateUserPassword(id: number, passwordHash: string): Promise<User | undefined>;
   
   // Courses
   getCourse(id: number): Promise<Course | undefined>;
   getCoursesByTeacher(teacherId: number): Promise<Course[]>;
-  getCoursesByStudent(studentId: number): Promise<Course[]>;
+  getCoursesByStudent(studentId: number): Promise<StudentCourse[]>;
   getAllCourses(): Promise<Course[]>;
   createCourse(course: InsertCourse): Promise<Course>;
   updateCourse(id: number, updates: Partial<Course>): Promise<Course | undefined>;
+
+  // Modules
+  getModule(id: number): Promise<Module | undefined>;
+  getModulesByCourse(courseId: number): Promise<Module[]>;
+  createModule(module: InsertModule): Promise<Module>;
+  updateModule(id: number, updates: Partial<Module>): Promise<Module | undefined>;
+  deleteModule(id: number): Promise<boolean>; // Its content becomes unassigned
+  updateCourseOutline(courseId: number, outline: CourseOutlineUpdate): Promise<{ modules: Module[], content: Content[] } | { error: string }>;
   
   // Content
   getContent(id: number): Promise<Content | undefined>;
@@ -49,11 +157,54 @@ export interface IStorage {
   getAssignmentsByTeacher(teacherId: number): Promise<Assignment[]>;
   createAssignment(assignment: InsertAssignment): Promise<Assignment>;
   updateAssignment(id: number, updates: Partial<Assignment>): Promise<Assignment | undefined>;
+
+  // Assignment Extensions
+  getExtension(assignmentId: number, studentId: number): Promise<AssignmentExtension | undefined>;
+  getExtensionsByAssignment(assignmentId: number): Promise<AssignmentExtension[]>;
+  setExtension(extension: InsertAssignmentExtension): Promise<AssignmentExtension>; // Replaces the student's extension; their submission's lateness is worked out again
+  deleteExtension(assignmentId: number, studentId: number): Promise<boolean>; // Likewise
+
+  // Rubrics
+  getRubric(id: number): Promise<Rubric | undefined>;
+  getRubricsByTeacher(teacherId: number): Promise<Rubric[]>;
+  createRubric(rubric: InsertRubric): Promise<Rubric>;
+  updateRubric(id: number, updates: RubricUpdate): Promise<Rubric | { error: string }>; // Also resets maxPoints of the assignments using it
+  deleteRubric(id: number): Promise<boolean | { error: string }>;
+
+  // Grade Categories
+  getGradeCategory(id: number): Promise<GradeCategory | undefined>;
+  getGradeCategoriesByCourse(courseId: number): Promise<GradeCategory[]>;
+  createGradeCategory(category: InsertGradeCategory): Promise<GradeCategory>;
+  updateGradeCategory(id: number, updates: GradeCategoryUpdate): Promise<GradeCategory | undefined>;
+  deleteGradeCategory(id: number): Promise<boolean>; // Its assignments become uncategorized
+
+  // Question Banks
+  getQuestionBank(id: number): Promise<QuestionBank | undefined>;
+  getQuestionBanksByCourse(courseId: number): Promise<QuestionBank[]>;
+  createQuestionBank(bank: InsertQuestionBank): Promise<QuestionBank>;
+  updateQuestionBank(id: number, updates: QuestionBankUpdate): Promise<QuestionBank | undefined>;
+  deleteQuestionBank(id: number): Promise<boolean | { error: string }>; // Refused while a quiz draws from it
+  getBankQuestions(bankId: number): Promise<BankQuestion[]>;
+  getBankQuestion(id: number): Promise<BankQuestion | undefined>;
+  addBankQuestions(bankId: number, questions: InsertBankQuestion[]): Promise<BankQuestion[]>;
+  updateBankQuestion(id: number, updates: InsertBankQuestion): Promise<BankQuestion | undefined>;
+  deleteBankQuestion(id: number): Promise<boolean>;
+
+  // Quizzes
+  getQuiz(assignmentId: number): Promise<Quiz | undefined>;
+  saveQuiz(assignmentId: number, quiz: InsertQuiz): Promise<Quiz | { error: string }>; // Also sets the assignment's maxPoints; refused once attempted
+  getQuizAttempt(id: number): Promise<QuizAttempt | undefined>;
+  getQuizAttempts(assignmentId: number, studentId: number): Promise<QuizAttempt[]>; // Oldest first
+  startQuizAttempt(assignmentId: number, studentId: number): Promise<QuizAttempt | { error: string }>; // Resumes the attempt in progress, if any
+  saveQuizAnswers(attemptId: number, answers: QuizAnswers): Promise<QuizAttempt | { error: string }>;
+  submitQuizAttempt(attemptId: number, answers?: QuizAnswers): Promise<QuizAttempt | { error: string }>; // Grades it into the student's submission
+  reviewQuizAttempt(attemptId: number, teacherId: number, review: QuizReview): Promise<QuizAttempt | { error: string }>;
   
   // Submissions
   getSubmission(id: number): Promise<Submission | undefined>;
   getSubmissionsByAssignment(assignmentId: number): Promise<Submission[]>;
   getSubmissionsByStudent(studentId: number): Promise<Submission[]>;
+  getSubmissionsByCourse(courseId: number): Promise<Submission[]>; // For every assignment in the course
   getSubmissionByAssignmentAndStudent(assignmentId: number, studentId: number): Promise<Submission | undefined>;
   createSubmission(submission: InsertSubmission): Promise<Submission>;
   updateSubmission(id: number, updates: Partial<Submission>): Promise<Submission | undefined>;
@@ -65,19 +216,311 @@ export interface IStorage {
   createEnrollment(enrollment: InsertEnrollment): Promise<Enrollment>;
   updateEnrollment(id: number, updates: Partial<Enrollment>): Promise<Enrollment | undefined>;
 
+  // Content Progress
+  getContentProgressForStudent(studentId: number, courseId: number): Promise<ContentProgress[]>;
+  getContentProgressByCourse(courseId: number): Promise<ContentProgress[]>; // Every student's
+  recordContentOpened(studentId: number, contentId: number): Promise<ContentProgress | { error: string }>;
+  setContentCompleted(studentId: number, contentId: number, completed: boolean): Promise<{ contentProgress: ContentProgress, enrollment: Enrollment } | { error: string }>;
+  recomputeEnrollmentProgress(courseId: number, studentId?: number): Promise<Enrollment[]>; // All enrollments in the course when studentId is omitted
+
+  // Uploads
+  getUpload(id: number): Promise<Upload | undefined>;
+  getUploadsByCourse(courseId: number): Promise<Upload[]>; // The teacher's files; submitted files are left out
+  getUploadsBySubmission(submissionId: number): Promise<Upload[]>; // Files of the latest version
+  getUploadsForStudent(courseId: number, studentId: number): Promise<Upload[] | { error: string }>; // Only attachments the student can see
+  createUpload(upload: InsertUpload): Promise<Upload>;
+  setAttachments(courseId: number, owner: UploadOwner, uploadIds: number[]): Promise<Upload[] | { error: string }>; // Replaces the owner's attachments
+  deleteUpload(id: number): Promise<boolean>;
+  countUploadsWithChecksum(checksum: string): Promise<number>; // A blob can be removed once nothing references it
+
   // Course Discovery & Enrollment
   getAvailableCoursesForStudent(studentId: number): Promise<Course[]>;
   enrollStudentInCourse(studentId: number, courseId: number): Promise<Enrollment | { error: string }>;
 
   // Course Content Access
-  getCourseWithContentForStudent(courseId: number, studentId: number): Promise<(Course & { content: Content[] }) | { error: string }>;
+  getCourseWithContentForStudent(courseId: number, studentId: number): Promise<(StudentCourse & { modules: Module[], content: Content[] }) | { error: string }>;
 
   // Assignments & Submissions
-  getAssignmentsForCourse(courseId: number, userId: number, userRole: string): Promise<(Assignment & { submissionStatus?: string, submissionId?: number, grade?: number | null })[] | { error: string }>;
-  createOrUpdateSubmission(assignmentId: number, studentId: number, content: string, submissionId?: number): Promise<Submission | { error: string }>;
-  getSubmissionDetails(submissionId: number, userId: number, userRole: string): Promise<(Submission & { assignment: Assignment, student?: User, course?: Course }) | { error: string }>;
+  getAssignmentsForCourse(courseId: number, userId: number, userRole: string): Promise<(AssignmentWithDeadline & { submissionStatus?: string, submissionId?: number, grade?: number | null })[] | { error: string }>;
+  createOrUpdateSubmission(assignmentId: number, studentId: number, work: SubmittedWork, submissionId?: number): Promise<(Submission & { files: Upload[] }) | { error: string }>;
+  getSubmissionDetails(submissionId: number, userId: number, userRole: string): Promise<(Submission & { assignment: Assignment, student?: User, course?: Course, files: Upload[] }) | { error: string }>;
+  gradeSubmission(submissionId: number, teacherId: number, grade: SubmissionGrade): Promise<Submission | { error: string }>; // Applies to the latest version and updates the student's progress
+  recordGrade(assignmentId: number, studentId: number, teacherId: number, grade: number, feedback?: string | null): Promise<Submission | { error: string }>; // From the gradebook; students who handed nothing in get an empty submission. Feedback is kept unless given
+
+  // Submission Versions
+  getSubmissionVersions(submissionId: number): Promise<SubmissionVersionWithFiles[]>; // Oldest first
+  getLatestSubmissionVersion(submissionId: number): Promise<SubmissionVersion | undefined>;
+
+  // Analytics
+  getDashboardMetrics(scope: MetricsScope, asOf: Date[]): Promise<DashboardMetrics[]>; // As they stood at each time, in the same order
+
+  // Risk Flags
+  getRiskFlag(id: number): Promise<RiskFlag | undefined>;
+  getRiskFlagsByCourse(courseId: number): Promise<RiskFlag[]>; // Newest first
+  getRiskFlagEvents(flagIds: number[]): Promise<RiskFlagEvent[]>; // Oldest first
+  createRiskFlag(flag: InsertRiskFlag): Promise<RiskFlag>; // Records that the check raised it
+  updateRiskFlag(id: number, updates: RiskFlagUpdate, event?: Omit<InsertRiskFlagEvent, "flagId">): Promise<RiskFlag | undefined>; // Records the event with the change
+}
+
+function sameIds(listed: number[], expected: number[]): boolean {
+  const unique = new Set(listed);
+  return unique.size === listed.length
+    && listed.length === expected.length
+    && expected.every(id => unique.has(id));
+}
+
+/**
+ * Checks that an outline places every module and content item of the course
+ * exactly once. Returns an error message, or undefined if the outline is valid.
+ */
+function validateOutline(outline: CourseOutlineUpdate, moduleIds: number[], contentIds: number[]): string | undefined {
+  if (!sameIds(outline.modules.map(m => m.id), moduleIds)) {
+    return "Outline must list every module of the course exactly once.";
+  }
+  const placedContentIds = [...outline.modules.flatMap(m => m.contentIds), ...outline.unassigned];
+  if (!sameIds(placedContentIds, contentIds)) {
+    return "Outline must place every content item of the course exactly once.";
+  }
+}
+
+/**
+ * Students see the titles of items in modules that haven't unlocked yet, but
+ * not their bodies.
+ */
+function hideLockedContent(courseModules: Module[], items: Content[]): Content[] {
+  const locked = new Set(courseModules.filter(isModuleLocked).map(m => m.id));
+  return items.map(item =>
+    item.moduleId !== null && locked.has(item.moduleId) ? { ...item, content: null, markdown: null } : item
+  );
+}
+
+function isModuleLocked(module: Module | undefined): boolean {
+  return !!module?.unlockAt && new Date(module.unlockAt) > new Date();
+}
+
+/**
+ * Students see files attached to assignments and to content outside locked
+ * modules. Unattached files are the teacher's working set.
+ */
+function studentVisibleUploads(courseUploads: Upload[], courseModules: Module[], items: Content[]): Upload[] {
+  const locked = new Set(courseModules.filter(isModuleLocked).map(m => m.id));
+  const available = new Set(items.filter(c => c.moduleId === null || !locked.has(c.moduleId)).map(c => c.id));
+  return courseUploads.filter(u => u.assignmentId !== null || (u.contentId !== null && available.has(u.contentId)));
+}
+
+function isAttachedTo(upload: Upload, owner: UploadOwner): boolean {
+  return 'contentId' in owner
+    ? upload.contentId === owner.contentId
+    : upload.assignmentId === owner.assignmentId;
+}
+
+/**
+ * Checks that every upload to be attached exists in the course and isn't
+ * already attached to something else. Returns an error message, or undefined.
+ */
+function validateAttachments(found: Upload[], uploadIds: number[], courseId: number, owner: UploadOwner): string | undefined {
+  const byId = new Map(found.map(u => [u.id, u]));
+  for (const id of uploadIds) {
+    const upload = byId.get(id);
+    if (!upload || upload.courseId !== courseId || upload.submissionId !== null) {
+      return "Attachment not found in this course.";
+    }
+    if ((upload.contentId !== null || upload.assignmentId !== null) && !isAttachedTo(upload, owner)) {
+      return "Attachment is already attached to another item.";
+    }
+  }
+}
+
+/**
+ * Files a resubmission keeps must come from the submission being replaced.
+ * Returns an error message, or undefined.
+ */
+function validateKeptFiles(previousFiles: Upload[], keepFileIds: number[]): string | undefined {
+  const previousIds = new Set(previousFiles.map(file => file.id));
+  if (keepFileIds.some(id => !previousIds.has(id))) {
+    return "Kept file is not part of this submission.";
+  }
+}
+
+/**
+ * Works out the points to record for a grade. Assignments with a rubric are
+ * scored from the picked levels; the rest take the points as given.
+ */
+function resolveGrade(assignment: Assignment, rubric: Rubric | undefined, grade: SubmissionGrade): { grade: number, rubricScores: RubricScores | null } | { error: string } {
+  if (assignment.type === "quiz") return { error: "Quizzes are graded from their answers; review the short answers instead." };
+  if (rubric) {
+    if (!grade.rubricScores) return { error: "This assignment is graded with its rubric." };
+    const points = rubricScore(rubric.criteria, grade.rubricScores);
+    if (points === undefined) return { error: "Pick one level for every rubric criterion." };
+    return { grade: points, rubricScores: grade.rubricScores };
+  }
+  if (grade.grade === undefined) return { error: "A grade is required." };
+  if (grade.grade > assignment.maxPoints) {
+    return { error: `Grade cannot be more than the assignment's ${assignment.maxPoints} points.` };
+  }
+  return { grade: grade.grade, rubricScores: null };
+}
+
+/**
+ * A submission's lateness against the student's current deadline. A graded
+ * submission's penalty is worked out again from its score before the penalty.
+ */
+function lateness(assignment: Assignment, deadline: Deadline, submission: Submission): Pick<Submission, "daysLate" | "grade" | "latePenalty"> {
+  const days = submission.submittedAt ? daysLate(deadline, new Date(submission.submittedAt)) : 0;
+  if (submission.grade === null) return { daysLate: days, grade: null, latePenalty: null };
+  const points = submission.grade + (submission.latePenalty ?? 0);
+  const penalty = latePenalty(assignment, days, points);
+  return { daysLate: days, grade: points - penalty, latePenalty: penalty };
+}
+
+const DEADLINE_PASSED = "The deadline for this assignment has passed.";
+const SUBMISSION_FOR_OTHER_ASSIGNMENT = "This submission belongs to a different assignment.";
+
+const QUIZ_NOT_FOUND = "Quiz not found.";
+const QUIZ_ATTEMPTED = "Students have already taken this quiz, so its questions can't be changed.";
+const QUIZ_ATTEMPT_SUBMITTED = "This attempt has already been submitted.";
+const QUESTION_BANK_IN_USE = "A quiz draws questions from this bank.";
+const QUIZ_NOT_SUBMITTABLE = "This assignment is a quiz; take the quiz instead of handing in work.";
+
+/**
+ * A new attempt at a quiz, with its questions in the order to show them. The
+ * time limit never runs past the moment the quiz closes.
+ */
+function newQuizAttempt(quiz: Quiz, drawnQuestions: QuizQuestion[], assignment: Assignment, deadline: Deadline, studentId: number, attempt: number, now: Date): Omit<QuizAttempt, "id"> {
+  const closesAt = deadline.lockDate ?? (assignment.latePolicy === "reject" ? deadline.dueDate : null);
+  const limitEndsAt = quiz.timeLimitMinutes ? new Date(now.getTime() + quiz.timeLimitMinutes * 60 * 1000) : null;
+  const expiresAt = [limitEndsAt, closesAt]
+    .filter((date): date is Date => date !== null)
+    .sort((a, b) => a.getTime() - b.getTime())[0];
+  return {
+    assignmentId: assignment.id,
+    studentId,
+    attempt,
+    ...attemptOrder(quiz, [...quiz.questions, ...drawnQuestions]),
+    drawnQuestions,
+    answers: {},
+    results: null,
+    score: null,
+    pendingReview: false,
+    startedAt: now.toISOString(),
+    expiresAt: expiresAt?.toISOString() ?? null,
+    submittedAt: null,
+  };
+}
+
+/**
+ * Checks that a student may start another attempt. Returns an error message,
+ * or undefined.
+ */
+function checkNewQuizAttempt(quiz: Quiz, assignment: Assignment, deadline: Deadline, attempts: QuizAttempt[], now: Date): string | undefined {
+  if (deadlineStatus(assignment, deadline, now) === "closed") return DEADLINE_PASSED;
+  if (quiz.maxAttempts !== null && attempts.length >= quiz.maxAttempts) {
+    return "You have used all your attempts at this quiz.";
+  }
+}
+
+/**
+ * Grades an attempt as it is submitted. Once its time is up, answers sent
+ * with the submission are ignored in favour of those saved in time.
+ */
+function submittedQuizAttempt(quiz: Quiz, attempt: QuizAttempt, answers: QuizAnswers | undefined, now: Date): Pick<QuizAttempt, "answers" | "results" | "score" | "pendingReview" | "submittedAt"> {
+  const expired = isAttemptExpired(attempt, now);
+  const finalAnswers = answers && !expired ? answers : attempt.answers;
+  const results = scoreAttempt(attemptQuestionPool(quiz, attempt), finalAnswers);
+  return {
+    answers: finalAnswers,
+    results,
+    ...totalResults(results),
+    submittedAt: expired ? attempt.expiresAt : now.toISOString(),
+  };
 }
 
+/**
+ * Results with a teacher's points for short answers filled in, or an error for
+ * points given to other questions or beyond what a question is worth.
+ */
+function reviewedQuizResults(quiz: Quiz, attempt: QuizAttempt, scores: Record<string, number>): { results: QuizResults } | { error: string } {
+  if (!attempt.results) return { error: "This attempt hasn't been submitted yet." };
+  const results = { ...attempt.results };
+  for (const [questionId, points] of Object.entries(scores)) {
+    const question = attemptQuestionPool(quiz, attempt).find(q => q.id === questionId);
+    if (question?.type !== "short-answer") return { error: "Only short answers are reviewed by hand." };
+    if (points > question.points) return { error: `A question worth ${question.points} points can't get ${points}.` };
+    results[questionId] = points;
+  }
+  return { results };
+}
+
+/**
+ * Submission fields from the attempt that counts: its score less any late
+ * penalty. The submission stays ungraded while short answers await review.
+ */
+function quizSubmissionFields(assignment: Assignment, deadline: Deadline, attempt: QuizAttempt): Pick<Submission, "content" | "submittedAt" | "status" | "grade" | "daysLate" | "latePenalty" | "gradedAt"> {
+  const days = attempt.submittedAt ? daysLate(deadline, new Date(attempt.submittedAt)) : 0;
+  const score = attempt.score ?? 0;
+  const penalty = latePenalty(assignment, days, score);
+  return {
+    content: null,
+    submittedAt: attempt.submittedAt,
+    status: attempt.pendingReview ? 'submitted' : 'graded',
+    grade: score - penalty,
+    daysLate: days,
+    latePenalty: penalty,
+    gradedAt: attempt.pendingReview ? null : new Date(),
+  };
+}
+
+const RUBRIC_IN_USE_FOR_GRADING = "This rubric has already been used for grading, so it can't be changed. Copy it to make changes.";
+
+/**
+ * Upload rows for a new submission version: the newly stored files plus
+ * copies of the previous version's files the student kept.
+ */
+function versionFileRows(work: SubmittedWork, previousFiles: Upload[], owner: Pick<InsertUpload, "courseId" | "uploaderId" | "submissionId" | "submissionVersionId">): InsertUpload[] {
+  const kept = previousFiles
+    .filter(file => work.keepFileIds.includes(file.id))
+    .map(({ filename, mimeType, size, checksum }) => ({ filename, mimeType, size, checksum }));
+  return [...kept, ...work.files].map(file => ({ ...file, ...owner }));
+}
+
+/**
+ * The queries behind a student's view of courses. They're built outside the
+ * class so tests can check the SQL without a database.
+ */
+export const studentCourseQueries = {
+  // The student's own enrollments, each joined to its course
+  enrolled: (studentId: number) => db
+    .select({ course: courses, progress: enrollments.progress, enrolledAt: enrollments.enrolledAt })
+    .from(enrollments)
+    .innerJoin(courses, eq(courses.id, enrollments.courseId))
+    .where(eq(enrollments.studentId, studentId))
+    .orderBy(asc(courses.id)),
+
+  // Active courses with no enrollment row for this student
+  available: (studentId: number) => db
+    .select({ course: courses })
+    .from(courses)
+    .leftJoin(enrollments, and(
+      eq(enrollments.courseId, courses.id),
+      eq(enrollments.studentId, studentId)
+    ))
+    .where(and(
+      eq(courses.status, "active"),
+      isNull(enrollments.id)
+    ))
+    .orderBy(asc(courses.id)),
+
+  // The course together with this student's enrollment, if any
+  withEnrollment: (courseId: number, studentId: number) => db
+    .select({ course: courses, enrollment: enrollments })
+    .from(courses)
+    .leftJoin(enrollments, and(
+      eq(enrollments.courseId, courses.id),
+      eq(enrollments.studentId, studentId)
+    ))
+    .where(eq(courses.id, courseId)),
+};
+
 export class DatabaseStorage implements IStorage {
   async getUser(id: number): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
@@ -109,6 +552,15 @@ export class DatabaseStorage implements IStorage {
     return user || undefined;
   }
 
+  async updateUserPassword(id: number, passwordHash: string): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ password: passwordHash })
+      .where(eq(users.id, id))
+      .returning();
+    return user || undefined;
+  }
+
   async getCourse(id: number): Promise<Course | undefined> {
     const [course] = await db.select().from(courses).where(eq(courses.id, id));
     return course || undefined;
@@ -118,13 +570,9 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(courses).where(eq(courses.teacherId, teacherId));
   }
 
-  async getCoursesByStudent(studentId: number): Promise<Course[]> {
-    const studentEnrollments = await db.select().from(enrollments).where(eq(enrollments.studentId, studentId));
-    const courseIds = studentEnrollments.map(enrollment => enrollment.courseId);
-    
-    if (courseIds.length === 0) return [];
-    
-    return await db.select().from(courses);
+  async getCoursesByStudent(studentId: number): Promise<StudentCourse[]> {
+    const rows = await studentCourseQueries.enrolled(studentId);
+    return rows.map(({ course, progress, enrolledAt }) => ({ ...course, progress, enrolledAt }));
   }
 
   async getAllCourses(): Promise<Course[]> {
@@ -148,13 +596,78 @@ export class DatabaseStorage implements IStorage {
     return course || undefined;
   }
 
+  async getModule(id: number): Promise<Module | undefined> {
+    const [module] = await db.select().from(modules).where(eq(modules.id, id));
+    return module || undefined;
+  }
+
+  async getModulesByCourse(courseId: number): Promise<Module[]> {
+    return await db.select().from(modules)
+      .where(eq(modules.courseId, courseId))
+      .orderBy(asc(modules.order), asc(modules.id));
+  }
+
+  async createModule(insertModule: InsertModule): Promise<Module> {
+    const [module] = await db
+      .insert(modules)
+      .values(insertModule)
+      .returning();
+    return module;
+  }
+
+  async updateModule(id: number, updates: Partial<Module>): Promise<Module | undefined> {
+    const [module] = await db
+      .update(modules)
+      .set(updates)
+      .where(eq(modules.id, id))
+      .returning();
+    return module || undefined;
+  }
+
+  async deleteModule(id: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      await tx.update(content).set({ moduleId: null }).where(eq(content.moduleId, id));
+      const deleted = await tx.delete(modules).where(eq(modules.id, id)).returning({ id: modules.id });
+      return deleted.length > 0;
+    });
+  }
+
+  async updateCourseOutline(courseId: number, outline: CourseOutlineUpdate): Promise<{ modules: Module[], content: Content[] } | { error: string }> {
+    const [courseModules, courseContentItems] = await Promise.all([
+      this.getModulesByCourse(courseId),
+      this.getContentByCourse(courseId),
+    ]);
+    const error = validateOutline(outline, courseModules.map(m => m.id), courseContentItems.map(c => c.id));
+    if (error) return { error };
+
+    await db.transaction(async (tx) => {
+      for (let moduleIndex = 0; moduleIndex < outline.modules.length; moduleIndex++) {
+        const { id, contentIds } = outline.modules[moduleIndex];
+        await tx.update(modules).set({ order: moduleIndex }).where(eq(modules.id, id));
+        for (let index = 0; index < contentIds.length; index++) {
+          await tx.update(content).set({ moduleId: id, order: index }).where(eq(content.id, contentIds[index]));
+        }
+      }
+      for (let index = 0; index < outline.unassigned.length; index++) {
+        await tx.update(content).set({ moduleId: null, order: index }).where(eq(content.id, outline.unassigned[index]));
+      }
+    });
+
+    return {
+      modules: await this.getModulesByCourse(courseId),
+      content: await this.getContentByCourse(courseId),
+    };
+  }
+
   async getContent(id: number): Promise<Content | undefined> {
     const [contentItem] = await db.select().from(content).where(eq(content.id, id));
     return contentItem || undefined;
   }
 
   async getContentByCourse(courseId: number): Promise<Content[]> {
-    return await db.select().from(content).where(eq(content.courseId, courseId));
+    return await db.select().from(content)
+      .where(eq(content.courseId, courseId))
+      .orderBy(asc(content.order), asc(content.id));
   }
 
   async createContent(insertContent: InsertContent): Promise<Content> {
@@ -175,8 +688,13 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteContent(id: number): Promise<boolean> {
-    const result = await db.delete(content).where(eq(content.id, id));
-    return result.rowCount > 0;
+    return await db.transaction(async (tx) => {
+      await tx.delete(contentProgress).where(eq(contentProgress.contentId, id));
+      // Attachments stay in the course's files, just unattached
+      await tx.update(uploads).set({ contentId: null }).where(eq(uploads.contentId, id));
+      const deleted = await tx.delete(content).where(eq(content.id, id)).returning({ id: content.id });
+      return deleted.length > 0;
+    });
   }
 
   async getAssignment(id: number): Promise<Assignment | undefined> {
@@ -209,6 +727,324 @@ export class DatabaseStorage implements IStorage {
     return assignment || undefined;
   }
 
+  async getExtension(assignmentId: number, studentId: number): Promise<AssignmentExtension | undefined> {
+    const [extension] = await db.select().from(assignmentExtensions)
+      .where(and(eq(assignmentExtensions.assignmentId, assignmentId), eq(assignmentExtensions.studentId, studentId)));
+    return extension || undefined;
+  }
+
+  async getExtensionsByAssignment(assignmentId: number): Promise<AssignmentExtension[]> {
+    return await db.select().from(assignmentExtensions).where(eq(assignmentExtensions.assignmentId, assignmentId));
+  }
+
+  async setExtension(extension: InsertAssignmentExtension): Promise<AssignmentExtension> {
+    const values = { ...extension, lockDate: extension.lockDate ?? null, grantedAt: new Date().toISOString() };
+    const [saved] = await db.insert(assignmentExtensions)
+      .values(values)
+      .onConflictDoUpdate({
+        target: [assignmentExtensions.assignmentId, assignmentExtensions.studentId],
+        set: { dueDate: values.dueDate, lockDate: values.lockDate, grantedBy: values.grantedBy, grantedAt: values.grantedAt },
+      })
+      .returning();
+    await this.rescoreLateness(extension.assignmentId, extension.studentId);
+    return saved;
+  }
+
+  async deleteExtension(assignmentId: number, studentId: number): Promise<boolean> {
+    const deleted = await db.delete(assignmentExtensions)
+      .where(and(eq(assignmentExtensions.assignmentId, assignmentId), eq(assignmentExtensions.studentId, studentId)))
+      .returning({ id: assignmentExtensions.id });
+    await this.rescoreLateness(assignmentId, studentId);
+    return deleted.length > 0;
+  }
+
+  private async rescoreLateness(assignmentId: number, studentId: number): Promise<void> {
+    const assignment = await this.getAssignment(assignmentId);
+    const submission = await this.getSubmissionByAssignmentAndStudent(assignmentId, studentId);
+    if (!assignment || !submission) return;
+    const deadline = studentDeadline(assignment, await this.getExtension(assignmentId, studentId));
+    await this.updateSubmission(submission.id, lateness(assignment, deadline, submission));
+  }
+
+  async getRubric(id: number): Promise<Rubric | undefined> {
+    const [rubric] = await db.select().from(rubrics).where(eq(rubrics.id, id));
+    return rubric || undefined;
+  }
+
+  async getRubricsByTeacher(teacherId: number): Promise<Rubric[]> {
+    return await db.select().from(rubrics)
+      .where(eq(rubrics.teacherId, teacherId))
+      .orderBy(asc(rubrics.id));
+  }
+
+  async createRubric(insertRubric: InsertRubric): Promise<Rubric> {
+    const [rubric] = await db.insert(rubrics).values(insertRubric).returning();
+    return rubric;
+  }
+
+  async updateRubric(id: number, updates: RubricUpdate): Promise<Rubric | { error: string }> {
+    return await db.transaction(async (tx) => {
+      const [scored] = await tx.select({ id: submissions.id })
+        .from(submissions)
+        .innerJoin(assignments, eq(submissions.assignmentId, assignments.id))
+        .where(and(eq(assignments.rubricId, id), isNotNull(submissions.rubricScores)))
+        .limit(1);
+      if (scored) return { error: RUBRIC_IN_USE_FOR_GRADING };
+
+      const [rubric] = await tx.update(rubrics).set(updates).where(eq(rubrics.id, id)).returning();
+      if (!rubric) return { error: "Rubric not found." };
+      await tx.update(assignments)
+        .set({ maxPoints: rubricMaxPoints(rubric.criteria) })
+        .where(eq(assignments.rubricId, id));
+      return rubric;
+    });
+  }
+
+  async deleteRubric(id: number): Promise<boolean | { error: string }> {
+    const [used] = await db.select({ id: assignments.id }).from(assignments)
+      .where(eq(assignments.rubricId, id))
+      .limit(1);
+    if (used) return { error: "This rubric is used by an assignment." };
+    const deleted = await db.delete(rubrics).where(eq(rubrics.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  async getGradeCategory(id: number): Promise<GradeCategory | undefined> {
+    const [category] = await db.select().from(gradeCategories).where(eq(gradeCategories.id, id));
+    return category || undefined;
+  }
+
+  async getGradeCategoriesByCourse(courseId: number): Promise<GradeCategory[]> {
+    return await db.select().from(gradeCategories)
+      .where(eq(gradeCategories.courseId, courseId))
+      .orderBy(asc(gradeCategories.id));
+  }
+
+  async createGradeCategory(insertCategory: InsertGradeCategory): Promise<GradeCategory> {
+    const [category] = await db.insert(gradeCategories).values(insertCategory).returning();
+    return category;
+  }
+
+  async updateGradeCategory(id: number, updates: GradeCategoryUpdate): Promise<GradeCategory | undefined> {
+    const [category] = await db.update(gradeCategories).set(updates).where(eq(gradeCategories.id, id)).returning();
+    return category || undefined;
+  }
+
+  async deleteGradeCategory(id: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      await tx.update(assignments).set({ categoryId: null }).where(eq(assignments.categoryId, id));
+      const deleted = await tx.delete(gradeCategories).where(eq(gradeCategories.id, id)).returning();
+      return deleted.length > 0;
+    });
+  }
+
+  async getQuestionBank(id: number): Promise<QuestionBank | undefined> {
+    const [bank] = await db.select().from(questionBanks).where(eq(questionBanks.id, id));
+    return bank || undefined;
+  }
+
+  async getQuestionBanksByCourse(courseId: number): Promise<QuestionBank[]> {
+    return await db.select().from(questionBanks)
+      .where(eq(questionBanks.courseId, courseId))
+      .orderBy(asc(questionBanks.title));
+  }
+
+  async createQuestionBank(insertBank: InsertQuestionBank): Promise<QuestionBank> {
+    const [bank] = await db.insert(questionBanks).values(insertBank).returning();
+    return bank;
+  }
+
+  async updateQuestionBank(id: number, updates: QuestionBankUpdate): Promise<QuestionBank | undefined> {
+    const [bank] = await db.update(questionBanks).set(updates).where(eq(questionBanks.id, id)).returning();
+    return bank || undefined;
+  }
+
+  async deleteQuestionBank(id: number): Promise<boolean | { error: string }> {
+    const bank = await this.getQuestionBank(id);
+    if (!bank) return false;
+
+    const courseQuizzes = await db.select({ draws: quizzes.draws }).from(quizzes)
+      .innerJoin(assignments, eq(quizzes.assignmentId, assignments.id))
+      .where(eq(assignments.courseId, bank.courseId));
+    if (courseQuizzes.some(quiz => quiz.draws.some(draw => draw.bankId === id))) {
+      return { error: QUESTION_BANK_IN_USE };
+    }
+
+    return await db.transaction(async (tx) => {
+      await tx.delete(bankQuestions).where(eq(bankQuestions.bankId, id));
+      const deleted = await tx.delete(questionBanks).where(eq(questionBanks.id, id)).returning();
+      return deleted.length > 0;
+    });
+  }
+
+  async getBankQuestions(bankId: number): Promise<BankQuestion[]> {
+    return await db.select().from(bankQuestions)
+      .where(eq(bankQuestions.bankId, bankId))
+      .orderBy(asc(bankQuestions.id));
+  }
+
+  async getBankQuestion(id: number): Promise<BankQuestion | undefined> {
+    const [question] = await db.select().from(bankQuestions).where(eq(bankQuestions.id, id));
+    return question || undefined;
+  }
+
+  async addBankQuestions(bankId: number, questions: InsertBankQuestion[]): Promise<BankQuestion[]> {
+    if (questions.length === 0) return [];
+    return await db.insert(bankQuestions)
+      .values(questions.map(question => ({ ...question, bankId })))
+      .returning();
+  }
+
+  async updateBankQuestion(id: number, updates: InsertBankQuestion): Promise<BankQuestion | undefined> {
+    const [question] = await db.update(bankQuestions).set(updates).where(eq(bankQuestions.id, id)).returning();
+    return question || undefined;
+  }
+
+  async deleteBankQuestion(id: number): Promise<boolean> {
+    const deleted = await db.delete(bankQuestions).where(eq(bankQuestions.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  // Every question in the banks the draws use
+  private async getDrawableQuestions(draws: QuizDraw[]): Promise<BankQuestion[]> {
+    const bankIds = Array.from(new Set(draws.map(draw => draw.bankId)));
+    if (bankIds.length === 0) return [];
+    return await db.select().from(bankQuestions).where(inArray(bankQuestions.bankId, bankIds));
+  }
+
+  async getQuiz(assignmentId: number): Promise<Quiz | undefined> {
+    const [quiz] = await db.select().from(quizzes).where(eq(quizzes.assignmentId, assignmentId));
+    return quiz || undefined;
+  }
+
+  async saveQuiz(assignmentId: number, insertQuiz: InsertQuiz): Promise<Quiz | { error: string }> {
+    return await db.transaction(async (tx) => {
+      const [attempted] = await tx.select({ id: quizAttempts.id }).from(quizAttempts)
+        .where(eq(quizAttempts.assignmentId, assignmentId))
+        .limit(1);
+      if (attempted) return { error: QUIZ_ATTEMPTED };
+
+      const [quiz] = await tx.insert(quizzes)
+        .values({ ...insertQuiz, assignmentId })
+        .onConflictDoUpdate({ target: quizzes.assignmentId, set: insertQuiz })
+        .returning();
+      await tx.update(assignments)
+        .set({ maxPoints: quizMaxPoints(quiz) })
+        .where(eq(assignments.id, assignmentId));
+      return quiz;
+    });
+  }
+
+  async getQuizAttempt(id: number): Promise<QuizAttempt | undefined> {
+    const [attempt] = await db.select().from(quizAttempts).where(eq(quizAttempts.id, id));
+    return attempt || undefined;
+  }
+
+  async getQuizAttempts(assignmentId: number, studentId: number): Promise<QuizAttempt[]> {
+    return await db.select().from(quizAttempts)
+      .where(and(eq(quizAttempts.assignmentId, assignmentId), eq(quizAttempts.studentId, studentId)))
+      .orderBy(asc(quizAttempts.attempt));
+  }
+
+  async startQuizAttempt(assignmentId: number, studentId: number): Promise<QuizAttempt | { error: string }> {
+    const assignment = await this.getAssignment(assignmentId);
+    const quiz = await this.getQuiz(assignmentId);
+    if (!assignment || !quiz) return { error: QUIZ_NOT_FOUND };
+
+    const [enrollment] = await db.select().from(enrollments)
+      .where(and(eq(enrollments.studentId, studentId), eq(enrollments.courseId, assignment.courseId)));
+    if (!enrollment) return { error: "Student not enrolled in the course for this assignment." };
+
+    const now = new Date();
+    const attempts = await this.getQuizAttempts(assignmentId, studentId);
+    const inProgress = attempts.find(a => a.submittedAt === null);
+    if (inProgress) {
+      if (!isAttemptExpired(inProgress, now)) return inProgress;
+      await this.submitQuizAttempt(inProgress.id); // Time ran out; the saved answers count
+    }
+
+    const deadline = studentDeadline(assignment, await this.getExtension(assignmentId, studentId));
+    const error = checkNewQuizAttempt(quiz, assignment, deadline, attempts, now);
+    if (error) return { error };
+
+    const drawn = drawQuestions(quiz.draws, await this.getDrawableQuestions(quiz.draws));
+    const [attempt] = await db.insert(quizAttempts)
+      .values(newQuizAttempt(quiz, drawn, assignment, deadline, studentId, attempts.length + 1, now))
+      .returning();
+    return attempt;
+  }
+
+  async saveQuizAnswers(attemptId: number, answers: QuizAnswers): Promise<QuizAttempt | { error: string }> {
+    const attempt = await this.getQuizAttempt(attemptId);
+    if (!attempt) return { error: "Quiz attempt not found." };
+    if (attempt.submittedAt) return { error: QUIZ_ATTEMPT_SUBMITTED };
+    if (isAttemptExpired(attempt, new Date())) return { error: "Time is up for this attempt." };
+
+    const [saved] = await db.update(quizAttempts).set({ answers }).where(eq(quizAttempts.id, attemptId)).returning();
+    return saved;
+  }
+
+  async submitQuizAttempt(attemptId: number, answers?: QuizAnswers): Promise<QuizAttempt | { error: string }> {
+    const attempt = await this.getQuizAttempt(attemptId);
+    if (!attempt) return { error: "Quiz attempt not found." };
+    if (attempt.submittedAt) return { error: QUIZ_ATTEMPT_SUBMITTED };
+
+    const assignment = await this.getAssignment(attempt.assignmentId);
+    const quiz = await this.getQuiz(attempt.assignmentId);
+    if (!assignment || !quiz) return { error: QUIZ_NOT_FOUND };
+
+    const [submitted] = await db.update(quizAttempts)
+      .set(submittedQuizAttempt(quiz, attempt, answers, new Date()))
+      .where(eq(quizAttempts.id, attemptId))
+      .returning();
+    await this.recordQuizSubmission(assignment, submitted, null); // Feedback was on an earlier attempt
+    return submitted;
+  }
+
+  async reviewQuizAttempt(attemptId: number, teacherId: number, review: QuizReview): Promise<QuizAttempt | { error: string }> {
+    const attempt = await this.getQuizAttempt(attemptId);
+    if (!attempt) return { error: "Quiz attempt not found." };
+
+    const assignment = await this.getAssignment(attempt.assignmentId);
+    const quiz = await this.getQuiz(attempt.assignmentId);
+    if (!assignment || !quiz) return { error: QUIZ_NOT_FOUND };
+    const course = await this.getCourse(assignment.courseId);
+    if (!course || course.teacherId !== teacherId) {
+      return { error: "Access denied. You are not the teacher of this course." };
+    }
+
+    const latest = (await this.getQuizAttempts(attempt.assignmentId, attempt.studentId))
+      .filter(a => a.submittedAt !== null)
+      .pop();
+    if (latest?.id !== attempt.id) return { error: "Only the latest submitted attempt counts, so only it can be reviewed." };
+
+    const reviewed = reviewedQuizResults(quiz, attempt, review.scores);
+    if ('error' in reviewed) return reviewed;
+    const { results } = reviewed;
+    const [updated] = await db.update(quizAttempts)
+      .set({ results, ...totalResults(results) })
+      .where(eq(quizAttempts.id, attemptId))
+      .returning();
+    await this.recordQuizSubmission(assignment, updated, review.feedback);
+    return updated;
+  }
+
+  // The student's submission mirrors the attempt that counts, and their progress follows it
+  private async recordQuizSubmission(assignment: Assignment, attempt: QuizAttempt, feedback?: string | null): Promise<void> {
+    const deadline = studentDeadline(assignment, await this.getExtension(assignment.id, attempt.studentId));
+    const fields = {
+      ...quizSubmissionFields(assignment, deadline, attempt),
+      ...(feedback !== undefined && { feedback }),
+    };
+    const existing = await this.getSubmissionByAssignmentAndStudent(assignment.id, attempt.studentId);
+    if (existing) {
+      await db.update(submissions).set(fields).where(eq(submissions.id, existing.id));
+    } else {
+      await db.insert(submissions).values({ ...fields, assignmentId: assignment.id, studentId: attempt.studentId });
+    }
+    await this.recomputeEnrollmentProgress(assignment.courseId, attempt.studentId);
+  }
+
   async getSubmission(id: number): Promise<Submission | undefined> {
     const [submission] = await db.select().from(submissions).where(eq(submissions.id, id));
     return submission || undefined;
@@ -222,9 +1058,19 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(submissions).where(eq(submissions.studentId, studentId));
   }
 
+  async getSubmissionsByCourse(courseId: number): Promise<Submission[]> {
+    const rows = await db.select({ submission: submissions }).from(submissions)
+      .innerJoin(assignments, eq(assignments.id, submissions.assignmentId))
+      .where(eq(assignments.courseId, courseId));
+    return rows.map(row => row.submission);
+  }
+
   async getSubmissionByAssignmentAndStudent(assignmentId: number, studentId: number): Promise<Submission | undefined> {
     const [submission] = await db.select().from(submissions)
-      .where(eq(submissions.assignmentId, assignmentId));
+      .where(and(
+        eq(submissions.assignmentId, assignmentId),
+        eq(submissions.studentId, studentId)
+      ));
     return submission || undefined;
   }
 
@@ -275,31 +1121,173 @@ export class DatabaseStorage implements IStorage {
     return enrollment || undefined;
   }
 
-  async getAvailableCoursesForStudent(studentId: number): Promise<Course[]> {
-    // Get all active courses
-    // (moved filtering of enrolled courses into the DB layer)
-
-    // Get all courses the student is already enrolled in
-    const studentEnrollments = await db
-      .select()
-      .from(enrollments)
-      .where(eq(enrollments.studentId, studentId));
-    const enrolledCourseIds = studentEnrollments.map(e => e.courseId);
-
-    if (enrolledCourseIds.length === 0) {
-      return await db
-        .select()
-        .from(courses)
-        .where(eq(courses.status, "active"));
-    }
-
-    return await db
-      .select()
-      .from(courses)
+  async getContentProgressForStudent(studentId: number, courseId: number): Promise<ContentProgress[]> {
+    return await db.select().from(contentProgress)
+      .where(and(
+        eq(contentProgress.studentId, studentId),
+        eq(contentProgress.courseId, courseId)
+      ));
+  }
+
+  async getContentProgressByCourse(courseId: number): Promise<ContentProgress[]> {
+    return await db.select().from(contentProgress).where(eq(contentProgress.courseId, courseId));
+  }
+
+  // Loads a content item a student is about to open or complete, checking they may see it
+  private async getAccessibleContent(studentId: number, contentId: number): Promise<Content | { error: string }> {
+    const contentItem = await this.getContent(contentId);
+    if (!contentItem) return { error: "Content not found." };
+
+    const [enrollment] = await db.select().from(enrollments)
+      .where(and(
+        eq(enrollments.studentId, studentId),
+        eq(enrollments.courseId, contentItem.courseId)
+      ));
+    if (!enrollment) return { error: "Student is not enrolled in this course." };
+
+    if (contentItem.moduleId !== null && isModuleLocked(await this.getModule(contentItem.moduleId))) {
+      return { error: "This content is not available yet." };
+    }
+    return contentItem;
+  }
+
+  async recordContentOpened(studentId: number, contentId: number): Promise<ContentProgress | { error: string }> {
+    const contentItem = await this.getAccessibleContent(studentId, contentId);
+    if ('error' in contentItem) return contentItem;
+
+    // Only the first open is recorded
+    await db.insert(contentProgress)
+      .values({ studentId, contentId, courseId: contentItem.courseId, openedAt: new Date().toISOString() })
+      .onConflictDoNothing();
+    const [row] = await db.select().from(contentProgress)
       .where(and(
-        eq(courses.status, "active"),
-        notInArray(courses.id, enrolledCourseIds)   // drizzle `inArray` helper
+        eq(contentProgress.studentId, studentId),
+        eq(contentProgress.contentId, contentId)
       ));
+    return row;
+  }
+
+  async setContentCompleted(studentId: number, contentId: number, completed: boolean): Promise<{ contentProgress: ContentProgress, enrollment: Enrollment } | { error: string }> {
+    const contentItem = await this.getAccessibleContent(studentId, contentId);
+    if ('error' in contentItem) return contentItem;
+
+    const now = new Date().toISOString();
+    const completedAt = completed ? now : null;
+    const [row] = await db.insert(contentProgress)
+      .values({ studentId, contentId, courseId: contentItem.courseId, openedAt: now, completedAt })
+      .onConflictDoUpdate({
+        target: [contentProgress.studentId, contentProgress.contentId],
+        set: { completedAt },
+      })
+      .returning();
+
+    const [enrollment] = await this.recomputeEnrollmentProgress(contentItem.courseId, studentId);
+    return { contentProgress: row, enrollment };
+  }
+
+  async recomputeEnrollmentProgress(courseId: number, studentId?: number): Promise<Enrollment[]> {
+    const enrollmentFilter = studentId === undefined
+      ? eq(enrollments.courseId, courseId)
+      : and(eq(enrollments.courseId, courseId), eq(enrollments.studentId, studentId));
+
+    const [courseEnrollments, [{ contentCount }], [{ assignmentCount }], completedRows, gradedRows] = await Promise.all([
+      db.select().from(enrollments).where(enrollmentFilter),
+      db.select({ contentCount: count() }).from(content).where(eq(content.courseId, courseId)),
+      db.select({ assignmentCount: count() }).from(assignments).where(eq(assignments.courseId, courseId)),
+      db.select({ studentId: contentProgress.studentId, done: count() })
+        .from(contentProgress)
+        .where(and(
+          eq(contentProgress.courseId, courseId),
+          isNotNull(contentProgress.completedAt)
+        ))
+        .groupBy(contentProgress.studentId),
+      db.select({ studentId: submissions.studentId, done: count() })
+        .from(submissions)
+        .innerJoin(assignments, eq(assignments.id, submissions.assignmentId))
+        .where(and(
+          eq(assignments.courseId, courseId),
+          inArray(submissions.status, ["graded", "resubmitted"]),
+          isNotNull(submissions.grade)
+        ))
+        .groupBy(submissions.studentId),
+    ]);
+
+    const completedByStudent = new Map(completedRows.map(r => [r.studentId, r.done]));
+    const gradedByStudent = new Map(gradedRows.map(r => [r.studentId, r.done]));
+
+    return await Promise.all(courseEnrollments.map(async (enrollment) => {
+      const done = (completedByStudent.get(enrollment.studentId) ?? 0) + (gradedByStudent.get(enrollment.studentId) ?? 0);
+      const progress = progressPercentage(done, contentCount + assignmentCount);
+      if (progress === enrollment.progress) return enrollment;
+      return (await this.updateEnrollment(enrollment.id, { progress })) ?? enrollment;
+    }));
+  }
+
+  async getUpload(id: number): Promise<Upload | undefined> {
+    const [upload] = await db.select().from(uploads).where(eq(uploads.id, id));
+    return upload || undefined;
+  }
+
+  async getUploadsByCourse(courseId: number): Promise<Upload[]> {
+    return await db.select().from(uploads)
+      .where(and(eq(uploads.courseId, courseId), isNull(uploads.submissionId)))
+      .orderBy(asc(uploads.id));
+  }
+
+  async getUploadsBySubmission(submissionId: number): Promise<Upload[]> {
+    const latest = await this.getLatestSubmissionVersion(submissionId);
+    if (!latest) return [];
+    return await db.select().from(uploads)
+      .where(eq(uploads.submissionVersionId, latest.id))
+      .orderBy(asc(uploads.id));
+  }
+
+  async getUploadsForStudent(courseId: number, studentId: number): Promise<Upload[] | { error: string }> {
+    const course = await this.getCourseWithContentForStudent(courseId, studentId);
+    if ('error' in course) return course;
+    return studentVisibleUploads(await this.getUploadsByCourse(courseId), course.modules, course.content);
+  }
+
+  async createUpload(insertUpload: InsertUpload): Promise<Upload> {
+    const [upload] = await db
+      .insert(uploads)
+      .values({ ...insertUpload, createdAt: new Date().toISOString() })
+      .returning();
+    return upload;
+  }
+
+  async setAttachments(courseId: number, owner: UploadOwner, uploadIds: number[]): Promise<Upload[] | { error: string }> {
+    const found = uploadIds.length > 0
+      ? await db.select().from(uploads).where(inArray(uploads.id, uploadIds))
+      : [];
+    const error = validateAttachments(found, uploadIds, courseId, owner);
+    if (error) return { error };
+
+    const [detach, attachedToOwner] = 'contentId' in owner
+      ? [{ contentId: null }, eq(uploads.contentId, owner.contentId)]
+      : [{ assignmentId: null }, eq(uploads.assignmentId, owner.assignmentId)];
+    return await db.transaction(async (tx) => {
+      await tx.update(uploads).set(detach).where(attachedToOwner);
+      if (uploadIds.length === 0) return [];
+      return await tx.update(uploads).set(owner)
+        .where(inArray(uploads.id, uploadIds))
+        .returning();
+    });
+  }
+
+  async deleteUpload(id: number): Promise<boolean> {
+    const deleted = await db.delete(uploads).where(eq(uploads.id, id)).returning({ id: uploads.id });
+    return deleted.length > 0;
+  }
+
+  async countUploadsWithChecksum(checksum: string): Promise<number> {
+    const [row] = await db.select({ total: count() }).from(uploads).where(eq(uploads.checksum, checksum));
+    return row.total;
+  }
+
+  async getAvailableCoursesForStudent(studentId: number): Promise<Course[]> {
+    const rows = await studentCourseQueries.available(studentId);
+    return rows.map(({ course }) => course);
   }
 
   async enrollStudentInCourse(studentId: number, courseId: number): Promise<Enrollment | { error: string }> {
@@ -315,16 +1303,13 @@ export class DatabaseStorage implements IStorage {
         }
 
         // 2. Check if student is already enrolled
--        const [existingEnrollment] = await tx.select().from(enrollments)
--          .where(eq(enrollments.studentId, studentId))
--          .where(eq(enrollments.courseId, courseId));
-+        const [existingEnrollment] = await tx
-+          .select()
-+          .from(enrollments)
-+          .where(and(
-+            eq(enrollments.studentId, studentId),
-+            eq(enrollments.courseId, courseId)
-+          ));
+        const [existingEnrollment] = await tx
+          .select()
+          .from(enrollments)
+          .where(and(
+            eq(enrollments.studentId, studentId),
+            eq(enrollments.courseId, courseId)
+          ));
 
         if (existingEnrollment) {
           return { error: "Student is already enrolled in this course." };
@@ -334,7 +1319,7 @@ export class DatabaseStorage implements IStorage {
         const [newEnrollment] = await tx.insert(enrollments).values({
           studentId,
           courseId,
-          enrolledAt: new Date(),
+          enrolledAt: new Date().toISOString(),
           progress: 0,
         }).returning();
 
@@ -359,37 +1344,33 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async getCourseWithContentForStudent(courseId: number, studentId: number): Promise<(Course & { content: Content[] }) | { error: string }> {
-    // 1. Verify enrollment
-    const [enrollment] = await db.select().from(enrollments)
-      .where(eq(enrollments.studentId, studentId))
-      .where(eq(enrollments.courseId, courseId));
-
-    if (!enrollment) {
-      return { error: "Student is not enrolled in this course." };
-    }
+  async getCourseWithContentForStudent(courseId: number, studentId: number): Promise<(StudentCourse & { modules: Module[], content: Content[] }) | { error: string }> {
+    // 1. Fetch the course together with this student's enrollment, if any
+    const [row] = await studentCourseQueries.withEnrollment(courseId, studentId);
 
-    // 2. Fetch course details
-    const [courseDetails] = await db.select().from(courses).where(eq(courses.id, courseId));
-    if (!courseDetails) {
+    if (!row) {
       return { error: "Course not found." };
     }
+    if (!row.enrollment) {
+      return { error: "Student is not enrolled in this course." };
+    }
 
-    // 3. Fetch course content, ordered by 'order'
-    // Assuming 'content' table has an 'order' column. If not, Drizzle might not have 'asc' directly on column.
-    // For now, let's assume 'content.order' exists and 'asc' can be applied.
-    // If 'content.order' is not directly sortable this way, this might need adjustment or schema change.
-    const courseContentItems = await db.select().from(content)
-      .where(eq(content.courseId, courseId))
-      .orderBy(content.order); // Drizzle ORM typically handles .orderBy(schema.table.column) or .orderBy(asc(schema.table.column))
+    // 2. Fetch modules and content in display order
+    const [courseModules, courseContentItems] = await Promise.all([
+      this.getModulesByCourse(courseId),
+      this.getContentByCourse(courseId),
+    ]);
 
     return {
-      ...courseDetails,
-      content: courseContentItems,
+      ...row.course,
+      progress: row.enrollment.progress,
+      enrolledAt: row.enrollment.enrolledAt,
+      modules: courseModules,
+      content: hideLockedContent(courseModules, courseContentItems),
     };
   }
 
-  async getAssignmentsForCourse(courseId: number, userId: number, userRole: string): Promise<(Assignment & { submissionStatus?: string, submissionId?: number, grade?: number | null })[] | { error: string }> {
+  async getAssignmentsForCourse(courseId: number, userId: number, userRole: string): Promise<(AssignmentWithDeadline & { submissionStatus?: string, submissionId?: number, grade?: number | null })[] | { error: string }> {
     // Verify user has access to the course (either enrolled student or teacher)
     const course = await this.getCourse(courseId);
     if (!course) return { error: "Course not found." };
@@ -397,8 +1378,10 @@ export class DatabaseStorage implements IStorage {
     let isEnrolled = false;
     if (userRole === 'student') {
       const enrollment = await db.select().from(enrollments)
-        .where(eq(enrollments.studentId, userId))
-        .where(eq(enrollments.courseId, courseId));
+        .where(and(
+          eq(enrollments.studentId, userId),
+          eq(enrollments.courseId, courseId)
+        ));
       if (enrollment.length > 0) isEnrolled = true;
     }
 
@@ -415,10 +1398,12 @@ export class DatabaseStorage implements IStorage {
       const assignmentsWithSubmissions = await Promise.all(
         courseAssignments.map(async (assignment) => {
           const [submission] = await db.select().from(submissions)
-            .where(eq(submissions.assignmentId, assignment.id))
-            .where(eq(submissions.studentId, userId));
+            .where(and(
+              eq(submissions.assignmentId, assignment.id),
+              eq(submissions.studentId, userId)
+            ));
           return {
-            ...assignment,
+            ...withDeadline(assignment, await this.getExtension(assignment.id, userId)),
             submissionStatus: submission?.status || 'not-submitted',
             submissionId: submission?.id,
             grade: submission?.grade,
@@ -429,61 +1414,107 @@ export class DatabaseStorage implements IStorage {
     }
     
     // For teachers, just return the assignments
-    return courseAssignments.map(a => ({...a, submissionStatus: undefined, submissionId: undefined, grade: undefined }));
+    return courseAssignments.map(a => ({...withDeadline(a), submissionStatus: undefined, submissionId: undefined, grade: undefined }));
   }
 
-  async createOrUpdateSubmission(assignmentId: number, studentId: number, submissionContent: string, submissionIdToUpdate?: number): Promise<Submission | { error: string }> {
+  async createOrUpdateSubmission(assignmentId: number, studentId: number, work: SubmittedWork, submissionIdToUpdate?: number): Promise<(Submission & { files: Upload[] }) | { error: string }> {
     // 1. Verify assignment exists
     const assignment = await this.getAssignment(assignmentId);
     if (!assignment) return { error: "Assignment not found." };
+    if (assignment.type === "quiz") return { error: QUIZ_NOT_SUBMITTABLE };
 
     // 2. Verify student is enrolled in the course associated with the assignment
     const course = await this.getCourse(assignment.courseId);
     if (!course) return { error: "Course not found for this assignment."} // Should not happen if DB is consistent
 
     const [enrollment] = await db.select().from(enrollments)
-      .where(eq(enrollments.studentId, studentId))
-      .where(eq(enrollments.courseId, assignment.courseId));
+      .where(and(
+        eq(enrollments.studentId, studentId),
+        eq(enrollments.courseId, assignment.courseId)
+      ));
     if (!enrollment) return { error: "Student not enrolled in the course for this assignment." };
+
+    const deadline = studentDeadline(assignment, await this.getExtension(assignmentId, studentId));
+    const now = new Date();
+    if (deadlineStatus(assignment, deadline, now) === "closed") return { error: DEADLINE_PASSED };
     
     // 3. Check if it's an update or new submission
     let existingSubmission: Submission | undefined = undefined;
     if (submissionIdToUpdate) {
-        [existingSubmission] = await db.select().from(submissions).where(eq(submissions.id, submissionIdToUpdate)).where(eq(submissions.studentId, studentId));
+        [existingSubmission] = await db.select().from(submissions)
+            .where(and(
+                eq(submissions.id, submissionIdToUpdate),
+                eq(submissions.studentId, studentId)
+            ));
         if (!existingSubmission) return { error: "Submission to update not found or access denied." };
+        // Its own assignment's deadline and late policy are the ones that apply
+        if (existingSubmission.assignmentId !== assignmentId) return { error: SUBMISSION_FOR_OTHER_ASSIGNMENT };
     } else {
         // For new submissions, or if ID not provided, check if one already exists for this assignment by this student
         [existingSubmission] = await db.select().from(submissions)
-            .where(eq(submissions.assignmentId, assignmentId))
-            .where(eq(submissions.studentId, studentId));
+            .where(and(
+                eq(submissions.assignmentId, assignmentId),
+                eq(submissions.studentId, studentId)
+            ));
     }
 
 
-    if (existingSubmission) {
-      // Update existing submission
-      const [updatedSubmission] = await db.update(submissions)
-        .set({
-          content: submissionContent,
-          submittedAt: new Date(),
-          status: 'resubmitted', // Or 'pending' if resubmissions are treated as initial
-        })
-        .where(eq(submissions.id, existingSubmission.id))
-        .returning();
-      return updatedSubmission || { error: "Failed to update submission." };
-    } else {
-      // Create new submission
-      const [newSubmission] = await db.insert(submissions).values({
-        assignmentId,
-        studentId,
-        content: submissionContent,
-        submittedAt: new Date(),
-        status: 'submitted', // Or 'pending'
+    const previousFiles = existingSubmission ? await this.getUploadsBySubmission(existingSubmission.id) : [];
+    const fileError = validateKeptFiles(previousFiles, work.keepFileIds);
+    if (fileError) return { error: fileError };
+
+    const submittedAt = now.toISOString();
+    return await db.transaction(async (tx) => {
+      let submission: Submission | undefined;
+      if (existingSubmission) {
+        // Update existing submission
+        [submission] = await tx.update(submissions)
+          .set({
+            content: work.content,
+            submittedAt,
+            status: 'resubmitted', // Or 'pending' if resubmissions are treated as initial
+            daysLate: daysLate(deadline, now),
+          })
+          .where(eq(submissions.id, existingSubmission.id))
+          .returning();
+      } else {
+        // Create new submission
+        [submission] = await tx.insert(submissions).values({
+          assignmentId,
+          studentId,
+          content: work.content,
+          submittedAt,
+          status: 'submitted', // Or 'pending'
+          daysLate: daysLate(deadline, now),
+        }).returning();
+      }
+
+      const [latest] = await tx.select({ version: submissionVersions.version }).from(submissionVersions)
+        .where(eq(submissionVersions.submissionId, submission.id))
+        .orderBy(desc(submissionVersions.version))
+        .limit(1);
+      const [version] = await tx.insert(submissionVersions).values({
+        submissionId: submission.id,
+        version: (latest?.version ?? 0) + 1,
+        content: work.content,
+        submittedAt,
       }).returning();
-      return newSubmission || { error: "Failed to create submission." };
-    }
+
+      // Kept files are copied so every version keeps its own file list; they share the blob
+      const versionFiles = versionFileRows(work, previousFiles, {
+        courseId: assignment.courseId,
+        uploaderId: studentId,
+        submissionId: submission.id,
+        submissionVersionId: version.id,
+      });
+      const files = versionFiles.length > 0
+        ? await tx.insert(uploads).values(versionFiles.map(file => ({ ...file, createdAt: submittedAt }))).returning()
+        : [];
+      return { ...submission, files };
+    });
   }
 
-  async getSubmissionDetails(submissionId: number, userId: number, userRole: string): Promise<(Submission & { assignment: Assignment, student?: User, course?: Course }) | { error: string }> {
+  async getSubmissionDetails(submissionId: number, userId: number, userRole: string): Promise<(Submission & { assignment: Assignment, student?: User, course?: Course, files: Upload[] }) | { error: string }> {
     const [submission] = await db.select().from(submissions).where(eq(submissions.id, submissionId));
     if (!submission) return { error: "Submission not found." };
 
@@ -511,8 +1542,1287 @@ export class DatabaseStorage implements IStorage {
       assignment,
       student: studentData, // Only populated for teacher
       course, // Added course for context
+      files: await this.getUploadsBySubmission(submission.id),
     };
   }
+
+  async gradeSubmission(submissionId: number, teacherId: number, grade: SubmissionGrade): Promise<Submission | { error: string }> {
+    const submission = await this.getSubmission(submissionId);
+    if (!submission) return { error: "Submission not found." };
+
+    const assignment = await this.getAssignment(submission.assignmentId);
+    if (!assignment) return { error: "Assignment not found for this submission." };
+
+    const course = await this.getCourse(assignment.courseId);
+    if (!course || course.teacherId !== teacherId) {
+      return { error: "Access denied. You are not the teacher of this course." };
+    }
+
+    const rubric = assignment.rubricId !== null ? await this.getRubric(assignment.rubricId) : undefined;
+    const resolved = resolveGrade(assignment, rubric, grade);
+    if ('error' in resolved) return resolved;
+
+    const penalty = latePenalty(assignment, submission.daysLate, resolved.grade);
+    const latest = await this.getLatestSubmissionVersion(submissionId);
+    const [graded] = await db.update(submissions)
+      .set({
+        grade: resolved.grade - penalty,
+        latePenalty: penalty,
+        rubricScores: resolved.rubricScores,
+        feedback: grade.feedback,
+        status: 'graded',
+        gradedVersionId: latest?.id ?? null,
+        gradedAt: new Date(),
+      })
+      .where(eq(submissions.id, submissionId))
+      .returning();
+    await this.recomputeEnrollmentProgress(assignment.courseId, submission.studentId);
+    return graded;
+  }
+
+  async recordGrade(assignmentId: number, studentId: number, teacherId: number, grade: number, feedback?: string | null): Promise<Submission | { error: string }> {
+    const assignment = await this.getAssignment(assignmentId);
+    if (!assignment) return { error: "Assignment not found." };
+
+    const course = await this.getCourse(assignment.courseId);
+    if (!course || course.teacherId !== teacherId) {
+      return { error: "Access denied. You are not the teacher of this course." };
+    }
+    const [enrollment] = await db.select({ id: enrollments.id }).from(enrollments)
+      .where(and(eq(enrollments.courseId, course.id), eq(enrollments.studentId, studentId)));
+    if (!enrollment) return { error: "Student not enrolled in this course." };
+
+    // Checked before an empty submission is made for a grade that can't be given
+    const rubric = assignment.rubricId !== null ? await this.getRubric(assignment.rubricId) : undefined;
+    const resolved = resolveGrade(assignment, rubric, { grade, feedback: null });
+    if ('error' in resolved) return resolved;
+
+    const submission = await this.getSubmissionByAssignmentAndStudent(assignmentId, studentId)
+      ?? await this.createSubmission({ assignmentId, studentId, content: null });
+    return this.gradeSubmission(submission.id, teacherId, { grade, feedback: feedback === undefined ? submission.feedback : feedback });
+  }
+
+  async getSubmissionVersions(submissionId: number): Promise<SubmissionVersionWithFiles[]> {
+    const versions = await db.select().from(submissionVersions)
+      .where(eq(submissionVersions.submissionId, submissionId))
+      .orderBy(asc(submissionVersions.version));
+    const files = await db.select().from(uploads)
+      .where(eq(uploads.submissionId, submissionId))
+      .orderBy(asc(uploads.id));
+    return versions.map(version => ({ ...version, files: files.filter(file => file.submissionVersionId === version.id) }));
+  }
+
+  async getLatestSubmissionVersion(submissionId: number): Promise<SubmissionVersion | undefined> {
+    const [version] = await db.select().from(submissionVersions)
+      .where(eq(submissionVersions.submissionId, submissionId))
+      .orderBy(desc(submissionVersions.version))
+      .limit(1);
+    return version || undefined;
+  }
+
+  /**
+   * Two aggregate queries however many times are asked for: each time's
+   * figures are filtered columns of the same rows. A grade counts from when
+   * it was given; work handed in since a time was graded counts as still
+   * waiting at that time, but a resubmission since then can't be told apart.
+   */
+  async getDashboardMetrics(scope: MetricsScope, asOf: Date[]): Promise<DashboardMetrics[]> {
+    if (asOf.length === 0) return [];
+    const handedIn = (at: string) => sql`${submissions.submittedAt} <= ${at}`;
+    const gradedBy = (at: string) => sql`(${submissions.gradedAt} is null or ${submissions.gradedAt} <= ${at}::timestamptz)`;
+    const graded = (at: string) => sql`(${submissions.status} = 'graded' and ${gradedBy(at)})`;
+    // As hasGrade: a grade still counts while a resubmission waits
+    const scored = (at: string) =>
+      sql`${submissions.status} in ('graded', 'resubmitted') and ${submissions.grade} is not null and ${gradedBy(at)} and ${assignments.maxPoints} > 0`;
+
+    const dueColumns: Record<string, SQL<number>> = {};
+    const workColumns: Record<string, SQL<number>> = {};
+    asOf.map(time => time.toISOString()).forEach((at, i) => {
+      const isDue = sql`${assignments.dueDate} <= ${at}::timestamptz`;
+      dueColumns[`due${i}`] = sql<number>`count(*) filter (where ${isDue})`.mapWith(Number);
+      dueColumns[`done${i}`] = sql<number>`count(${submissions.id}) filter (where ${isDue} and (${handedIn(at)} or ${graded(at)}))`.mapWith(Number);
+      workColumns[`scored${i}`] = sql<number>`count(*) filter (where ${scored(at)})`.mapWith(Number);
+      workColumns[`scoreTotal${i}`] = sql<number>`coalesce(sum(${submissions.grade}::numeric / ${assignments.maxPoints}) filter (where ${scored(at)}), 0)`.mapWith(Number);
+      workColumns[`handedIn${i}`] = sql<number>`count(*) filter (where ${handedIn(at)})`.mapWith(Number);
+      workColumns[`onTime${i}`] = sql<number>`count(*) filter (where ${handedIn(at)} and ${submissions.daysLate} = 0)`.mapWith(Number);
+      workColumns[`pending${i}`] = sql<number>`count(*) filter (where ${handedIn(at)} and not ${graded(at)})`.mapWith(Number);
+    });
+
+    const [[due], [work]] = await Promise.all([
+      // Every assignment due for every enrolled student, with what they handed in
+      db.select(dueColumns).from(assignments)
+        .innerJoin(courses, eq(courses.id, assignments.courseId))
+        .innerJoin(enrollments, eq(enrollments.courseId, assignments.courseId))
+        .leftJoin(submissions, and(
+          eq(submissions.assignmentId, assignments.id),
+          eq(submissions.studentId, enrollments.studentId)
+        ))
+        .where('teacherId' in scope ? eq(courses.teacherId, scope.teacherId) : eq(enrollments.studentId, scope.studentId)),
+      db.select(workColumns).from(submissions)
+        .innerJoin(assignments, eq(assignments.id, submissions.assignmentId))
+        .innerJoin(courses, eq(courses.id, assignments.courseId))
+        .where('teacherId' in scope ? eq(courses.teacherId, scope.teacherId) : eq(submissions.studentId, scope.studentId)),
+    ]);
+
+    return asOf.map((_, i) => ({
+      completionRate: percentage(due[`done${i}`], due[`due${i}`]),
+      averageGrade: percentage(work[`scoreTotal${i}`], work[`scored${i}`]),
+      onTimeRate: percentage(work[`onTime${i}`], work[`handedIn${i}`]),
+      pendingReviews: work[`pending${i}`],
+    }));
+  }
+
+  async getRiskFlag(id: number): Promise<RiskFlag | undefined> {
+    const [flag] = await db.select().from(riskFlags).where(eq(riskFlags.id, id));
+    return flag || undefined;
+  }
+
+  async getRiskFlagsByCourse(courseId: number): Promise<RiskFlag[]> {
+    return await db.select().from(riskFlags)
+      .where(eq(riskFlags.courseId, courseId))
+      .orderBy(desc(riskFlags.raisedAt), desc(riskFlags.id));
+  }
+
+  async getRiskFlagEvents(flagIds: number[]): Promise<RiskFlagEvent[]> {
+    if (flagIds.length === 0) return [];
+    return await db.select().from(riskFlagEvents)
+      .where(inArray(riskFlagEvents.flagId, flagIds))
+      .orderBy(asc(riskFlagEvents.at), asc(riskFlagEvents.id));
+  }
+
+  async createRiskFlag(insertFlag: InsertRiskFlag): Promise<RiskFlag> {
+    return await db.transaction(async (tx) => {
+      const [flag] = await tx.insert(riskFlags).values(insertFlag).returning();
+      await tx.insert(riskFlagEvents).values({ flagId: flag.id, action: "raised", at: flag.raisedAt });
+      return flag;
+    });
+  }
+
+  async updateRiskFlag(id: number, updates: RiskFlagUpdate, event?: Omit<InsertRiskFlagEvent, "flagId">): Promise<RiskFlag | undefined> {
+    return await db.transaction(async (tx) => {
+      const [flag] = await tx.update(riskFlags).set(updates).where(eq(riskFlags.id, id)).returning();
+      if (!flag) return undefined;
+      if (event) await tx.insert(riskFlagEvents).values({ ...event, flagId: id });
+      return flag;
+    });
+  }
+}
+
+/**
+ * Keeps everything in process memory. Mirrors DatabaseStorage method for
+ * method, including its `{ error }` results, so the app and tests can run
+ * without Postgres. Data is lost on restart.
+ */
+export class MemStorage implements IStorage {
+  private users = new Map<number, User>();
+  private courses = new Map<number, Course>();
+  private modules = new Map<number, Module>();
+  private content = new Map<number, Content>();
+  private assignments = new Map<number, Assignment>();
+  private submissions = new Map<number, Submission>();
+  private enrollments = new Map<number, Enrollment>();
+  private contentProgress = new Map<number, ContentProgress>();
+  private uploads = new Map<number, Upload>();
+  private submissionVersions = new Map<number, SubmissionVersion>();
+  private rubrics = new Map<number, Rubric>();
+  private extensions = new Map<number, AssignmentExtension>();
+  private quizzes = new Map<number, Quiz>();
+  private quizAttempts = new Map<number, QuizAttempt>();
+  private questionBanks = new Map<number, QuestionBank>();
+  private bankQuestions = new Map<number, BankQuestion>();
+  private gradeCategories = new Map<number, GradeCategory>();
+  private riskFlags = new Map<number, RiskFlag>();
+  private riskFlagEvents = new Map<number, RiskFlagEvent>();
+  private nextId = {
+    users: 1,
+    courses: 1,
+    modules: 1,
+    content: 1,
+    assignments: 1,
+    submissions: 1,
+    enrollments: 1,
+    contentProgress: 1,
+    uploads: 1,
+    submissionVersions: 1,
+    rubrics: 1,
+    extensions: 1,
+    quizzes: 1,
+    quizAttempts: 1,
+    questionBanks: 1,
+    bankQuestions: 1,
+    gradeCategories: 1,
+    riskFlags: 1,
+    riskFlagEvents: 1,
+  };
+
+  private findEnrollment(studentId: number, courseId: number): Enrollment | undefined {
+    return Array.from(this.enrollments.values())
+      .find(e => e.studentId === studentId && e.courseId === courseId);
+  }
+
+  private findSubmission(assignmentId: number, studentId: number): Submission | undefined {
+    return Array.from(this.submissions.values())
+      .find(s => s.assignmentId === assignmentId && s.studentId === studentId);
+  }
+
+  private update<T extends { id: number }>(map: Map<number, T>, id: number, updates: Partial<NoInfer<T>>): T | undefined {
+    const existing = map.get(id);
+    if (!existing) return undefined;
+    const updated = { ...existing, ...updates, id };
+    map.set(id, updated);
+    return updated;
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(u => u.username === username);
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    if (await this.getUserByUsername(insertUser.username)) {
+      throw new Error(`duplicate key value violates unique constraint "users_username_unique"`);
+    }
+    const user: User = { ...insertUser, avatar: insertUser.avatar ?? null, id: this.nextId.users++ };
+    this.users.set(user.id, user);
+    return user;
+  }
+
+  async updateUser(id: number, updates: Partial<Pick<User, 'name' | 'avatar'>>): Promise<User | undefined> {
+    return this.update(this.users, id, updates);
+  }
+
+  async updateUserPassword(id: number, passwordHash: string): Promise<User | undefined> {
+    return this.update(this.users, id, { password: passwordHash });
+  }
+
+  async getCourse(id: number): Promise<Course | undefined> {
+    return this.courses.get(id);
+  }
+
+  async getCoursesByTeacher(teacherId: number): Promise<Course[]> {
+    return Array.from(this.courses.values()).filter(c => c.teacherId === teacherId);
+  }
+
+  async getCoursesByStudent(studentId: number): Promise<StudentCourse[]> {
+    return Array.from(this.enrollments.values())
+      .filter(e => e.studentId === studentId)
+      .flatMap(e => {
+        const course = this.courses.get(e.courseId);
+        return course ? [{ ...course, progress: e.progress, enrolledAt: e.enrolledAt }] : [];
+      })
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getAllCourses(): Promise<Course[]> {
+    return Array.from(this.courses.values());
+  }
+
+  async createCourse(insertCourse: InsertCourse): Promise<Course> {
+    const course: Course = {
+      ...insertCourse,
+      description: insertCourse.description ?? null,
+      status: insertCourse.status ?? "draft",
+      thumbnail: insertCourse.thumbnail ?? null,
+      gradeScale: null,
+      riskThresholds: null,
+      enrollmentCount: 0,
+      id: this.nextId.courses++,
+    };
+    this.courses.set(course.id, course);
+    return course;
+  }
+
+  async updateCourse(id: number, updates: Partial<Course>): Promise<Course | undefined> {
+    return this.update(this.courses, id, updates);
+  }
+
+  async getModule(id: number): Promise<Module | undefined> {
+    return this.modules.get(id);
+  }
+
+  async getModulesByCourse(courseId: number): Promise<Module[]> {
+    return Array.from(this.modules.values())
+      .filter(m => m.courseId === courseId)
+      .sort((a, b) => a.order - b.order || a.id - b.id);
+  }
+
+  async createModule(insertModule: InsertModule): Promise<Module> {
+    const module: Module = {
+      ...insertModule,
+      description: insertModule.description ?? null,
+      order: insertModule.order ?? 0,
+      unlockAt: insertModule.unlockAt ?? null,
+      id: this.nextId.modules++,
+    };
+    this.modules.set(module.id, module);
+    return module;
+  }
+
+  async updateModule(id: number, updates: Partial<Module>): Promise<Module | undefined> {
+    return this.update(this.modules, id, updates);
+  }
+
+  async deleteModule(id: number): Promise<boolean> {
+    for (const item of Array.from(this.content.values())) {
+      if (item.moduleId === id) this.update(this.content, item.id, { moduleId: null });
+    }
+    return this.modules.delete(id);
+  }
+
+  async updateCourseOutline(courseId: number, outline: CourseOutlineUpdate): Promise<{ modules: Module[], content: Content[] } | { error: string }> {
+    const courseModules = await this.getModulesByCourse(courseId);
+    const courseContentItems = await this.getContentByCourse(courseId);
+    const error = validateOutline(outline, courseModules.map(m => m.id), courseContentItems.map(c => c.id));
+    if (error) return { error };
+
+    outline.modules.forEach(({ id, contentIds }, moduleIndex) => {
+      this.update(this.modules, id, { order: moduleIndex });
+      contentIds.forEach((contentId, index) => this.update(this.content, contentId, { moduleId: id, order: index }));
+    });
+    outline.unassigned.forEach((contentId, index) => this.update(this.content, contentId, { moduleId: null, order: index }));
+
+    return {
+      modules: await this.getModulesByCourse(courseId),
+      content: await this.getContentByCourse(courseId),
+    };
+  }
+
+  async getContent(id: number): Promise<Content | undefined> {
+    return this.content.get(id);
+  }
+
+  async getContentByCourse(courseId: number): Promise<Content[]> {
+    return Array.from(this.content.values())
+      .filter(c => c.courseId === courseId)
+      .sort((a, b) => a.order - b.order || a.id - b.id);
+  }
+
+  async createContent(insertContent: InsertContent): Promise<Content> {
+    const contentItem: Content = {
+      ...insertContent,
+      description: insertContent.description ?? null,
+      content: insertContent.content ?? null,
+      markdown: insertContent.markdown ?? null,
+      moduleId: insertContent.moduleId ?? null,
+      order: insertContent.order ?? 0,
+      id: this.nextId.content++,
+    };
+    this.content.set(contentItem.id, contentItem);
+    return contentItem;
+  }
+
+  async updateContent(id: number, updates: Partial<Content>): Promise<Content | undefined> {
+    return this.update(this.content, id, updates);
+  }
+
+  async deleteContent(id: number): Promise<boolean> {
+    for (const row of Array.from(this.contentProgress.values())) {
+      if (row.contentId === id) this.contentProgress.delete(row.id);
+    }
+    for (const upload of Array.from(this.uploads.values())) {
+      if (upload.contentId === id) this.update(this.uploads, upload.id, { contentId: null });
+    }
+    return this.content.delete(id);
+  }
+
+  async getAssignment(id: number): Promise<Assignment | undefined> {
+    return this.assignments.get(id);
+  }
+
+  async getAssignmentsByCourse(courseId: number): Promise<Assignment[]> {
+    return Array.from(this.assignments.values()).filter(a => a.courseId === courseId);
+  }
+
+  async getAssignmentsByTeacher(teacherId: number): Promise<Assignment[]> {
+    return Array.from(this.assignments.values()).filter(a => a.teacherId === teacherId);
+  }
+
+  async createAssignment(insertAssignment: InsertAssignment): Promise<Assignment> {
+    const assignment: Assignment = {
+      ...insertAssignment,
+      description: insertAssignment.description ?? null,
+      type: insertAssignment.type ?? "standard",
+      dueDate: insertAssignment.dueDate ?? null,
+      lockDate: insertAssignment.lockDate ?? null,
+      latePolicy: insertAssignment.latePolicy ?? "accept",
+      latePenaltyPercent: insertAssignment.latePenaltyPercent ?? null,
+      maxPoints: insertAssignment.maxPoints ?? 100,
+      instructions: insertAssignment.instructions ?? null,
+      allowedFileTypes: insertAssignment.allowedFileTypes ?? null,
+      maxFileSize: insertAssignment.maxFileSize ?? null,
+      rubricId: insertAssignment.rubricId ?? null,
+      categoryId: insertAssignment.categoryId ?? null,
+      id: this.nextId.assignments++,
+    };
+    this.assignments.set(assignment.id, assignment);
+    return assignment;
+  }
+
+  async updateAssignment(id: number, updates: Partial<Assignment>): Promise<Assignment | undefined> {
+    return this.update(this.assignments, id, updates);
+  }
+
+  async getExtension(assignmentId: number, studentId: number): Promise<AssignmentExtension | undefined> {
+    return Array.from(this.extensions.values()).find(e => e.assignmentId === assignmentId && e.studentId === studentId);
+  }
+
+  async getExtensionsByAssignment(assignmentId: number): Promise<AssignmentExtension[]> {
+    return Array.from(this.extensions.values()).filter(e => e.assignmentId === assignmentId);
+  }
+
+  async setExtension(extension: InsertAssignmentExtension): Promise<AssignmentExtension> {
+    const existing = await this.getExtension(extension.assignmentId, extension.studentId);
+    const saved: AssignmentExtension = {
+      ...extension,
+      lockDate: extension.lockDate ?? null,
+      grantedAt: new Date().toISOString(),
+      id: existing?.id ?? this.nextId.extensions++,
+    };
+    this.extensions.set(saved.id, saved);
+    await this.rescoreLateness(extension.assignmentId, extension.studentId);
+    return saved;
+  }
+
+  async deleteExtension(assignmentId: number, studentId: number): Promise<boolean> {
+    const existing = await this.getExtension(assignmentId, studentId);
+    if (existing) this.extensions.delete(existing.id);
+    await this.rescoreLateness(assignmentId, studentId);
+    return !!existing;
+  }
+
+  private async rescoreLateness(assignmentId: number, studentId: number): Promise<void> {
+    const assignment = this.assignments.get(assignmentId);
+    const submission = this.findSubmission(assignmentId, studentId);
+    if (!assignment || !submission) return;
+    const deadline = studentDeadline(assignment, await this.getExtension(assignmentId, studentId));
+    this.update(this.submissions, submission.id, lateness(assignment, deadline, submission));
+  }
+
+  async getRubric(id: number): Promise<Rubric | undefined> {
+    return this.rubrics.get(id);
+  }
+
+  async getRubricsByTeacher(teacherId: number): Promise<Rubric[]> {
+    return Array.from(this.rubrics.values()).filter(r => r.teacherId === teacherId);
+  }
+
+  async createRubric(insertRubric: InsertRubric): Promise<Rubric> {
+    const rubric: Rubric = {
+      ...insertRubric,
+      description: insertRubric.description ?? null,
+      id: this.nextId.rubrics++,
+    };
+    this.rubrics.set(rubric.id, rubric);
+    return rubric;
+  }
+
+  async updateRubric(id: number, updates: RubricUpdate): Promise<Rubric | { error: string }> {
+    const usingAssignments = Array.from(this.assignments.values()).filter(a => a.rubricId === id);
+    const scored = Array.from(this.submissions.values()).some(s =>
+      s.rubricScores !== null && usingAssignments.some(a => a.id === s.assignmentId)
+    );
+    if (scored) return { error: RUBRIC_IN_USE_FOR_GRADING };
+
+    const rubric = this.update(this.rubrics, id, updates);
+    if (!rubric) return { error: "Rubric not found." };
+    for (const assignment of usingAssignments) {
+      this.update(this.assignments, assignment.id, { maxPoints: rubricMaxPoints(rubric.criteria) });
+    }
+    return rubric;
+  }
+
+  async deleteRubric(id: number): Promise<boolean | { error: string }> {
+    if (Array.from(this.assignments.values()).some(a => a.rubricId === id)) {
+      return { error: "This rubric is used by an assignment." };
+    }
+    return this.rubrics.delete(id);
+  }
+
+  async getGradeCategory(id: number): Promise<GradeCategory | undefined> {
+    return this.gradeCategories.get(id);
+  }
+
+  async getGradeCategoriesByCourse(courseId: number): Promise<GradeCategory[]> {
+    return Array.from(this.gradeCategories.values())
+      .filter(c => c.courseId === courseId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async createGradeCategory(insertCategory: InsertGradeCategory): Promise<GradeCategory> {
+    const category: GradeCategory = {
+      ...insertCategory,
+      dropLowest: insertCategory.dropLowest ?? 0,
+      id: this.nextId.gradeCategories++,
+    };
+    this.gradeCategories.set(category.id, category);
+    return category;
+  }
+
+  async updateGradeCategory(id: number, updates: GradeCategoryUpdate): Promise<GradeCategory | undefined> {
+    return this.update(this.gradeCategories, id, updates);
+  }
+
+  async deleteGradeCategory(id: number): Promise<boolean> {
+    for (const assignment of Array.from(this.assignments.values())) {
+      if (assignment.categoryId === id) this.update(this.assignments, assignment.id, { categoryId: null });
+    }
+    return this.gradeCategories.delete(id);
+  }
+
+  async getQuestionBank(id: number): Promise<QuestionBank | undefined> {
+    return this.questionBanks.get(id);
+  }
+
+  async getQuestionBanksByCourse(courseId: number): Promise<QuestionBank[]> {
+    return Array.from(this.questionBanks.values())
+      .filter(bank => bank.courseId === courseId)
+      .sort((a, b) => a.title.localeCompare(b.title));
+  }
+
+  async createQuestionBank(insertBank: InsertQuestionBank): Promise<QuestionBank> {
+    const bank: QuestionBank = {
+      ...insertBank,
+      description: insertBank.description ?? null,
+      id: this.nextId.questionBanks++,
+    };
+    this.questionBanks.set(bank.id, bank);
+    return bank;
+  }
+
+  async updateQuestionBank(id: number, updates: QuestionBankUpdate): Promise<QuestionBank | undefined> {
+    return this.update(this.questionBanks, id, updates);
+  }
+
+  async deleteQuestionBank(id: number): Promise<boolean | { error: string }> {
+    if (!this.questionBanks.has(id)) return false;
+    if (Array.from(this.quizzes.values()).some(quiz => quiz.draws.some(draw => draw.bankId === id))) {
+      return { error: QUESTION_BANK_IN_USE };
+    }
+    for (const question of await this.getBankQuestions(id)) {
+      this.bankQuestions.delete(question.id);
+    }
+    return this.questionBanks.delete(id);
+  }
+
+  async getBankQuestions(bankId: number): Promise<BankQuestion[]> {
+    return Array.from(this.bankQuestions.values()).filter(question => question.bankId === bankId);
+  }
+
+  async getBankQuestion(id: number): Promise<BankQuestion | undefined> {
+    return this.bankQuestions.get(id);
+  }
+
+  async addBankQuestions(bankId: number, questions: InsertBankQuestion[]): Promise<BankQuestion[]> {
+    return questions.map(insertQuestion => {
+      const question: BankQuestion = {
+        ...insertQuestion,
+        bankId,
+        difficulty: insertQuestion.difficulty ?? null,
+        id: this.nextId.bankQuestions++,
+      };
+      this.bankQuestions.set(question.id, question);
+      return question;
+    });
+  }
+
+  async updateBankQuestion(id: number, updates: InsertBankQuestion): Promise<BankQuestion | undefined> {
+    return this.update(this.bankQuestions, id, updates);
+  }
+
+  async deleteBankQuestion(id: number): Promise<boolean> {
+    return this.bankQuestions.delete(id);
+  }
+
+  private async getDrawableQuestions(draws: QuizDraw[]): Promise<BankQuestion[]> {
+    const bankIds = new Set(draws.map(draw => draw.bankId));
+    return Array.from(this.bankQuestions.values()).filter(question => bankIds.has(question.bankId));
+  }
+
+  async getQuiz(assignmentId: number): Promise<Quiz | undefined> {
+    return Array.from(this.quizzes.values()).find(q => q.assignmentId === assignmentId);
+  }
+
+  async saveQuiz(assignmentId: number, insertQuiz: InsertQuiz): Promise<Quiz | { error: string }> {
+    if (Array.from(this.quizAttempts.values()).some(a => a.assignmentId === assignmentId)) {
+      return { error: QUIZ_ATTEMPTED };
+    }
+    const existing = await this.getQuiz(assignmentId);
+    const quiz: Quiz = { ...insertQuiz, assignmentId, id: existing?.id ?? this.nextId.quizzes++ };
+    this.quizzes.set(quiz.id, quiz);
+    this.update(this.assignments, assignmentId, { maxPoints: quizMaxPoints(quiz) });
+    return quiz;
+  }
+
+  async getQuizAttempt(id: number): Promise<QuizAttempt | undefined> {
+    return this.quizAttempts.get(id);
+  }
+
+  async getQuizAttempts(assignmentId: number, studentId: number): Promise<QuizAttempt[]> {
+    return Array.from(this.quizAttempts.values())
+      .filter(a => a.assignmentId === assignmentId && a.studentId === studentId)
+      .sort((a, b) => a.attempt - b.attempt);
+  }
+
+  async startQuizAttempt(assignmentId: number, studentId: number): Promise<QuizAttempt | { error: string }> {
+    const assignment = this.assignments.get(assignmentId);
+    const quiz = await this.getQuiz(assignmentId);
+    if (!assignment || !quiz) return { error: QUIZ_NOT_FOUND };
+    if (!this.findEnrollment(studentId, assignment.courseId)) {
+      return { error: "Student not enrolled in the course for this assignment." };
+    }
+
+    const now = new Date();
+    const attempts = await this.getQuizAttempts(assignmentId, studentId);
+    const inProgress = attempts.find(a => a.submittedAt === null);
+    if (inProgress) {
+      if (!isAttemptExpired(inProgress, now)) return inProgress;
+      await this.submitQuizAttempt(inProgress.id);
+    }
+
+    const deadline = studentDeadline(assignment, await this.getExtension(assignmentId, studentId));
+    const error = checkNewQuizAttempt(quiz, assignment, deadline, attempts, now);
+    if (error) return { error };
+
+    const drawn = drawQuestions(quiz.draws, await this.getDrawableQuestions(quiz.draws));
+    const attempt: QuizAttempt = {
+      ...newQuizAttempt(quiz, drawn, assignment, deadline, studentId, attempts.length + 1, now),
+      id: this.nextId.quizAttempts++,
+    };
+    this.quizAttempts.set(attempt.id, attempt);
+    return attempt;
+  }
+
+  async saveQuizAnswers(attemptId: number, answers: QuizAnswers): Promise<QuizAttempt | { error: string }> {
+    const attempt = this.quizAttempts.get(attemptId);
+    if (!attempt) return { error: "Quiz attempt not found." };
+    if (attempt.submittedAt) return { error: QUIZ_ATTEMPT_SUBMITTED };
+    if (isAttemptExpired(attempt, new Date())) return { error: "Time is up for this attempt." };
+    return this.update(this.quizAttempts, attemptId, { answers })!;
+  }
+
+  async submitQuizAttempt(attemptId: number, answers?: QuizAnswers): Promise<QuizAttempt | { error: string }> {
+    const attempt = this.quizAttempts.get(attemptId);
+    if (!attempt) return { error: "Quiz attempt not found." };
+    if (attempt.submittedAt) return { error: QUIZ_ATTEMPT_SUBMITTED };
+
+    const assignment = this.assignments.get(attempt.assignmentId);
+    const quiz = await this.getQuiz(attempt.assignmentId);
+    if (!assignment || !quiz) return { error: QUIZ_NOT_FOUND };
+
+    const submitted = this.update(this.quizAttempts, attemptId, submittedQuizAttempt(quiz, attempt, answers, new Date()))!;
+    await this.recordQuizSubmission(assignment, submitted, null); // Feedback was on an earlier attempt
+    return submitted;
+  }
+
+  async reviewQuizAttempt(attemptId: number, teacherId: number, review: QuizReview): Promise<QuizAttempt | { error: string }> {
+    const attempt = this.quizAttempts.get(attemptId);
+    if (!attempt) return { error: "Quiz attempt not found." };
+
+    const assignment = this.assignments.get(attempt.assignmentId);
+    const quiz = await this.getQuiz(attempt.assignmentId);
+    if (!assignment || !quiz) return { error: QUIZ_NOT_FOUND };
+    const course = this.courses.get(assignment.courseId);
+    if (!course || course.teacherId !== teacherId) {
+      return { error: "Access denied. You are not the teacher of this course." };
+    }
+
+    const latest = (await this.getQuizAttempts(attempt.assignmentId, attempt.studentId))
+      .filter(a => a.submittedAt !== null)
+      .pop();
+    if (latest?.id !== attempt.id) return { error: "Only the latest submitted attempt counts, so only it can be reviewed." };
+
+    const reviewed = reviewedQuizResults(quiz, attempt, review.scores);
+    if ('error' in reviewed) return reviewed;
+    const { results } = reviewed;
+    const updated = this.update(this.quizAttempts, attemptId, { results, ...totalResults(results) })!;
+    await this.recordQuizSubmission(assignment, updated, review.feedback);
+    return updated;
+  }
+
+  private async recordQuizSubmission(assignment: Assignment, attempt: QuizAttempt, feedback?: string | null): Promise<void> {
+    const deadline = studentDeadline(assignment, await this.getExtension(assignment.id, attempt.studentId));
+    const fields = {
+      ...quizSubmissionFields(assignment, deadline, attempt),
+      ...(feedback !== undefined && { feedback }),
+    };
+    const existing = this.findSubmission(assignment.id, attempt.studentId);
+    if (existing) {
+      this.update(this.submissions, existing.id, fields);
+    } else {
+      const submission: Submission = {
+        id: this.nextId.submissions++,
+        assignmentId: assignment.id,
+        studentId: attempt.studentId,
+        feedback: null,
+        gradedVersionId: null,
+        rubricScores: null,
+        ...fields,
+      };
+      this.submissions.set(submission.id, submission);
+    }
+    await this.recomputeEnrollmentProgress(assignment.courseId, attempt.studentId);
+  }
+
+  async getSubmission(id: number): Promise<Submission | undefined> {
+    return this.submissions.get(id);
+  }
+
+  async getSubmissionsByAssignment(assignmentId: number): Promise<Submission[]> {
+    return Array.from(this.submissions.values()).filter(s => s.assignmentId === assignmentId);
+  }
+
+  async getSubmissionsByStudent(studentId: number): Promise<Submission[]> {
+    return Array.from(this.submissions.values()).filter(s => s.studentId === studentId);
+  }
+
+  async getSubmissionsByCourse(courseId: number): Promise<Submission[]> {
+    return Array.from(this.submissions.values())
+      .filter(s => this.assignments.get(s.assignmentId)?.courseId === courseId);
+  }
+
+  async getSubmissionByAssignmentAndStudent(assignmentId: number, studentId: number): Promise<Submission | undefined> {
+    return this.findSubmission(assignmentId, studentId);
+  }
+
+  async createSubmission(insertSubmission: InsertSubmission): Promise<Submission> {
+    const submission: Submission = {
+      ...insertSubmission,
+      content: insertSubmission.content ?? null,
+      grade: insertSubmission.grade ?? null,
+      gradedVersionId: null,
+      rubricScores: null,
+      daysLate: 0,
+      latePenalty: null,
+      gradedAt: null,
+      feedback: insertSubmission.feedback ?? null,
+      status: insertSubmission.status ?? "pending",
+      submittedAt: null,
+      id: this.nextId.submissions++,
+    };
+    this.submissions.set(submission.id, submission);
+    return submission;
+  }
+
+  async updateSubmission(id: number, updates: Partial<Submission>): Promise<Submission | undefined> {
+    return this.update(this.submissions, id, updates);
+  }
+
+  async getEnrollment(id: number): Promise<Enrollment | undefined> {
+    return this.enrollments.get(id);
+  }
+
+  async getEnrollmentsByCourse(courseId: number): Promise<Enrollment[]> {
+    return Array.from(this.enrollments.values()).filter(e => e.courseId === courseId);
+  }
+
+  async getEnrollmentsByStudent(studentId: number): Promise<Enrollment[]> {
+    return Array.from(this.enrollments.values()).filter(e => e.studentId === studentId);
+  }
+
+  async createEnrollment(insertEnrollment: InsertEnrollment): Promise<Enrollment> {
+    const enrollment: Enrollment = {
+      ...insertEnrollment,
+      progress: insertEnrollment.progress ?? 0,
+      enrolledAt: null,
+      id: this.nextId.enrollments++,
+    };
+    this.enrollments.set(enrollment.id, enrollment);
+    return enrollment;
+  }
+
+  async updateEnrollment(id: number, updates: Partial<Enrollment>): Promise<Enrollment | undefined> {
+    return this.update(this.enrollments, id, updates);
+  }
+
+  async getContentProgressForStudent(studentId: number, courseId: number): Promise<ContentProgress[]> {
+    return Array.from(this.contentProgress.values())
+      .filter(p => p.studentId === studentId && p.courseId === courseId);
+  }
+
+  async getContentProgressByCourse(courseId: number): Promise<ContentProgress[]> {
+    return Array.from(this.contentProgress.values()).filter(p => p.courseId === courseId);
+  }
+
+  private getAccessibleContent(studentId: number, contentId: number): Content | { error: string } {
+    const contentItem = this.content.get(contentId);
+    if (!contentItem) return { error: "Content not found." };
+    if (!this.findEnrollment(studentId, contentItem.courseId)) {
+      return { error: "Student is not enrolled in this course." };
+    }
+    if (contentItem.moduleId !== null && isModuleLocked(this.modules.get(contentItem.moduleId))) {
+      return { error: "This content is not available yet." };
+    }
+    return contentItem;
+  }
+
+  private findOrCreateContentProgress(studentId: number, contentItem: Content): ContentProgress {
+    const existing = Array.from(this.contentProgress.values())
+      .find(p => p.studentId === studentId && p.contentId === contentItem.id);
+    if (existing) return existing;
+
+    const row: ContentProgress = {
+      id: this.nextId.contentProgress++,
+      studentId,
+      contentId: contentItem.id,
+      courseId: contentItem.courseId,
+      openedAt: new Date().toISOString(),
+      completedAt: null,
+    };
+    this.contentProgress.set(row.id, row);
+    return row;
+  }
+
+  async recordContentOpened(studentId: number, contentId: number): Promise<ContentProgress | { error: string }> {
+    const contentItem = this.getAccessibleContent(studentId, contentId);
+    if ('error' in contentItem) return contentItem;
+    return this.findOrCreateContentProgress(studentId, contentItem);
+  }
+
+  async setContentCompleted(studentId: number, contentId: number, completed: boolean): Promise<{ contentProgress: ContentProgress, enrollment: Enrollment } | { error: string }> {
+    const contentItem = this.getAccessibleContent(studentId, contentId);
+    if ('error' in contentItem) return contentItem;
+
+    const row = this.findOrCreateContentProgress(studentId, contentItem);
+    const updated = this.update(this.contentProgress, row.id, {
+      completedAt: completed ? new Date().toISOString() : null,
+    })!;
+
+    const [enrollment] = await this.recomputeEnrollmentProgress(contentItem.courseId, studentId);
+    return { contentProgress: updated, enrollment };
+  }
+
+  async recomputeEnrollmentProgress(courseId: number, studentId?: number): Promise<Enrollment[]> {
+    const courseEnrollments = (await this.getEnrollmentsByCourse(courseId))
+      .filter(e => studentId === undefined || e.studentId === studentId);
+    const contentIds = new Set((await this.getContentByCourse(courseId)).map(c => c.id));
+    const assignmentIds = new Set((await this.getAssignmentsByCourse(courseId)).map(a => a.id));
+    const total = contentIds.size + assignmentIds.size;
+
+    return courseEnrollments.map(enrollment => {
+      const completed = Array.from(this.contentProgress.values()).filter(p =>
+        p.studentId === enrollment.studentId && contentIds.has(p.contentId) && p.completedAt !== null
+      ).length;
+      const graded = Array.from(this.submissions.values()).filter(s =>
+        s.studentId === enrollment.studentId && assignmentIds.has(s.assignmentId) && hasGrade(s)
+      ).length;
+      const progress = progressPercentage(completed + graded, total);
+      return this.update(this.enrollments, enrollment.id, { progress }) ?? enrollment;
+    });
+  }
+
+  async getUpload(id: number): Promise<Upload | undefined> {
+    return this.uploads.get(id);
+  }
+
+  async getUploadsByCourse(courseId: number): Promise<Upload[]> {
+    return Array.from(this.uploads.values())
+      .filter(u => u.courseId === courseId && u.submissionId === null)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getUploadsBySubmission(submissionId: number): Promise<Upload[]> {
+    const latest = await this.getLatestSubmissionVersion(submissionId);
+    if (!latest) return [];
+    return Array.from(this.uploads.values())
+      .filter(u => u.submissionVersionId === latest.id)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getUploadsForStudent(courseId: number, studentId: number): Promise<Upload[] | { error: string }> {
+    const course = await this.getCourseWithContentForStudent(courseId, studentId);
+    if ('error' in course) return course;
+    return studentVisibleUploads(await this.getUploadsByCourse(courseId), course.modules, course.content);
+  }
+
+  async createUpload(insertUpload: InsertUpload): Promise<Upload> {
+    const upload: Upload = {
+      ...insertUpload,
+      contentId: insertUpload.contentId ?? null,
+      assignmentId: insertUpload.assignmentId ?? null,
+      submissionId: insertUpload.submissionId ?? null,
+      submissionVersionId: insertUpload.submissionVersionId ?? null,
+      createdAt: new Date().toISOString(),
+      id: this.nextId.uploads++,
+    };
+    this.uploads.set(upload.id, upload);
+    return upload;
+  }
+
+  async setAttachments(courseId: number, owner: UploadOwner, uploadIds: number[]): Promise<Upload[] | { error: string }> {
+    const found = uploadIds.flatMap(id => this.uploads.get(id) ?? []);
+    const error = validateAttachments(found, uploadIds, courseId, owner);
+    if (error) return { error };
+
+    const detach = 'contentId' in owner ? { contentId: null } : { assignmentId: null };
+    for (const upload of Array.from(this.uploads.values())) {
+      if (isAttachedTo(upload, owner)) this.update(this.uploads, upload.id, detach);
+    }
+    return uploadIds.map(id => this.update(this.uploads, id, owner)!);
+  }
+
+  async deleteUpload(id: number): Promise<boolean> {
+    return this.uploads.delete(id);
+  }
+
+  async countUploadsWithChecksum(checksum: string): Promise<number> {
+    return Array.from(this.uploads.values()).filter(u => u.checksum === checksum).length;
+  }
+
+  async getAvailableCoursesForStudent(studentId: number): Promise<Course[]> {
+    return Array.from(this.courses.values())
+      .filter(c => c.status === "active" && !this.findEnrollment(studentId, c.id))
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async enrollStudentInCourse(studentId: number, courseId: number): Promise<Enrollment | { error: string }> {
+    const course = this.courses.get(courseId);
+    if (!course) {
+      return { error: "Course not found." };
+    }
+    if (course.status !== "active") {
+      return { error: "Course is not active and cannot be enrolled in." };
+    }
+    if (this.findEnrollment(studentId, courseId)) {
+      return { error: "Student is already enrolled in this course." };
+    }
+
+    const enrollment: Enrollment = {
+      id: this.nextId.enrollments++,
+      studentId,
+      courseId,
+      enrolledAt: new Date().toISOString(),
+      progress: 0,
+    };
+    this.enrollments.set(enrollment.id, enrollment);
+    this.courses.set(courseId, { ...course, enrollmentCount: (course.enrollmentCount || 0) + 1 });
+    return enrollment;
+  }
+
+  async getCourseWithContentForStudent(courseId: number, studentId: number): Promise<(StudentCourse & { modules: Module[], content: Content[] }) | { error: string }> {
+    const courseDetails = this.courses.get(courseId);
+    if (!courseDetails) {
+      return { error: "Course not found." };
+    }
+
+    const enrollment = this.findEnrollment(studentId, courseId);
+    if (!enrollment) {
+      return { error: "Student is not enrolled in this course." };
+    }
+
+    const courseModules = await this.getModulesByCourse(courseId);
+    const courseContentItems = await this.getContentByCourse(courseId);
+
+    return {
+      ...courseDetails,
+      progress: enrollment.progress,
+      enrolledAt: enrollment.enrolledAt,
+      modules: courseModules,
+      content: hideLockedContent(courseModules, courseContentItems),
+    };
+  }
+
+  async getAssignmentsForCourse(courseId: number, userId: number, userRole: string): Promise<(AssignmentWithDeadline & { submissionStatus?: string, submissionId?: number, grade?: number | null })[] | { error: string }> {
+    const course = this.courses.get(courseId);
+    if (!course) return { error: "Course not found." };
+
+    if (userRole === 'teacher' && course.teacherId !== userId) {
+      return { error: "Teacher not authorized for this course." };
+    }
+    if (userRole === 'student' && !this.findEnrollment(userId, courseId)) {
+      return { error: "Student not enrolled in this course." };
+    }
+
+    // Same ordering as Postgres: ascending due date, undated last
+    const courseAssignments = (await this.getAssignmentsByCourse(courseId)).sort((a, b) => {
+      if (a.dueDate === null) return b.dueDate === null ? 0 : 1;
+      if (b.dueDate === null) return -1;
+      return a.dueDate.getTime() - b.dueDate.getTime();
+    });
+
+    if (userRole === 'student') {
+      return Promise.all(courseAssignments.map(async assignment => {
+        const submission = this.findSubmission(assignment.id, userId);
+        return {
+          ...withDeadline(assignment, await this.getExtension(assignment.id, userId)),
+          submissionStatus: submission?.status || 'not-submitted',
+          submissionId: submission?.id,
+          grade: submission?.grade,
+        };
+      }));
+    }
+
+    return courseAssignments.map(a => ({...withDeadline(a), submissionStatus: undefined, submissionId: undefined, grade: undefined }));
+  }
+
+  async createOrUpdateSubmission(assignmentId: number, studentId: number, work: SubmittedWork, submissionIdToUpdate?: number): Promise<(Submission & { files: Upload[] }) | { error: string }> {
+    const assignment = this.assignments.get(assignmentId);
+    if (!assignment) return { error: "Assignment not found." };
+    if (assignment.type === "quiz") return { error: QUIZ_NOT_SUBMITTABLE };
+
+    const course = this.courses.get(assignment.courseId);
+    if (!course) return { error: "Course not found for this assignment."}
+
+    if (!this.findEnrollment(studentId, assignment.courseId)) {
+      return { error: "Student not enrolled in the course for this assignment." };
+    }
+
+    const deadline = studentDeadline(assignment, await this.getExtension(assignmentId, studentId));
+    const now = new Date();
+    if (deadlineStatus(assignment, deadline, now) === "closed") return { error: DEADLINE_PASSED };
+
+    let existingSubmission: Submission | undefined;
+    if (submissionIdToUpdate) {
+      existingSubmission = this.submissions.get(submissionIdToUpdate);
+      if (!existingSubmission || existingSubmission.studentId !== studentId) {
+        return { error: "Submission to update not found or access denied." };
+      }
+      if (existingSubmission.assignmentId !== assignmentId) return { error: SUBMISSION_FOR_OTHER_ASSIGNMENT };
+    } else {
+      existingSubmission = this.findSubmission(assignmentId, studentId);
+    }
+
+    const previousFiles = existingSubmission ? await this.getUploadsBySubmission(existingSubmission.id) : [];
+    const fileError = validateKeptFiles(previousFiles, work.keepFileIds);
+    if (fileError) return { error: fileError };
+
+    const submittedAt = now.toISOString();
+    let submission: Submission;
+    if (existingSubmission) {
+      submission = this.update(this.submissions, existingSubmission.id, {
+        content: work.content,
+        submittedAt,
+        status: 'resubmitted',
+        daysLate: daysLate(deadline, now),
+      })!;
+    } else {
+      submission = {
+        id: this.nextId.submissions++,
+        assignmentId,
+        studentId,
+        content: work.content,
+        submittedAt,
+        grade: null,
+        feedback: null,
+        status: 'submitted',
+        gradedVersionId: null,
+        rubricScores: null,
+        daysLate: daysLate(deadline, now),
+        latePenalty: null,
+        gradedAt: null,
+      };
+      this.submissions.set(submission.id, submission);
+    }
+
+    const latest = await this.getLatestSubmissionVersion(submission.id);
+    const version: SubmissionVersion = {
+      id: this.nextId.submissionVersions++,
+      submissionId: submission.id,
+      version: (latest?.version ?? 0) + 1,
+      content: work.content,
+      submittedAt,
+    };
+    this.submissionVersions.set(version.id, version);
+
+    const versionFiles = versionFileRows(work, previousFiles, {
+      courseId: assignment.courseId,
+      uploaderId: studentId,
+      submissionId: submission.id,
+      submissionVersionId: version.id,
+    });
+    const files: Upload[] = [];
+    for (const file of versionFiles) {
+      files.push(await this.createUpload(file));
+    }
+    return { ...submission, files };
+  }
+
+  async getSubmissionDetails(submissionId: number, userId: number, userRole: string): Promise<(Submission & { assignment: Assignment, student?: User, course?: Course, files: Upload[] }) | { error: string }> {
+    const submission = this.submissions.get(submissionId);
+    if (!submission) return { error: "Submission not found." };
+
+    const assignment = this.assignments.get(submission.assignmentId);
+    if (!assignment) return { error: "Assignment not found for this submission." };
+
+    const course = this.courses.get(assignment.courseId);
+    if (!course) return { error: "Course not found for this assignment." };
+
+    if (userRole === 'student' && submission.studentId !== userId) {
+      return { error: "Access denied. You are not the owner of this submission." };
+    }
+    if (userRole === 'teacher' && course.teacherId !== userId) {
+      return { error: "Access denied. You are not the teacher of this course." };
+    }
+
+    return {
+      ...submission,
+      assignment,
+      student: userRole === 'teacher' ? this.users.get(submission.studentId) : undefined,
+      course,
+      files: await this.getUploadsBySubmission(submission.id),
+    };
+  }
+
+  async gradeSubmission(submissionId: number, teacherId: number, grade: SubmissionGrade): Promise<Submission | { error: string }> {
+    const submission = this.submissions.get(submissionId);
+    if (!submission) return { error: "Submission not found." };
+
+    const assignment = this.assignments.get(submission.assignmentId);
+    if (!assignment) return { error: "Assignment not found for this submission." };
+
+    const course = this.courses.get(assignment.courseId);
+    if (!course || course.teacherId !== teacherId) {
+      return { error: "Access denied. You are not the teacher of this course." };
+    }
+
+    const rubric = assignment.rubricId !== null ? this.rubrics.get(assignment.rubricId) : undefined;
+    const resolved = resolveGrade(assignment, rubric, grade);
+    if ('error' in resolved) return resolved;
+
+    const penalty = latePenalty(assignment, submission.daysLate, resolved.grade);
+    const latest = await this.getLatestSubmissionVersion(submissionId);
+    const graded = this.update(this.submissions, submissionId, {
+      grade: resolved.grade - penalty,
+      latePenalty: penalty,
+      rubricScores: resolved.rubricScores,
+      feedback: grade.feedback,
+      status: 'graded',
+      gradedVersionId: latest?.id ?? null,
+      gradedAt: new Date(),
+    })!;
+    await this.recomputeEnrollmentProgress(assignment.courseId, submission.studentId);
+    return graded;
+  }
+
+  async recordGrade(assignmentId: number, studentId: number, teacherId: number, grade: number, feedback?: string | null): Promise<Submission | { error: string }> {
+    const assignment = this.assignments.get(assignmentId);
+    if (!assignment) return { error: "Assignment not found." };
+
+    const course = this.courses.get(assignment.courseId);
+    if (!course || course.teacherId !== teacherId) {
+      return { error: "Access denied. You are not the teacher of this course." };
+    }
+    if (!this.findEnrollment(studentId, course.id)) return { error: "Student not enrolled in this course." };
+
+    // Checked before an empty submission is made for a grade that can't be given
+    const rubric = assignment.rubricId !== null ? this.rubrics.get(assignment.rubricId) : undefined;
+    const resolved = resolveGrade(assignment, rubric, { grade, feedback: null });
+    if ('error' in resolved) return resolved;
+
+    const submission = this.findSubmission(assignmentId, studentId)
+      ?? await this.createSubmission({ assignmentId, studentId, content: null });
+    return this.gradeSubmission(submission.id, teacherId, { grade, feedback: feedback === undefined ? submission.feedback : feedback });
+  }
+
+  async getSubmissionVersions(submissionId: number): Promise<SubmissionVersionWithFiles[]> {
+    const files = Array.from(this.uploads.values())
+      .filter(u => u.submissionId === submissionId)
+      .sort((a, b) => a.id - b.id);
+    return Array.from(this.submissionVersions.values())
+      .filter(v => v.submissionId === submissionId)
+      .sort((a, b) => a.version - b.version)
+      .map(version => ({ ...version, files: files.filter(file => file.submissionVersionId === version.id) }));
+  }
+
+  async getLatestSubmissionVersion(submissionId: number): Promise<SubmissionVersion | undefined> {
+    return Array.from(this.submissionVersions.values())
+      .filter(v => v.submissionId === submissionId)
+      .sort((a, b) => b.version - a.version)[0];
+  }
+
+  async getDashboardMetrics(scope: MetricsScope, asOf: Date[]): Promise<DashboardMetrics[]> {
+    const inScope = (courseId: number, studentId: number) => 'teacherId' in scope
+      ? this.courses.get(courseId)?.teacherId === scope.teacherId
+      : studentId === scope.studentId;
+    const enrolled = Array.from(this.enrollments.values()).filter(e => inScope(e.courseId, e.studentId));
+    const allAssignments = Array.from(this.assignments.values());
+    const work = Array.from(this.submissions.values()).flatMap(submission => {
+      const assignment = this.assignments.get(submission.assignmentId);
+      return assignment && inScope(assignment.courseId, submission.studentId) ? [{ submission, assignment }] : [];
+    });
+
+    return asOf.map(time => {
+      const at = time.toISOString();
+      const handedIn = (s: Submission) => s.submittedAt !== null && s.submittedAt <= at;
+      const gradedBy = (s: Submission) => s.gradedAt === null || s.gradedAt <= time;
+      const graded = (s: Submission) => s.status === 'graded' && gradedBy(s);
+
+      let due = 0;
+      let done = 0;
+      for (const enrollment of enrolled) {
+        for (const assignment of allAssignments) {
+          if (assignment.courseId !== enrollment.courseId || !assignment.dueDate || assignment.dueDate > time) continue;
+          due++;
+          const submission = this.findSubmission(assignment.id, enrollment.studentId);
+          if (submission && (handedIn(submission) || graded(submission))) done++;
+        }
+      }
+      const scored = work.filter(({ submission, assignment }) => hasGrade(submission) && gradedBy(submission) && assignment.maxPoints > 0);
+      const submitted = work.filter(({ submission }) => handedIn(submission));
+      return {
+        completionRate: percentage(done, due),
+        averageGrade: percentage(scored.reduce((total, { submission, assignment }) => total + submission.grade! / assignment.maxPoints, 0), scored.length),
+        onTimeRate: percentage(submitted.filter(({ submission }) => submission.daysLate === 0).length, submitted.length),
+        pendingReviews: submitted.filter(({ submission }) => !graded(submission)).length,
+      };
+    });
+  }
+
+  async getRiskFlag(id: number): Promise<RiskFlag | undefined> {
+    return this.riskFlags.get(id);
+  }
+
+  async getRiskFlagsByCourse(courseId: number): Promise<RiskFlag[]> {
+    return Array.from(this.riskFlags.values())
+      .filter(flag => flag.courseId === courseId)
+      .sort((a, b) => b.raisedAt.getTime() - a.raisedAt.getTime() || b.id - a.id);
+  }
+
+  async getRiskFlagEvents(flagIds: number[]): Promise<RiskFlagEvent[]> {
+    const ids = new Set(flagIds);
+    return Array.from(this.riskFlagEvents.values())
+      .filter(event => ids.has(event.flagId))
+      .sort((a, b) => a.at.getTime() - b.at.getTime() || a.id - b.id);
+  }
+
+  private addRiskFlagEvent(flagId: number, event: Omit<InsertRiskFlagEvent, "flagId">, at = new Date()) {
+    const id = this.nextId.riskFlagEvents++;
+    this.riskFlagEvents.set(id, { note: null, actorId: null, ...event, flagId, id, at });
+  }
+
+  async createRiskFlag(insertFlag: InsertRiskFlag): Promise<RiskFlag> {
+    const now = new Date();
+    const flag: RiskFlag = {
+      ...insertFlag,
+      id: this.nextId.riskFlags++,
+      status: "open",
+      raisedAt: now,
+      checkedAt: now,
+    };
+    this.riskFlags.set(flag.id, flag);
+    this.addRiskFlagEvent(flag.id, { action: "raised" }, now);
+    return flag;
+  }
+
+  async updateRiskFlag(id: number, updates: RiskFlagUpdate, event?: Omit<InsertRiskFlagEvent, "flagId">): Promise<RiskFlag | undefined> {
+    const flag = this.update(this.riskFlags, id, updates);
+    if (flag && event) this.addRiskFlagEvent(id, event);
+    return flag;
+  }
+}
+
+/**
+ * Picks the storage backend from STORAGE ("database" or "memory").
+ * Defaults to the database.
+ */
+function createStorage(): IStorage {
+  if (process.env.STORAGE === "memory") {
+    return new MemStorage();
+  }
+  requireDatabaseUrl();
+  return new DatabaseStorage();
 }
 
-export const storage = new DatabaseStorage();
\ No newline at end of file
+export const storage = createStorage();
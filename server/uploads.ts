@@ -0,0 +1,271 @@
+import type { Request, Response } from "express";
+import multer from "multer";
+import path from "node:path";
+import { createHash } from "node:crypto";
+import { createReadStream } from "node:fs";
+import { unlink } from "node:fs/promises";
+import os from "node:os";
+import { storage } from "./storage";
+import { getBlobStore } from "./blob-store";
+import type { Assignment } from "@shared/schema";
+
+export const UPLOAD_MAX_BYTES = Number(process.env.UPLOAD_MAX_BYTES || 25 * 1024 * 1024);
+
+// Types teachers may upload. SVG and HTML are left out on purpose: served
+// from our origin they could run script.
+const ALLOWED_MIME_TYPES = new Set([
+  "application/pdf",
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "video/mp4",
+  "video/webm",
+  "audio/mpeg",
+  "audio/ogg",
+  "audio/wav",
+  "text/plain",
+  "text/csv",
+  "application/zip",
+  "application/msword",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.ms-excel",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "application/vnd.ms-powerpoint",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+]);
+
+// What students may submit, by extension. The stored type comes from this map
+// rather than from the browser, and anything script-capable is served as text.
+export const SUBMISSION_FILE_TYPES: Record<string, string> = {
+  ".pdf": "application/pdf",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".zip": "application/zip",
+  ".txt": "text/plain",
+  ".md": "text/plain",
+  ".csv": "text/csv",
+  ".doc": "application/msword",
+  ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ".xls": "application/vnd.ms-excel",
+  ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ".ppt": "application/vnd.ms-powerpoint",
+  ".pptx": "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  // Source code
+  ".py": "text/plain",
+  ".ipynb": "text/plain",
+  ".js": "text/plain",
+  ".ts": "text/plain",
+  ".jsx": "text/plain",
+  ".tsx": "text/plain",
+  ".java": "text/plain",
+  ".kt": "text/plain",
+  ".c": "text/plain",
+  ".h": "text/plain",
+  ".cpp": "text/plain",
+  ".hpp": "text/plain",
+  ".cs": "text/plain",
+  ".go": "text/plain",
+  ".rs": "text/plain",
+  ".rb": "text/plain",
+  ".php": "text/plain",
+  ".swift": "text/plain",
+  ".sql": "text/plain",
+  ".sh": "text/plain",
+  ".html": "text/plain",
+  ".css": "text/plain",
+  ".json": "text/plain",
+  ".xml": "text/plain",
+};
+
+const MAX_SUBMISSION_FILES = 10;
+
+// Types the browser may display instead of downloading
+const INLINE_MIME_PREFIXES = ["image/", "video/", "audio/", "application/pdf"];
+
+const upload = multer({
+  dest: os.tmpdir(),
+  defParamCharset: "utf8", // Keep non-ASCII filenames intact
+  limits: { fileSize: UPLOAD_MAX_BYTES, files: 1 },
+  fileFilter: (_req, file, cb) => {
+    if (!ALLOWED_MIME_TYPES.has(file.mimetype)) {
+      return cb(Object.assign(new Error(`Files of type ${file.mimetype} are not allowed.`), { status: 415 }));
+    }
+    cb(null, true);
+  },
+});
+
+/**
+ * Runs a single-file multer handler over the multipart "file" field. Sends an
+ * error response and resolves to undefined if there is no acceptable file.
+ */
+function receiveFile(handler: multer.Multer, req: Request, res: Response): Promise<Express.Multer.File | undefined> {
+  return new Promise((resolve) => {
+    handler.single("file")(req, res, (error: any) => {
+      if (error instanceof multer.MulterError) {
+        const status = error.code === "LIMIT_FILE_SIZE" ? 413 : 400;
+        const message = error.code === "LIMIT_FILE_SIZE"
+          ? `Files must be at most ${Math.round(UPLOAD_MAX_BYTES / (1024 * 1024) * 10) / 10} MB.`
+          : error.message;
+        res.status(status).json({ message });
+        return resolve(undefined);
+      }
+      if (error) {
+        res.status(error.status || 400).json({ message: error.message });
+        return resolve(undefined);
+      }
+      if (!req.file) {
+        res.status(400).json({ message: "No file was uploaded." });
+        return resolve(undefined);
+      }
+      resolve(req.file);
+    });
+  });
+}
+
+/**
+ * Reads the multipart "file" field into a temporary file. Sends an error
+ * response and returns undefined if there is no acceptable file; otherwise the
+ * caller must pass the file to {@link storeUploadedFile}.
+ */
+export function receiveUpload(req: Request, res: Response): Promise<Express.Multer.File | undefined> {
+  return receiveFile(upload, req, res);
+}
+
+// Packages are read straight from memory and never stored
+const packageUpload = multer({
+  storage: multer.memoryStorage(),
+  defParamCharset: "utf8",
+  limits: { fileSize: UPLOAD_MAX_BYTES, files: 1 },
+  fileFilter: (_req, file, cb) => {
+    if (fileExtension(file.originalname) !== ".zip") {
+      return cb(Object.assign(new Error("Upload the package as a .zip file."), { status: 415 }));
+    }
+    cb(null, true);
+  },
+});
+
+/**
+ * Reads the multipart "file" field, a zip such as a QTI package, into memory.
+ * Sends an error response and returns undefined if there is no acceptable file.
+ */
+export function receivePackage(req: Request, res: Response): Promise<Express.Multer.File | undefined> {
+  return receiveFile(packageUpload, req, res);
+}
+
+function fileExtension(filename: string): string {
+  return path.extname(filename).toLowerCase();
+}
+
+/**
+ * Reads the multipart "files" field of a submission into temporary files,
+ * enforcing the assignment's allowed types and size cap. Requests that aren't
+ * multipart (text-only JSON submissions) yield no files. Sends an error
+ * response and returns undefined if a file is rejected.
+ */
+export function receiveSubmissionFiles(req: Request, res: Response, assignment: Assignment): Promise<Express.Multer.File[] | undefined> {
+  const allowed = assignment.allowedFileTypes?.length
+    ? assignment.allowedFileTypes.filter((ext) => ext in SUBMISSION_FILE_TYPES)
+    : Object.keys(SUBMISSION_FILE_TYPES);
+  const maxBytes = Math.min(assignment.maxFileSize ?? UPLOAD_MAX_BYTES, UPLOAD_MAX_BYTES);
+
+  const submissionUpload = multer({
+    dest: os.tmpdir(),
+    defParamCharset: "utf8",
+    limits: { fileSize: maxBytes, files: MAX_SUBMISSION_FILES },
+    fileFilter: (_req, file, cb) => {
+      if (!allowed.includes(fileExtension(file.originalname))) {
+        return cb(Object.assign(new Error(`${file.originalname}: only ${allowed.join(", ")} files can be submitted.`), { status: 415 }));
+      }
+      cb(null, true);
+    },
+  });
+
+  return new Promise((resolve) => {
+    // On error multer has already removed the files it wrote
+    submissionUpload.array("files", MAX_SUBMISSION_FILES)(req, res, (error: any) => {
+      if (error instanceof multer.MulterError) {
+        const status = error.code === "LIMIT_FILE_SIZE" ? 413 : 400;
+        const message = error.code === "LIMIT_FILE_SIZE"
+          ? `Each file must be at most ${Math.round(maxBytes / (1024 * 1024) * 10) / 10} MB.`
+          : error.code === "LIMIT_FILE_COUNT"
+            ? `At most ${MAX_SUBMISSION_FILES} files can be submitted.`
+            : error.message;
+        res.status(status).json({ message });
+        return resolve(undefined);
+      }
+      if (error) {
+        res.status(error.status || 400).json({ message: error.message });
+        return resolve(undefined);
+      }
+      resolve((req.files as Express.Multer.File[] | undefined) ?? []);
+    });
+  });
+}
+
+/**
+ * The type a submitted file is stored and served as, from its extension.
+ */
+export function submissionMimeType(filename: string): string {
+  return SUBMISSION_FILE_TYPES[fileExtension(filename)] ?? "application/octet-stream";
+}
+
+function sha256File(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash("sha256");
+    createReadStream(filePath)
+      .on("data", (chunk) => hash.update(chunk))
+      .on("end", () => resolve(hash.digest("hex")))
+      .on("error", reject);
+  });
+}
+
+/**
+ * Moves a received file into the blob store, skipping the copy when a blob
+ * with the same checksum is already there. Returns the checksum.
+ */
+export async function storeUploadedFile(file: Express.Multer.File): Promise<string> {
+  try {
+    const checksum = await sha256File(file.path);
+    const blobStore = getBlobStore();
+    if (!(await blobStore.exists(checksum))) {
+      await blobStore.put(checksum, file.path, file.mimetype);
+    }
+    return checksum;
+  } finally {
+    await unlink(file.path).catch(() => {});
+  }
+}
+
+/**
+ * Deletes received files that won't be stored after all.
+ */
+export async function discardReceivedFiles(files: Express.Multer.File[]): Promise<void> {
+  await Promise.all(files.map((file) => unlink(file.path).catch(() => {})));
+}
+
+/**
+ * Removes a blob once no upload refers to it any more.
+ */
+export async function releaseBlob(checksum: string): Promise<void> {
+  if ((await storage.countUploadsWithChecksum(checksum)) === 0) {
+    await getBlobStore().delete(checksum);
+  }
+}
+
+export function isInlineMimeType(mimeType: string): boolean {
+  return INLINE_MIME_PREFIXES.some((prefix) => mimeType.startsWith(prefix));
+}
+
+/**
+ * Content-Disposition header value with an ASCII fallback and the UTF-8 name
+ * (RFC 6266), so quotes or non-ASCII characters in filenames can't break it.
+ */
+export function contentDisposition(filename: string, inline: boolean): string {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, "_");
+  const encoded = encodeURIComponent(filename).replace(/['()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `${inline ? "inline" : "attachment"}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
@@ -0,0 +1,91 @@
+/**
+ * How a teacher's courses, or one student's work, are doing. Rates and
+ * averages are percentages to one decimal place, null while there's nothing
+ * to measure yet.
+ */
+export type DashboardMetrics = {
+  completionRate: number | null; // Work handed in or graded, of everything due so far for each enrolled student
+  averageGrade: number | null; // Mean score of graded work, as a percentage of its points
+  onTimeRate: number | null; // Handed-in work that wasn't late
+  pendingReviews: number; // Handed in and waiting to be graded
+};
+
+// Whose work the metrics cover: everyone's in a teacher's courses, or one student's
+export type MetricsScope = { teacherId: number } | { studentId: number };
+
+// Dashboards compare each metric with its value this many days earlier
+export const METRICS_TREND_DAYS = 7;
+
+// GET /api/dashboard/stats for teachers
+export type TeacherDashboardStats = DashboardMetrics & {
+  totalStudents: number;
+  activeCourses: number;
+  lastWeek: DashboardMetrics; // The metrics as they stood METRICS_TREND_DAYS ago
+};
+
+// GET /api/dashboard/stats for students
+export type StudentDashboardStats = DashboardMetrics & {
+  enrolledCourses: number;
+  lastWeek: DashboardMetrics;
+};
+
+// `part` as a percentage of `whole`, or null when there's no whole
+export function percentage(part: number, whole: number): number | null {
+  return whole > 0 ? Math.round((part / whole) * 1000) / 10 : null;
+}
+
+/**
+ * Enrollment progress: completed content items plus graded assignments, as a
+ * percentage of all content items and assignments in the course.
+ */
+export function progressPercentage(done: number, total: number): number {
+  return total === 0 ? 0 : Math.min(100, Math.round((done / total) * 100));
+}
+
+// The change since `previous`, or null when either end is missing
+export function metricDelta(current: number | null, previous: number | null): number | null {
+  return current === null || previous === null ? null : Math.round((current - previous) * 10) / 10;
+}
+
+// Where a hand-in fell against its due date, earliest first; hours are [from, to) with null for open ends
+export const SUBMISSION_TIMING_BUCKETS: { label: string; hours: [number | null, number | null] }[] = [
+  { label: "3+ days early", hours: [null, -72] },
+  { label: "1–3 days early", hours: [-72, -24] },
+  { label: "Last day", hours: [-24, 0] },
+  { label: "Up to a day late", hours: [0, 24] },
+  { label: "1–3 days late", hours: [24, 72] },
+  { label: "3+ days late", hours: [72, null] },
+];
+
+// Scores are counted in tenths of the points; a full score goes in the last bucket
+export const GRADE_BUCKET_LABELS = ["0–9%", "10–19%", "20–29%", "30–39%", "40–49%", "50–59%", "60–69%", "70–79%", "80–89%", "90–100%"];
+
+// GET /api/courses/:courseId/analytics, for the dates from and to (YYYY-MM-DD, both included)
+export type CourseAnalytics = {
+  from: string;
+  to: string;
+  enrollments: { date: string; enrolled: number; total: number }[]; // Each day's new enrollments and the total by its end
+  grades: { assignmentId: number; title: string; counts: number[] }[]; // Graded work handed in during the range, by GRADE_BUCKET_LABELS
+  timing: { assignmentId: number; title: string; counts: number[] }[]; // Work handed in during the range, by SUBMISSION_TIMING_BUCKETS; undated assignments are left out
+  engagement: { moduleId: number | null; title: string; items: number; opened: number; completed: number }[]; // Content first opened, and completed, during the range
+};
+
+// Course analytics cover this many days unless asked for others, and at most ANALYTICS_MAX_DAYS
+export const ANALYTICS_DEFAULT_DAYS = 30;
+export const ANALYTICS_MAX_DAYS = 366;
+
+// A YYYY-MM-DD date moved by a number of days
+export function addDays(date: string, days: number): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + days);
+  return day.toISOString().slice(0, 10);
+}
+
+// The dates from `from` to `to`, both YYYY-MM-DD, in order
+export function datesBetween(from: string, to: string): string[] {
+  const dates: string[] = [];
+  for (let day = new Date(`${from}T00:00:00Z`); day <= new Date(`${to}T00:00:00Z`); day.setUTCDate(day.getUTCDate() + 1)) {
+    dates.push(day.toISOString().slice(0, 10));
+  }
+  return dates;
+}
@@ -0,0 +1,60 @@
+/**
+ * Reading and writing CSV (RFC 4180), for imports and exports that go through
+ * spreadsheets.
+ */
+
+// RFC 4180: quoted cells may hold commas, newlines and doubled quotes
+export function csvRows(text: string): { line: number; cells: string[] }[] {
+  const rows: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      cells.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      cells.push(cell);
+      if (cells.some((c) => c.trim())) rows.push({ line: rowLine, cells });
+      cells = [];
+      cell = "";
+      rowLine = ++line;
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  if (cells.some((c) => c.trim())) rows.push({ line: rowLine, cells });
+  return rows;
+}
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function csvCell(value: string | number | null): string {
+  if (value === null) return "";
+  if (typeof value === "number") return value.toString();
+  const safe = FORMULA_START.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+// Rows of cells as CSV text, with CRLF line endings as RFC 4180 asks
+export function toCsv(rows: (string | number | null)[][]): string {
+  return rows.map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
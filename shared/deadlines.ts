@@ -0,0 +1,84 @@
+import type { Assignment, AssignmentExtension } from "./schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 'open' until the due date, then 'late' while late work is still accepted,
+// and 'closed' once it isn't
+export type DeadlineStatus = "open" | "late" | "closed";
+
+// The due and lock dates that apply to one student
+export type Deadline = {
+  dueDate: Date | null;
+  lockDate: Date | null;
+  extended: boolean; // The dates come from an extension
+};
+
+// An assignment as listed to a user: a student sees their own deadline
+export type AssignmentWithDeadline = Assignment & {
+  deadlineStatus: DeadlineStatus;
+  extended: boolean;
+};
+
+/**
+ * The deadline a student works to: their extension's dates if they have one,
+ * otherwise the assignment's. An extension without a lock date keeps the
+ * assignment's.
+ */
+export function studentDeadline(assignment: Assignment, extension?: AssignmentExtension): Deadline {
+  return extension
+    ? { dueDate: extension.dueDate, lockDate: extension.lockDate ?? assignment.lockDate, extended: true }
+    : { dueDate: assignment.dueDate, lockDate: assignment.lockDate, extended: false };
+}
+
+export function deadlineStatus(assignment: Pick<Assignment, "latePolicy">, deadline: Deadline, at = new Date()): DeadlineStatus {
+  if (deadline.lockDate && at > deadline.lockDate) return "closed";
+  if (deadline.dueDate && at > deadline.dueDate) return assignment.latePolicy === "reject" ? "closed" : "late";
+  return "open";
+}
+
+/**
+ * Days past the due date, counting any part of a day as a whole one: work
+ * handed in a minute late is one day late.
+ */
+export function daysLate(deadline: Deadline, at: Date): number {
+  if (!deadline.dueDate || at <= deadline.dueDate) return 0;
+  return Math.ceil((at.getTime() - deadline.dueDate.getTime()) / DAY_MS);
+}
+
+/**
+ * Points taken off a score for lateness. Only 'deduct' assignments lose
+ * points, a percentage per day late, never more than the whole score.
+ */
+export function latePenalty(assignment: Pick<Assignment, "latePolicy" | "latePenaltyPercent">, days: number, points: number): number {
+  if (assignment.latePolicy !== "deduct" || !assignment.latePenaltyPercent || days <= 0) return 0;
+  return Math.round((points * Math.min(100, assignment.latePenaltyPercent * days)) / 100);
+}
+
+/**
+ * The score that comes to `grade` once the late penalty is taken off, or
+ * undefined if no score up to `maxPoints` does. Penalties are rounded, so
+ * some grades can't be reached.
+ */
+export function scoreBeforePenalty(assignment: Pick<Assignment, "latePolicy" | "latePenaltyPercent">, days: number, grade: number, maxPoints: number): number | undefined {
+  for (let points = grade; points <= maxPoints; points++) {
+    const recorded = points - latePenalty(assignment, days, points);
+    if (recorded === grade) return points;
+    if (recorded > grade) return undefined;
+  }
+  return undefined;
+}
+
+/**
+ * The assignment with the deadline that applies to the viewer. Students with
+ * an extension see its dates in place of the assignment's.
+ */
+export function withDeadline(assignment: Assignment, extension?: AssignmentExtension, at = new Date()): AssignmentWithDeadline {
+  const deadline = studentDeadline(assignment, extension);
+  return {
+    ...assignment,
+    dueDate: deadline.dueDate,
+    lockDate: deadline.lockDate,
+    deadlineStatus: deadlineStatus(assignment, deadline, at),
+    extended: deadline.extended,
+  };
+}
@@ -0,0 +1,201 @@
+import type { AssignmentWithDeadline } from "./deadlines";
+import type { Assignment, Course, GradeCategory, GradeScale, PublicUser, Submission } from "./schema";
+
+// Used by courses that haven't set their own scale
+export const DEFAULT_GRADE_SCALE: GradeScale = [
+  { letter: "A", minPercent: 90 },
+  { letter: "B", minPercent: 80 },
+  { letter: "C", minPercent: 70 },
+  { letter: "D", minPercent: 60 },
+  { letter: "F", minPercent: 0 },
+];
+
+// What a student has for one assignment, as the gradebook shows it
+export type GradebookCell = Pick<Submission, "grade" | "latePenalty" | "status" | "daysLate" | "feedback"> & {
+  submissionId: number;
+};
+
+// One category's share of a student's grade; percentages are null until something in it counts
+export type CategoryGrade = {
+  categoryId: number;
+  current: number | null;
+  final: number | null;
+  dropped: number[]; // Assignments left out of the current grade by the category's drop rule
+};
+
+// A student's grade in a course. The current grade counts graded work only;
+// the final grade also counts everything ungraded as zero.
+export type CourseGrade = {
+  current: number | null;
+  final: number | null;
+  currentLetter: string | null;
+  finalLetter: string | null;
+  categories: CategoryGrade[];
+};
+
+// GET /api/courses/:courseId/gradebook: every enrolled student's scores and grade
+export type Gradebook = {
+  course: Course;
+  scale: GradeScale;
+  categories: GradeCategory[];
+  assignments: Assignment[];
+  rows: {
+    student: Pick<PublicUser, "id" | "name" | "username">;
+    cells: Record<number, GradebookCell>; // By assignment id; missing until the student has a submission
+    grade: CourseGrade;
+  }[];
+};
+
+// GET /api/grades: a student's scores and grade in one of their courses
+export type StudentCourseGrades = {
+  course: Pick<Course, "id" | "title">;
+  scale: GradeScale;
+  categories: GradeCategory[];
+  assignments: AssignmentWithDeadline[];
+  cells: Record<number, GradebookCell>;
+  grade: CourseGrade;
+};
+
+// A score, and maybe feedback, that a gradebook CSV import changes
+export type GradeImportChange = {
+  line: number;
+  student: Pick<PublicUser, "id" | "name" | "username">;
+  assignment: Pick<Assignment, "id" | "title">;
+  grade: { from: number | null; to: number }; // Recorded grades, after any late penalty
+  feedback?: { from: string | null; to: string }; // Only when the feedback changes
+};
+
+// POST /api/courses/:courseId/gradebook/import: what the file changes, or changed once applied
+export type GradebookImport = {
+  changes: GradeImportChange[];
+  problems: { line: number; message: string }[]; // Rows and cells left out; line 1 is the header
+  applied: boolean;
+};
+
+type GradedAssignment = Pick<Assignment, "id" | "maxPoints" | "categoryId">;
+
+const roundPercent = (percent: number) => Math.round(percent * 100) / 100;
+
+export function courseGradeScale(course: Pick<Course, "gradeScale">): GradeScale {
+  return course.gradeScale ?? DEFAULT_GRADE_SCALE;
+}
+
+/**
+ * The letter for a percentage: the grade with the highest minimum it reaches.
+ */
+export function letterGrade(scale: GradeScale, percent: number): string {
+  const sorted = [...scale].sort((a, b) => b.minPercent - a.minPercent);
+  return (sorted.find((grade) => percent >= grade.minPercent) ?? sorted[sorted.length - 1]).letter;
+}
+
+/**
+ * Points earned over points possible for a group of assignments, leaving out
+ * the `dropLowest` lowest-scoring ones (by percentage) but always keeping at
+ * least one. Assignments scored as null don't count at all.
+ */
+function poolPercent(pool: GradedAssignment[], score: (assignment: GradedAssignment) => number | null, dropLowest: number): { percent: number | null; dropped: number[] } {
+  const scored = pool.filter((assignment) => score(assignment) !== null);
+  const dropped = scored
+    .filter((assignment) => assignment.maxPoints > 0) // Extra credit can't be dropped
+    .sort((a, b) => score(a)! / a.maxPoints - score(b)! / b.maxPoints)
+    .slice(0, Math.max(0, Math.min(dropLowest, scored.length - 1)))
+    .map((assignment) => assignment.id);
+  const kept = scored.filter((assignment) => !dropped.includes(assignment.id));
+
+  const possible = kept.reduce((total, assignment) => total + assignment.maxPoints, 0);
+  const earned = kept.reduce((total, assignment) => total + score(assignment)!, 0);
+  return { percent: possible > 0 ? (earned / possible) * 100 : null, dropped };
+}
+
+/**
+ * A student's grade from the points they've been given, by assignment id.
+ * Without categories every assignment counts by its points. With them, each
+ * category's percentage counts by its weight; weights needn't add up to 100,
+ * and categories with nothing to count yet are left out. Assignments outside
+ * every category don't count once the course has categories.
+ */
+export function computeCourseGrade(
+  assignments: GradedAssignment[],
+  categories: Pick<GradeCategory, "id" | "weight" | "dropLowest">[],
+  points: Map<number, number>,
+  scale: GradeScale,
+): CourseGrade {
+  const current = (assignment: GradedAssignment) => points.get(assignment.id) ?? null;
+  const final = (assignment: GradedAssignment) => points.get(assignment.id) ?? 0;
+
+  let currentPercent: number | null;
+  let finalPercent: number | null;
+  let categoryGrades: CategoryGrade[] = [];
+  if (categories.length === 0) {
+    currentPercent = poolPercent(assignments, current, 0).percent;
+    finalPercent = poolPercent(assignments, final, 0).percent;
+  } else {
+    const weighted = categories.map((category) => {
+      const pool = assignments.filter((assignment) => assignment.categoryId === category.id);
+      const currentPool = poolPercent(pool, current, category.dropLowest);
+      const finalPool = poolPercent(pool, final, category.dropLowest);
+      return { category, current: currentPool.percent, final: finalPool.percent, dropped: currentPool.dropped };
+    });
+    const weightedPercent = (percentOf: (grade: typeof weighted[number]) => number | null) => {
+      const counted = weighted.filter((grade) => percentOf(grade) !== null && grade.category.weight > 0);
+      const totalWeight = counted.reduce((total, grade) => total + grade.category.weight, 0);
+      if (totalWeight === 0) return null;
+      return counted.reduce((total, grade) => total + percentOf(grade)! * grade.category.weight, 0) / totalWeight;
+    };
+    currentPercent = weightedPercent((grade) => grade.current);
+    finalPercent = weightedPercent((grade) => grade.final);
+    categoryGrades = weighted.map((grade) => ({
+      categoryId: grade.category.id,
+      current: grade.current === null ? null : roundPercent(grade.current),
+      final: grade.final === null ? null : roundPercent(grade.final),
+      dropped: grade.dropped,
+    }));
+  }
+
+  const currentRounded = currentPercent === null ? null : roundPercent(currentPercent);
+  const finalRounded = finalPercent === null ? null : roundPercent(finalPercent);
+  return {
+    current: currentRounded,
+    final: finalRounded,
+    currentLetter: currentRounded === null ? null : letterGrade(scale, currentRounded),
+    finalLetter: finalRounded === null ? null : letterGrade(scale, finalRounded),
+    categories: categoryGrades,
+  };
+}
+
+export function gradebookCell(submission: Submission): GradebookCell {
+  return {
+    submissionId: submission.id,
+    grade: submission.grade,
+    latePenalty: submission.latePenalty,
+    status: submission.status,
+    daysLate: submission.daysLate,
+    feedback: submission.feedback,
+  };
+}
+
+/**
+ * Whether a submission has a grade that counts. A grade stays while a
+ * resubmission waits to be graded again; a quiz's score doesn't count while
+ * answers wait for review.
+ */
+export function hasGrade(submission: Pick<Submission, "status" | "grade">): boolean {
+  return submission.grade !== null && (submission.status === "graded" || submission.status === "resubmitted");
+}
+
+// Points by assignment id; only submissions with a grade count
+export function gradedPoints(cells: Record<number, GradebookCell>): Map<number, number> {
+  const points = new Map<number, number>();
+  for (const [assignmentId, cell] of Object.entries(cells)) {
+    if (hasGrade(cell)) points.set(Number(assignmentId), cell.grade!);
+  }
+  return points;
+}
+
+/**
+ * Which assignments count toward the grade: all of them without categories,
+ * otherwise those in a category.
+ */
+export function countsTowardGrade(assignment: Pick<Assignment, "categoryId">, categories: Pick<GradeCategory, "id">[]): boolean {
+  return categories.length === 0 || categories.some((category) => category.id === assignment.categoryId);
+}
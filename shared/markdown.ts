@@ -0,0 +1,10 @@
+import { marked } from "marked";
+
+/**
+ * Renders lesson Markdown (GitHub-flavoured, raw HTML passed through) to HTML.
+ * Used for the editor preview and, authoritatively, by the server on save,
+ * where the result is sanitized like any other lesson HTML.
+ */
+export function renderMarkdown(markdown: string): string {
+  return marked.parse(markdown, { async: false, gfm: true, breaks: false });
+}
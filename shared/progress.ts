@@ -0,0 +1,44 @@
+import type { Assignment, Course } from "./schema";
+
+// A class average is only shown once this many students, the viewer included,
+// are graded, so it can't give away anyone else's score
+export const MIN_CLASS_AVERAGE_STUDENTS = 3;
+
+// One course on a student's progress page
+export type CourseProgress = {
+  course: Pick<Course, "id" | "title">;
+  progress: number; // Today's point of `completion`, which is the enrollment's progress
+  grade: number | null; // The current grade, over graded work only, as a percentage
+  gradeLetter: string | null;
+  completion: { date: string; percent: number }[]; // Progress at the end of each day since enrolling, up to today
+  grades: {
+    assignmentId: number;
+    title: string;
+    percent: number | null; // The student's score, null until graded
+    classAverage: number | null; // Null below MIN_CLASS_AVERAGE_STUDENTS graded students
+  }[];
+  upcoming: {
+    assignmentId: number;
+    title: string;
+    dueDate: string; // The student's own, extensions included
+    extended: boolean;
+    handedIn: boolean;
+  }[]; // Soonest first
+};
+
+type TimelineSubject = {
+  at: string; // ISO
+  course: Pick<Course, "id" | "title">;
+  assignment: Pick<Assignment, "id" | "title" | "maxPoints">;
+};
+
+// Something that happened to a student's work
+export type ProgressTimelineEvent =
+  | (TimelineSubject & { kind: "submitted"; version: number; daysLate: number })
+  | (TimelineSubject & { kind: "graded"; grade: number; feedback: string | null });
+
+// GET /api/me/progress
+export type MyProgress = {
+  courses: CourseProgress[];
+  timeline: ProgressTimelineEvent[]; // Newest first
+};
@@ -0,0 +1,198 @@
+import type { BankQuestion, QuestionBank, Quiz, QuizAnswer, QuizAnswers, QuizAttempt, QuizDraw, QuizQuestion, QuizResults } from "./schema";
+
+// Answers may arrive this long after the time limit, to allow for the trip to the server
+export const QUIZ_GRACE_MS = 30 * 1000;
+
+// A question as students see it while taking the quiz: no correct answers,
+// and choice options in the order of their attempt
+export type StudentQuizQuestion = Pick<QuizQuestion, "id" | "type" | "prompt" | "points"> & {
+  options?: { id: string; text: string }[];
+};
+
+// An attempt as the student taking it sees it, with its questions in order
+export type QuizAttemptView = Pick<
+  QuizAttempt,
+  "id" | "attempt" | "answers" | "results" | "score" | "pendingReview" | "startedAt" | "expiresAt" | "submittedAt"
+> & {
+  questions: StudentQuizQuestion[];
+};
+
+// A quiz as its students see it before starting an attempt
+export type StudentQuiz = Pick<Quiz, "timeLimitMinutes" | "maxAttempts"> & {
+  questionCount: number;
+  maxPoints: number;
+  attempts: QuizAttemptView[];
+};
+
+// A student's attempt as the teacher reviews it, with the full questions in the order shown
+export type QuizAttemptReview = QuizAttempt & {
+  questions: QuizQuestion[];
+};
+
+// A question bank as listed for its course: how many questions it holds and the tags they use
+export type QuestionBankSummary = QuestionBank & {
+  questionCount: number;
+  tags: string[];
+};
+
+// An item in a QTI package that couldn't be imported, and why
+export type QtiSkippedItem = {
+  item: string; // The item's identifier, or the section's for randomly selected sections
+  message: string;
+};
+
+export function questionsMaxPoints(questions: QuizQuestion[]): number {
+  return questions.reduce((total, question) => total + question.points, 0);
+}
+
+// The fixed questions' points, plus what every drawn question is worth
+export function quizMaxPoints(quiz: Pick<Quiz, "questions" | "draws">): number {
+  return questionsMaxPoints(quiz.questions) + quiz.draws.reduce((total, draw) => total + draw.count * draw.points, 0);
+}
+
+export function quizQuestionCount(quiz: Pick<Quiz, "questions" | "draws">): number {
+  return quiz.questions.length + quiz.draws.reduce((total, draw) => total + draw.count, 0);
+}
+
+export function matchesDraw(bankQuestion: Pick<BankQuestion, "bankId" | "tags" | "difficulty">, draw: QuizDraw): boolean {
+  return bankQuestion.bankId === draw.bankId
+    && draw.tags.every((tag) => bankQuestion.tags.includes(tag))
+    && (draw.difficulty === null || bankQuestion.difficulty === draw.difficulty);
+}
+
+/**
+ * Picks each draw's questions at random from the bank questions given, never
+ * the same one twice. Drawn questions get ids from their bank question and
+ * the points the draw sets. A draw takes what there is if its bank has run
+ * short.
+ */
+export function drawQuestions(draws: QuizDraw[], bankQuestions: BankQuestion[]): QuizQuestion[] {
+  const drawn: QuizQuestion[] = [];
+  const used = new Set<number>();
+  for (const draw of draws) {
+    const candidates = bankQuestions.filter((bankQuestion) => !used.has(bankQuestion.id) && matchesDraw(bankQuestion, draw));
+    for (const bankQuestion of shuffled(candidates).slice(0, draw.count)) {
+      used.add(bankQuestion.id);
+      drawn.push({ ...bankQuestion.question, id: `bank-${bankQuestion.id}`, points: draw.points });
+    }
+  }
+  return drawn;
+}
+
+// Every question an attempt can ask: the quiz's own and those drawn for it
+export function attemptQuestionPool(quiz: Pick<Quiz, "questions">, attempt: Pick<QuizAttempt, "drawnQuestions">): QuizQuestion[] {
+  return [...quiz.questions, ...attempt.drawnQuestions];
+}
+
+export function studentQuestion(question: QuizQuestion, optionOrder?: string[]): StudentQuizQuestion {
+  const { id, type, prompt, points } = question;
+  if (question.type !== "multiple-choice" && question.type !== "multiple-select") {
+    return { id, type, prompt, points };
+  }
+  const order = optionOrder ?? question.options.map((option) => option.id);
+  const options = order
+    .map((optionId) => question.options.find((option) => option.id === optionId))
+    .filter((option) => option !== undefined);
+  return { id, type, prompt, points, options };
+}
+
+// Questions in the order an attempt shows them
+export function attemptQuestions(quiz: Pick<Quiz, "questions">, attempt: Pick<QuizAttempt, "questionOrder" | "drawnQuestions">): QuizQuestion[] {
+  const pool = attemptQuestionPool(quiz, attempt);
+  return attempt.questionOrder
+    .map((questionId) => pool.find((question) => question.id === questionId))
+    .filter((question) => question !== undefined);
+}
+
+export function attemptView(quiz: Pick<Quiz, "questions">, attempt: QuizAttempt): QuizAttemptView {
+  const { id, answers, results, score, pendingReview, startedAt, expiresAt, submittedAt } = attempt;
+  return {
+    id,
+    attempt: attempt.attempt,
+    answers,
+    results,
+    score,
+    pendingReview,
+    startedAt,
+    expiresAt,
+    submittedAt,
+    questions: attemptQuestions(quiz, attempt).map((question) => studentQuestion(question, attempt.optionOrder[question.id])),
+  };
+}
+
+// An attempt whose time ran out can't take answers any more
+export function isAttemptExpired(attempt: Pick<QuizAttempt, "expiresAt">, now = new Date()): boolean {
+  return !!attempt.expiresAt && now.getTime() > new Date(attempt.expiresAt).getTime() + QUIZ_GRACE_MS;
+}
+
+function shuffled<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * The order a new attempt shows its questions and their choice options in,
+ * shuffled if the quiz asks for it.
+ */
+export function attemptOrder(quiz: Pick<Quiz, "shuffleQuestions" | "shuffleOptions">, questions: QuizQuestion[]): { questionOrder: string[]; optionOrder: Record<string, string[]> } {
+  const questionIds = questions.map((question) => question.id);
+  const optionOrder: Record<string, string[]> = {};
+  for (const question of questions) {
+    if (question.type === "multiple-choice" || question.type === "multiple-select") {
+      const optionIds = question.options.map((option) => option.id);
+      optionOrder[question.id] = quiz.shuffleOptions ? shuffled(optionIds) : optionIds;
+    }
+  }
+  return { questionOrder: quiz.shuffleQuestions ? shuffled(questionIds) : questionIds, optionOrder };
+}
+
+const normalize = (text: string) => text.trim().replace(/\s+/g, " ").toLowerCase();
+
+// Accepted answers ignore case and extra spaces; * stands for any text
+function matchesPattern(answer: string, pattern: string): boolean {
+  const source = normalize(pattern)
+    .split("*")
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}$`).test(normalize(answer));
+}
+
+/**
+ * Points for one answer, or null when a teacher has to decide: short answers
+ * that match none of the accepted answers.
+ */
+export function scoreAnswer(question: QuizQuestion, answer: QuizAnswer | undefined): number | null {
+  switch (question.type) {
+    case "multiple-choice":
+      return answer === question.correctOptionId ? question.points : 0;
+    case "multiple-select": {
+      const picked = Array.isArray(answer) ? new Set(answer) : new Set<string>();
+      const correct = new Set(question.correctOptionIds);
+      return picked.size === correct.size && Array.from(correct).every((id) => picked.has(id)) ? question.points : 0;
+    }
+    case "true-false":
+      return answer === question.correct ? question.points : 0;
+    case "numeric":
+      return typeof answer === "number" && Math.abs(answer - question.answer) <= question.tolerance + 1e-9 ? question.points : 0;
+    case "short-answer":
+      if (typeof answer !== "string" || !answer.trim()) return 0;
+      return question.acceptedAnswers.some((pattern) => matchesPattern(answer, pattern)) ? question.points : null;
+  }
+}
+
+export function scoreAttempt(questions: QuizQuestion[], answers: QuizAnswers): QuizResults {
+  return Object.fromEntries(questions.map((question) => [question.id, scoreAnswer(question, answers[question.id])]));
+}
+
+// The points so far, and whether any answer still waits for the teacher
+export function totalResults(results: QuizResults): { score: number; pendingReview: boolean } {
+  const points = Object.values(results);
+  return {
+    score: points.reduce<number>((total, value) => total + (value ?? 0), 0),
+    pendingReview: points.some((value) => value === null),
+  };
+}
@@ -0,0 +1,36 @@
+import type { Course, PublicUser, RiskFlag, RiskFlagEvent, RiskThresholds } from "./schema";
+
+export const RISK_RULES = ["missing-work", "falling-grades", "inactive", "behind-class"] as const;
+export type RiskRule = typeof RISK_RULES[number];
+
+export const RISK_RULE_LABELS: Record<RiskRule, string> = {
+  "missing-work": "Missing work",
+  "falling-grades": "Falling grades",
+  "inactive": "Inactive",
+  "behind-class": "Behind the class",
+};
+
+// Used by courses that haven't set their own thresholds
+export const DEFAULT_RISK_THRESHOLDS: RiskThresholds = {
+  missingWork: 2,
+  gradeDrop: 15,
+  inactiveDays: 14,
+  behindClass: 30,
+};
+
+export function courseRiskThresholds(course: Pick<Course, "riskThresholds">): RiskThresholds {
+  return course.riskThresholds ?? DEFAULT_RISK_THRESHOLDS;
+}
+
+// Flags the teacher still has to deal with, or is dealing with
+export const ACTIVE_RISK_STATUSES = ["open", "acted"];
+
+// GET /api/risk-flags: a flag with who it's about and everything that happened to it
+export type RiskFlagWithHistory = RiskFlag & {
+  student: Pick<PublicUser, "id" | "name" | "username">;
+  course: Pick<Course, "id" | "title">;
+  events: (RiskFlagEvent & { actorName: string | null })[]; // Oldest first; no actor for the check
+};
+
+// POST /api/risk-check: what a check changed
+export type RiskCheckResult = { courses: number; raised: number; cleared: number };
@@ -0,0 +1,33 @@
+import type { Assignment, Course, PublicUser, Submission } from "./schema";
+
+export type RosterStudent = Pick<PublicUser, "id" | "name" | "username">;
+
+// How a student stands in one course
+export type RosterCourseStanding = {
+  course: Pick<Course, "id" | "title">;
+  enrolledAt: string | null;
+  progress: number; // Percentage of the course's content completed
+  lastActivity: string | null; // ISO; see lastActivity in server/activity.ts
+  grade: number | null; // The current grade, over graded work only, as a percentage
+  gradeLetter: string | null;
+  missing: number; // Assignments past the student's due date and not handed in
+};
+
+// GET /api/students: a row per student per course the teacher teaches them in
+export type RosterEntry = RosterCourseStanding & { student: RosterStudent };
+
+// A submission as the student detail lists it, with every version handed in
+export type StudentSubmissionRecord = Pick<
+  Submission,
+  "id" | "status" | "grade" | "feedback" | "submittedAt" | "gradedAt" | "daysLate" | "latePenalty"
+> & {
+  assignment: Pick<Assignment, "id" | "courseId" | "title" | "type" | "maxPoints" | "dueDate">;
+  versions: { version: number; submittedAt: string; files: number }[]; // Oldest first
+};
+
+// GET /api/students/:studentId: everything about the student in the teacher's courses
+export type StudentDetail = {
+  student: RosterStudent;
+  courses: (RosterCourseStanding & { missingAssignments: Pick<Assignment, "id" | "title" | "dueDate">[] })[];
+  submissions: StudentSubmissionRecord[]; // Newest first; work never handed in or graded is left out
+};
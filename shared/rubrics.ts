@@ -0,0 +1,24 @@
+import type { RubricCriterion, RubricScores } from "./schema";
+
+/**
+ * The most a rubric can award: the best level of every criterion.
+ */
+export function rubricMaxPoints(criteria: RubricCriterion[]): number {
+  return criteria.reduce((total, criterion) =>
+    total + Math.max(0, ...criterion.levels.map((level) => level.points)), 0);
+}
+
+/**
+ * Total points for the levels picked in `scores`, or undefined unless exactly
+ * one existing level is picked for every criterion.
+ */
+export function rubricScore(criteria: RubricCriterion[], scores: RubricScores): number | undefined {
+  if (Object.keys(scores).length !== criteria.length) return undefined;
+  let total = 0;
+  for (const criterion of criteria) {
+    const level = criterion.levels.find((level) => level.id === scores[criterion.id]);
+    if (!level) return undefined;
+    total += level.points;
+  }
+  return total;
+}
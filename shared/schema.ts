@@ -1,5 +1,5 @@
-import { pgTable, text, serial, integer, boolean, timestamp } from "drizzle-orm/pg-core";
-import { createInsertSchema } from "drizzle-zod";
+import { pgTable, text, serial, integer, boolean, timestamp, varchar, json, index, unique } from "drizzle-orm/pg-core";
+import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
 
 export const users = pgTable("users", {
@@ -19,6 +19,17 @@ export const courses = pgTable("courses", {
   status: text("status").notNull().default("draft"), // 'draft', 'active', 'archived'
   enrollmentCount: integer("enrollment_count").notNull().default(0),
   thumbnail: text("thumbnail"),
+  gradeScale: json("grade_scale").$type<GradeScale>(), // Letter grades by minimum percentage; null = DEFAULT_GRADE_SCALE
+  riskThresholds: json("risk_thresholds").$type<RiskThresholds>(), // When students are flagged as at risk; null = DEFAULT_RISK_THRESHOLDS
+});
+
+export const modules = pgTable("modules", {
+  id: serial("id").primaryKey(),
+  courseId: integer("course_id").notNull(),
+  title: text("title").notNull(),
+  description: text("description"),
+  order: integer("order").notNull().default(0),
+  unlockAt: text("unlock_at"), // ISO timestamp; content stays hidden from students until then
 });
 
 export const content = pgTable("content", {
@@ -27,9 +38,11 @@ export const content = pgTable("content", {
   description: text("description"),
   type: text("type").notNull(), // 'lesson', 'resource', 'video', 'document'
   courseId: integer("course_id").notNull(),
+  moduleId: integer("module_id"), // null = not yet placed in a module
   teacherId: integer("teacher_id").notNull(),
   content: text("content"), // HTML content or file path
-  order: integer("order").notNull().default(0),
+  markdown: text("markdown"), // Source of `content` for lessons written in Markdown mode
+  order: integer("order").notNull().default(0), // position within its module
 });
 
 export const assignments = pgTable("assignments", {
@@ -38,9 +51,37 @@ export const assignments = pgTable("assignments", {
   description: text("description"),
   courseId: integer("course_id").notNull(),
   teacherId: integer("teacher_id").notNull(),
-  dueDate: text("due_date"),
+  type: text("type").notNull().default("standard"), // 'standard' (text and files) or 'quiz'
+  dueDate: timestamp("due_date", { withTimezone: true }),
+  lockDate: timestamp("lock_date", { withTimezone: true }), // No submissions after this, late or not
+  latePolicy: text("late_policy").notNull().default("accept"), // 'accept' (flagged late), 'reject', 'deduct'
+  latePenaltyPercent: integer("late_penalty_percent"), // Deducted per day late under 'deduct'
   maxPoints: integer("max_points").notNull().default(100),
   instructions: text("instructions"),
+  allowedFileTypes: json("allowed_file_types").$type<string[]>(), // File extensions students may submit, e.g. ".pdf"; null = any supported type
+  maxFileSize: integer("max_file_size"), // bytes per submitted file; null = the server-wide limit
+  rubricId: integer("rubric_id"), // Graded with this rubric; maxPoints is then the rubric's total
+  categoryId: integer("category_id"), // Its gradebook category; null = uncategorized
+});
+
+// A weighted group of assignments in a course's gradebook, e.g. homework at 30%
+export const gradeCategories = pgTable("grade_categories", {
+  id: serial("id").primaryKey(),
+  courseId: integer("course_id").notNull(),
+  title: text("title").notNull(),
+  weight: integer("weight").notNull(), // Percentage of the course grade
+  dropLowest: integer("drop_lowest").notNull().default(0), // How many of the lowest scores to leave out
+});
+
+// Reusable scoring guides. Each belongs to one course; copying one to another
+// course makes an independent rubric.
+export const rubrics = pgTable("rubrics", {
+  id: serial("id").primaryKey(),
+  courseId: integer("course_id").notNull(),
+  teacherId: integer("teacher_id").notNull(),
+  title: text("title").notNull(),
+  description: text("description"),
+  criteria: json("criteria").$type<RubricCriterion[]>().notNull(),
 });
 
 export const submissions = pgTable("submissions", {
@@ -52,8 +93,87 @@ export const submissions = pgTable("submissions", {
   grade: integer("grade"),
   feedback: text("feedback"),
   status: text("status").notNull().default("pending"), // 'pending', 'graded'
+  gradedVersionId: integer("graded_version_id"), // The submission version the grade applies to
+  rubricScores: json("rubric_scores").$type<RubricScores>(), // Level picked per criterion when graded with a rubric
+  daysLate: integer("days_late").notNull().default(0), // Days past the student's due date, as of the latest version
+  latePenalty: integer("late_penalty"), // Points taken off `grade` for lateness; the score before it was grade + latePenalty
+  gradedAt: timestamp("graded_at", { withTimezone: true }), // Last graded; null if never, or graded before this was kept
+});
+
+// The questions and settings of a quiz assignment. maxPoints of the
+// assignment is the total of its questions and draws.
+export const quizzes = pgTable("quizzes", {
+  id: serial("id").primaryKey(),
+  assignmentId: integer("assignment_id").notNull().unique(),
+  timeLimitMinutes: integer("time_limit_minutes"), // null = untimed
+  maxAttempts: integer("max_attempts"), // null = unlimited
+  shuffleQuestions: boolean("shuffle_questions").notNull().default(false),
+  shuffleOptions: boolean("shuffle_options").notNull().default(false),
+  questions: json("questions").$type<QuizQuestion[]>().notNull(), // Asked in every attempt
+  draws: json("draws").$type<QuizDraw[]>().notNull().default([]), // Picked at random from question banks per attempt
+});
+
+// A course's pool of questions for quizzes to draw from
+export const questionBanks = pgTable("question_banks", {
+  id: serial("id").primaryKey(),
+  courseId: integer("course_id").notNull(),
+  teacherId: integer("teacher_id").notNull(),
+  title: text("title").notNull(),
+  description: text("description"),
+});
+
+// A question in a bank, tagged by topic and rated by difficulty so quizzes can
+// draw from part of the bank
+export const bankQuestions = pgTable("bank_questions", {
+  id: serial("id").primaryKey(),
+  bankId: integer("bank_id").notNull(),
+  question: json("question").$type<QuizQuestion>().notNull(),
+  tags: json("tags").$type<string[]>().notNull().default([]), // Lowercase
+  difficulty: text("difficulty"), // 'easy', 'medium', 'hard'; null = unrated
 });
 
+// One go at a quiz. Answers are saved as the student works; the latest
+// submitted attempt is the one that counts towards the submission's grade.
+export const quizAttempts = pgTable("quiz_attempts", {
+  id: serial("id").primaryKey(),
+  assignmentId: integer("assignment_id").notNull(),
+  studentId: integer("student_id").notNull(),
+  attempt: integer("attempt").notNull(), // 1, 2, ... per student
+  questionOrder: json("question_order").$type<string[]>().notNull(), // Question ids as shown to the student
+  optionOrder: json("option_order").$type<Record<string, string[]>>().notNull(), // Option ids per choice question
+  // Copies of the bank questions drawn for this attempt, so later edits to the
+  // bank don't change what the student was asked or how it is scored
+  drawnQuestions: json("drawn_questions").$type<QuizQuestion[]>().notNull().default([]),
+  answers: json("answers").$type<QuizAnswers>().notNull(),
+  results: json("results").$type<QuizResults>(), // Points per question; null until submitted
+  score: integer("score"), // Total of the results so far
+  pendingReview: boolean("pending_review").notNull().default(false), // Some short answers still need a teacher
+  startedAt: text("started_at").notNull(),
+  expiresAt: text("expires_at"), // Time limit runs out; null if untimed
+  submittedAt: text("submitted_at"), // null while in progress
+}, (table) => [unique("quiz_attempts_assignment_student_attempt").on(table.assignmentId, table.studentId, table.attempt)]);
+
+// A later deadline for one student; it replaces the assignment's due and lock dates for them
+export const assignmentExtensions = pgTable("assignment_extensions", {
+  id: serial("id").primaryKey(),
+  assignmentId: integer("assignment_id").notNull(),
+  studentId: integer("student_id").notNull(),
+  dueDate: timestamp("due_date", { withTimezone: true }).notNull(),
+  lockDate: timestamp("lock_date", { withTimezone: true }),
+  grantedBy: integer("granted_by").notNull(), // Teacher id
+  grantedAt: text("granted_at"),
+}, (table) => [unique("assignment_extensions_assignment_student").on(table.assignmentId, table.studentId)]);
+
+// Every submit adds a version; rows are never changed afterwards. The
+// submission row mirrors the latest version's content.
+export const submissionVersions = pgTable("submission_versions", {
+  id: serial("id").primaryKey(),
+  submissionId: integer("submission_id").notNull(),
+  version: integer("version").notNull(), // 1, 2, ... within the submission
+  content: text("content"),
+  submittedAt: text("submitted_at").notNull(),
+}, (table) => [unique("submission_versions_submission_version").on(table.submissionId, table.version)]);
+
 export const enrollments = pgTable("enrollments", {
   id: serial("id").primaryKey(),
   studentId: integer("student_id").notNull(),
@@ -62,49 +182,430 @@ export const enrollments = pgTable("enrollments", {
   progress: integer("progress").notNull().default(0), // percentage
 });
 
+// One row per student and content item, created the first time the student opens it
+export const contentProgress = pgTable("content_progress", {
+  id: serial("id").primaryKey(),
+  studentId: integer("student_id").notNull(),
+  contentId: integer("content_id").notNull(),
+  courseId: integer("course_id").notNull(),
+  openedAt: text("opened_at"),
+  completedAt: text("completed_at"), // null until marked complete
+}, (table) => [unique("content_progress_student_content").on(table.studentId, table.contentId)]);
+
+// A student the early-warning check thinks is at risk in a course, under one
+// rule. A flag stays until the rule stops applying; it is then cleared, and a
+// new flag is raised if the rule applies again later.
+export const riskFlags = pgTable("risk_flags", {
+  id: serial("id").primaryKey(),
+  courseId: integer("course_id").notNull(),
+  studentId: integer("student_id").notNull(),
+  rule: text("rule").notNull(), // 'missing-work', 'falling-grades', 'inactive', 'behind-class'
+  explanation: text("explanation").notNull(), // Why, as of the latest check
+  status: text("status").notNull().default("open"), // 'open', 'acted' (the teacher followed up), 'dismissed', 'cleared'
+  raisedAt: timestamp("raised_at", { withTimezone: true }).notNull().defaultNow(),
+  checkedAt: timestamp("checked_at", { withTimezone: true }).notNull().defaultNow(), // The latest check that found it still applies
+}, (table) => [index("IDX_risk_flags_course").on(table.courseId)]);
+
+// What happened to a flag, oldest first: raised and cleared by checks, acted on, dismissed or reopened by the teacher
+export const riskFlagEvents = pgTable("risk_flag_events", {
+  id: serial("id").primaryKey(),
+  flagId: integer("flag_id").notNull(),
+  action: text("action").notNull(), // 'raised', 'acted', 'dismissed', 'reopened', 'cleared'
+  note: text("note"), // The teacher's, e.g. what they did
+  actorId: integer("actor_id"), // null = the check
+  at: timestamp("at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [index("IDX_risk_flag_events_flag").on(table.flagId)]);
+
+// Files uploaded by teachers. The bytes live in the blob store (see server/blob-store.ts)
+// under their checksum, so identical files share one blob.
+export const uploads = pgTable("uploads", {
+  id: serial("id").primaryKey(),
+  courseId: integer("course_id").notNull(),
+  uploaderId: integer("uploader_id").notNull(),
+  contentId: integer("content_id"), // Set when attached to a content item
+  assignmentId: integer("assignment_id"), // Set when attached to an assignment
+  submissionId: integer("submission_id"), // Set for files a student submitted
+  submissionVersionId: integer("submission_version_id"), // ...and the version they were submitted with
+  filename: text("filename").notNull(),
+  mimeType: text("mime_type").notNull(),
+  size: integer("size").notNull(), // bytes
+  checksum: text("checksum").notNull(), // sha256, hex
+  createdAt: text("created_at"),
+}, (table) => [index("IDX_uploads_checksum").on(table.checksum)]);
+
+// Session storage for connect-pg-simple (see server/session.ts)
+export const userSessions = pgTable("user_sessions", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [index("IDX_user_sessions_expire").on(table.expire)]);
+
+// Password policy, shared by registration and password changes
+export const passwordSchema = z
+  .string()
+  .min(8, "Password must be at least 8 characters")
+  .max(128, "Password must be at most 128 characters")
+  .regex(/[a-z]/, "Password must contain a lowercase letter")
+  .regex(/[A-Z]/, "Password must contain an uppercase letter")
+  .regex(/[0-9]/, "Password must contain a number");
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
 });
 
+export const registerUserSchema = insertUserSchema.extend({
+  password: passwordSchema,
+  role: z.enum(["teacher", "student"]),
+});
+
+export const changePasswordSchema = z
+  .object({
+    currentPassword: z.string().min(1, "Current password is required"),
+    newPassword: passwordSchema,
+  })
+  .refine((data) => data.currentPassword !== data.newPassword, {
+    message: "New password must be different from the current password",
+    path: ["newPassword"],
+  });
+
+// Select schemas
+export const selectUserSchema = createSelectSchema(users).omit({
+  password: true,
+});
+
 export const insertCourseSchema = createInsertSchema(courses).omit({
   id: true,
   enrollmentCount: true,
+  gradeScale: true,
+  riskThresholds: true,
+});
+
+export const insertModuleSchema = createInsertSchema(modules).omit({
+  id: true,
 });
 
 export const insertContentSchema = createInsertSchema(content).omit({
   id: true,
 });
 
+export const latePolicySchema = z.enum(["accept", "reject", "deduct"]);
+export const assignmentTypeSchema = z.enum(["standard", "quiz"]);
+
+// Deadlines are sent as ISO timestamps with an offset, so they mean the same
+// instant whatever the server's timezone
+export const deadlineSchema = z
+  .string()
+  .datetime({ offset: true, message: "Dates must be ISO timestamps with a timezone, e.g. 2030-01-31T23:59:00Z" })
+  .pipe(z.coerce.date());
+
 export const insertAssignmentSchema = createInsertSchema(assignments).omit({
   id: true,
+}).extend({
+  dueDate: deadlineSchema.nullable().optional(),
+  lockDate: deadlineSchema.nullable().optional(),
+  type: assignmentTypeSchema.optional(),
+  latePolicy: latePolicySchema.optional(),
+  latePenaltyPercent: z.number().int().min(1).max(100).nullable().optional(),
+  allowedFileTypes: z
+    .array(z.string().regex(/^\.[a-z0-9]+$/, "File types must be extensions such as .pdf"))
+    .nullable()
+    .optional(),
+  maxFileSize: z.number().int().positive().nullable().optional(),
 });
 
 export const insertSubmissionSchema = createInsertSchema(submissions).omit({
   id: true,
   submittedAt: true,
+  gradedVersionId: true,
+  rubricScores: true,
+  daysLate: true,
+  latePenalty: true,
+  gradedAt: true,
+});
+
+export const insertAssignmentExtensionSchema = createInsertSchema(assignmentExtensions).omit({
+  id: true,
+  grantedAt: true,
+}).extend({
+  dueDate: deadlineSchema,
+  lockDate: deadlineSchema.nullable().optional(),
+});
+
+export const insertGradeCategorySchema = createInsertSchema(gradeCategories).omit({
+  id: true,
+}).extend({
+  title: z.string().trim().min(1, "Category title cannot be empty."),
+  weight: z.number().int().min(0).max(100),
+  dropLowest: z.number().int().min(0).default(0),
+});
+
+// Letters by the lowest percentage that earns them, kept highest first
+export const gradeScaleSchema = z.array(z.object({
+  letter: z.string().trim().min(1, "Every grade needs a letter.").max(4, "Letters can be at most 4 characters."),
+  minPercent: z.number().min(0).max(100),
+})).min(1, "A grading scale needs at least one grade.").superRefine((scale, ctx) => {
+  if (new Set(scale.map((grade) => grade.minPercent)).size !== scale.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Each grade needs a different minimum." });
+  }
+  if (!scale.some((grade) => grade.minPercent === 0)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "The lowest grade must start at 0% so every score gets a letter." });
+  }
+}).transform((scale) => [...scale].sort((a, b) => b.minPercent - a.minPercent));
+
+// How far a student can slip before they're flagged; null turns a rule off
+export const riskThresholdsSchema = z.object({
+  missingWork: z.number().int().min(1).max(50).nullable(), // Assignments past due and not handed in
+  gradeDrop: z.number().int().min(1).max(100).nullable(), // Percentage points recent grades are below earlier ones
+  inactiveDays: z.number().int().min(1).max(365).nullable(), // Days without opening content or handing anything in
+  behindClass: z.number().int().min(1).max(100).nullable(), // Percentage points of progress below the class median
+});
+
+export const riskFlagStatusSchema = z.enum(["open", "acted", "dismissed", "cleared"]);
+
+export const insertRiskFlagSchema = createInsertSchema(riskFlags).omit({
+  id: true,
+  status: true,
+  raisedAt: true,
+  checkedAt: true,
+});
+
+export const insertRiskFlagEventSchema = createInsertSchema(riskFlagEvents).omit({
+  id: true,
+  at: true,
+});
+
+// A rubric row: what is being judged, with the performance levels to pick from
+export const rubricCriterionSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().trim().min(1, "Every criterion needs a title."),
+  description: z.string().nullable().optional(),
+  levels: z.array(z.object({
+    id: z.string().min(1),
+    title: z.string().trim().min(1, "Every level needs a title."),
+    description: z.string().nullable().optional(),
+    points: z.number().int().min(0),
+  })).min(1, "Every criterion needs at least one level."),
+});
+
+export const insertRubricSchema = createInsertSchema(rubrics).omit({
+  id: true,
+}).extend({
+  title: z.string().trim().min(1, "Rubric title cannot be empty."),
+  criteria: z.array(rubricCriterionSchema).min(1, "A rubric needs at least one criterion."),
+});
+
+const quizQuestionBase = z.object({
+  id: z.string().min(1),
+  prompt: z.string().trim().min(1, "Every question needs a prompt."),
+  points: z.number().int().min(0),
+});
+
+const quizOptionsSchema = z.array(z.object({
+  id: z.string().min(1),
+  text: z.string().trim().min(1, "Every option needs text."),
+})).min(2, "Choice questions need at least two options.");
+
+export const quizQuestionSchema = z.discriminatedUnion("type", [
+  quizQuestionBase.extend({
+    type: z.literal("multiple-choice"),
+    options: quizOptionsSchema,
+    correctOptionId: z.string().min(1, "Pick the correct option."),
+  }),
+  quizQuestionBase.extend({
+    type: z.literal("multiple-select"), // All or nothing: every correct option and no other
+    options: quizOptionsSchema,
+    correctOptionIds: z.array(z.string()).min(1, "Pick at least one correct option."),
+  }),
+  quizQuestionBase.extend({
+    type: z.literal("true-false"),
+    correct: z.boolean(),
+  }),
+  quizQuestionBase.extend({
+    type: z.literal("numeric"),
+    answer: z.number(),
+    tolerance: z.number().min(0).default(0), // Answers within this distance count
+  }),
+  quizQuestionBase.extend({
+    type: z.literal("short-answer"),
+    // Case-insensitive; * matches anything. Answers matching none go to the teacher.
+    acceptedAnswers: z.array(z.string().trim().min(1)),
+  }),
+]);
+
+/**
+ * Adds an issue for a choice question whose correct answer isn't one of its
+ * options.
+ */
+function refineQuizQuestion(question: QuizQuestion, ctx: z.RefinementCtx, path: (string | number)[]) {
+  if (question.type !== "multiple-choice" && question.type !== "multiple-select") return;
+  const optionIds = question.options.map((option) => option.id);
+  const correct = question.type === "multiple-choice" ? [question.correctOptionId] : question.correctOptionIds;
+  if (!correct.every((id) => optionIds.includes(id))) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: "The correct answer must be one of the options." });
+  }
+}
+
+export const questionDifficultySchema = z.enum(["easy", "medium", "hard"]);
+
+export const questionTagsSchema = z.array(z.string().trim().toLowerCase().min(1)).default([]);
+
+// "Draw 5 questions from bank 3 tagged 'loops'"; a question must have every tag given
+export const quizDrawSchema = z.object({
+  bankId: z.number().int(),
+  count: z.number().int().positive(),
+  tags: questionTagsSchema,
+  difficulty: questionDifficultySchema.nullable().default(null), // null = any
+  points: z.number().int().min(0), // What each drawn question is worth, whatever the bank says
+});
+
+export const quizSettingsSchema = z.object({
+  timeLimitMinutes: z.number().int().positive().nullable().default(null),
+  maxAttempts: z.number().int().positive().nullable().default(null),
+  shuffleQuestions: z.boolean().default(false),
+  shuffleOptions: z.boolean().default(false),
+});
+
+export const insertQuizSchema = quizSettingsSchema.extend({
+  questions: z.array(quizQuestionSchema),
+  draws: z.array(quizDrawSchema).default([]),
+}).superRefine(({ questions, draws }, ctx) => {
+  if (questions.length === 0 && draws.length === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["questions"], message: "A quiz needs at least one question." });
+  }
+  const ids = new Set<string>();
+  questions.forEach((question, index) => {
+    if (ids.has(question.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["questions", index, "id"], message: "Question ids must be unique." });
+    }
+    ids.add(question.id);
+    refineQuizQuestion(question, ctx, ["questions", index]);
+  });
+});
+
+export const insertQuestionBankSchema = createInsertSchema(questionBanks).omit({
+  id: true,
+}).extend({
+  title: z.string().trim().min(1, "Question bank title cannot be empty."),
 });
 
+// The bank comes from the URL
+export const insertBankQuestionSchema = createInsertSchema(bankQuestions).omit({
+  id: true,
+  bankId: true,
+}).extend({
+  question: quizQuestionSchema,
+  tags: questionTagsSchema,
+  difficulty: questionDifficultySchema.nullable().default(null),
+}).superRefine(({ question }, ctx) => refineQuizQuestion(question, ctx, ["question"]));
+
+// A student's answer: an option id, option ids, true/false, a number or text
+export const quizAnswerSchema = z.union([z.string(), z.array(z.string()), z.boolean(), z.number()]);
+export const quizAnswersSchema = z.record(quizAnswerSchema);
+
 export const insertEnrollmentSchema = createInsertSchema(enrollments).omit({
   id: true,
   enrolledAt: true,
 });
 
+export const insertContentProgressSchema = createInsertSchema(contentProgress).omit({
+  id: true,
+});
+
+export const insertUploadSchema = createInsertSchema(uploads).omit({
+  id: true,
+  createdAt: true,
+});
+
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type PublicUser = z.infer<typeof selectUserSchema>;
+export type ChangePassword = z.infer<typeof changePasswordSchema>;
 
 export type Course = typeof courses.$inferSelect;
 export type InsertCourse = z.infer<typeof insertCourseSchema>;
+// A course as seen by an enrolled student, with their enrollment details
+export type StudentCourse = Course & Pick<Enrollment, "progress" | "enrolledAt">;
+
+export type Module = typeof modules.$inferSelect;
+export type InsertModule = z.infer<typeof insertModuleSchema>;
 
 export type Content = typeof content.$inferSelect;
 export type InsertContent = z.infer<typeof insertContentSchema>;
 
+// Course page payload. Items whose moduleId is null are listed after the modules.
+export type CourseWithContent = Course & { modules: Module[]; content: Content[] };
+
+// New module order and placement of every content item, as sent by the outline editor
+export const courseOutlineSchema = z.object({
+  modules: z.array(z.object({
+    id: z.number().int(),
+    contentIds: z.array(z.number().int()),
+  })),
+  unassigned: z.array(z.number().int()),
+});
+export type CourseOutlineUpdate = z.infer<typeof courseOutlineSchema>;
+
+export type GradeCategory = typeof gradeCategories.$inferSelect;
+export type InsertGradeCategory = z.infer<typeof insertGradeCategorySchema>;
+export type GradeScale = z.infer<typeof gradeScaleSchema>;
+
+export type RiskThresholds = z.infer<typeof riskThresholdsSchema>;
+export type RiskFlag = typeof riskFlags.$inferSelect;
+export type InsertRiskFlag = z.infer<typeof insertRiskFlagSchema>;
+export type RiskFlagStatus = z.infer<typeof riskFlagStatusSchema>;
+export type RiskFlagEvent = typeof riskFlagEvents.$inferSelect;
+export type InsertRiskFlagEvent = z.infer<typeof insertRiskFlagEventSchema>;
+
 export type Assignment = typeof assignments.$inferSelect;
 export type InsertAssignment = z.infer<typeof insertAssignmentSchema>;
+export type LatePolicy = z.infer<typeof latePolicySchema>;
+
+export type AssignmentType = z.infer<typeof assignmentTypeSchema>;
+
+export type Quiz = typeof quizzes.$inferSelect;
+export type InsertQuiz = z.infer<typeof insertQuizSchema>;
+export type QuizQuestion = z.infer<typeof quizQuestionSchema>;
+export type QuizQuestionType = QuizQuestion["type"];
+export type QuizAnswer = z.infer<typeof quizAnswerSchema>;
+export type QuizAnswers = Record<string, QuizAnswer>;
+export type QuizResults = Record<string, number | null>; // null = awaiting review
+export type QuizAttempt = typeof quizAttempts.$inferSelect;
+export type QuizDraw = z.infer<typeof quizDrawSchema>;
+
+export type QuestionBank = typeof questionBanks.$inferSelect;
+export type InsertQuestionBank = z.infer<typeof insertQuestionBankSchema>;
+export type BankQuestion = typeof bankQuestions.$inferSelect;
+export type InsertBankQuestion = z.infer<typeof insertBankQuestionSchema>;
+export type QuestionDifficulty = z.infer<typeof questionDifficultySchema>;
+
+export type AssignmentExtension = typeof assignmentExtensions.$inferSelect;
+export type InsertAssignmentExtension = z.infer<typeof insertAssignmentExtensionSchema>;
+
+export type Rubric = typeof rubrics.$inferSelect;
+export type InsertRubric = z.infer<typeof insertRubricSchema>;
+export type RubricCriterion = z.infer<typeof rubricCriterionSchema>;
+export type RubricLevel = RubricCriterion["levels"][number];
+// Criterion id -> id of the level picked for it
+export type RubricScores = Record<string, string>;
 
 export type Submission = typeof submissions.$inferSelect;
 export type InsertSubmission = z.infer<typeof insertSubmissionSchema>;
 
+export type SubmissionVersion = typeof submissionVersions.$inferSelect;
+
 export type Enrollment = typeof enrollments.$inferSelect;
 export type InsertEnrollment = z.infer<typeof insertEnrollmentSchema>;
+
+export type ContentProgress = typeof contentProgress.$inferSelect;
+export type InsertContentProgress = z.infer<typeof insertContentProgressSchema>;
+
+export type Upload = typeof uploads.$inferSelect;
+export type InsertUpload = z.infer<typeof insertUploadSchema>;
+// What an upload is attached to; it belongs to at most one content item or assignment
+export type UploadOwner = { contentId: number } | { assignmentId: number };
+// A file already in the blob store, before it has an uploads row
+export type StoredFile = Pick<InsertUpload, "filename" | "mimeType" | "size" | "checksum">;
+// A submission version with the files handed in with it
+export type SubmissionVersionWithFiles = SubmissionVersion & { files: Upload[] };